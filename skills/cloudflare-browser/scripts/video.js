@@ -3,7 +3,8 @@
  * Cloudflare Browser Rendering - Video Capture
  * Usage: node video.js "url1,url2,url3" [output.mp4] [--fps 10] [--scroll]
  * 
- * Captures frames while browsing multiple URLs and creates an MP4 video.
+ * Records a screencast while browsing multiple URLs and creates an MP4 video.
+ * Frames are streamed by Page.startScreencast and timed from their metadata.
  * Requires: ffmpeg installed
  */
 
@@ -39,6 +40,9 @@ fs.mkdirSync(framesDir, { recursive: true });
 
 let messageId = 1;
 const pending = new Map();
+const frames = [];
+
+const sleep = (ms) => new Promise(r => setTimeout(r, ms));
 
 async function main() {
   console.log(`Creating video from ${urls.length} URL(s)`);
@@ -67,6 +71,14 @@ async function main() {
       targetResolve();
     }
     
+    if (msg.method === 'Page.screencastFrame') {
+      const { data, metadata, sessionId } = msg.params;
+      const filename = `frame_${String(frames.length).padStart(5, '0')}.jpg`;
+      fs.writeFileSync(path.join(framesDir, filename), Buffer.from(data, 'base64'));
+      frames.push({ filename, timestamp: metadata.timestamp });
+      ws.send(JSON.stringify({ id: messageId++, method: 'Page.screencastFrameAck', params: { sessionId } }));
+    }
+    
     if (msg.id && pending.has(msg.id)) {
       const { resolve, reject, timeout } = pending.get(msg.id);
       clearTimeout(timeout);
@@ -87,21 +99,24 @@ async function main() {
     new Promise((_, reject) => setTimeout(() => reject(new Error('No target created')), 10000))
   ]);
   
-  let frameNum = 0;
-  
-  async function captureFrames(count, delayMs = 100) {
-    for (let i = 0; i < count; i++) {
-      const { data } = await send('Page.captureScreenshot', { format: 'png' });
-      const filename = `frame_${String(frameNum).padStart(5, '0')}.png`;
-      fs.writeFileSync(path.join(framesDir, filename), Buffer.from(data, 'base64'));
-      frameNum++;
-      await new Promise(r => setTimeout(r, delayMs));
-    }
-  }
-  
   async function scroll() {
     await send('Runtime.evaluate', { expression: 'window.scrollBy(0, 300)' });
-    await new Promise(r => setTimeout(r, 300));
+    await sleep(1300);
+  }
+  
+  // ffmpeg concat list that holds each frame until the next one arrived
+  function writeFrameList() {
+    const lines = [];
+    frames.forEach((frame, i) => {
+      const next = frames[i + 1];
+      const duration = next ? Math.max(next.timestamp - frame.timestamp, 0.001) : 1 / fps;
+      lines.push(`file '${path.join(framesDir, frame.filename)}'`, `duration ${duration.toFixed(3)}`);
+    });
+    // The concat demuxer ignores the last duration unless the file is repeated
+    lines.push(`file '${path.join(framesDir, frames[frames.length - 1].filename)}'`);
+    const listPath = path.join(framesDir, 'frames.txt');
+    fs.writeFileSync(listPath, lines.join('\n') + '\n');
+    return listPath;
   }
   
   try {
@@ -113,30 +128,29 @@ async function main() {
       mobile: false
     });
     
+    await send('Page.startScreencast', { format: 'jpeg', quality: 80, maxWidth: 1280, maxHeight: 720 });
+    
     for (const url of urls) {
       console.log(`→ ${url}`);
       await send('Page.navigate', { url });
-      await new Promise(r => setTimeout(r, 4000));
-      
-      // Capture frames on page
-      await captureFrames(15);
+      await sleep(5500);
       
       if (doScroll) {
         await scroll();
-        await captureFrames(10);
         await scroll();
-        await captureFrames(10);
       }
     }
     
+    await send('Page.stopScreencast');
     ws.close();
-    console.log(`\n✓ Captured ${frameNum} frames`);
+    console.log(`\n✓ Captured ${frames.length} frames`);
+    if (frames.length === 0) throw new Error('No screencast frames received');
     
-    // Stitch with ffmpeg
+    // Stitch with ffmpeg, resampling the variable-rate stream to a constant fps
     console.log('Encoding video...');
     const outputPath = path.resolve(output);
     execSync(
-      `ffmpeg -y -framerate ${fps} -i "${framesDir}/frame_%05d.png" -c:v libx264 -pix_fmt yuv420p -preset fast -crf 23 "${outputPath}"`,
+      `ffmpeg -y -f concat -safe 0 -i "${writeFrameList()}" -vf "fps=${fps},scale=trunc(iw/2)*2:trunc(ih/2)*2" -c:v libx264 -pix_fmt yuv420p -preset fast -crf 23 "${outputPath}"`,
       { stdio: 'pipe' }
     );
     
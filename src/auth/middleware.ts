@@ -1,7 +1,10 @@
 import type { Context, Next } from 'hono';
 import type { AppEnv, OpenClawEnv } from '../types';
+import { createLogger } from '../logger';
 import { verifyAccessJWT } from './jwt';
 
+const logger = createLogger('auth');
+
 /**
  * Options for creating an access middleware
  */
@@ -99,10 +102,10 @@ export function createAccessMiddleware(options: AccessMiddlewareOptions) {
     // Verify JWT
     try {
       const payload = await verifyAccessJWT(jwt, teamDomain, expectedAud);
-      c.set('accessUser', { email: payload.email, name: payload.name });
+      c.set('accessUser', { email: payload.email, name: payload.name, sub: payload.sub });
       await next();
     } catch (err) {
-      console.error('Access JWT verification failed:', err);
+      logger.warn('Access JWT verification failed', { error: err });
       
       if (type === 'json') {
         return c.json({
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deleteDownload,
+  getDownloadBody,
+  getDownloadInfo,
+  getSuggestedFilename,
+  isDownloadResponse,
+  listDownloads,
+  saveDownload,
+  type DownloadInfo,
+} from './downloads';
+import { createMockBucket } from '../test-utils';
+
+function download(guid: string, tokenId: string | null, createdAt: string): DownloadInfo {
+  return {
+    guid,
+    tokenId,
+    url: `https://example.com/${guid}.csv`,
+    suggestedFilename: `${guid}.csv`,
+    mimeType: 'text/csv',
+    size: 3,
+    createdAt,
+  };
+}
+
+describe('isDownloadResponse', () => {
+  it('treats attachments as downloads for any request', () => {
+    expect(isDownloadResponse({ 'content-disposition': 'attachment; filename="a.txt"', 'content-type': 'text/plain' }, false))
+      .toBe(true);
+    expect(isDownloadResponse({ 'content-disposition': 'inline', 'content-type': 'text/csv' }, false)).toBe(false);
+  });
+
+  it('treats navigations to content the browser cannot render as downloads', () => {
+    expect(isDownloadResponse({ 'content-type': 'application/pdf' }, true)).toBe(true);
+    expect(isDownloadResponse({ 'content-type': 'text/csv; charset=utf-8' }, true)).toBe(true);
+    expect(isDownloadResponse({ 'content-type': 'text/html; charset=utf-8' }, true)).toBe(false);
+    expect(isDownloadResponse({ 'content-type': 'image/png' }, true)).toBe(false);
+    expect(isDownloadResponse({}, true)).toBe(false);
+  });
+});
+
+describe('getSuggestedFilename', () => {
+  it('prefers the Content-Disposition file name', () => {
+    expect(getSuggestedFilename('https://example.com/x', { 'content-disposition': 'attachment; filename="report 2025.csv"' }))
+      .toBe('report 2025.csv');
+    expect(getSuggestedFilename('https://example.com/x', {
+      'content-disposition': "attachment; filename=fallback.csv; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf",
+    })).toBe('résumé.pdf');
+  });
+
+  it('falls back to the URL path, then a generic name', () => {
+    expect(getSuggestedFilename('https://example.com/files/data%20set.zip?v=2', {})).toBe('data set.zip');
+    expect(getSuggestedFilename('https://example.com/', {})).toBe('download');
+  });
+
+  it('strips path separators and leading dots', () => {
+    expect(getSuggestedFilename('https://example.com/x', { 'content-disposition': 'attachment; filename="../../etc/passwd"' }))
+      .toBe('_.._etc_passwd');
+  });
+});
+
+describe('download storage', () => {
+  it('saves, lists by token and deletes downloads', async () => {
+    const { bucket } = createMockBucket();
+    await saveDownload(bucket, download('older', 'token-1', '2025-01-01T00:00:00.000Z'), new TextEncoder().encode('a,b'));
+    await saveDownload(bucket, download('newer', 'token-1', '2025-01-02T00:00:00.000Z'), new TextEncoder().encode('c,d'));
+    await saveDownload(bucket, download('other', 'token-2', '2025-01-03T00:00:00.000Z'), new TextEncoder().encode('e,f'));
+
+    expect((await listDownloads(bucket)).map(d => d.guid)).toEqual(['other', 'newer', 'older']);
+    expect((await listDownloads(bucket, 'token-1')).map(d => d.guid)).toEqual(['newer', 'older']);
+    expect((await getDownloadInfo(bucket, 'older'))?.suggestedFilename).toBe('older.csv');
+    expect(await (await getDownloadBody(bucket, 'older'))?.text()).toBe('a,b');
+
+    expect(await deleteDownload(bucket, 'older')).toBe(true);
+    expect(await deleteDownload(bucket, 'older')).toBe(false);
+    expect(await getDownloadBody(bucket, 'older')).toBeNull();
+  });
+
+  it('rejects guids that are not path-safe', async () => {
+    const { bucket } = createMockBucket();
+    expect(await getDownloadInfo(bucket, '../manifest')).toBeNull();
+    expect(await deleteDownload(bucket, 'a/b')).toBe(false);
+  });
+});
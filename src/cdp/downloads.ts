@@ -0,0 +1,139 @@
+import { WORKER_STATE_PREFIX } from '../config';
+
+const DOWNLOAD_PREFIX = `${WORKER_STATE_PREFIX}cdp-downloads/`;
+
+const INFO_FILE = 'download.json';
+const BODY_FILE = 'file';
+
+// Content types a browser displays instead of downloading
+const RENDERABLE_MIME_TYPE = /^(text\/(html|plain|css|javascript|xml)|image\/|application\/(xhtml\+xml|xml|json|javascript))/;
+
+/**
+ * A file downloaded by a CDP session
+ */
+export interface DownloadInfo {
+  guid: string;
+  tokenId: string | null;
+  url: string;
+  suggestedFilename: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+/**
+ * Whether a response would be saved as a download rather than displayed
+ *
+ * Any response with `Content-Disposition: attachment` is a download; a navigation
+ * is also one when the browser can't render its content type (PDFs, CSVs, archives).
+ */
+export function isDownloadResponse(headers: Record<string, string>, isNavigation: boolean): boolean {
+  if (/^\s*attachment\b/i.test(headers['content-disposition'] || '')) return true;
+  if (!isNavigation) return false;
+
+  const mimeType = (headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  return mimeType !== '' && !RENDERABLE_MIME_TYPE.test(mimeType);
+}
+
+/**
+ * Pick a file name for a download from Content-Disposition, else the URL path
+ */
+export function getSuggestedFilename(url: string, headers: Record<string, string>): string {
+  const disposition = headers['content-disposition'] || '';
+  let name = '';
+
+  const extended = disposition.match(/filename\*\s*=\s*(?:UTF-8|utf-8)?''([^;]+)/);
+  if (extended) {
+    try {
+      name = decodeURIComponent(extended[1].trim());
+    } catch {
+      name = extended[1].trim();
+    }
+  }
+  if (!name) {
+    name = disposition.match(/filename\s*=\s*"([^"]*)"/)?.[1] ?? disposition.match(/filename\s*=\s*([^;]+)/)?.[1]?.trim() ?? '';
+  }
+  if (!name) {
+    try {
+      name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+    } catch {
+      name = '';
+    }
+  }
+
+  // Never let a server-chosen name contain a path
+  name = name.replace(/[/\\]/g, '_').replace(/^\.+/, '').trim();
+  return name || 'download';
+}
+
+function isValidGuid(guid: string): boolean {
+  return /^[\w-]+$/.test(guid);
+}
+
+/**
+ * Store a downloaded file and its metadata in R2
+ */
+export async function saveDownload(bucket: R2Bucket, info: DownloadInfo, body: Uint8Array): Promise<void> {
+  const prefix = `${DOWNLOAD_PREFIX}${info.guid}/`;
+  await bucket.put(`${prefix}${BODY_FILE}`, body, {
+    httpMetadata: { contentType: info.mimeType || 'application/octet-stream' },
+  });
+  await bucket.put(`${prefix}${INFO_FILE}`, JSON.stringify(info), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+/**
+ * List stored downloads, newest first
+ *
+ * @param tokenId - Only downloads made with this token (null for CDP_SECRET sessions); omit for all
+ */
+export async function listDownloads(bucket: R2Bucket, tokenId?: string | null): Promise<DownloadInfo[]> {
+  const downloads: DownloadInfo[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix: DOWNLOAD_PREFIX, delimiter: '/', cursor });
+    for (const prefix of listed.delimitedPrefixes) {
+      const object = await bucket.get(`${prefix}${INFO_FILE}`);
+      if (!object) continue;
+      const info = await object.json<DownloadInfo>();
+      if (tokenId === undefined || info.tokenId === tokenId) downloads.push(info);
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return downloads.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Get a stored download's metadata
+ *
+ * @returns The metadata, or null if there is no such download
+ */
+export async function getDownloadInfo(bucket: R2Bucket, guid: string): Promise<DownloadInfo | null> {
+  if (!isValidGuid(guid)) return null;
+  const object = await bucket.get(`${DOWNLOAD_PREFIX}${guid}/${INFO_FILE}`);
+  return object ? object.json<DownloadInfo>() : null;
+}
+
+/**
+ * Get a stored download's file
+ */
+export async function getDownloadBody(bucket: R2Bucket, guid: string): Promise<R2ObjectBody | null> {
+  if (!isValidGuid(guid)) return null;
+  return bucket.get(`${DOWNLOAD_PREFIX}${guid}/${BODY_FILE}`);
+}
+
+/**
+ * Delete a stored download
+ *
+ * @returns Whether it existed
+ */
+export async function deleteDownload(bucket: R2Bucket, guid: string): Promise<boolean> {
+  if (!isValidGuid(guid)) return false;
+  const prefix = `${DOWNLOAD_PREFIX}${guid}/`;
+  if (!(await bucket.head(`${prefix}${INFO_FILE}`))) return false;
+  await bucket.delete([`${prefix}${BODY_FILE}`, `${prefix}${INFO_FILE}`]);
+  return true;
+}
@@ -0,0 +1,87 @@
+export {
+  FULL_CDP_GRANT,
+  createDebuggerUrlToken,
+  getCdpTokenRecord,
+  isMethodAllowed,
+  listCdpTokens,
+  mintCdpToken,
+  normalizeCdpTokenScope,
+  recordCdpTokenUse,
+  revokeCdpToken,
+  verifyCdpToken,
+  type CdpGrant,
+  type CdpTokenRecord,
+  type CdpTokenScope,
+} from './tokens';
+export {
+  checkNavigation,
+  getBlockedNavigations,
+  getNavigationPolicy,
+  isPrivateHost,
+  matchesHost,
+  recordBlockedNavigations,
+  type BlockedNavigation,
+  type NavigationPolicy,
+  type NavigationVerdict,
+} from './policy';
+export {
+  acquireBrowser,
+  getBrowserPoolStats,
+  getPoolIdleSeconds,
+  releaseBrowser,
+  type BrowserLauncher,
+  type BrowserPoolStats,
+} from './pool';
+export {
+  buildHar,
+  createRecording,
+  deleteRecording,
+  getRecordingFile,
+  listRecordings,
+  pruneRecordings,
+  recordConsoleMessage,
+  recordNavigation,
+  recordPageTiming,
+  recordRequest,
+  recordRequestFailed,
+  recordRequestFinished,
+  recordResponse,
+  recordScreenshot,
+  saveRecording,
+  type RecordingSummary,
+  type SessionRecording,
+} from './recording';
+export {
+  countActiveBrowserSessions,
+  getCdpSessionLimits,
+  getCdpSessionStats,
+  trackLimitRejection,
+  trackSessionClosed,
+  trackSessionOpened,
+  type CdpCloseReason,
+  type CdpSessionLimits,
+  type CdpSessionStats,
+} from './limits';
+export {
+  deleteDownload,
+  getDownloadBody,
+  getDownloadInfo,
+  getSuggestedFilename,
+  isDownloadResponse,
+  listDownloads,
+  saveDownload,
+  type DownloadInfo,
+} from './downloads';
+export {
+  createProfile,
+  deleteProfile,
+  isValidProfileName,
+  listProfiles,
+  loadProfile,
+  saveProfile,
+  summarizeProfile,
+  updateProfile,
+  type BrowserProfile,
+  type ProfileCookie,
+  type ProfileSummary,
+} from './profiles';
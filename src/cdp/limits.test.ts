@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ActiveSession } from '@cloudflare/puppeteer';
+import {
+  countActiveBrowserSessions,
+  getCdpSessionLimits,
+  getCdpSessionStats,
+  resetCdpSessionCounters,
+  trackLimitRejection,
+  trackSessionClosed,
+  trackSessionOpened,
+} from './limits';
+import type { BrowserLauncher } from './pool';
+import { createMockEnv, suppressConsole } from '../test-utils';
+
+function createLauncher(sessions: Partial<ActiveSession>[]) {
+  return {
+    launch: vi.fn(),
+    connect: vi.fn(),
+    sessions: vi.fn().mockResolvedValue(sessions),
+  } as unknown as BrowserLauncher;
+}
+
+describe('getCdpSessionLimits', () => {
+  it('uses defaults when nothing is configured', () => {
+    expect(getCdpSessionLimits(createMockEnv())).toEqual({
+      maxSessionSeconds: 3600,
+      idleTimeoutSeconds: 0,
+      maxTargets: 10,
+      maxMessageBytes: 0,
+      maxConcurrentSessions: 10,
+      maxScreenshotPixels: 4096 * 4096,
+    });
+  });
+
+  it('reads env overrides and allows 0 to disable a limit', () => {
+    const limits = getCdpSessionLimits(createMockEnv({
+      CDP_IDLE_TIMEOUT_SECONDS: '300',
+      CDP_MAX_TARGETS: '0',
+      CDP_MAX_MESSAGE_BYTES: 'lots',
+    }));
+
+    expect(limits.idleTimeoutSeconds).toBe(300);
+    expect(limits.maxTargets).toBe(0);
+    expect(limits.maxMessageBytes).toBe(0);
+  });
+
+  it('lets a token shorten the session lifetime but not extend it', () => {
+    const env = createMockEnv({ CDP_MAX_SESSION_SECONDS: '600' });
+
+    expect(getCdpSessionLimits(env, { maxSessionSeconds: 60 }).maxSessionSeconds).toBe(60);
+    expect(getCdpSessionLimits(env, { maxSessionSeconds: 7200 }).maxSessionSeconds).toBe(600);
+    expect(getCdpSessionLimits(createMockEnv({ CDP_MAX_SESSION_SECONDS: '0' }), { maxSessionSeconds: 7200 }).maxSessionSeconds)
+      .toBe(7200);
+  });
+});
+
+describe('countActiveBrowserSessions', () => {
+  it('counts only sessions with a client connected', async () => {
+    const launcher = createLauncher([
+      { sessionId: 'a', connectionId: 'conn-a' },
+      { sessionId: 'b' },
+      { sessionId: 'c', connectionId: 'conn-c' },
+    ]);
+
+    expect(await countActiveBrowserSessions(launcher, createMockEnv({ BROWSER: {} as Fetcher }))).toBe(2);
+  });
+});
+
+describe('getCdpSessionStats', () => {
+  beforeEach(() => {
+    suppressConsole();
+    resetCdpSessionCounters();
+  });
+
+  it('reports counters for opened, closed and rejected sessions', async () => {
+    trackSessionOpened();
+    trackSessionOpened();
+    trackSessionClosed('idle');
+    trackLimitRejection('targets');
+
+    const stats = await getCdpSessionStats(createLauncher([]), createMockEnv());
+    expect(stats.counters).toEqual({
+      opened: 2,
+      active: 1,
+      closed: { client: 0, lifetime: 0, idle: 1, error: 0 },
+      rejected: { concurrency: 0, targets: 1, messageSize: 0, screenshotSize: 0 },
+    });
+    expect(stats.activeBrowserSessions).toBeNull();
+  });
+
+  it('reports null active sessions when listing fails', async () => {
+    const launcher = createLauncher([]);
+    vi.mocked(launcher.sessions).mockRejectedValue(new Error('rate limited'));
+
+    const stats = await getCdpSessionStats(launcher, createMockEnv({ BROWSER: {} as Fetcher }));
+    expect(stats.activeBrowserSessions).toBeNull();
+  });
+});
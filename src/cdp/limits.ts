@@ -0,0 +1,151 @@
+import type { OpenClawEnv } from '../types';
+import {
+  DEFAULT_CDP_IDLE_TIMEOUT_SECONDS,
+  DEFAULT_CDP_MAX_CONCURRENT_SESSIONS,
+  DEFAULT_CDP_MAX_MESSAGE_BYTES,
+  DEFAULT_CDP_MAX_SCREENSHOT_PIXELS,
+  DEFAULT_CDP_MAX_SESSION_SECONDS,
+  DEFAULT_CDP_MAX_TARGETS,
+} from '../config';
+import { createLogger } from '../logger';
+import type { BrowserLauncher } from './pool';
+import type { CdpTokenScope } from './tokens';
+
+/**
+ * Resource limits for one CDP WebSocket session (0 means no limit)
+ */
+export interface CdpSessionLimits {
+  maxSessionSeconds: number;
+  idleTimeoutSeconds: number;
+  maxTargets: number;
+  maxMessageBytes: number;
+  maxConcurrentSessions: number;
+  /** Largest screenshot clip or viewport, in device pixels (width x height x scale²) */
+  maxScreenshotPixels: number;
+}
+
+/**
+ * Why a CDP session ended ('error' when setting it up failed)
+ */
+export type CdpCloseReason = 'client' | 'lifetime' | 'idle' | 'error';
+
+/**
+ * A request refused because it would exceed a limit
+ */
+export type CdpLimitRejection = 'concurrency' | 'targets' | 'messageSize' | 'screenshotSize';
+
+/**
+ * Session counters for this isolate
+ *
+ * Each Worker isolate keeps its own, in memory: they cover only the sessions
+ * that isolate served and start over when it is evicted.
+ */
+export interface CdpSessionCounters {
+  opened: number;
+  active: number;
+  closed: Record<CdpCloseReason, number>;
+  rejected: Record<CdpLimitRejection, number>;
+}
+
+/**
+ * Session limits and counters reported to admins
+ */
+export interface CdpSessionStats {
+  limits: CdpSessionLimits;
+  counters: CdpSessionCounters;
+  /** Browser Rendering sessions with a client connected, across all isolates (null if unavailable) */
+  activeBrowserSessions: number | null;
+}
+
+const logger = createLogger('cdp-limits');
+
+// Per isolate, not shared: activeBrowserSessions is the account-wide figure
+const counters: CdpSessionCounters = {
+  opened: 0,
+  active: 0,
+  closed: { client: 0, lifetime: 0, idle: 0, error: 0 },
+  rejected: { concurrency: 0, targets: 0, messageSize: 0, screenshotSize: 0 },
+};
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  if (value === undefined || value === '') return fallback;
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit >= 0 ? Math.floor(limit) : fallback;
+}
+
+/**
+ * Read the session limits from env (CDP_MAX_SESSION_SECONDS, CDP_IDLE_TIMEOUT_SECONDS,
+ * CDP_MAX_TARGETS, CDP_MAX_MESSAGE_BYTES, CDP_MAX_CONCURRENT_SESSIONS, CDP_MAX_SCREENSHOT_PIXELS)
+ *
+ * A token's maxSessionSeconds can shorten the session lifetime but not extend it.
+ */
+export function getCdpSessionLimits(env: OpenClawEnv, scope: CdpTokenScope = {}): CdpSessionLimits {
+  let maxSessionSeconds = parseLimit(env.CDP_MAX_SESSION_SECONDS, DEFAULT_CDP_MAX_SESSION_SECONDS);
+  if (scope.maxSessionSeconds) {
+    maxSessionSeconds = maxSessionSeconds ? Math.min(maxSessionSeconds, scope.maxSessionSeconds) : scope.maxSessionSeconds;
+  }
+
+  return {
+    maxSessionSeconds,
+    idleTimeoutSeconds: parseLimit(env.CDP_IDLE_TIMEOUT_SECONDS, DEFAULT_CDP_IDLE_TIMEOUT_SECONDS),
+    maxTargets: parseLimit(env.CDP_MAX_TARGETS, DEFAULT_CDP_MAX_TARGETS),
+    maxMessageBytes: parseLimit(env.CDP_MAX_MESSAGE_BYTES, DEFAULT_CDP_MAX_MESSAGE_BYTES),
+    maxConcurrentSessions: parseLimit(env.CDP_MAX_CONCURRENT_SESSIONS, DEFAULT_CDP_MAX_CONCURRENT_SESSIONS),
+    maxScreenshotPixels: parseLimit(env.CDP_MAX_SCREENSHOT_PIXELS, DEFAULT_CDP_MAX_SCREENSHOT_PIXELS),
+  };
+}
+
+/**
+ * Count Browser Rendering sessions that have a client connected
+ *
+ * Browser Rendering tracks these for the whole account, so the count covers
+ * every isolate (and REST browser calls in flight), not just this one.
+ */
+export async function countActiveBrowserSessions(launcher: BrowserLauncher, env: OpenClawEnv): Promise<number> {
+  const sessions = await launcher.sessions(env.BROWSER!);
+  return sessions.filter(session => session.connectionId).length;
+}
+
+export function trackSessionOpened(): void {
+  counters.opened += 1;
+  counters.active += 1;
+}
+
+export function trackSessionClosed(reason: CdpCloseReason): void {
+  counters.active = Math.max(0, counters.active - 1);
+  counters.closed[reason] += 1;
+}
+
+export function trackLimitRejection(kind: CdpLimitRejection): void {
+  counters.rejected[kind] += 1;
+}
+
+/**
+ * Report limits, this isolate's counters and the account-wide active session count
+ */
+export async function getCdpSessionStats(launcher: BrowserLauncher, env: OpenClawEnv): Promise<CdpSessionStats> {
+  let activeBrowserSessions: number | null = null;
+  if (env.BROWSER) {
+    try {
+      activeBrowserSessions = await countActiveBrowserSessions(launcher, env);
+    } catch (err) {
+      logger.error('Failed to list sessions', { error: err });
+    }
+  }
+
+  return {
+    limits: getCdpSessionLimits(env),
+    counters: structuredClone(counters),
+    activeBrowserSessions,
+  };
+}
+
+/**
+ * Reset the counters (for tests)
+ */
+export function resetCdpSessionCounters(): void {
+  counters.opened = 0;
+  counters.active = 0;
+  counters.closed = { client: 0, lifetime: 0, idle: 0, error: 0 };
+  counters.rejected = { concurrency: 0, targets: 0, messageSize: 0, screenshotSize: 0 };
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkNavigation,
+  getBlockedNavigations,
+  getNavigationPolicy,
+  isPrivateHost,
+  matchesHost,
+  recordBlockedNavigations,
+  type BlockedNavigation,
+} from './policy';
+import { createMockBucket, createMockEnv } from '../test-utils';
+
+function blocked(url: string): BlockedNavigation {
+  return { at: '2025-01-01T12:00:00.000Z', url, reason: 'test', source: 'Page.navigate', tokenId: null };
+}
+
+describe('getNavigationPolicy', () => {
+  it('blocks private networks and allows web schemes by default', () => {
+    expect(getNavigationPolicy(createMockEnv())).toEqual({
+      allowedHosts: undefined,
+      blockedHosts: [],
+      allowedSchemes: ['http', 'https', 'about', 'data', 'blob'],
+      blockPrivateNetworks: true,
+    });
+  });
+
+  it('reads the deployment policy from env', () => {
+    const env = createMockEnv({
+      CDP_ALLOWED_HOSTS: 'Example.com, *.docs.test',
+      CDP_BLOCKED_HOSTS: 'ads.example.com',
+      CDP_ALLOWED_SCHEMES: 'https',
+      CDP_ALLOW_PRIVATE_NETWORKS: 'true',
+    });
+    expect(getNavigationPolicy(env)).toEqual({
+      allowedHosts: ['example.com', '*.docs.test'],
+      blockedHosts: ['ads.example.com'],
+      allowedSchemes: ['https'],
+      blockPrivateNetworks: false,
+    });
+  });
+
+  it('lets token scopes override the deployment policy', () => {
+    const env = createMockEnv({ CDP_ALLOWED_HOSTS: 'example.com', CDP_BLOCKED_HOSTS: 'ads.test' });
+    const policy = getNavigationPolicy(env, {
+      hosts: ['intranet.test'],
+      blockedHosts: ['tracker.test'],
+      allowPrivateNetworks: true,
+    });
+    expect(policy.allowedHosts).toEqual(['intranet.test']);
+    expect(policy.blockedHosts).toEqual(['ads.test', 'tracker.test']);
+    expect(policy.blockPrivateNetworks).toBe(false);
+  });
+});
+
+describe('matchesHost', () => {
+  it('matches exact hosts and wildcard subdomains', () => {
+    const patterns = ['example.com', '*.docs.test'];
+    expect(matchesHost(patterns, 'example.com')).toBe(true);
+    expect(matchesHost(patterns, 'www.example.com')).toBe(false);
+    expect(matchesHost(patterns, 'api.docs.test')).toBe(true);
+    expect(matchesHost(patterns, 'docs.test')).toBe(true);
+    expect(matchesHost(patterns, 'evildocs.test')).toBe(false);
+  });
+});
+
+describe('isPrivateHost', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '[::1]',
+    '[fd00::1]',
+    '[fe80::1]',
+    '[::ffff:7f00:1]',
+    '[::ffff:169.254.169.254]',
+    'localhost',
+    'api.localhost',
+    'metadata.google.internal',
+  ])('treats %s as private', (host) => {
+    expect(isPrivateHost(host)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '[2606:4700::1111]', 'example.com'])('treats %s as public', (host) => {
+    expect(isPrivateHost(host)).toBe(false);
+  });
+});
+
+describe('checkNavigation', () => {
+  const policy = getNavigationPolicy(createMockEnv({ CDP_BLOCKED_HOSTS: 'ads.example.com' }));
+
+  it('allows public web URLs and about:blank', () => {
+    expect(checkNavigation(policy, 'https://example.com/')).toEqual({ allowed: true });
+    expect(checkNavigation(policy, 'about:blank')).toEqual({ allowed: true });
+  });
+
+  it('blocks disallowed schemes', () => {
+    expect(checkNavigation(policy, 'file:///etc/passwd')).toMatchObject({ allowed: false });
+    expect(checkNavigation(policy, 'chrome://settings')).toMatchObject({ allowed: false });
+  });
+
+  it('blocks private addresses, including obfuscated IPv4 forms', () => {
+    expect(checkNavigation(policy, 'http://169.254.169.254/latest/meta-data/')).toMatchObject({ allowed: false });
+    expect(checkNavigation(policy, 'http://2130706433/')).toMatchObject({ allowed: false });
+    expect(checkNavigation(policy, 'http://0x7f.0.0.1/')).toMatchObject({ allowed: false });
+    expect(checkNavigation(policy, 'http://[::1]:8080/')).toMatchObject({ allowed: false });
+  });
+
+  it('blocks denied hosts and hosts outside the allow list', () => {
+    expect(checkNavigation(policy, 'https://ads.example.com/')).toMatchObject({ allowed: false });
+
+    const allowList = { ...policy, allowedHosts: ['example.com'] };
+    expect(checkNavigation(allowList, 'https://example.com/')).toEqual({ allowed: true });
+    expect(checkNavigation(allowList, 'https://other.test/')).toMatchObject({
+      allowed: false,
+      reason: 'Host other.test is not in the allowed hosts',
+    });
+  });
+
+  it('rejects invalid URLs', () => {
+    expect(checkNavigation(policy, 'not a url')).toEqual({ allowed: false, reason: 'Invalid URL' });
+  });
+});
+
+describe('recordBlockedNavigations', () => {
+  it('keeps the newest entries first', async () => {
+    const { bucket } = createMockBucket();
+
+    await recordBlockedNavigations(bucket, [blocked('http://10.0.0.1/')]);
+    await recordBlockedNavigations(bucket, [blocked('http://10.0.0.2/'), blocked('http://10.0.0.3/')]);
+
+    const entries = await getBlockedNavigations(bucket);
+    expect(entries.map(e => e.url)).toEqual(['http://10.0.0.3/', 'http://10.0.0.2/', 'http://10.0.0.1/']);
+  });
+
+  it('writes a batch once and skips empty ones', async () => {
+    const { bucket } = createMockBucket();
+
+    await recordBlockedNavigations(bucket, Array.from({ length: 20 }, (_, i) => blocked(`http://10.0.0.${i}/`)));
+    await recordBlockedNavigations(bucket, []);
+
+    expect(bucket.put).toHaveBeenCalledTimes(1);
+  });
+
+  it('caps the log length', async () => {
+    const { bucket } = createMockBucket();
+    for (let i = 0; i < 3; i++) {
+      await recordBlockedNavigations(bucket, Array.from({ length: 40 }, (_, j) => blocked(`http://10.0.${i}.${j}/`)));
+    }
+    const entries = await getBlockedNavigations(bucket);
+    expect(entries).toHaveLength(100);
+    expect(entries[0].url).toBe('http://10.0.2.39/');
+  });
+});
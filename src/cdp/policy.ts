@@ -0,0 +1,192 @@
+import type { OpenClawEnv } from '../types';
+import { CDP_BLOCKED_LOG_LIMIT, WORKER_STATE_PREFIX } from '../config';
+import type { CdpTokenScope } from './tokens';
+
+const BLOCKED_LOG_KEY = `${WORKER_STATE_PREFIX}cdp-policy/blocked.json`;
+
+const DEFAULT_ALLOWED_SCHEMES = ['http', 'https', 'about', 'data', 'blob'];
+
+// Hostnames that resolve to the browser host or cloud metadata services
+const INTERNAL_HOSTNAMES = ['localhost', 'metadata.google.internal', 'metadata'];
+const INTERNAL_SUFFIXES = ['.localhost', '.internal', '.local'];
+
+/**
+ * Which URLs the browser may load
+ */
+export interface NavigationPolicy {
+  /** Hostnames pages may load; `*.example.com` matches subdomains. Unset means any host. */
+  allowedHosts?: string[];
+  /** Hostnames that are always refused, even if allowed above */
+  blockedHosts: string[];
+  /** URL schemes without the colon, e.g. `https` */
+  allowedSchemes: string[];
+  /** Refuse loopback, private, link-local and metadata addresses */
+  blockPrivateNetworks: boolean;
+}
+
+export type NavigationVerdict = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * A navigation or request refused by the policy, kept for admins
+ */
+export interface BlockedNavigation {
+  at: string;
+  url: string;
+  reason: string;
+  source: string;
+  tokenId: string | null;
+}
+
+function parseList(value?: string): string[] | undefined {
+  if (!value) return undefined;
+  const items = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+  return items.length ? items : undefined;
+}
+
+/**
+ * Build the navigation policy for a request
+ *
+ * The deployment policy comes from CDP_ALLOWED_HOSTS, CDP_BLOCKED_HOSTS,
+ * CDP_ALLOWED_SCHEMES and CDP_ALLOW_PRIVATE_NETWORKS. A token's `hosts`,
+ * `schemes` and `allowPrivateNetworks` replace the deployment values, and
+ * its `blockedHosts` are added to them.
+ */
+export function getNavigationPolicy(env: OpenClawEnv, scope: CdpTokenScope = {}): NavigationPolicy {
+  return {
+    allowedHosts: scope.hosts ?? parseList(env.CDP_ALLOWED_HOSTS),
+    blockedHosts: [...(parseList(env.CDP_BLOCKED_HOSTS) ?? []), ...(scope.blockedHosts ?? [])],
+    allowedSchemes: scope.schemes ?? parseList(env.CDP_ALLOWED_SCHEMES) ?? DEFAULT_ALLOWED_SCHEMES,
+    blockPrivateNetworks: !(scope.allowPrivateNetworks ?? env.CDP_ALLOW_PRIVATE_NETWORKS === 'true'),
+  };
+}
+
+/**
+ * Check if a hostname matches any pattern (`example.com` or `*.example.com`)
+ */
+export function matchesHost(patterns: string[], hostname: string): boolean {
+  return patterns.some((pattern) => {
+    if (pattern.startsWith('*.')) {
+      return hostname.endsWith(pattern.slice(1)) || hostname === pattern.slice(2);
+    }
+    return hostname === pattern;
+  });
+}
+
+function parseIPv4(hostname: string): number[] | null {
+  const parts = hostname.split('.');
+  if (parts.length !== 4 || !parts.every(p => /^\d{1,3}$/.test(p))) return null;
+  const octets = parts.map(Number);
+  return octets.every(o => o <= 255) ? octets : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || (a === 169 && b === 254) // link-local, cloud metadata
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19)) // benchmarking
+    || a >= 224; // multicast and reserved
+}
+
+function isPrivateIPv6(address: string): boolean {
+  if (address === '::' || address === '::1') return true;
+
+  // IPv4-mapped (::ffff:7f00:1) and IPv4-compatible addresses
+  const mapped = address.match(/^::(?:ffff:)?([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+  const dotted = address.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = parseIPv4(dotted[1]);
+    return octets ? isPrivateIPv4(octets) : true;
+  }
+
+  const first = parseInt(address.split(':')[0] || '0', 16);
+  return (first & 0xfe00) === 0xfc00 // unique local fc00::/7
+    || (first & 0xffc0) === 0xfe80 // link-local fe80::/10
+    || (first & 0xff00) === 0xff00; // multicast
+}
+
+/**
+ * Check if a hostname points at a loopback, private, link-local or metadata address
+ *
+ * Only literal addresses and well-known internal names are recognised; names
+ * are not resolved.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (host.startsWith('[') && host.endsWith(']')) {
+    return isPrivateIPv6(host.slice(1, -1));
+  }
+
+  const octets = parseIPv4(host);
+  if (octets) return isPrivateIPv4(octets);
+
+  return INTERNAL_HOSTNAMES.includes(host) || INTERNAL_SUFFIXES.some(suffix => host.endsWith(suffix));
+}
+
+/**
+ * Check a URL against a navigation policy
+ */
+export function checkNavigation(policy: NavigationPolicy, url: string): NavigationVerdict {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { allowed: false, reason: 'Invalid URL' };
+  }
+
+  const scheme = parsed.protocol.replace(/:$/, '');
+  if (!policy.allowedSchemes.includes(scheme)) {
+    return { allowed: false, reason: `Scheme "${scheme}" is not allowed` };
+  }
+
+  // Hostless URLs (about:blank, data:, blob:) have nothing to check beyond the scheme
+  if (!parsed.hostname) return { allowed: true };
+
+  // WHATWG URL parsing already normalises decimal, octal and hex IPv4 forms
+  const hostname = parsed.hostname.toLowerCase();
+  if (policy.blockPrivateNetworks && isPrivateHost(hostname)) {
+    return { allowed: false, reason: `Private network address ${hostname} is blocked` };
+  }
+  if (matchesHost(policy.blockedHosts, hostname)) {
+    return { allowed: false, reason: `Host ${hostname} is blocked` };
+  }
+  if (policy.allowedHosts && !matchesHost(policy.allowedHosts, hostname)) {
+    return { allowed: false, reason: `Host ${hostname} is not in the allowed hosts` };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Get recently blocked navigations, newest first
+ */
+export async function getBlockedNavigations(bucket: R2Bucket): Promise<BlockedNavigation[]> {
+  const object = await bucket.get(BLOCKED_LOG_KEY);
+  if (!object) return [];
+  return object.json<BlockedNavigation[]>();
+}
+
+/**
+ * Record blocked navigations for admins, oldest first
+ *
+ * Callers collect a session's entries and record them together when it ends,
+ * so a page that keeps requesting a blocked host costs one write, not one per
+ * request. Keeps the newest CDP_BLOCKED_LOG_LIMIT entries. Not atomic: entries
+ * from sessions ending at the same time may occasionally be lost.
+ */
+export async function recordBlockedNavigations(bucket: R2Bucket, entries: BlockedNavigation[]): Promise<void> {
+  if (!entries.length) return;
+  const existing = await getBlockedNavigations(bucket);
+  const updated = [...entries].reverse().concat(existing).slice(0, CDP_BLOCKED_LOG_LIMIT);
+  await bucket.put(BLOCKED_LOG_KEY, JSON.stringify(updated), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
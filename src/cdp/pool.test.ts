@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ActiveSession, Browser } from '@cloudflare/puppeteer';
+import {
+  acquireBrowser,
+  getBrowserPoolStats,
+  getPoolIdleSeconds,
+  releaseBrowser,
+  resetBrowserPoolCounters,
+  type BrowserLauncher,
+} from './pool';
+import { createMockEnv, suppressConsole } from '../test-utils';
+
+function createFakePage(url = 'about:blank') {
+  const client = { send: vi.fn().mockResolvedValue({}), detach: vi.fn().mockResolvedValue(undefined) };
+  return {
+    url: () => url,
+    close: vi.fn().mockResolvedValue(undefined),
+    createCDPSession: vi.fn().mockResolvedValue(client),
+    client,
+  };
+}
+
+function createFakeBrowser(options: { pages?: ReturnType<typeof createFakePage>[]; connected?: boolean } = {}) {
+  const defaultContext = { close: vi.fn() };
+  const extraContext = { close: vi.fn().mockResolvedValue(undefined) };
+  const sessionContext = { close: vi.fn().mockResolvedValue(undefined) };
+  const contexts: unknown[] = [defaultContext, extraContext];
+  const cleanupPage = createFakePage();
+  const browser = {
+    connected: options.connected ?? true,
+    sessionId: () => 'launched-session',
+    defaultBrowserContext: () => defaultContext,
+    browserContexts: () => contexts,
+    createBrowserContext: vi.fn(async () => {
+      contexts.push(sessionContext);
+      return sessionContext;
+    }),
+    pages: vi.fn().mockResolvedValue(options.pages ?? []),
+    newPage: vi.fn().mockResolvedValue(cleanupPage),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+  };
+  return { browser: browser as unknown as Browser, fake: browser, defaultContext, extraContext, sessionContext, cleanupPage };
+}
+
+function createLauncher(sessions: ActiveSession[] = []) {
+  const launched = createFakeBrowser();
+  const connected = createFakeBrowser();
+  const launcher = {
+    sessions: vi.fn().mockResolvedValue(sessions),
+    connect: vi.fn().mockResolvedValue(connected.browser),
+    launch: vi.fn().mockResolvedValue(launched.browser),
+  };
+  return { launcher: launcher as unknown as BrowserLauncher, fake: launcher, launched, connected };
+}
+
+const env = createMockEnv({ BROWSER: {} as Fetcher });
+
+describe('getPoolIdleSeconds', () => {
+  it('defaults to 60 seconds', () => {
+    expect(getPoolIdleSeconds(createMockEnv())).toBe(60);
+  });
+
+  it('caps the idle period at 10 minutes', () => {
+    expect(getPoolIdleSeconds(createMockEnv({ CDP_POOL_IDLE_SECONDS: '3600' }))).toBe(600);
+  });
+
+  it('treats 0 as disabled and ignores garbage', () => {
+    expect(getPoolIdleSeconds(createMockEnv({ CDP_POOL_IDLE_SECONDS: '0' }))).toBe(0);
+    expect(getPoolIdleSeconds(createMockEnv({ CDP_POOL_IDLE_SECONDS: 'soon' }))).toBe(60);
+  });
+});
+
+describe('acquireBrowser', () => {
+  beforeEach(() => {
+    suppressConsole();
+    resetBrowserPoolCounters();
+  });
+
+  it('reuses an idle session', async () => {
+    const { launcher, fake, connected } = createLauncher([
+      { sessionId: 'busy', startTime: 1, connectionId: 'conn-1' },
+      { sessionId: 'idle', startTime: 2 },
+    ]);
+
+    const result = await acquireBrowser(launcher, env);
+
+    expect(result).toEqual({ browser: connected.browser, context: connected.sessionContext, reused: true });
+    expect(fake.connect).toHaveBeenCalledWith(env.BROWSER, 'idle');
+    expect(fake.launch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to launching when connecting fails', async () => {
+    const { launcher, fake, launched } = createLauncher([{ sessionId: 'idle', startTime: 1 }]);
+    fake.connect.mockRejectedValue(new Error('already connected'));
+
+    const result = await acquireBrowser(launcher, env);
+
+    expect(result).toEqual({ browser: launched.browser, context: launched.sessionContext, reused: false });
+    expect(fake.launch).toHaveBeenCalledWith(env.BROWSER, { keep_alive: 60_000 });
+  });
+
+  it('releases the browser when its context cannot be created', async () => {
+    const { launcher, launched } = createLauncher();
+    launched.fake.createBrowserContext.mockRejectedValue(new Error('target crashed'));
+
+    await expect(acquireBrowser(launcher, env)).rejects.toThrow('target crashed');
+    expect(launched.fake.disconnect).toHaveBeenCalled();
+  });
+
+  it('launches without keep-alive when pooling is disabled', async () => {
+    const { launcher, fake } = createLauncher([{ sessionId: 'idle', startTime: 1 }]);
+    const disabled = createMockEnv({ BROWSER: {} as Fetcher, CDP_POOL_IDLE_SECONDS: '0' });
+
+    await acquireBrowser(launcher, disabled);
+
+    expect(fake.sessions).not.toHaveBeenCalled();
+    expect(fake.launch).toHaveBeenCalledWith(disabled.BROWSER, undefined);
+  });
+});
+
+describe('releaseBrowser', () => {
+  beforeEach(() => {
+    suppressConsole();
+    resetBrowserPoolCounters();
+  });
+
+  it('resets and disconnects the browser so it stays in the pool', async () => {
+    const page = createFakePage('https://example.com/account');
+    const { browser, fake, defaultContext, extraContext, cleanupPage } = createFakeBrowser({ pages: [page] });
+
+    await releaseBrowser(browser, env);
+
+    expect(extraContext.close).toHaveBeenCalled();
+    expect(defaultContext.close).not.toHaveBeenCalled();
+    expect(cleanupPage.client.send).toHaveBeenCalledWith('Network.clearBrowserCookies');
+    expect(cleanupPage.client.send).toHaveBeenCalledWith('Storage.clearDataForOrigin', {
+      origin: 'https://example.com',
+      storageTypes: 'all',
+    });
+    expect(page.close).toHaveBeenCalled();
+    expect(cleanupPage.close).toHaveBeenCalled();
+    expect(fake.disconnect).toHaveBeenCalled();
+    expect(fake.close).not.toHaveBeenCalled();
+  });
+
+  it('clears storage of origins a page navigated away from', async () => {
+    const { launcher, launched } = createLauncher();
+    const { browser, context } = await acquireBrowser(launcher, env);
+    // The client's page went from the site it logged in to elsewhere; only its last origin is visible
+    launched.fake.pages.mockResolvedValue([createFakePage('https://elsewhere.test/')]);
+
+    await releaseBrowser(browser, env);
+
+    expect(context).toBe(launched.sessionContext);
+    expect(launched.sessionContext.close).toHaveBeenCalled();
+    expect(launched.fake.disconnect).toHaveBeenCalled();
+  });
+
+  it('closes the browser when the reset fails', async () => {
+    const { browser, fake } = createFakeBrowser();
+    fake.newPage.mockRejectedValue(new Error('target crashed'));
+
+    await releaseBrowser(browser, env);
+
+    expect(fake.disconnect).not.toHaveBeenCalled();
+    expect(fake.close).toHaveBeenCalled();
+  });
+
+  it('closes the browser when pooling is disabled', async () => {
+    const { browser, fake } = createFakeBrowser();
+
+    await releaseBrowser(browser, createMockEnv({ CDP_POOL_IDLE_SECONDS: '0' }));
+
+    expect(fake.close).toHaveBeenCalled();
+  });
+});
+
+describe('getBrowserPoolStats', () => {
+  beforeEach(() => {
+    suppressConsole();
+    resetBrowserPoolCounters();
+  });
+
+  it('reports sessions and the hit rate', async () => {
+    const { launcher, fake } = createLauncher([{ sessionId: 'idle', startTime: 1 }]);
+    await acquireBrowser(launcher, env);
+    fake.sessions.mockResolvedValue([]);
+    await acquireBrowser(launcher, env);
+
+    fake.sessions.mockResolvedValue([
+      { sessionId: 'a', startTime: 1, connectionId: 'conn-1' },
+      { sessionId: 'b', startTime: 2 },
+    ]);
+    const stats = await getBrowserPoolStats(launcher, env);
+
+    expect(stats).toMatchObject({
+      enabled: true,
+      idleTimeoutSeconds: 60,
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+      sessions: { total: 2, idle: 1, inUse: 1 },
+    });
+  });
+
+  it('has no hit rate before any lookups', async () => {
+    const { launcher } = createLauncher();
+    expect((await getBrowserPoolStats(launcher, env)).hitRate).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+import type { ActiveSession, Browser, BrowserContext, PuppeteerWorkers } from '@cloudflare/puppeteer';
+import type { OpenClawEnv } from '../types';
+import { CDP_POOL_MAX_IDLE_SECONDS, DEFAULT_CDP_POOL_IDLE_SECONDS } from '../config';
+import { createLogger } from '../logger';
+
+// Idle sessions tried before giving up and launching a new one (another isolate may grab the same one)
+const MAX_CONNECT_ATTEMPTS = 3;
+
+const logger = createLogger('cdp-pool');
+
+/**
+ * The parts of the Puppeteer Workers API the pool needs (injectable for tests)
+ */
+export type BrowserLauncher = Pick<PuppeteerWorkers, 'launch' | 'connect' | 'sessions'>;
+
+/**
+ * Pool counters for this isolate
+ */
+export interface BrowserPoolCounters {
+  hits: number;
+  misses: number;
+  released: number;
+  discarded: number;
+}
+
+/**
+ * Pool status reported to admins
+ */
+export interface BrowserPoolStats extends BrowserPoolCounters {
+  enabled: boolean;
+  idleTimeoutSeconds: number;
+  hitRate: number | null;
+  sessions: { total: number; idle: number; inUse: number };
+}
+
+const counters: BrowserPoolCounters = { hits: 0, misses: 0, released: 0, discarded: 0 };
+
+/**
+ * How long an idle browser session is kept for reuse
+ *
+ * Reads CDP_POOL_IDLE_SECONDS (capped at Browser Rendering's 10 minute
+ * keep-alive limit). 0 disables pooling.
+ */
+export function getPoolIdleSeconds(env: OpenClawEnv): number {
+  const value = env.CDP_POOL_IDLE_SECONDS;
+  if (value === undefined || value === '') return DEFAULT_CDP_POOL_IDLE_SECONDS;
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) return DEFAULT_CDP_POOL_IDLE_SECONDS;
+  return Math.min(Math.floor(seconds), CDP_POOL_MAX_IDLE_SECONDS);
+}
+
+/**
+ * Sessions with no worker connected are idle and can be reused
+ */
+function isIdle(session: ActiveSession): boolean {
+  return !session.connectionId;
+}
+
+/**
+ * Get a browser, reusing an idle Browser Rendering session when one exists
+ *
+ * Each caller gets its own incognito browser context to open pages in.
+ * Releasing the browser closes it, taking the cookies and storage of every
+ * origin the caller visited with it.
+ *
+ * @param launcher - Puppeteer Workers API
+ * @param env - Worker environment bindings (BROWSER must be set)
+ * @returns The browser, the caller's context and whether the browser was reused
+ */
+export async function acquireBrowser(
+  launcher: BrowserLauncher,
+  env: OpenClawEnv
+): Promise<{ browser: Browser; context: BrowserContext; reused: boolean }> {
+  const { browser, reused } = await connectOrLaunch(launcher, env);
+  try {
+    return { browser, context: await browser.createBrowserContext(), reused };
+  } catch (err) {
+    await releaseBrowser(browser, env);
+    throw err;
+  }
+}
+
+async function connectOrLaunch(
+  launcher: BrowserLauncher,
+  env: OpenClawEnv
+): Promise<{ browser: Browser; reused: boolean }> {
+  const idleSeconds = getPoolIdleSeconds(env);
+
+  if (idleSeconds > 0) {
+    let idle: ActiveSession[] = [];
+    try {
+      idle = (await launcher.sessions(env.BROWSER!)).filter(isIdle);
+    } catch (err) {
+      logger.error('Failed to list sessions', { error: err });
+    }
+
+    for (const session of idle.slice(0, MAX_CONNECT_ATTEMPTS)) {
+      try {
+        const browser = await launcher.connect(env.BROWSER!, session.sessionId);
+        counters.hits += 1;
+        logger.info('Reusing browser session', { browserSessionId: session.sessionId });
+        return { browser, reused: true };
+      } catch (err) {
+        logger.info('Could not connect to session', { browserSessionId: session.sessionId, error: err });
+      }
+    }
+  }
+
+  counters.misses += 1;
+  const browser = await launcher.launch(
+    env.BROWSER!,
+    idleSeconds > 0 ? { keep_alive: idleSeconds * 1000 } : undefined
+  );
+  logger.info('Launched browser session', { browserSessionId: browser.sessionId() });
+  return { browser, reused: false };
+}
+
+/**
+ * Remove everything a client left behind: extra contexts, pages, cookies, cache and site storage
+ *
+ * Closing the clients' incognito contexts clears everything they stored. The
+ * default context only gets pages opened outside them, so its storage is
+ * cleared for the origins its open pages are on.
+ */
+export async function resetBrowser(browser: Browser): Promise<void> {
+  const defaultContext = browser.defaultBrowserContext();
+  for (const context of browser.browserContexts()) {
+    if (context !== defaultContext) {
+      await context.close();
+    }
+  }
+
+  const pages = await browser.pages();
+  const origins = new Set<string>();
+  for (const page of pages) {
+    const url = page.url();
+    if (url.startsWith('http')) origins.add(new URL(url).origin);
+  }
+
+  const cleanup = await browser.newPage();
+  const client = await cleanup.createCDPSession();
+  await client.send('Network.clearBrowserCookies');
+  await client.send('Network.clearBrowserCache');
+  for (const origin of origins) {
+    await client.send('Storage.clearDataForOrigin', { origin, storageTypes: 'all' });
+  }
+  await client.detach();
+
+  for (const page of [...pages, cleanup]) {
+    await page.close();
+  }
+}
+
+/**
+ * Return a browser to the pool
+ *
+ * The browser is reset and disconnected so Browser Rendering keeps it alive
+ * for the idle period. If pooling is disabled or the reset fails it is closed.
+ */
+export async function releaseBrowser(browser: Browser, env: OpenClawEnv): Promise<void> {
+  if (getPoolIdleSeconds(env) > 0 && browser.connected) {
+    try {
+      await resetBrowser(browser);
+      await browser.disconnect();
+      counters.released += 1;
+      return;
+    } catch (err) {
+      logger.error('Failed to reset browser, closing it', { error: err });
+    }
+  }
+
+  counters.discarded += 1;
+  await browser.close().catch((err) => {
+    logger.error('Error closing browser', { error: err });
+  });
+}
+
+/**
+ * Describe the pool: live Browser Rendering sessions plus this isolate's hit rate
+ */
+export async function getBrowserPoolStats(launcher: BrowserLauncher, env: OpenClawEnv): Promise<BrowserPoolStats> {
+  const sessions = await launcher.sessions(env.BROWSER!);
+  const idle = sessions.filter(isIdle).length;
+  const lookups = counters.hits + counters.misses;
+  const idleTimeoutSeconds = getPoolIdleSeconds(env);
+
+  return {
+    enabled: idleTimeoutSeconds > 0,
+    idleTimeoutSeconds,
+    ...counters,
+    hitRate: lookups > 0 ? counters.hits / lookups : null,
+    sessions: { total: sessions.length, idle, inUse: sessions.length - idle },
+  };
+}
+
+/**
+ * Reset this isolate's counters (for tests)
+ */
+export function resetBrowserPoolCounters(): void {
+  counters.hits = 0;
+  counters.misses = 0;
+  counters.released = 0;
+  counters.discarded = 0;
+}
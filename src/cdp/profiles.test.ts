@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createProfile,
+  deleteProfile,
+  isValidProfileName,
+  listProfiles,
+  loadProfile,
+  saveProfile,
+  summarizeProfile,
+  updateProfile,
+  type ProfileCookie,
+} from './profiles';
+import { createMockBucket } from '../test-utils';
+
+function cookie(name: string, value: string): ProfileCookie {
+  return { name, value, domain: 'app.example', path: '/', expires: -1, httpOnly: true, secure: true };
+}
+
+describe('isValidProfileName', () => {
+  it('accepts URL- and key-safe names', () => {
+    expect(isValidProfileName('cloudflare')).toBe(true);
+    expect(isValidProfileName('work.github_2-a')).toBe(true);
+  });
+
+  it('rejects empty, path-like and overlong names', () => {
+    expect(isValidProfileName('')).toBe(false);
+    expect(isValidProfileName('.hidden')).toBe(false);
+    expect(isValidProfileName('../manifest')).toBe(false);
+    expect(isValidProfileName('a/b')).toBe(false);
+    expect(isValidProfileName('a'.repeat(65))).toBe(false);
+  });
+});
+
+describe('updateProfile', () => {
+  it('replaces cookies and only the localStorage origins that were open', () => {
+    const profile = createProfile('work', 0);
+    profile.cookies = [cookie('old', '1')];
+    profile.localStorage = {
+      'https://a.example': { theme: 'light' },
+      'https://b.example': { token: 'x' },
+      'https://c.example': { draft: 'y' },
+    };
+
+    updateProfile(profile, [cookie('sid', '2')], {
+      'https://a.example': { theme: 'dark' },
+      'https://c.example': {},
+    }, 1000);
+
+    expect(profile.cookies.map(c => c.name)).toEqual(['sid']);
+    expect(profile.localStorage).toEqual({
+      'https://a.example': { theme: 'dark' },
+      'https://b.example': { token: 'x' },
+    });
+    expect(profile.createdAt).toBe('1970-01-01T00:00:00.000Z');
+    expect(profile.updatedAt).toBe('1970-01-01T00:00:01.000Z');
+  });
+});
+
+describe('summarizeProfile', () => {
+  it('leaves out cookie and storage values', () => {
+    const profile = createProfile('work', 0);
+    updateProfile(profile, [cookie('sid', 'secret')], { 'https://a.example': { token: 'secret' } }, 0);
+
+    const summary = summarizeProfile(profile);
+    expect(summary.cookieCount).toBe(1);
+    expect(summary.cookies[0]).toEqual({ name: 'sid', domain: 'app.example', path: '/', expires: -1, httpOnly: true, secure: true });
+    expect(summary.localStorage).toEqual({ 'https://a.example': ['token'] });
+    expect(JSON.stringify(summary)).not.toContain('secret');
+  });
+});
+
+describe('profile storage', () => {
+  it('saves, loads, lists and deletes profiles', async () => {
+    const { bucket } = createMockBucket();
+    const older = createProfile('older', Date.parse('2025-01-01T00:00:00.000Z'));
+    const newer = createProfile('newer', Date.parse('2025-01-02T00:00:00.000Z'));
+    updateProfile(older, [cookie('sid', '1')], {}, Date.parse('2025-01-01T00:00:00.000Z'));
+    await saveProfile(bucket, older);
+    await saveProfile(bucket, newer);
+
+    expect(await loadProfile(bucket, 'older')).toEqual(older);
+    expect(await loadProfile(bucket, 'missing')).toBeNull();
+    expect((await listProfiles(bucket)).map(p => p.name)).toEqual(['newer', 'older']);
+
+    expect(await deleteProfile(bucket, 'older')).toBe(true);
+    expect(await deleteProfile(bucket, 'older')).toBe(false);
+    expect(await loadProfile(bucket, 'older')).toBeNull();
+  });
+
+  it('refuses to save profiles over the size limit', async () => {
+    const { bucket } = createMockBucket();
+    const profile = createProfile('big', 0);
+    profile.localStorage['https://a.example'] = { blob: 'x'.repeat(6 * 1024 * 1024) };
+
+    await expect(saveProfile(bucket, profile)).rejects.toThrow(/over the \d+ byte limit/);
+    expect(await loadProfile(bucket, 'big')).toBeNull();
+  });
+
+  it('rejects invalid names without reading R2', async () => {
+    const { bucket } = createMockBucket();
+    expect(await loadProfile(bucket, '../manifest')).toBeNull();
+    expect(await deleteProfile(bucket, 'a/b')).toBe(false);
+  });
+});
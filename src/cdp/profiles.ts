@@ -0,0 +1,145 @@
+import { CDP_PROFILE_MAX_BYTES, WORKER_STATE_PREFIX } from '../config';
+
+const PROFILE_PREFIX = `${WORKER_STATE_PREFIX}cdp-profiles/`;
+
+/**
+ * A cookie as saved in a profile (the fields Network.setCookies accepts)
+ */
+export interface ProfileCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;  // seconds since epoch, -1 for session cookies
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite?: string;
+}
+
+/**
+ * Browser state kept between CDP sessions that use the same profile name
+ */
+export interface BrowserProfile {
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  cookies: ProfileCookie[];
+  localStorage: Record<string, Record<string, string>>;  // origin -> key -> value
+}
+
+/**
+ * A profile without its secrets: cookie and storage key names, no values
+ */
+export interface ProfileSummary {
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  cookieCount: number;
+  cookies: Array<Omit<ProfileCookie, 'value'>>;
+  localStorage: Record<string, string[]>;  // origin -> keys
+}
+
+/**
+ * Profile names appear in URLs and R2 keys: letters, digits, `.`, `_` and `-`
+ */
+export function isValidProfileName(name: string): boolean {
+  return /^[A-Za-z0-9][\w.-]{0,63}$/.test(name);
+}
+
+export function createProfile(name: string, now = Date.now()): BrowserProfile {
+  const at = new Date(now).toISOString();
+  return { name, createdAt: at, updatedAt: at, cookies: [], localStorage: {} };
+}
+
+/**
+ * Load a saved profile
+ *
+ * @returns The profile, or null if none is saved under that name
+ */
+export async function loadProfile(bucket: R2Bucket, name: string): Promise<BrowserProfile | null> {
+  if (!isValidProfileName(name)) return null;
+  const object = await bucket.get(`${PROFILE_PREFIX}${name}.json`);
+  return object ? object.json<BrowserProfile>() : null;
+}
+
+/**
+ * Update a profile from the browser's state at the end of a session
+ *
+ * Cookies are replaced outright (the browser started with the profile's cookies,
+ * so its jar is the latest state). localStorage is replaced only for the origins
+ * the session had open; other origins keep their saved values.
+ */
+export function updateProfile(
+  profile: BrowserProfile,
+  cookies: ProfileCookie[],
+  localStorage: Record<string, Record<string, string>>,
+  now = Date.now()
+): void {
+  profile.cookies = cookies;
+  for (const [origin, items] of Object.entries(localStorage)) {
+    if (Object.keys(items).length) profile.localStorage[origin] = items;
+    else delete profile.localStorage[origin];
+  }
+  profile.updatedAt = new Date(now).toISOString();
+}
+
+/**
+ * Save a profile to R2
+ *
+ * @throws If the profile is larger than CDP_PROFILE_MAX_BYTES
+ */
+export async function saveProfile(bucket: R2Bucket, profile: BrowserProfile): Promise<void> {
+  const body = JSON.stringify(profile);
+  const size = new TextEncoder().encode(body).byteLength;
+  if (size > CDP_PROFILE_MAX_BYTES) {
+    throw new Error(`Profile ${profile.name} is ${size} bytes, over the ${CDP_PROFILE_MAX_BYTES} byte limit`);
+  }
+  await bucket.put(`${PROFILE_PREFIX}${profile.name}.json`, body, {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+export function summarizeProfile(profile: BrowserProfile): ProfileSummary {
+  return {
+    name: profile.name,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+    cookieCount: profile.cookies.length,
+    cookies: profile.cookies.map(({ value: _value, ...cookie }) => cookie),
+    localStorage: Object.fromEntries(
+      Object.entries(profile.localStorage).map(([origin, items]) => [origin, Object.keys(items)])
+    ),
+  };
+}
+
+/**
+ * List saved profiles, most recently used first
+ */
+export async function listProfiles(bucket: R2Bucket): Promise<ProfileSummary[]> {
+  const summaries: ProfileSummary[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix: PROFILE_PREFIX, cursor });
+    for (const object of listed.objects) {
+      const saved = await bucket.get(object.key);
+      if (saved) summaries.push(summarizeProfile(await saved.json<BrowserProfile>()));
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Delete a profile
+ *
+ * @returns Whether it existed
+ */
+export async function deleteProfile(bucket: R2Bucket, name: string): Promise<boolean> {
+  if (!isValidProfileName(name)) return false;
+  const key = `${PROFILE_PREFIX}${name}.json`;
+  if (!(await bucket.head(key))) return false;
+  await bucket.delete(key);
+  return true;
+}
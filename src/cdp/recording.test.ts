@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildHar,
+  createRecording,
+  deleteRecording,
+  getRecordingFile,
+  listRecordings,
+  pruneRecordings,
+  recordConsoleMessage,
+  recordNavigation,
+  recordPageTiming,
+  recordRequest,
+  recordRequestFailed,
+  recordRequestFinished,
+  recordResponse,
+  recordScreenshot,
+  saveRecording,
+} from './recording';
+import { createMockBucket } from '../test-utils';
+
+const NOW = Date.parse('2025-01-01T12:00:00.000Z');
+
+function request(requestId: string, url: string) {
+  return { requestId, targetId: 'target-1', method: 'GET', url, headers: { accept: '*/*' }, resourceType: 'Document' };
+}
+
+type Har = { log: Record<string, any> };
+
+describe('createRecording', () => {
+  it('uses a sortable, path-safe id', () => {
+    const recording = createRecording('token-1', NOW);
+    expect(recording.id).toMatch(/^2025-01-01T12-00-00-000Z-[0-9a-f]{8}$/);
+    expect(recording.tokenId).toBe('token-1');
+  });
+});
+
+describe('buildHar', () => {
+  it('turns navigations and requests into HAR pages and entries', () => {
+    const recording = createRecording(null, NOW);
+    recordNavigation(recording, 'target-1', 'https://example.com/', NOW);
+    recordRequest(recording, request('r1', 'https://example.com/?q=1'), NOW + 10);
+    recordResponse(recording, 'r1', {
+      status: 200,
+      statusText: 'OK',
+      headers: { 'content-type': 'text/html' },
+      mimeType: 'text/html',
+      remoteAddress: '93.184.216.34',
+      fromCache: false,
+    }, NOW + 60);
+    recordRequestFinished(recording, 'r1', 1256, NOW + 80);
+    recordPageTiming(recording, 'target-1', 'onLoad', NOW + 200);
+
+    const { log } = buildHar(recording) as Har;
+
+    expect(log.version).toBe('1.2');
+    expect(log.pages).toEqual([{
+      id: 'page_1',
+      startedDateTime: '2025-01-01T12:00:00.000Z',
+      title: 'https://example.com/',
+      pageTimings: { onContentLoad: -1, onLoad: 200 },
+      _targetId: 'target-1',
+    }]);
+    expect(log.entries).toHaveLength(1);
+    expect(log.entries[0]).toMatchObject({
+      pageref: 'page_1',
+      startedDateTime: '2025-01-01T12:00:00.010Z',
+      time: 70,
+      request: { method: 'GET', queryString: [{ name: 'q', value: '1' }], headers: [{ name: 'accept', value: '*/*' }] },
+      response: { status: 200, content: { size: 1256, mimeType: 'text/html' } },
+      timings: { send: 0, wait: 50, receive: 20 },
+      serverIPAddress: '93.184.216.34',
+      _resourceType: 'document',
+    });
+  });
+
+  it('masks credential headers and keeps only the size of request bodies', () => {
+    const recording = createRecording(null, NOW);
+    recordRequest(recording, {
+      ...request('r1', 'https://example.com/login'),
+      method: 'POST',
+      headers: { authorization: 'Bearer abc', Cookie: 'sid=1', 'content-type': 'application/x-www-form-urlencoded' },
+      postData: 'user=me&password=hunter2',
+    }, NOW);
+    recordResponse(recording, 'r1', {
+      status: 302,
+      statusText: 'Found',
+      headers: { 'set-cookie': 'sid=2; HttpOnly', location: '/home' },
+      mimeType: '',
+      fromCache: false,
+    }, NOW + 10);
+
+    const { log } = buildHar(recording) as Har;
+    const entry = log.entries[0];
+    expect(entry.request.headers).toEqual([
+      { name: 'authorization', value: '[REDACTED]' },
+      { name: 'Cookie', value: '[REDACTED]' },
+      { name: 'content-type', value: 'application/x-www-form-urlencoded' },
+    ]);
+    expect(entry.request.bodySize).toBe(24);
+    expect(entry.request.postData).toBeUndefined();
+    expect(entry.response.headers).toEqual([
+      { name: 'set-cookie', value: '[REDACTED]' },
+      { name: 'location', value: '/home' },
+    ]);
+    expect(JSON.stringify(log)).not.toContain('hunter2');
+  });
+
+  it('keeps failed requests with their error', () => {
+    const recording = createRecording(null, NOW);
+    recordRequest(recording, request('r1', 'https://example.com/missing.js'), NOW);
+    recordRequestFailed(recording, 'r1', 'net::ERR_BLOCKED_BY_CLIENT', NOW + 5);
+
+    const { log } = buildHar(recording) as Har;
+    expect(log.entries[0]).toMatchObject({ response: { status: 0 }, timings: { wait: -1, receive: -1 }, _error: 'net::ERR_BLOCKED_BY_CLIENT' });
+  });
+
+  it('puts console output and screenshots in extension fields', () => {
+    const recording = createRecording(null, NOW);
+    recordNavigation(recording, 'target-1', 'https://example.com/', NOW);
+    recordConsoleMessage(recording, { targetId: 'target-1', type: 'error', text: 'boom' }, NOW + 1);
+    const key = recordScreenshot(recording, 'target-1', NOW + 2);
+
+    expect(key).toBe(`_worker/cdp-recordings/${recording.id}/screenshots/0001.jpg`);
+    const { log } = buildHar(recording) as Har;
+    expect(log._console).toEqual([
+      { at: '2025-01-01T12:00:00.001Z', targetId: 'target-1', pageref: 'page_1', type: 'error', text: 'boom' },
+    ]);
+    expect(log._screenshots).toEqual([
+      { at: '2025-01-01T12:00:00.002Z', targetId: 'target-1', pageref: 'page_1', file: 'screenshots/0001.jpg' },
+    ]);
+  });
+
+  it('stops recording and marks the HAR truncated at the entry limit', () => {
+    const recording = createRecording(null, NOW);
+    for (let i = 0; i < 5001; i++) {
+      recordRequest(recording, request(`r${i}`, 'https://example.com/'), NOW);
+    }
+    expect(recording.entries.size).toBe(5000);
+    expect(recording.truncated).toBe(true);
+  });
+});
+
+describe('saveRecording / listRecordings', () => {
+  it('lists saved recordings newest first', async () => {
+    const { bucket } = createMockBucket();
+    const older = createRecording(null, NOW);
+    const newer = createRecording('token-1', NOW + 60_000);
+    recordRequest(newer, request('r1', 'https://example.com/'), NOW + 60_000);
+
+    await saveRecording(bucket, older);
+    await saveRecording(bucket, newer);
+
+    const recordings = await listRecordings(bucket);
+    expect(recordings.map(r => r.id)).toEqual([newer.id, older.id]);
+    expect(recordings[0]).toMatchObject({ tokenId: 'token-1', entries: 1, endedAt: null, truncated: false });
+  });
+
+  it('serves the HAR and refuses paths outside the recording', async () => {
+    const { bucket } = createMockBucket();
+    const recording = createRecording(null, NOW);
+    await saveRecording(bucket, recording);
+
+    const har = await getRecordingFile(bucket, recording.id, 'recording.har');
+    expect((await har!.json<Har>()).log.version).toBe('1.2');
+    expect(await getRecordingFile(bucket, recording.id, 'manifest.json')).toBeNull();
+    expect(await getRecordingFile(bucket, '..', 'recording.har')).toBeNull();
+  });
+});
+
+describe('pruneRecordings', () => {
+  it('deletes all but the newest recordings', async () => {
+    const { bucket } = createMockBucket();
+    const recordings = [0, 1, 2].map(i => createRecording(null, NOW + i * 60_000));
+    for (const recording of recordings) await saveRecording(bucket, recording);
+
+    expect(await pruneRecordings(bucket, 2)).toBe(1);
+    expect((await listRecordings(bucket)).map(r => r.id)).toEqual([recordings[2].id, recordings[1].id]);
+    expect(await pruneRecordings(bucket, 2)).toBe(0);
+  });
+});
+
+describe('deleteRecording', () => {
+  it('removes every file of the recording', async () => {
+    const { bucket, objects } = createMockBucket();
+    const recording = createRecording(null, NOW);
+    const key = recordScreenshot(recording, 'target-1', NOW)!;
+    await bucket.put(key, 'jpeg');
+    await saveRecording(bucket, recording);
+
+    expect(await deleteRecording(bucket, recording.id)).toBe(true);
+    expect(objects.size).toBe(0);
+    expect(await deleteRecording(bucket, recording.id)).toBe(false);
+  });
+});
@@ -0,0 +1,431 @@
+import {
+  CDP_RECORDING_MAX_ENTRIES,
+  CDP_RECORDING_MAX_KEPT,
+  CDP_RECORDING_MAX_SCREENSHOTS,
+  WORKER_STATE_PREFIX,
+} from '../config';
+import { REDACTED, isSecretField } from '../logger';
+
+const RECORDING_PREFIX = `${WORKER_STATE_PREFIX}cdp-recordings/`;
+
+const HAR_FILE = 'recording.har';
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * A request seen by a recorded page
+ */
+export interface RecordedRequest {
+  requestId: string;
+  targetId: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  postData?: string;
+  resourceType: string;
+}
+
+/**
+ * The response to a recorded request
+ */
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  mimeType: string;
+  remoteAddress?: string;
+  fromCache: boolean;
+}
+
+interface RecordedEntry extends Omit<RecordedRequest, 'postData'> {
+  postDataSize?: number;
+  pageref?: string;
+  startedAt: number;
+  respondedAt?: number;
+  endedAt?: number;
+  response?: RecordedResponse;
+  bodySize?: number;
+  error?: string;
+}
+
+interface RecordedPage {
+  id: string;
+  targetId: string;
+  url: string;
+  startedAt: number;
+  onContentLoad?: number;
+  onLoad?: number;
+}
+
+/**
+ * Console output or an uncaught page error
+ */
+export interface RecordedConsoleMessage {
+  at: string;
+  targetId: string;
+  pageref?: string;
+  type: string;
+  text: string;
+  url?: string;
+}
+
+/**
+ * A screenshot stored next to the HAR
+ */
+export interface RecordedScreenshot {
+  at: string;
+  targetId: string;
+  pageref?: string;
+  file: string;
+}
+
+/**
+ * An in-progress recording of one CDP session
+ */
+export interface SessionRecording {
+  id: string;
+  tokenId: string | null;
+  startedAt: number;
+  endedAt: number | null;
+  pages: RecordedPage[];
+  currentPages: Map<string, string>;  // targetId -> id of the page it's showing
+  entries: Map<string, RecordedEntry>;  // requestId -> entry, in request order
+  console: RecordedConsoleMessage[];
+  screenshots: RecordedScreenshot[];
+  truncated: boolean;
+}
+
+/**
+ * What the admin API lists for a saved recording
+ */
+export interface RecordingSummary {
+  id: string;
+  tokenId: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  pages: number;
+  entries: number;
+  consoleMessages: number;
+  screenshots: number;
+  truncated: boolean;
+}
+
+/**
+ * Start recording a CDP session
+ */
+export function createRecording(tokenId: string | null, now = Date.now()): SessionRecording {
+  return {
+    id: `${new Date(now).toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}`,
+    tokenId,
+    startedAt: now,
+    endedAt: null,
+    pages: [],
+    currentPages: new Map(),
+    entries: new Map(),
+    console: [],
+    screenshots: [],
+    truncated: false,
+  };
+}
+
+function hasRoom(recording: SessionRecording): boolean {
+  if (recording.entries.size + recording.console.length < CDP_RECORDING_MAX_ENTRIES) return true;
+  recording.truncated = true;
+  return false;
+}
+
+/**
+ * Record a main-frame navigation, which starts a new HAR page for the target
+ */
+export function recordNavigation(recording: SessionRecording, targetId: string, url: string, now = Date.now()): void {
+  const id = `page_${recording.pages.length + 1}`;
+  recording.pages.push({ id, targetId, url, startedAt: now });
+  recording.currentPages.set(targetId, id);
+}
+
+/**
+ * Record the DOMContentLoaded or load event of a target's current page
+ */
+export function recordPageTiming(
+  recording: SessionRecording,
+  targetId: string,
+  event: 'onContentLoad' | 'onLoad',
+  now = Date.now()
+): void {
+  const pageref = recording.currentPages.get(targetId);
+  const page = recording.pages.find(p => p.id === pageref);
+  if (page && page[event] === undefined) page[event] = now - page.startedAt;
+}
+
+/**
+ * Mask credential headers (Authorization, Cookie, Set-Cookie, API keys) the way the logger does
+ */
+function maskHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, isSecretField(name) ? REDACTED : value])
+  );
+}
+
+/**
+ * Record a request; credential headers are masked and only the size of the body is kept
+ */
+export function recordRequest(recording: SessionRecording, request: RecordedRequest, now = Date.now()): void {
+  if (recording.entries.has(request.requestId) || !hasRoom(recording)) return;
+  const { postData, ...rest } = request;
+  recording.entries.set(request.requestId, {
+    ...rest,
+    headers: maskHeaders(request.headers),
+    postDataSize: postData !== undefined ? new TextEncoder().encode(postData).byteLength : undefined,
+    pageref: recording.currentPages.get(request.targetId),
+    startedAt: now,
+  });
+}
+
+export function recordResponse(
+  recording: SessionRecording,
+  requestId: string,
+  response: RecordedResponse,
+  now = Date.now()
+): void {
+  const entry = recording.entries.get(requestId);
+  if (!entry) return;
+  entry.response = { ...response, headers: maskHeaders(response.headers) };
+  entry.respondedAt = now;
+}
+
+export function recordRequestFinished(
+  recording: SessionRecording,
+  requestId: string,
+  bodySize?: number,
+  now = Date.now()
+): void {
+  const entry = recording.entries.get(requestId);
+  if (!entry) return;
+  entry.endedAt = now;
+  entry.bodySize = bodySize;
+}
+
+export function recordRequestFailed(
+  recording: SessionRecording,
+  requestId: string,
+  error: string,
+  now = Date.now()
+): void {
+  const entry = recording.entries.get(requestId);
+  if (!entry) return;
+  entry.endedAt = now;
+  entry.error = error;
+}
+
+export function recordConsoleMessage(
+  recording: SessionRecording,
+  message: Omit<RecordedConsoleMessage, 'at' | 'pageref'>,
+  now = Date.now()
+): void {
+  if (!hasRoom(recording)) return;
+  recording.console.push({
+    ...message,
+    at: new Date(now).toISOString(),
+    pageref: recording.currentPages.get(message.targetId),
+  });
+}
+
+/**
+ * Reserve a file name for the next screenshot
+ *
+ * @returns The R2 key to store the image under, or null once the recording has
+ *   reached CDP_RECORDING_MAX_SCREENSHOTS
+ */
+export function recordScreenshot(recording: SessionRecording, targetId: string, now = Date.now()): string | null {
+  if (recording.screenshots.length >= CDP_RECORDING_MAX_SCREENSHOTS) {
+    recording.truncated = true;
+    return null;
+  }
+
+  const file = `screenshots/${String(recording.screenshots.length + 1).padStart(4, '0')}.jpg`;
+  recording.screenshots.push({
+    at: new Date(now).toISOString(),
+    targetId,
+    pageref: recording.currentPages.get(targetId),
+    file,
+  });
+  return `${RECORDING_PREFIX}${recording.id}/${file}`;
+}
+
+function toHarHeaders(headers: Record<string, string>): Array<{ name: string; value: string }> {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function toQueryString(url: string): Array<{ name: string; value: string }> {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function toHarEntry(entry: RecordedEntry): Record<string, unknown> {
+  const wait = entry.respondedAt !== undefined ? entry.respondedAt - entry.startedAt : -1;
+  const receive = entry.respondedAt !== undefined && entry.endedAt !== undefined ? entry.endedAt - entry.respondedAt : -1;
+  const response = entry.response;
+
+  return {
+    pageref: entry.pageref,
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    time: (entry.endedAt ?? entry.respondedAt ?? entry.startedAt) - entry.startedAt,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.headers),
+      queryString: toQueryString(entry.url),
+      headersSize: -1,
+      // Request bodies (form posts, logins) aren't recorded, only their size
+      bodySize: entry.postDataSize ?? 0,
+    },
+    response: {
+      status: response?.status ?? 0,
+      statusText: response?.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(response?.headers ?? {}),
+      content: { size: entry.bodySize ?? -1, mimeType: response?.mimeType ?? '' },
+      redirectURL: response?.headers.location ?? '',
+      headersSize: -1,
+      bodySize: entry.bodySize ?? -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: Math.max(wait, -1), receive: Math.max(receive, -1) },
+    serverIPAddress: response?.remoteAddress,
+    _resourceType: entry.resourceType.toLowerCase(),
+    _fromCache: response?.fromCache || undefined,
+    _error: entry.error,
+  };
+}
+
+/**
+ * Build a HAR 1.2 document from a recording
+ *
+ * Console output and screenshots don't have a place in HAR, so they go in the
+ * `_console` and `_screenshots` extension fields of the log.
+ */
+export function buildHar(recording: SessionRecording): Record<string, unknown> {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'openclaw-cdp', version: '1.0' },
+      pages: recording.pages.map(page => ({
+        id: page.id,
+        startedDateTime: new Date(page.startedAt).toISOString(),
+        title: page.url,
+        pageTimings: { onContentLoad: page.onContentLoad ?? -1, onLoad: page.onLoad ?? -1 },
+        _targetId: page.targetId,
+      })),
+      entries: [...recording.entries.values()].map(toHarEntry),
+      _console: recording.console,
+      _screenshots: recording.screenshots,
+      _truncated: recording.truncated,
+    },
+  };
+}
+
+/**
+ * Summarize a recording for listings
+ */
+export function summarizeRecording(recording: SessionRecording): RecordingSummary {
+  return {
+    id: recording.id,
+    tokenId: recording.tokenId,
+    startedAt: new Date(recording.startedAt).toISOString(),
+    endedAt: recording.endedAt !== null ? new Date(recording.endedAt).toISOString() : null,
+    pages: recording.pages.length,
+    entries: recording.entries.size,
+    consoleMessages: recording.console.length,
+    screenshots: recording.screenshots.length,
+    truncated: recording.truncated,
+  };
+}
+
+/**
+ * Write the HAR and manifest of a recording to R2
+ *
+ * Safe to call repeatedly while the session is running; each call overwrites
+ * the previous snapshot.
+ */
+export async function saveRecording(bucket: R2Bucket, recording: SessionRecording): Promise<void> {
+  const prefix = `${RECORDING_PREFIX}${recording.id}/`;
+  await bucket.put(`${prefix}${HAR_FILE}`, JSON.stringify(buildHar(recording)), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+  await bucket.put(`${prefix}${MANIFEST_FILE}`, JSON.stringify(summarizeRecording(recording)), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+/**
+ * List saved recordings, newest first
+ */
+export async function listRecordings(bucket: R2Bucket): Promise<RecordingSummary[]> {
+  const summaries: RecordingSummary[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listed = await bucket.list({ prefix: RECORDING_PREFIX, delimiter: '/', cursor });
+    for (const prefix of listed.delimitedPrefixes) {
+      const manifest = await bucket.get(`${prefix}${MANIFEST_FILE}`);
+      if (manifest) summaries.push(await manifest.json<RecordingSummary>());
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return summaries.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+function isValidRecordingPath(id: string, file: string): boolean {
+  return /^[\w-]+$/.test(id) && (file === HAR_FILE || /^screenshots\/\d+\.jpg$/.test(file));
+}
+
+/**
+ * Get a file from a saved recording (`recording.har` or `screenshots/NNNN.jpg`)
+ *
+ * @returns The R2 object, or null if the recording or file doesn't exist
+ */
+export async function getRecordingFile(bucket: R2Bucket, id: string, file: string): Promise<R2ObjectBody | null> {
+  if (!isValidRecordingPath(id, file)) return null;
+  return bucket.get(`${RECORDING_PREFIX}${id}/${file}`);
+}
+
+/**
+ * Delete all but the newest `keep` saved recordings
+ *
+ * @returns How many recordings were deleted
+ */
+export async function pruneRecordings(bucket: R2Bucket, keep = CDP_RECORDING_MAX_KEPT): Promise<number> {
+  const expired = (await listRecordings(bucket)).slice(keep);
+  for (const recording of expired) {
+    await deleteRecording(bucket, recording.id);
+  }
+  return expired.length;
+}
+
+/**
+ * Delete a recording and all its files
+ *
+ * @returns Whether anything was deleted
+ */
+export async function deleteRecording(bucket: R2Bucket, id: string): Promise<boolean> {
+  if (!/^[\w-]+$/.test(id)) return false;
+
+  let deleted = false;
+  let cursor: string | undefined;
+  do {
+    const listed = await bucket.list({ prefix: `${RECORDING_PREFIX}${id}/`, cursor });
+    if (listed.objects.length) {
+      await bucket.delete(listed.objects.map(object => object.key));
+      deleted = true;
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return deleted;
+}
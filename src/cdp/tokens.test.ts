@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FULL_CDP_GRANT,
+  createDebuggerUrlToken,
+  isMethodAllowed,
+  listCdpTokens,
+  mintCdpToken,
+  normalizeCdpTokenScope,
+  recordCdpTokenUse,
+  revokeCdpToken,
+  verifyCdpToken,
+} from './tokens';
+import { createMockBucket, createMockEnv } from '../test-utils';
+
+const NOW = Date.parse('2025-01-01T12:00:00.000Z');
+
+function createEnv() {
+  const { bucket } = createMockBucket();
+  return createMockEnv({ CDP_SECRET: 'test-cdp-secret', MOLTBOT_BUCKET: bucket });
+}
+
+describe('normalizeCdpTokenScope', () => {
+  it('returns an empty scope for no input', () => {
+    expect(normalizeCdpTokenScope(undefined)).toEqual({});
+  });
+
+  it('lowercases hosts and floors the session limit', () => {
+    expect(normalizeCdpTokenScope({ hosts: [' Example.COM '], maxSessionSeconds: 90.5, readOnly: true }))
+      .toEqual({ hosts: ['example.com'], maxSessionSeconds: 90, readOnly: true });
+  });
+
+  it('accepts policy overrides and strips scheme colons', () => {
+    expect(normalizeCdpTokenScope({ schemes: ['HTTPS:'], blockedHosts: ['ads.test'], allowPrivateNetworks: true }))
+      .toEqual({ schemes: ['https'], blockedHosts: ['ads.test'], allowPrivateNetworks: true });
+  });
+
+  it('rejects malformed fields', () => {
+    expect(() => normalizeCdpTokenScope({ hosts: 'example.com' })).toThrow('scope.hosts');
+    expect(() => normalizeCdpTokenScope({ blockedHosts: [''] })).toThrow('scope.blockedHosts');
+    expect(() => normalizeCdpTokenScope({ allowPrivateNetworks: 1 })).toThrow('scope.allowPrivateNetworks');
+    expect(() => normalizeCdpTokenScope({ maxSessionSeconds: 0 })).toThrow('scope.maxSessionSeconds');
+    expect(() => normalizeCdpTokenScope({ readOnly: 'yes' })).toThrow('scope.readOnly');
+  });
+});
+
+describe('mintCdpToken / verifyCdpToken', () => {
+  it('round-trips a token and its scope', async () => {
+    const env = createEnv();
+    const { token, record } = await mintCdpToken(env, { label: 'ci', scope: { readOnly: true } }, NOW);
+
+    expect(record).toMatchObject({ label: 'ci', uses: 0, revokedAt: null });
+    expect(record.expiresAt).toBe('2025-01-01T13:00:00.000Z');
+
+    const grant = await verifyCdpToken(env, token, NOW + 1000);
+    expect(grant).toEqual({
+      tokenId: record.id,
+      scope: { readOnly: true },
+      expiresAt: Date.parse(record.expiresAt) / 1000,
+    });
+  });
+
+  it('caps the lifetime at the maximum', async () => {
+    const env = createEnv();
+    const { record } = await mintCdpToken(env, { ttlSeconds: 365 * 24 * 60 * 60 }, NOW);
+    expect(record.expiresAt).toBe('2025-01-31T12:00:00.000Z');
+  });
+
+  it('rejects expired tokens', async () => {
+    const env = createEnv();
+    const { token } = await mintCdpToken(env, { ttlSeconds: 60 }, NOW);
+    await expect(verifyCdpToken(env, token, NOW + 61_000)).rejects.toThrow();
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const env = createEnv();
+    const { token } = await mintCdpToken(env, {}, NOW);
+    const otherEnv = { ...env, CDP_SECRET: 'rotated-secret' };
+    await expect(verifyCdpToken(otherEnv, token, NOW)).rejects.toThrow();
+  });
+
+  it('rejects revoked tokens', async () => {
+    const env = createEnv();
+    const { token, record } = await mintCdpToken(env, {}, NOW);
+
+    const revoked = await revokeCdpToken(env.MOLTBOT_BUCKET, record.id, NOW);
+    expect(revoked?.revokedAt).toBe(new Date(NOW).toISOString());
+    await expect(verifyCdpToken(env, token, NOW)).rejects.toThrow('revoked');
+  });
+
+  it('returns null when revoking an unknown token', async () => {
+    const env = createEnv();
+    expect(await revokeCdpToken(env.MOLTBOT_BUCKET, 'missing')).toBeNull();
+  });
+});
+
+describe('createDebuggerUrlToken', () => {
+  it('carries a full grant without a token record', async () => {
+    const env = createEnv();
+    const token = await createDebuggerUrlToken(env, FULL_CDP_GRANT, NOW);
+    expect(await verifyCdpToken(env, token, NOW)).toMatchObject(FULL_CDP_GRANT);
+    expect(await listCdpTokens(env.MOLTBOT_BUCKET)).toHaveLength(0);
+  });
+
+  it('stays tied to the parent token so revocation applies', async () => {
+    const env = createEnv();
+    const { record } = await mintCdpToken(env, { scope: { hosts: ['example.com'] } }, NOW);
+    const token = await createDebuggerUrlToken(env, { tokenId: record.id, scope: record.scope }, NOW);
+
+    expect((await verifyCdpToken(env, token, NOW)).tokenId).toBe(record.id);
+    await revokeCdpToken(env.MOLTBOT_BUCKET, record.id, NOW);
+    await expect(verifyCdpToken(env, token, NOW)).rejects.toThrow('revoked');
+  });
+
+  it('never outlives the parent token', async () => {
+    const env = createEnv();
+    const { token: parent, record } = await mintCdpToken(env, { ttlSeconds: 60 }, NOW);
+    const grant = await verifyCdpToken(env, parent, NOW + 30_000);
+    const token = await createDebuggerUrlToken(env, grant, NOW + 30_000);
+
+    // Exchanged just before the parent expired, used just after
+    await expect(verifyCdpToken(env, token, NOW + 61_000)).rejects.toThrow();
+    // A derived token can't be exchanged again to extend the parent's lifetime
+    const derived = await verifyCdpToken(env, token, NOW + 59_000);
+    expect(derived.expiresAt).toBe(Date.parse(record.expiresAt) / 1000);
+    const again = await createDebuggerUrlToken(env, derived, NOW + 59_000);
+    await expect(verifyCdpToken(env, again, NOW + 61_000)).rejects.toThrow();
+  });
+
+  it('rejects a parent token record that has expired', async () => {
+    const env = createEnv();
+    const { record } = await mintCdpToken(env, { ttlSeconds: 60 }, NOW);
+    // A grant without its expiry, so only the record's expiry stops the derived token
+    const token = await createDebuggerUrlToken(env, { tokenId: record.id, scope: record.scope }, NOW + 59_000);
+    await expect(verifyCdpToken(env, token, NOW + 61_000)).rejects.toThrow('expired');
+  });
+
+  it('expires after a few minutes', async () => {
+    const env = createEnv();
+    const token = await createDebuggerUrlToken(env, FULL_CDP_GRANT, NOW);
+    await expect(verifyCdpToken(env, token, NOW + 10 * 60 * 1000)).rejects.toThrow();
+  });
+});
+
+describe('recordCdpTokenUse', () => {
+  it('counts uses and tracks the last use', async () => {
+    const env = createEnv();
+    const { record } = await mintCdpToken(env, {}, NOW);
+
+    await recordCdpTokenUse(env.MOLTBOT_BUCKET, record.id, NOW + 1000);
+    await recordCdpTokenUse(env.MOLTBOT_BUCKET, record.id, NOW + 2000);
+
+    const [listed] = await listCdpTokens(env.MOLTBOT_BUCKET);
+    expect(listed.uses).toBe(2);
+    expect(listed.lastUsedAt).toBe(new Date(NOW + 2000).toISOString());
+  });
+});
+
+describe('isMethodAllowed', () => {
+  it('allows everything without readOnly', () => {
+    expect(isMethodAllowed({}, 'Input.dispatchKeyEvent')).toBe(true);
+  });
+
+  it('blocks input, script execution and interception when readOnly', () => {
+    const scope = { readOnly: true };
+    expect(isMethodAllowed(scope, 'Page.captureScreenshot')).toBe(true);
+    expect(isMethodAllowed(scope, 'DOM.getOuterHTML')).toBe(true);
+    expect(isMethodAllowed(scope, 'Target.attachToTarget')).toBe(true);
+    expect(isMethodAllowed(scope, 'Accessibility.getFullAXTree')).toBe(true);
+    expect(isMethodAllowed(scope, 'Input.dispatchMouseEvent')).toBe(false);
+    expect(isMethodAllowed(scope, 'Runtime.evaluate')).toBe(false);
+    expect(isMethodAllowed(scope, 'Fetch.enable')).toBe(false);
+    expect(isMethodAllowed(scope, 'Network.setCookie')).toBe(false);
+  });
+});
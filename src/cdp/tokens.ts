@@ -0,0 +1,320 @@
+import { SignJWT, jwtVerify } from 'jose';
+import type { OpenClawEnv } from '../types';
+import {
+  CDP_DEBUGGER_URL_TOKEN_TTL_SECONDS,
+  CDP_TOKEN_DEFAULT_TTL_SECONDS,
+  CDP_TOKEN_MAX_TTL_SECONDS,
+  WORKER_STATE_PREFIX,
+} from '../config';
+
+const TOKEN_KEY_PREFIX = `${WORKER_STATE_PREFIX}cdp-tokens/`;
+const TOKEN_AUDIENCE = 'openclaw-cdp';
+
+/**
+ * What a CDP access token may do
+ */
+export interface CdpTokenScope {
+  /** Hostnames pages may load; `*.example.com` matches subdomains. Replaces CDP_ALLOWED_HOSTS. */
+  hosts?: string[];
+  /** Hostnames refused in addition to CDP_BLOCKED_HOSTS */
+  blockedHosts?: string[];
+  /** URL schemes pages may load. Replaces CDP_ALLOWED_SCHEMES. */
+  schemes?: string[];
+  /** Allow loopback, private and metadata addresses. Overrides CDP_ALLOW_PRIVATE_NETWORKS. */
+  allowPrivateNetworks?: boolean;
+  /** WebSocket sessions are closed after this many seconds */
+  maxSessionSeconds?: number;
+  /** Only allow CDP methods that observe the page (no input, script execution or request interception) */
+  readOnly?: boolean;
+}
+
+/**
+ * CDP access token record stored in R2 (the token itself is never stored)
+ */
+export interface CdpTokenRecord {
+  id: string;
+  label?: string;
+  scope: CdpTokenScope;
+  createdAt: string;
+  createdBy?: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  uses: number;
+  lastUsedAt: string | null;
+}
+
+/**
+ * Access granted to a CDP request
+ *
+ * `tokenId` is null when the caller used CDP_SECRET or a short-lived token derived from it.
+ */
+export interface CdpGrant {
+  tokenId: string | null;
+  scope: CdpTokenScope;
+  expiresAt?: number;  // seconds since the epoch; unset for CDP_SECRET itself
+}
+
+/** Grant for callers presenting CDP_SECRET itself */
+export const FULL_CDP_GRANT: CdpGrant = { tokenId: null, scope: {} };
+
+// Methods a read-only token may call. Everything else, including all of Input and Fetch, is denied.
+const READ_ONLY_DOMAINS = new Set(['Browser', 'Target', 'Emulation', 'Log', 'Performance', 'Accessibility']);
+const READ_ONLY_METHODS = new Set([
+  'Page.enable',
+  'Page.disable',
+  'Page.navigate',
+  'Page.reload',
+  'Page.stopLoading',
+  'Page.getFrameTree',
+  'Page.setLifecycleEventsEnabled',
+  'Page.getLayoutMetrics',
+  'Page.getNavigationHistory',
+  'Page.navigateToHistoryEntry',
+  'Page.bringToFront',
+  'Page.captureScreenshot',
+  'Page.printToPDF',
+  'Page.startScreencast',
+  'Page.screencastFrameAck',
+  'Page.stopScreencast',
+  'Runtime.enable',
+  'Runtime.disable',
+  'Runtime.getProperties',
+  'Runtime.releaseObject',
+  'Runtime.releaseObjectGroup',
+  'Runtime.runIfWaitingForDebugger',
+  'DOM.enable',
+  'DOM.disable',
+  'DOM.getDocument',
+  'DOM.describeNode',
+  'DOM.resolveNode',
+  'DOM.requestNode',
+  'DOM.querySelector',
+  'DOM.querySelectorAll',
+  'DOM.getOuterHTML',
+  'DOM.getAttributes',
+  'DOM.getBoxModel',
+  'Network.enable',
+  'Network.disable',
+  'Network.getResponseBody',
+  'Network.getCookies',
+]);
+
+function tokenKey(tokenId: string): string {
+  return `${TOKEN_KEY_PREFIX}${tokenId}.json`;
+}
+
+function signingKey(env: OpenClawEnv): Uint8Array {
+  if (!env.CDP_SECRET) throw new Error('CDP_SECRET is not configured');
+  return new TextEncoder().encode(env.CDP_SECRET);
+}
+
+/**
+ * Validate and normalize a requested token scope
+ *
+ * @throws Error if a field has the wrong type
+ */
+export function normalizeCdpTokenScope(input: unknown): CdpTokenScope {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object') throw new Error('scope must be an object');
+
+  const raw = input as Record<string, unknown>;
+  const scope: CdpTokenScope = {};
+
+  for (const field of ['hosts', 'blockedHosts', 'schemes'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.trim())) {
+      throw new Error(`scope.${field} must be a list of strings`);
+    }
+    scope[field] = value.map(item => (item as string).trim().toLowerCase().replace(/:$/, ''));
+  }
+  if (raw.maxSessionSeconds !== undefined) {
+    if (typeof raw.maxSessionSeconds !== 'number' || !(raw.maxSessionSeconds > 0)) {
+      throw new Error('scope.maxSessionSeconds must be a positive number');
+    }
+    scope.maxSessionSeconds = Math.floor(raw.maxSessionSeconds);
+  }
+  for (const field of ['readOnly', 'allowPrivateNetworks'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') throw new Error(`scope.${field} must be a boolean`);
+    scope[field] = value;
+  }
+
+  return scope;
+}
+
+/**
+ * Mint a CDP access token and record it in R2
+ *
+ * @param env - Worker environment bindings (CDP_SECRET signs the token)
+ * @param options - Label, lifetime in seconds, scope and creator email
+ * @param now - Current time in ms (for testing)
+ * @returns The token (shown once) and its stored record
+ */
+export async function mintCdpToken(
+  env: OpenClawEnv,
+  options: { label?: string; ttlSeconds?: number; scope?: CdpTokenScope; createdBy?: string },
+  now: number = Date.now()
+): Promise<{ token: string; record: CdpTokenRecord }> {
+  const ttlSeconds = Math.min(
+    Math.max(Math.floor(options.ttlSeconds ?? CDP_TOKEN_DEFAULT_TTL_SECONDS), 1),
+    CDP_TOKEN_MAX_TTL_SECONDS
+  );
+  const issuedAt = Math.floor(now / 1000);
+
+  const record: CdpTokenRecord = {
+    id: crypto.randomUUID(),
+    label: options.label,
+    scope: options.scope ?? {},
+    createdAt: new Date(now).toISOString(),
+    createdBy: options.createdBy,
+    expiresAt: new Date((issuedAt + ttlSeconds) * 1000).toISOString(),
+    revokedAt: null,
+    uses: 0,
+    lastUsedAt: null,
+  };
+
+  const token = await new SignJWT({ scope: record.scope })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setJti(record.id)
+    .setAudience(TOKEN_AUDIENCE)
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(issuedAt + ttlSeconds)
+    .sign(signingKey(env));
+
+  await env.MOLTBOT_BUCKET.put(tokenKey(record.id), JSON.stringify(record), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+
+  return { token, record };
+}
+
+/**
+ * Create a short-lived, unrecorded token carrying a grant
+ *
+ * Used for webSocketDebuggerUrl so CDP_SECRET never appears in URLs handed
+ * back to clients. The token never outlives the grant it was derived from.
+ */
+export async function createDebuggerUrlToken(
+  env: OpenClawEnv,
+  grant: CdpGrant,
+  now: number = Date.now()
+): Promise<string> {
+  const issuedAt = Math.floor(now / 1000);
+  const expiresAt = Math.min(issuedAt + CDP_DEBUGGER_URL_TOKEN_TTL_SECONDS, grant.expiresAt ?? Infinity);
+  const jwt = new SignJWT({ scope: grant.scope })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(TOKEN_AUDIENCE)
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(expiresAt);
+  if (grant.tokenId) jwt.setJti(grant.tokenId);
+  return jwt.sign(signingKey(env));
+}
+
+/**
+ * Get a CDP token record by id
+ *
+ * @returns The record, or null if no such token was minted
+ */
+export async function getCdpTokenRecord(bucket: R2Bucket, tokenId: string): Promise<CdpTokenRecord | null> {
+  const object = await bucket.get(tokenKey(tokenId));
+  if (!object) return null;
+  return object.json<CdpTokenRecord>();
+}
+
+/**
+ * Verify a CDP access token
+ *
+ * @returns The grant carried by the token
+ * @throws Error if the token is malformed, expired, signed with another secret or revoked
+ */
+export async function verifyCdpToken(env: OpenClawEnv, token: string, now: number = Date.now()): Promise<CdpGrant> {
+  const { payload } = await jwtVerify(token, signingKey(env), {
+    audience: TOKEN_AUDIENCE,
+    algorithms: ['HS256'],
+    currentDate: new Date(now),
+  });
+
+  const scope = normalizeCdpTokenScope(payload.scope);
+  if (!payload.jti) {
+    return { tokenId: null, scope, expiresAt: payload.exp };
+  }
+
+  const record = await getCdpTokenRecord(env.MOLTBOT_BUCKET, payload.jti);
+  if (!record) throw new Error('Unknown token');
+  if (record.revokedAt) throw new Error('Token has been revoked');
+  // Debugger URL tokens carry the parent's id but their own exp
+  if (Date.parse(record.expiresAt) <= now) throw new Error('Token has expired');
+
+  return { tokenId: record.id, scope, expiresAt: payload.exp };
+}
+
+/**
+ * Count a use of a CDP token
+ *
+ * Not atomic: concurrent uses may occasionally be counted once.
+ */
+export async function recordCdpTokenUse(bucket: R2Bucket, tokenId: string, now: number = Date.now()): Promise<void> {
+  const record = await getCdpTokenRecord(bucket, tokenId);
+  if (!record) return;
+
+  record.uses += 1;
+  record.lastUsedAt = new Date(now).toISOString();
+  await bucket.put(tokenKey(tokenId), JSON.stringify(record), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+/**
+ * Revoke a CDP token
+ *
+ * @returns The updated record, or null if no such token exists
+ */
+export async function revokeCdpToken(
+  bucket: R2Bucket,
+  tokenId: string,
+  now: number = Date.now()
+): Promise<CdpTokenRecord | null> {
+  const record = await getCdpTokenRecord(bucket, tokenId);
+  if (!record) return null;
+
+  if (!record.revokedAt) {
+    record.revokedAt = new Date(now).toISOString();
+    await bucket.put(tokenKey(tokenId), JSON.stringify(record), {
+      httpMetadata: { contentType: 'application/json' },
+    });
+  }
+  return record;
+}
+
+/**
+ * List all CDP token records, newest first
+ */
+export async function listCdpTokens(bucket: R2Bucket): Promise<CdpTokenRecord[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix: TOKEN_KEY_PREFIX, cursor });
+    keys.push(...page.objects.map(o => o.key));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  const records = await Promise.all(keys.map(async (key) => {
+    const object = await bucket.get(key);
+    return object ? object.json<CdpTokenRecord>() : null;
+  }));
+
+  return records
+    .filter((r): r is CdpTokenRecord => r !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Check if a scope allows calling a CDP method
+ */
+export function isMethodAllowed(scope: CdpTokenScope, method: string): boolean {
+  if (!scope.readOnly) return true;
+  const [domain] = method.split('.');
+  return READ_ONLY_DOMAINS.has(domain) || READ_ONLY_METHODS.has(method);
+}
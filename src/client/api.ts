@@ -116,6 +116,34 @@ export async function restartGateway(): Promise<RestartGatewayResponse> {
   });
 }
 
+export interface WatchdogRestart {
+  at: string;
+  reason: 'missing' | 'unresponsive';
+  success: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface WatchdogStatusResponse {
+  consecutiveFailures: number;
+  nextAttemptAt: string | null;
+  crashLoop: boolean;
+  lastCheckAt: string | null;
+  lastHealthyAt: string | null;
+  history: WatchdogRestart[];
+  error?: string;
+}
+
+export async function getWatchdogStatus(): Promise<WatchdogStatusResponse> {
+  return apiRequest<WatchdogStatusResponse>('/gateway/watchdog');
+}
+
+export async function resetWatchdog(): Promise<{ success: boolean; state: WatchdogStatusResponse; error?: string }> {
+  return apiRequest<{ success: boolean; state: WatchdogStatusResponse; error?: string }>('/gateway/watchdog/reset', {
+    method: 'POST',
+  });
+}
+
 export interface StorageStatusResponse {
   configured: boolean;
   missing?: string[];
@@ -6,11 +6,14 @@ import {
   restartGateway,
   getStorageStatus,
   triggerSync,
+  getWatchdogStatus,
+  resetWatchdog,
   AuthError,
   type PendingDevice,
   type PairedDevice,
   type DeviceListResponse,
   type StorageStatusResponse,
+  type WatchdogStatusResponse,
 } from '../api'
 import './AdminPage.css'
 
@@ -28,6 +31,8 @@ export default function AdminPage() {
   const [actionInProgress, setActionInProgress] = useState<string | null>(null)
   const [restartInProgress, setRestartInProgress] = useState(false)
   const [syncInProgress, setSyncInProgress] = useState(false)
+  const [watchdog, setWatchdog] = useState<WatchdogStatusResponse | null>(null)
+  const [resetInProgress, setResetInProgress] = useState(false)
 
   const fetchDevices = useCallback(async () => {
     try {
@@ -62,10 +67,20 @@ export default function AdminPage() {
     }
   }, [])
 
+  const fetchWatchdogStatus = useCallback(async () => {
+    try {
+      setWatchdog(await getWatchdogStatus())
+    } catch (err) {
+      // Watchdog history is informational only
+      console.error('Failed to fetch watchdog status:', err)
+    }
+  }, [])
+
   useEffect(() => {
     fetchDevices()
     fetchStorageStatus()
-  }, [fetchDevices, fetchStorageStatus])
+    fetchWatchdogStatus()
+  }, [fetchDevices, fetchStorageStatus, fetchWatchdogStatus])
 
   const handleApprove = async (requestId: string) => {
     setActionInProgress(requestId)
@@ -142,6 +157,19 @@ export default function AdminPage() {
     }
   }
 
+  const handleResetWatchdog = async () => {
+    setResetInProgress(true)
+    try {
+      const result = await resetWatchdog()
+      setWatchdog(result.state)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset watchdog')
+    } finally {
+      setResetInProgress(false)
+    }
+  }
+
   const formatSyncTime = (isoString: string | null) => {
     if (!isoString) return 'Never'
     try {
@@ -234,6 +262,56 @@ export default function AdminPage() {
           Restart the gateway to apply configuration changes or recover from errors.
           All connected clients will be temporarily disconnected.
         </p>
+
+        {watchdog?.crashLoop && (
+          <div className="warning-banner watchdog-banner">
+            <div className="warning-content">
+              <strong>Gateway Crash Loop Detected</strong>
+              <p>
+                The gateway kept failing, so automatic restarts are paused.
+                Check the gateway logs, then resume the watchdog.
+              </p>
+            </div>
+            <button
+              className="btn btn-secondary btn-sm"
+              onClick={handleResetWatchdog}
+              disabled={resetInProgress}
+            >
+              {resetInProgress && <ButtonSpinner />}
+              {resetInProgress ? 'Resuming...' : 'Resume Watchdog'}
+            </button>
+          </div>
+        )}
+
+        {watchdog && (
+          <div className="watchdog-status">
+            <div className="detail-row">
+              <span className="label">Last check:</span>
+              <span className="value">{formatSyncTime(watchdog.lastCheckAt)}</span>
+            </div>
+            <div className="detail-row">
+              <span className="label">Last healthy:</span>
+              <span className="value">{formatSyncTime(watchdog.lastHealthyAt)}</span>
+            </div>
+            {watchdog.nextAttemptAt && !watchdog.crashLoop && (
+              <div className="detail-row">
+                <span className="label">Next retry:</span>
+                <span className="value">{formatSyncTime(watchdog.nextAttemptAt)}</span>
+              </div>
+            )}
+            {watchdog.history.length > 0 && (
+              <ul className="restart-history">
+                {watchdog.history.map((restart) => (
+                  <li key={restart.at} className={restart.success ? 'success' : 'failed'}>
+                    <span title={formatSyncTime(restart.at)}>{formatTimeAgo(Date.parse(restart.at))}</span>
+                    <span>Gateway {restart.reason}</span>
+                    <span>{restart.success ? 'Restarted' : `Restart failed: ${restart.error || 'unknown error'}`}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </section>
 
       {loading ? (
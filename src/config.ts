@@ -11,5 +11,117 @@ export const STARTUP_TIMEOUT_MS = 180_000;
 /** Mount path for R2 persistent storage inside the container */
 export const R2_MOUNT_PATH = '/data/openclaw';
 
+/** OpenClaw config directory inside the container */
+export const OPENCLAW_CONFIG_DIR = '/root/.openclaw';
+
+/** OpenClaw workspace (memory, bootstrap files and skills) inside the container */
+export const OPENCLAW_WORKSPACE_DIR = '/root/openclaw';
+
 /** R2 bucket name for persistent storage */
 export const R2_BUCKET_NAME = 'openclaw-data';
+
+/** Sandbox id used when all users share a single container */
+export const SHARED_SANDBOX_ID = 'openclaw';
+
+/** R2 key prefix for state the worker manages itself (outside container backups) */
+export const WORKER_STATE_PREFIX = '_worker/';
+
+/** How long the gateway coordinator trusts a ready gateway before checking the container again */
+export const GATEWAY_STATE_TTL_MS = 30_000;
+
+/** How long the gateway coordinator trusts the R2 mount state before probing it again (5 minutes) */
+export const GATEWAY_MOUNT_TTL_MS = 5 * 60_000;
+
+/** Time allowed for each step of a gateway health check (TCP, HTTP, WebSocket handshake) */
+export const GATEWAY_HEALTH_TIMEOUT_MS = 5_000;
+
+/** Delay between readiness checks while waiting for a starting gateway */
+export const GATEWAY_READY_POLL_MS = 1_000;
+
+/** Lines of start-openclaw.sh output shown on the loading page */
+export const STARTUP_LOG_LINES = 20;
+
+/** How often the startup progress stream checks for changes */
+export const STARTUP_PROGRESS_POLL_MS = 1_000;
+
+/** How long a resilient WebSocket proxy keeps a client waiting for a restarted gateway */
+export const WS_RECONNECT_WINDOW_MS = 60_000;
+
+/** Delay between a resilient WebSocket proxy's attempts to reach the restarted gateway */
+export const WS_RECONNECT_RETRY_MS = 2_000;
+
+/** Client frames a resilient WebSocket proxy holds while the gateway restarts, in bytes */
+export const WS_RECONNECT_BUFFER_BYTES = 256 * 1024;
+
+/** How long the watchdog waits for a running gateway to accept a connection */
+export const WATCHDOG_PROBE_TIMEOUT_MS = 10_000;
+
+/** First retry delay after a failed watchdog restart; doubles on each failure */
+export const WATCHDOG_BACKOFF_BASE_MS = 60_000;
+
+/** Upper bound for the watchdog retry delay (1 hour) */
+export const WATCHDOG_BACKOFF_MAX_MS = 3_600_000;
+
+/** Restarts within WATCHDOG_CRASH_LOOP_WINDOW_MS that count as a crash loop */
+export const WATCHDOG_CRASH_LOOP_RESTARTS = 5;
+
+/** Window used for crash-loop detection (30 minutes) */
+export const WATCHDOG_CRASH_LOOP_WINDOW_MS = 1_800_000;
+
+/** Number of restart attempts kept in the watchdog history */
+export const WATCHDOG_HISTORY_LIMIT = 20;
+
+/** Default time between scheduled R2 snapshots (overridable with SNAPSHOT_INTERVAL) */
+export const DEFAULT_SNAPSHOT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/** Default number of R2 snapshots to keep (overridable with SNAPSHOT_RETENTION) */
+export const DEFAULT_SNAPSHOT_RETENTION = 28;
+
+/** Default lifetime of CDP access tokens minted from the admin API (1 hour) */
+export const CDP_TOKEN_DEFAULT_TTL_SECONDS = 60 * 60;
+
+/** Longest lifetime an admin can give a CDP access token (30 days) */
+export const CDP_TOKEN_MAX_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Lifetime of the token embedded in webSocketDebuggerUrl for CDP_SECRET callers */
+export const CDP_DEBUGGER_URL_TOKEN_TTL_SECONDS = 5 * 60;
+
+/** Number of blocked CDP navigations kept for the admin API */
+export const CDP_BLOCKED_LOG_LIMIT = 100;
+
+/** Default time an idle pooled browser session is kept alive (overridable with CDP_POOL_IDLE_SECONDS) */
+export const DEFAULT_CDP_POOL_IDLE_SECONDS = 60;
+
+/** Longest keep-alive Browser Rendering allows for an idle session (10 minutes) */
+export const CDP_POOL_MAX_IDLE_SECONDS = 600;
+
+/** Default limits for CDP WebSocket sessions (each overridable with the matching CDP_* variable, 0 disables) */
+export const DEFAULT_CDP_MAX_SESSION_SECONDS = 60 * 60;
+export const DEFAULT_CDP_MAX_TARGETS = 10;
+// Off unless configured: clients that keep a quiet session open or send large scripts worked before these limits
+export const DEFAULT_CDP_IDLE_TIMEOUT_SECONDS = 0;
+export const DEFAULT_CDP_MAX_MESSAGE_BYTES = 0;
+export const DEFAULT_CDP_MAX_CONCURRENT_SESSIONS = 10;
+// 4096x4096: a screenshot this size is already 64 MiB as a raw bitmap in the browser
+export const DEFAULT_CDP_MAX_SCREENSHOT_PIXELS = 4096 * 4096;
+
+/** How often a recorded CDP session screenshots its open pages */
+export const CDP_RECORDING_SCREENSHOT_INTERVAL_MS = 5_000;
+
+/** How often an in-progress CDP recording is saved to R2, so a crashed session still leaves a record */
+export const CDP_RECORDING_FLUSH_INTERVAL_MS = 30_000;
+
+/** Requests and console messages kept per CDP recording before it is marked truncated */
+export const CDP_RECORDING_MAX_ENTRIES = 5_000;
+
+/** Screenshots kept per CDP recording */
+export const CDP_RECORDING_MAX_SCREENSHOTS = 360;
+
+/** Saved CDP recordings kept in R2; older ones are deleted when a recorded session ends */
+export const CDP_RECORDING_MAX_KEPT = 50;
+
+/** Largest file a CDP session can download into R2 */
+export const CDP_DOWNLOAD_MAX_BYTES = 50 * 1024 * 1024;
+
+/** Largest browser profile (cookies and localStorage) saved to R2 */
+export const CDP_PROFILE_MAX_BYTES = 5 * 1024 * 1024;
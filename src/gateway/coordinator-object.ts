@@ -0,0 +1,48 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { OpenClawEnv, Tenant } from '../types';
+import { configureLogger } from '../logger';
+import { getTenantSandbox } from '../tenant';
+import { createGatewayStateCache, type GatewayStateCache, type GatewayStatus } from './coordinator';
+import type { StartupProgress } from './progress';
+
+/**
+ * Durable Object that tracks the gateway of one sandbox
+ *
+ * There is one per sandbox (see getGatewayCoordinator), so requests from every
+ * isolate share its cached state and wait on the same startup. Outgoing calls to
+ * the sandbox don't block the object's input, so a request arriving mid-startup
+ * joins the startup in flight instead of queueing behind it.
+ */
+export class GatewayCoordinator extends DurableObject<OpenClawEnv> {
+  private cache: GatewayStateCache | null = null;
+
+  constructor(ctx: DurableObjectState, env: OpenClawEnv) {
+    super(ctx, env);
+    configureLogger(env);
+  }
+
+  private getCache(tenant: Tenant): GatewayStateCache {
+    this.cache ??= createGatewayStateCache(getTenantSandbox(this.env, tenant), this.env, tenant);
+    return this.cache;
+  }
+
+  async getStatus(tenant: Tenant): Promise<GatewayStatus> {
+    return this.getCache(tenant).getStatus();
+  }
+
+  async checkHealth(tenant: Tenant): Promise<GatewayStatus> {
+    return this.getCache(tenant).checkHealth();
+  }
+
+  async getProgress(tenant: Tenant): Promise<StartupProgress> {
+    return this.getCache(tenant).getProgress();
+  }
+
+  async ensureReady(tenant: Tenant): Promise<GatewayStatus> {
+    return this.getCache(tenant).ensureReady();
+  }
+
+  async invalidate(tenant: Tenant, reason: string): Promise<void> {
+    this.getCache(tenant).invalidate(reason);
+  }
+}
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Process } from '@cloudflare/sandbox';
+import { createGatewayStateCache } from './coordinator';
+import { checkGatewayLiveness, checkGatewayReadiness } from './health';
+import { ensureGatewayProcess, findExistingOpenClawProcess } from './process';
+import { mountR2Storage } from './r2';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+import { SHARED_TENANT } from '../tenant/tenant';
+
+vi.mock('./process', () => ({
+  ensureGatewayProcess: vi.fn(),
+  findExistingOpenClawProcess: vi.fn(),
+}));
+vi.mock('./r2', () => ({ mountR2Storage: vi.fn() }));
+vi.mock('./health', () => ({ checkGatewayLiveness: vi.fn(), checkGatewayReadiness: vi.fn() }));
+
+const NOW = Date.parse('2025-01-01T12:00:00.000Z');
+
+function createGatewayProcess(overrides: Partial<Process> = {}): Process {
+  return {
+    id: 'gateway-1',
+    command: 'start-openclaw.sh',
+    status: 'running',
+    ...overrides,
+  } as unknown as Process;
+}
+
+function createCache() {
+  const { sandbox } = createMockSandbox();
+  return createGatewayStateCache(sandbox, createMockEnv(), SHARED_TENANT);
+}
+
+describe('createGatewayStateCache', () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.mocked(findExistingOpenClawProcess).mockReset().mockResolvedValue(null);
+    vi.mocked(ensureGatewayProcess).mockReset().mockResolvedValue(createGatewayProcess());
+    vi.mocked(mountR2Storage).mockReset().mockResolvedValue(true);
+    vi.mocked(checkGatewayLiveness).mockReset().mockResolvedValue(true);
+    vi.mocked(checkGatewayReadiness).mockReset().mockResolvedValue({
+      ready: true, failure: null, error: null, httpStatus: 200, version: '2026.1.5', latencyMs: 5,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts the gateway once for concurrent requests', async () => {
+    let finishStartup!: (process: Process) => void;
+    vi.mocked(ensureGatewayProcess).mockReturnValue(new Promise(resolve => { finishStartup = resolve; }));
+    const cache = createCache();
+
+    const first = cache.ensureReady();
+    const second = cache.ensureReady();
+    await vi.waitFor(() => expect(ensureGatewayProcess).toHaveBeenCalled());
+    expect((await cache.getStatus()).starting).toBe(true);
+
+    finishStartup(createGatewayProcess());
+    const [a, b] = await Promise.all([first, second]);
+
+    expect(ensureGatewayProcess).toHaveBeenCalledTimes(1);
+    expect(a).toMatchObject({ ready: true, starting: false, processId: 'gateway-1', mounted: true });
+    expect(b).toEqual(a);
+  });
+
+  it('answers from memory while the state is fresh', async () => {
+    const cache = createCache();
+    await cache.ensureReady();
+    vi.mocked(findExistingOpenClawProcess).mockClear();
+
+    vi.setSystemTime(NOW + 20_000);
+    expect((await cache.getStatus()).ready).toBe(true);
+    expect((await cache.ensureReady()).ready).toBe(true);
+
+    expect(findExistingOpenClawProcess).not.toHaveBeenCalled();
+    expect(ensureGatewayProcess).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks the container again once the state is stale', async () => {
+    const cache = createCache();
+    await cache.ensureReady();
+    const gateway = createGatewayProcess();
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(gateway);
+
+    vi.setSystemTime(NOW + 31_000);
+    await cache.ensureReady();
+
+    expect(ensureGatewayProcess).toHaveBeenCalledTimes(2);
+    expect(ensureGatewayProcess).toHaveBeenLastCalledWith(expect.anything(), expect.anything(), SHARED_TENANT, {
+      existingProcess: gateway,
+      onPhase: expect.any(Function),
+    });
+    // The mount was checked less than GATEWAY_MOUNT_TTL_MS ago and the gateway is still there
+    expect(mountR2Storage).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks the mount again when the gateway has to be started', async () => {
+    const cache = createCache();
+    await cache.ensureReady();
+
+    vi.setSystemTime(NOW + 31_000);
+    await cache.ensureReady();
+
+    expect(mountR2Storage).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a gateway that went away when the state is stale', async () => {
+    const cache = createCache();
+    await cache.ensureReady();
+
+    vi.setSystemTime(NOW + 31_000);
+    const status = await cache.getStatus();
+
+    expect(status).toMatchObject({ ready: false, running: false, processId: null });
+  });
+
+  it('checks the container again after invalidate', async () => {
+    const cache = createCache();
+    await cache.ensureReady();
+
+    cache.invalidate('gateway restart requested');
+    expect((await cache.getStatus()).ready).toBe(false);
+    await cache.ensureReady();
+
+    expect(ensureGatewayProcess).toHaveBeenCalledTimes(2);
+    expect(mountR2Storage).toHaveBeenCalledTimes(2);
+  });
+
+  it('records a failed startup and retries on the next request', async () => {
+    vi.mocked(ensureGatewayProcess).mockRejectedValueOnce(new Error('OpenClaw gateway failed to start'));
+    const cache = createCache();
+
+    await expect(cache.ensureReady()).rejects.toThrow('OpenClaw gateway failed to start');
+    expect((await cache.getStatus()).error).toBe('OpenClaw gateway failed to start');
+
+    const status = await cache.ensureReady();
+    expect(status).toMatchObject({ ready: true, error: null });
+    expect(ensureGatewayProcess).toHaveBeenCalledTimes(2);
+  });
+
+  it('records version and uptime from a health check', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(createGatewayProcess({ startTime: new Date(NOW - 60_000) }));
+    const cache = createCache();
+
+    const status = await cache.checkHealth();
+
+    expect(status).toMatchObject({ ready: true, version: '2026.1.5', startedAt: new Date(NOW - 60_000).toISOString() });
+    vi.mocked(checkGatewayReadiness).mockClear();
+    await cache.checkHealth();
+    expect(checkGatewayReadiness).not.toHaveBeenCalled();
+  });
+
+  it('reports a live gateway that fails readiness with the failure', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(createGatewayProcess());
+    vi.mocked(checkGatewayReadiness).mockResolvedValue({
+      ready: false, failure: 'auth', error: "Gateway rejected the worker's token", httpStatus: 200, version: null, latencyMs: 5,
+    });
+
+    const status = await createCache().checkHealth();
+
+    expect(status).toMatchObject({ ready: false, running: true, failure: 'auth', error: "Gateway rejected the worker's token" });
+  });
+
+  it('clears the last error once the gateway passes readiness again', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(createGatewayProcess());
+    vi.mocked(checkGatewayReadiness).mockResolvedValueOnce({
+      ready: false, failure: 'http', error: 'Control UI returned HTTP 502', httpStatus: 502, version: null, latencyMs: 5,
+    });
+    const cache = createCache();
+
+    expect((await cache.checkHealth()).error).toBe('Control UI returned HTTP 502');
+    expect(await cache.checkHealth()).toMatchObject({ ready: true, failure: null, error: null });
+  });
+
+  it('skips readiness for a gateway that is not alive', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(createGatewayProcess());
+    vi.mocked(checkGatewayLiveness).mockResolvedValue(false);
+
+    const status = await createCache().checkHealth();
+
+    expect(status).toMatchObject({ ready: false, processId: 'gateway-1', failure: null });
+    expect(checkGatewayReadiness).not.toHaveBeenCalled();
+  });
+
+  describe('getProgress', () => {
+    it('reports phases from the worker and the script output while starting', async () => {
+      let finishStartup!: (process: Process) => void;
+      const gateway = createGatewayProcess({
+        getLogs: vi.fn().mockResolvedValue({ stdout: 'Restoring from R2 backup...\nStarting OpenClaw Gateway...\n', stderr: '' }),
+      });
+      vi.mocked(ensureGatewayProcess).mockImplementation(async (_sandbox, _env, _tenant, options) => {
+        options?.onPhase?.('launching', gateway);
+        return new Promise(resolve => { finishStartup = resolve; });
+      });
+      const cache = createCache();
+
+      const startup = cache.ensureReady();
+      await vi.waitFor(() => expect(ensureGatewayProcess).toHaveBeenCalled());
+      const progress = await cache.getProgress();
+
+      expect(progress.phase).toBe('waiting');
+      expect(progress.history.map(step => step.phase)).toEqual(['mounting', 'launching', 'waiting']);
+      expect(progress.logs).toEqual(['Restoring from R2 backup...', 'Starting OpenClaw Gateway...']);
+
+      finishStartup(gateway);
+      await startup;
+      expect((await cache.getProgress()).phase).toBe('ready');
+    });
+
+    it('reports a failed startup with its output and a hint', async () => {
+      const gateway = createGatewayProcess({
+        getLogs: vi.fn().mockResolvedValue({ stdout: 'Starting OpenClaw Gateway...\n', stderr: 'Error: bad config\n' }),
+      });
+      vi.mocked(ensureGatewayProcess).mockImplementation(async (_sandbox, _env, _tenant, options) => {
+        options?.onPhase?.('verifying', gateway);
+        throw new Error('OpenClaw gateway is not ready (http): Gateway answered HTTP 502');
+      });
+      const cache = createCache();
+
+      await expect(cache.ensureReady()).rejects.toThrow('not ready');
+      const progress = await cache.getProgress();
+
+      expect(progress).toMatchObject({
+        phase: 'failed',
+        error: 'OpenClaw gateway is not ready (http): Gateway answered HTTP 502',
+        logs: ['Starting OpenClaw Gateway...', 'Error: bad config'],
+      });
+      expect(progress.hint).toContain('ANTHROPIC_API_KEY');
+    });
+
+    it('reports no phase before any startup has run', async () => {
+      expect(await createCache().getProgress()).toMatchObject({ phase: null, history: [], error: null });
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import type { Sandbox, Process } from '@cloudflare/sandbox';
+import type { OpenClawEnv, Tenant } from '../types';
+import { GATEWAY_MOUNT_TTL_MS, GATEWAY_STATE_TTL_MS } from '../config';
+import { createLogger } from '../logger';
+import { checkGatewayLiveness, checkGatewayReadiness, type GatewayReadinessFailure } from './health';
+import { ensureGatewayProcess, findExistingOpenClawProcess } from './process';
+import {
+  detectScriptPhase,
+  getStartupErrorHint,
+  isScriptPhase,
+  tailLogLines,
+  type StartupPhase,
+  type StartupProgress,
+} from './progress';
+import { mountR2Storage } from './r2';
+import type { GatewayCoordinator } from './coordinator-object';
+
+const logger = createLogger('coordinator');
+
+/**
+ * Gateway state as last seen by the coordinator
+ */
+export interface GatewayStatus {
+  ready: boolean;  // accepted connections at checkedAt
+  running: boolean;  // process was running at checkedAt (may still be booting)
+  starting: boolean;  // a startup is in flight
+  processId: string | null;
+  startedAt: string | null;  // when the gateway process started
+  version: string | null;  // reported by the gateway at the last readiness check
+  checkedAt: string | null;
+  mounted: boolean | null;  // null until the R2 mount has been checked
+  mountCheckedAt: string | null;
+  failure: GatewayReadinessFailure | null;  // why the last readiness check failed
+  error: string | null;  // why the last startup or readiness check failed
+}
+
+/**
+ * Cached gateway state for one sandbox, with single-flight startup
+ *
+ * The GatewayCoordinator Durable Object keeps one of these per sandbox so every
+ * worker isolate shares it. Within GATEWAY_STATE_TTL_MS of a successful check,
+ * getStatus() and ensureReady() answer from memory without calling the container.
+ */
+export interface GatewayStateCache {
+  /** Report the gateway state, listing processes only when the cache is stale */
+  getStatus(): Promise<GatewayStatus>;
+  /** Run the liveness and readiness checks unless a ready gateway was checked recently */
+  checkHealth(): Promise<GatewayStatus>;
+  /** Report how the current (or last) startup is going, with recent start-openclaw.sh output */
+  getProgress(): Promise<StartupProgress>;
+  /** Wait until the gateway accepts connections, starting it if needed */
+  ensureReady(): Promise<GatewayStatus>;
+  /** Forget the cached state, e.g. after the gateway was killed or a proxied request failed */
+  invalidate(reason: string): void;
+}
+
+export function createGatewayStateCache(sandbox: Sandbox, env: OpenClawEnv, tenant?: Tenant): GatewayStateCache {
+  let processId: string | null = null;
+  let startedAt = 0;
+  let version: string | null = null;
+  let running = false;
+  let ready = false;
+  let checkedAt = 0;
+  let mounted: boolean | null = null;
+  let mountCheckedAt = 0;
+  let failure: GatewayReadinessFailure | null = null;
+  let error: string | null = null;
+  let startup: Promise<void> | null = null;
+  let progress: Omit<StartupProgress, 'hint'> | null = null;
+  let startupProcess: Process | null = null;
+
+  const isFresh = (at: number, ttl: number) => at > 0 && Date.now() - at < ttl;
+
+  const toStatus = (): GatewayStatus => ({
+    ready,
+    running,
+    starting: startup !== null,
+    processId,
+    startedAt: startedAt ? new Date(startedAt).toISOString() : null,
+    version,
+    checkedAt: checkedAt ? new Date(checkedAt).toISOString() : null,
+    mounted,
+    mountCheckedAt: mountCheckedAt ? new Date(mountCheckedAt).toISOString() : null,
+    failure,
+    error,
+  });
+
+  const setPhase = (phase: StartupPhase) => {
+    if (!progress || progress.phase === phase) return;
+    progress.phase = phase;
+    progress.history.push({ phase, at: new Date().toISOString() });
+  };
+
+  async function start(): Promise<void> {
+    // Reset synchronously so a progress request right behind this one sees the new startup
+    progress = { phase: null, startedAt: new Date().toISOString(), history: [], logs: [], error: null };
+    startupProcess = null;
+
+    try {
+      const existing = await findExistingOpenClawProcess(sandbox);
+
+      // A missing gateway may mean a fresh container, whose mount is gone too
+      if (!existing || !isFresh(mountCheckedAt, GATEWAY_MOUNT_TTL_MS)) {
+        setPhase('mounting');
+        mounted = await mountR2Storage(sandbox, env, tenant);
+        mountCheckedAt = Date.now();
+      }
+
+      const process = await ensureGatewayProcess(sandbox, env, tenant, {
+        existingProcess: existing,
+        onPhase: (phase, gateway) => {
+          startupProcess = gateway;
+          setPhase(phase);
+        },
+      });
+      setPhase('ready');
+      processId = process.id;
+      startedAt = process.startTime ? new Date(process.startTime).getTime() : 0;
+      running = true;
+      ready = true;
+      checkedAt = Date.now();
+      failure = null;
+      error = null;
+    } catch (err) {
+      ready = false;
+      error = err instanceof Error ? err.message : String(err);
+      progress.error = error;
+      setPhase('failed');
+      throw err;
+    }
+  }
+
+  return {
+    async getStatus() {
+      if (startup || (ready && isFresh(checkedAt, GATEWAY_STATE_TTL_MS))) return toStatus();
+
+      const process = await findExistingOpenClawProcess(sandbox);
+      if (!process || process.id !== processId || process.status !== 'running') ready = false;
+      processId = process?.id ?? null;
+      running = process?.status === 'running';
+      return toStatus();
+    },
+
+    async checkHealth() {
+      if (startup || (ready && isFresh(checkedAt, GATEWAY_STATE_TTL_MS))) return toStatus();
+
+      const process = await findExistingOpenClawProcess(sandbox);
+      processId = process?.id ?? null;
+      startedAt = process?.startTime ? new Date(process.startTime).getTime() : 0;
+      running = process?.status === 'running';
+      ready = false;
+      failure = null;
+
+      if (process && await checkGatewayLiveness(process)) {
+        const readiness = await checkGatewayReadiness(sandbox, env, tenant);
+        ready = readiness.ready;
+        failure = readiness.failure;
+        if (readiness.ready) {
+          version = readiness.version;
+          checkedAt = Date.now();
+          error = null;
+        } else {
+          error = readiness.error;
+        }
+      }
+      return toStatus();
+    },
+
+    async getProgress() {
+      // A finished startup can be stale: the gateway may have recovered or gone away since
+      if (!progress || (!startup && (ready || progress.phase === 'ready'))) {
+        return {
+          phase: ready ? 'ready' : null,
+          startedAt: progress?.startedAt ?? null,
+          history: progress ? [...progress.history] : [],
+          logs: progress?.logs ?? [],
+          error: null,
+          hint: null,
+        };
+      }
+
+      // Read the script's output while it runs, and once more after a failure
+      const current = progress;
+      if (startupProcess && (isScriptPhase(current.phase) || (current.phase === 'failed' && !current.logs.length))) {
+        try {
+          const logs = await startupProcess.getLogs();
+          current.logs = tailLogLines(logs);
+          const scriptPhase = detectScriptPhase(logs.stdout ?? '');
+          if (scriptPhase && isScriptPhase(current.phase)) setPhase(scriptPhase);
+        } catch (err) {
+          logger.warn('Could not read startup logs', { tenant: tenant?.id, error: err });
+        }
+      }
+
+      return {
+        ...current,
+        history: [...current.history],
+        hint: current.error ? getStartupErrorHint(current.error, env) : null,
+      };
+    },
+
+    async ensureReady() {
+      if (ready && isFresh(checkedAt, GATEWAY_STATE_TTL_MS)) return toStatus();
+
+      startup ??= start().finally(() => {
+        startup = null;
+      });
+      await startup;
+      return toStatus();
+    },
+
+    invalidate(reason) {
+      logger.info('Invalidating gateway state', { tenant: tenant?.id, reason });
+      ready = false;
+      running = false;
+      checkedAt = 0;
+      mountCheckedAt = 0;
+      if (!startup) progress = null;
+    },
+  };
+}
+
+/**
+ * Get the coordinator Durable Object for a tenant's sandbox
+ */
+export function getGatewayCoordinator(env: OpenClawEnv, tenant: Tenant): DurableObjectStub<GatewayCoordinator> {
+  return env.GATEWAY_COORDINATOR.get(env.GATEWAY_COORDINATOR.idFromName(tenant.sandboxId));
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { buildEnvVars } from './env';
 import { createMockEnv } from '../test-utils';
+import { SHARED_TENANT } from '../tenant/tenant';
 
 describe('buildEnvVars', () => {
   it('returns empty object when no env vars set', () => {
@@ -91,6 +92,16 @@ describe('buildEnvVars', () => {
     expect(result.OPENCLAW_GATEWAY_TOKEN).toBe('my-token');
   });
 
+  it('uses the tenant gateway token instead of MOLTBOT_GATEWAY_TOKEN', () => {
+    const env = createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'my-token' });
+    const result = buildEnvVars(env, {
+      id: 'alice-1234abcd',
+      sandboxId: 'openclaw-alice-1234abcd',
+      gatewayToken: 'tenant-token',
+    });
+    expect(result.OPENCLAW_GATEWAY_TOKEN).toBe('tenant-token');
+  });
+
   it('includes all channel tokens when set', () => {
     const env = createMockEnv({
       TELEGRAM_BOT_TOKEN: 'tg-token',
@@ -110,6 +121,31 @@ describe('buildEnvVars', () => {
     expect(result.SLACK_APP_TOKEN).toBe('slack-app');
   });
 
+  it('keeps channel tokens from per-user tenants', () => {
+    const env = createMockEnv({
+      TELEGRAM_BOT_TOKEN: 'tg-token',
+      DISCORD_BOT_TOKEN: 'discord-token',
+      SLACK_BOT_TOKEN: 'slack-bot',
+      SLACK_APP_TOKEN: 'slack-app',
+    });
+    const result = buildEnvVars(env, {
+      id: 'alice-1234abcd',
+      sandboxId: 'openclaw-alice-1234abcd',
+      r2Prefix: '/tenants/alice-1234abcd',
+    });
+
+    expect(result.TELEGRAM_BOT_TOKEN).toBeUndefined();
+    expect(result.DISCORD_BOT_TOKEN).toBeUndefined();
+    expect(result.SLACK_BOT_TOKEN).toBeUndefined();
+    expect(result.SLACK_APP_TOKEN).toBeUndefined();
+  });
+
+  it('passes channel tokens to the shared tenant', () => {
+    const env = createMockEnv({ TELEGRAM_BOT_TOKEN: 'tg-token' });
+    const result = buildEnvVars(env, SHARED_TENANT);
+    expect(result.TELEGRAM_BOT_TOKEN).toBe('tg-token');
+  });
+
   it('maps DEV_MODE to OPENCLAW_DEV_MODE for container', () => {
     const env = createMockEnv({
       DEV_MODE: 'true',
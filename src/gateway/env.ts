@@ -1,12 +1,14 @@
-import type { OpenClawEnv } from '../types';
+import type { OpenClawEnv, Tenant } from '../types';
+import { SHARED_TENANT } from '../tenant/tenant';
 
 /**
  * Build environment variables to pass to the OpenClaw container process
  * 
  * @param env - Worker environment bindings
+ * @param tenant - Tenant the container belongs to (overrides the gateway token)
  * @returns Environment variables record
  */
-export function buildEnvVars(env: OpenClawEnv): Record<string, string> {
+export function buildEnvVars(env: OpenClawEnv, tenant?: Tenant): Record<string, string> {
   const envVars: Record<string, string> = {};
 
   const isOpenAIGateway = env.AI_GATEWAY_BASE_URL?.endsWith('/openai');
@@ -42,15 +44,20 @@ export function buildEnvVars(env: OpenClawEnv): Record<string, string> {
     envVars.ANTHROPIC_BASE_URL = env.ANTHROPIC_BASE_URL;
   }
   // Map MOLTBOT_GATEWAY_TOKEN to OPENCLAW_GATEWAY_TOKEN (container expects this name)
-  if (env.MOLTBOT_GATEWAY_TOKEN) envVars.OPENCLAW_GATEWAY_TOKEN = env.MOLTBOT_GATEWAY_TOKEN;
+  // Per-user tenants get their own derived token instead of the shared one
+  const gatewayToken = tenant?.gatewayToken || env.MOLTBOT_GATEWAY_TOKEN;
+  if (gatewayToken) envVars.OPENCLAW_GATEWAY_TOKEN = gatewayToken;
   if (env.DEV_MODE) envVars.OPENCLAW_DEV_MODE = env.DEV_MODE; // Pass DEV_MODE as OPENCLAW_DEV_MODE to container
   if (env.OPENCLAW_BIND_MODE) envVars.OPENCLAW_BIND_MODE = env.OPENCLAW_BIND_MODE;
-  if (env.TELEGRAM_BOT_TOKEN) envVars.TELEGRAM_BOT_TOKEN = env.TELEGRAM_BOT_TOKEN;
-  if (env.TELEGRAM_DM_POLICY) envVars.TELEGRAM_DM_POLICY = env.TELEGRAM_DM_POLICY;
-  if (env.DISCORD_BOT_TOKEN) envVars.DISCORD_BOT_TOKEN = env.DISCORD_BOT_TOKEN;
-  if (env.DISCORD_DM_POLICY) envVars.DISCORD_DM_POLICY = env.DISCORD_DM_POLICY;
-  if (env.SLACK_BOT_TOKEN) envVars.SLACK_BOT_TOKEN = env.SLACK_BOT_TOKEN;
-  if (env.SLACK_APP_TOKEN) envVars.SLACK_APP_TOKEN = env.SLACK_APP_TOKEN;
+  // A bot can only be polled by one gateway, so per-user tenants don't get the deployment's bots
+  if (!tenant || tenant.id === SHARED_TENANT.id) {
+    if (env.TELEGRAM_BOT_TOKEN) envVars.TELEGRAM_BOT_TOKEN = env.TELEGRAM_BOT_TOKEN;
+    if (env.TELEGRAM_DM_POLICY) envVars.TELEGRAM_DM_POLICY = env.TELEGRAM_DM_POLICY;
+    if (env.DISCORD_BOT_TOKEN) envVars.DISCORD_BOT_TOKEN = env.DISCORD_BOT_TOKEN;
+    if (env.DISCORD_DM_POLICY) envVars.DISCORD_DM_POLICY = env.DISCORD_DM_POLICY;
+    if (env.SLACK_BOT_TOKEN) envVars.SLACK_BOT_TOKEN = env.SLACK_BOT_TOKEN;
+    if (env.SLACK_APP_TOKEN) envVars.SLACK_APP_TOKEN = env.SLACK_APP_TOKEN;
+  }
   if (env.CDP_SECRET) envVars.CDP_SECRET = env.CDP_SECRET;
   if (env.WORKER_URL) envVars.WORKER_URL = env.WORKER_URL;
 
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Process } from '@cloudflare/sandbox';
+import { checkGatewayLiveness, checkGatewayReadiness, waitForGatewayReady } from './health';
+import { createMockEnv, createMockSandbox } from '../test-utils';
+
+type Listener = (event: any) => void;
+
+/**
+ * A gateway WebSocket that answers the connect request with `reply`
+ * (a response frame builder, or a close code and reason)
+ */
+function createGatewaySocket(reply: ((id: string) => unknown) | { code: number; reason: string } | null) {
+  const listeners: Record<string, Listener[]> = {};
+  const sent: any[] = [];
+  const emit = (type: string, event: unknown) => listeners[type]?.forEach(listener => listener(event));
+
+  const ws = {
+    accept: vi.fn(),
+    close: vi.fn(),
+    addEventListener: (type: string, listener: Listener) => {
+      (listeners[type] ??= []).push(listener);
+    },
+    send: (data: string) => {
+      const frame = JSON.parse(data);
+      sent.push(frame);
+      if (!reply) return;
+      queueMicrotask(() => {
+        if (typeof reply === 'function') {
+          emit('message', { data: JSON.stringify({ type: 'event', event: 'connect.challenge', payload: {} }) });
+          emit('message', { data: JSON.stringify(reply(frame.id)) });
+        } else {
+          emit('close', reply);
+        }
+      });
+    },
+  };
+  return { ws, sent };
+}
+
+function createGateway(options: {
+  httpStatus?: number;
+  reply?: ((id: string) => unknown) | { code: number; reason: string } | null;
+} = {}) {
+  const { sandbox, containerFetchMock } = createMockSandbox();
+  const { ws, sent } = createGatewaySocket(
+    options.reply === undefined
+      ? (id) => ({ type: 'res', id, ok: true, payload: { type: 'hello-ok', server: { version: '2026.1.5' } } })
+      : options.reply
+  );
+  containerFetchMock.mockResolvedValue(new Response('<html></html>', { status: options.httpStatus ?? 200 }));
+  vi.mocked(sandbox.wsConnect).mockResolvedValue({ status: 101, webSocket: ws } as unknown as Response);
+  return { sandbox, containerFetchMock, ws, sent };
+}
+
+describe('checkGatewayLiveness', () => {
+  it('requires a running process that accepts connections', async () => {
+    const listening = { status: 'running', waitForPort: vi.fn().mockResolvedValue(undefined) } as unknown as Process;
+    const closed = { status: 'running', waitForPort: vi.fn().mockRejectedValue(new Error('timeout')) } as unknown as Process;
+    const exited = { status: 'completed', waitForPort: vi.fn() } as unknown as Process;
+
+    expect(await checkGatewayLiveness(listening)).toBe(true);
+    expect(await checkGatewayLiveness(closed)).toBe(false);
+    expect(await checkGatewayLiveness(exited)).toBe(false);
+    expect(exited.waitForPort).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkGatewayReadiness', () => {
+  it('is ready when the control UI answers and the handshake completes', async () => {
+    const { sandbox, sent, ws } = createGateway();
+
+    const readiness = await checkGatewayReadiness(sandbox, createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'secret' }));
+
+    expect(readiness).toMatchObject({ ready: true, failure: null, httpStatus: 200, version: '2026.1.5' });
+    expect(sent[0]).toMatchObject({ type: 'req', method: 'connect', params: { auth: { token: 'secret' } } });
+    expect(ws.close).toHaveBeenCalled();
+  });
+
+  it('uses the tenant gateway token when there is one', async () => {
+    const { sandbox, sent } = createGateway();
+    await checkGatewayReadiness(sandbox, createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'secret' }), {
+      id: 'alice',
+      sandboxId: 'openclaw-alice',
+      gatewayToken: 'alice-token',
+    });
+    expect(sent[0].params.auth).toEqual({ token: 'alice-token' });
+  });
+
+  it('fails on server errors without trying the WebSocket', async () => {
+    const { sandbox } = createGateway({ httpStatus: 502 });
+
+    const readiness = await checkGatewayReadiness(sandbox, createMockEnv());
+
+    expect(readiness).toMatchObject({ ready: false, failure: 'http', httpStatus: 502 });
+    expect(sandbox.wsConnect).not.toHaveBeenCalled();
+  });
+
+  it('reports a rejected token as an auth failure', async () => {
+    const { sandbox } = createGateway({
+      reply: (id) => ({ type: 'res', id, ok: false, error: { message: 'unauthorized: gateway token mismatch' } }),
+    });
+
+    const readiness = await checkGatewayReadiness(sandbox, createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'old' }));
+
+    expect(readiness.failure).toBe('auth');
+    expect(readiness.error).toContain('gateway token mismatch');
+  });
+
+  it('reports an auth close as an auth failure and other closes as handshake failures', async () => {
+    const auth = createGateway({ reply: { code: 1008, reason: 'gateway token missing' } });
+    expect((await checkGatewayReadiness(auth.sandbox, createMockEnv())).failure).toBe('auth');
+
+    const crash = createGateway({ reply: { code: 1011, reason: 'invalid config' } });
+    expect(await checkGatewayReadiness(crash.sandbox, createMockEnv())).toMatchObject({
+      ready: false,
+      failure: 'handshake',
+      error: 'Gateway closed the WebSocket before answering: invalid config',
+    });
+  });
+
+  it('treats errors about the probe client itself as ready', async () => {
+    const { sandbox } = createGateway({
+      reply: (id) => ({ type: 'res', id, ok: false, error: { message: 'pairing required' } }),
+    });
+    expect((await checkGatewayReadiness(sandbox, createMockEnv())).ready).toBe(true);
+  });
+
+  it('fails when the gateway never answers the connect request', async () => {
+    const { sandbox } = createGateway({ reply: null });
+    const readiness = await checkGatewayReadiness(sandbox, createMockEnv(), undefined, 20);
+    expect(readiness).toMatchObject({ ready: false, failure: 'handshake', error: 'No connect response within 20ms' });
+  });
+
+  it('closes a WebSocket that connects after the check timed out', async () => {
+    const { sandbox, ws } = createGateway();
+    let connect!: (response: Response) => void;
+    vi.mocked(sandbox.wsConnect).mockReturnValue(new Promise<Response>((resolve) => { connect = resolve; }));
+
+    const readiness = await checkGatewayReadiness(sandbox, createMockEnv(), undefined, 20);
+    expect(readiness).toMatchObject({ ready: false, failure: 'handshake', error: 'WebSocket connect timed out after 20ms' });
+
+    connect({ status: 101, webSocket: ws } as unknown as Response);
+    await Promise.resolve();
+    expect(ws.accept).toHaveBeenCalled();
+    expect(ws.close).toHaveBeenCalledWith(1000, 'Health check timed out');
+  });
+});
+
+describe('waitForGatewayReady', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries until the gateway is ready', async () => {
+    const { sandbox, containerFetchMock } = createGateway();
+    containerFetchMock
+      .mockRejectedValueOnce(new Error('connection refused'))
+      .mockResolvedValue(new Response('ok'));
+
+    const promise = waitForGatewayReady(sandbox, createMockEnv(), undefined, 10_000);
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect((await promise).ready).toBe(true);
+    expect(containerFetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up straight away when the token is rejected', async () => {
+    const { sandbox, containerFetchMock } = createGateway({ reply: { code: 1008, reason: 'gateway token mismatch' } });
+
+    await expect(waitForGatewayReady(sandbox, createMockEnv(), undefined, 10_000)).rejects.toThrow(/not ready \(auth\)/);
+    expect(containerFetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up at the deadline', async () => {
+    const { sandbox } = createGateway({ httpStatus: 503 });
+
+    const promise = waitForGatewayReady(sandbox, createMockEnv(), undefined, 3_000);
+    const assertion = expect(promise).rejects.toThrow('OpenClaw gateway is not ready (http): Gateway answered HTTP 503');
+    await vi.advanceTimersByTimeAsync(3_000);
+    await assertion;
+  });
+});
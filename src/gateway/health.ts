@@ -0,0 +1,243 @@
+import type { Sandbox, Process } from '@cloudflare/sandbox';
+import type { OpenClawEnv, Tenant } from '../types';
+import { GATEWAY_HEALTH_TIMEOUT_MS, GATEWAY_READY_POLL_MS, MOLTBOT_PORT } from '../config';
+
+/**
+ * Why a readiness check failed
+ *
+ * - http: the control UI didn't answer, or answered with a server error
+ * - handshake: the WebSocket endpoint didn't complete a connect request
+ * - auth: the gateway rejected the worker's gateway token (usually a token
+ *   changed since the gateway started; restarting it picks up the new one)
+ */
+export type GatewayReadinessFailure = 'http' | 'handshake' | 'auth';
+
+/**
+ * Result of a readiness check against the gateway's HTTP and WebSocket endpoints
+ */
+export interface GatewayReadiness {
+  ready: boolean;
+  failure: GatewayReadinessFailure | null;
+  error: string | null;
+  httpStatus: number | null;
+  version: string | null;  // reported by the gateway in its connect response, if any
+  latencyMs: number;
+}
+
+interface ResponseFrame {
+  type: 'res';
+  id: string;
+  ok: boolean;
+  payload?: { version?: string; server?: { version?: string } };
+  error?: { message?: string };
+}
+
+type HandshakeResult =
+  | { ok: true; version: string | null }
+  | { ok: false; failure: GatewayReadinessFailure; error: string };
+
+function isAuthError(message: string): boolean {
+  return /token (missing|mismatch)|unauthori[sz]ed|invalid token/i.test(message);
+}
+
+/**
+ * Reject if the promise doesn't settle within timeoutMs
+ *
+ * The promise keeps running after a timeout; `discard` receives its value if it
+ * resolves later, to release what nobody is waiting for any more (a socket, a body).
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, what: string, discard?: (late: T) => void): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      if (discard) promise.then(discard, () => {});
+      reject(new Error(`${what} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function closeLateSocket(response: Response): void {
+  if (!response.webSocket) return;
+  try {
+    response.webSocket.accept();
+    response.webSocket.close(1000, 'Health check timed out');
+  } catch {
+    // Already closed
+  }
+}
+
+/**
+ * Send a connect request over the gateway's WebSocket and wait for its response
+ *
+ * A response of any kind shows the gateway loaded its config and is serving
+ * clients. Errors other than auth (e.g. "pairing required") are about this probe
+ * client, not the gateway, so they don't fail the check.
+ */
+async function handshake(sandbox: Sandbox, token: string | undefined, timeoutMs: number): Promise<HandshakeResult> {
+  const upgrade = new Request('http://localhost/', { headers: { Upgrade: 'websocket' } });
+  const response = await withTimeout(sandbox.wsConnect(upgrade, MOLTBOT_PORT), timeoutMs, 'WebSocket connect', closeLateSocket);
+  const ws = response.webSocket;
+  if (!ws) {
+    return { ok: false, failure: 'handshake', error: `WebSocket upgrade failed with HTTP ${response.status}` };
+  }
+  ws.accept();
+
+  const id = `health-${crypto.randomUUID()}`;
+  return new Promise<HandshakeResult>((resolve) => {
+    const finish = (result: HandshakeResult) => {
+      clearTimeout(timer);
+      try {
+        ws.close(1000, 'Health check complete');
+      } catch {
+        // Already closed
+      }
+      resolve(result);
+    };
+    const timer = setTimeout(() => {
+      finish({ ok: false, failure: 'handshake', error: `No connect response within ${timeoutMs}ms` });
+    }, timeoutMs);
+
+    ws.addEventListener('message', (event) => {
+      if (typeof event.data !== 'string') return;
+      let frame: ResponseFrame;
+      try {
+        frame = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      // The gateway may send events (e.g. a connect challenge) before answering
+      if (frame.type !== 'res' || frame.id !== id) return;
+
+      const message = frame.error?.message ?? '';
+      if (!frame.ok && isAuthError(message)) {
+        finish({ ok: false, failure: 'auth', error: `Gateway rejected the worker's token: ${message}` });
+        return;
+      }
+      finish({ ok: true, version: frame.payload?.server?.version ?? frame.payload?.version ?? null });
+    });
+
+    ws.addEventListener('close', (event) => {
+      const reason = event.reason || `code ${event.code}`;
+      finish({
+        ok: false,
+        failure: isAuthError(reason) ? 'auth' : 'handshake',
+        error: `Gateway closed the WebSocket before answering: ${reason}`,
+      });
+    });
+
+    ws.send(JSON.stringify({
+      type: 'req',
+      id,
+      method: 'connect',
+      params: {
+        // Accept whatever protocol version the gateway speaks; only the response matters
+        minProtocol: 1,
+        maxProtocol: 10,
+        client: { id: 'worker-health-check', displayName: 'Worker health check', version: '1.0.0', mode: 'probe', platform: 'worker' },
+        role: 'operator',
+        scopes: [],
+        auth: token ? { token } : undefined,
+      },
+    }));
+  });
+}
+
+/**
+ * Check that the gateway process is alive: running and accepting TCP connections
+ *
+ * This is the liveness check. It says nothing about whether the gateway can
+ * serve clients; use checkGatewayReadiness() for that.
+ */
+export async function checkGatewayLiveness(
+  process: Process,
+  timeoutMs: number = GATEWAY_HEALTH_TIMEOUT_MS
+): Promise<boolean> {
+  if (process.status !== 'running') return false;
+  try {
+    await process.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: timeoutMs });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that the gateway is ready to serve clients
+ *
+ * Fetches the control UI over HTTP, then opens a WebSocket and completes a
+ * connect request with the tenant's gateway token, so auth and config problems
+ * show up here rather than in the user's browser.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param tenant - Tenant whose gateway token to use (defaults to MOLTBOT_GATEWAY_TOKEN)
+ * @param timeoutMs - Time allowed for each of the HTTP and WebSocket checks
+ */
+export async function checkGatewayReadiness(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+  tenant?: Tenant,
+  timeoutMs: number = GATEWAY_HEALTH_TIMEOUT_MS
+): Promise<GatewayReadiness> {
+  const startedAt = Date.now();
+  const result: GatewayReadiness = { ready: false, failure: null, error: null, httpStatus: null, version: null, latencyMs: 0 };
+  const fail = (failure: GatewayReadinessFailure, error: unknown): GatewayReadiness => ({
+    ...result,
+    failure,
+    error: error instanceof Error ? error.message : String(error),
+    latencyMs: Date.now() - startedAt,
+  });
+
+  try {
+    const response = await withTimeout(
+      sandbox.containerFetch(new Request('http://localhost/'), MOLTBOT_PORT),
+      timeoutMs,
+      'HTTP check',
+      (late) => { late.body?.cancel().catch(() => {}); }
+    );
+    result.httpStatus = response.status;
+    await response.body?.cancel();
+  } catch (err) {
+    return fail('http', err);
+  }
+  if (result.httpStatus >= 500) {
+    return fail('http', `Gateway answered HTTP ${result.httpStatus}`);
+  }
+
+  let shake: HandshakeResult;
+  try {
+    shake = await handshake(sandbox, tenant?.gatewayToken ?? env.MOLTBOT_GATEWAY_TOKEN, timeoutMs);
+  } catch (err) {
+    return fail('handshake', err);
+  }
+  if (!shake.ok) return fail(shake.failure, shake.error);
+
+  return { ...result, ready: true, version: shake.version, latencyMs: Date.now() - startedAt };
+}
+
+/**
+ * Poll checkGatewayReadiness() until the gateway is ready
+ *
+ * A gateway accepts TCP connections a moment before it can serve requests, so
+ * HTTP and handshake failures are retried. Auth failures won't fix themselves
+ * and are thrown straight away.
+ *
+ * @throws If the gateway rejects the token, or isn't ready within timeoutMs
+ */
+export async function waitForGatewayReady(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+  tenant: Tenant | undefined,
+  timeoutMs: number
+): Promise<GatewayReadiness> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const readiness = await checkGatewayReadiness(sandbox, env, tenant);
+    if (readiness.ready) return readiness;
+    if (readiness.failure === 'auth' || Date.now() + GATEWAY_READY_POLL_MS > deadline) {
+      throw new Error(`OpenClaw gateway is not ready (${readiness.failure}): ${readiness.error}`);
+    }
+    await new Promise(r => setTimeout(r, GATEWAY_READY_POLL_MS));
+  }
+}
@@ -1,5 +1,34 @@
 export { buildEnvVars } from './env';
 export { mountR2Storage } from './r2';
-export { findExistingOpenClawProcess, ensureOpenClawGateway } from './process';
+export { findExistingOpenClawProcess, ensureOpenClawGateway, ensureGatewayProcess } from './process';
+export {
+  createGatewayStateCache,
+  getGatewayCoordinator,
+  type GatewayStateCache,
+  type GatewayStatus,
+} from './coordinator';
+export {
+  checkGatewayLiveness,
+  checkGatewayReadiness,
+  waitForGatewayReady,
+  type GatewayReadiness,
+  type GatewayReadinessFailure,
+} from './health';
+export { getStartupErrorHint, type StartupPhase, type StartupProgress } from './progress';
 export { syncToR2 } from './sync';
+export { proxyGatewayWebSocket, transformErrorMessage, type GatewayWebSocketProxyOptions } from './ws-proxy';
 export { waitForProcess } from './utils';
+export { runWatchdog, getWatchdogState, resetWatchdogState, type WatchdogState } from './watchdog';
+export {
+  createSnapshot,
+  diffManifests,
+  getSnapshotManifest,
+  getSnapshotRetention,
+  getSnapshotInterval,
+  isValidSnapshotId,
+  listSnapshots,
+  restoreSnapshot,
+  runScheduledSnapshot,
+  type SnapshotManifest,
+  type SnapshotSummary,
+} from './snapshots';
@@ -1,9 +1,14 @@
 import type { Sandbox, Process } from '@cloudflare/sandbox';
-import type { OpenClawEnv } from '../types';
+import type { OpenClawEnv, Tenant } from '../types';
 import { MOLTBOT_PORT, STARTUP_TIMEOUT_MS } from '../config';
+import { createLogger } from '../logger';
 import { buildEnvVars } from './env';
+import { waitForGatewayReady } from './health';
+import type { StartupPhase } from './progress';
 import { mountR2Storage } from './r2';
 
+const logger = createLogger('gateway');
+
 /**
  * Find an existing OpenClaw gateway process
  * 
@@ -30,7 +35,7 @@ export async function findExistingOpenClawProcess(sandbox: Sandbox): Promise<Pro
       }
     }
   } catch (e) {
-    console.log('Could not list processes:', e);
+    logger.warn('Could not list processes', { error: e });
   }
   return null;
 }
@@ -45,80 +50,114 @@ export async function findExistingOpenClawProcess(sandbox: Sandbox): Promise<Pro
  * 
  * @param sandbox - The sandbox instance
  * @param env - Worker environment bindings
+ * @param tenant - Tenant that owns the sandbox (defaults to the shared tenant)
  * @returns The running gateway process
  */
-export async function ensureOpenClawGateway(sandbox: Sandbox, env: OpenClawEnv): Promise<Process> {
+export async function ensureOpenClawGateway(sandbox: Sandbox, env: OpenClawEnv, tenant?: Tenant): Promise<Process> {
   // Mount R2 storage for persistent data (non-blocking if not configured)
   // R2 is used as a backup - the startup script will restore from it on boot
-  await mountR2Storage(sandbox, env);
+  await mountR2Storage(sandbox, env, tenant);
+
+  return ensureGatewayProcess(sandbox, env, tenant);
+}
+
+/**
+ * Wait for the gateway process to be ready (see checkGatewayReadiness), or start a new one
+ * 
+ * Unlike ensureOpenClawGateway() this leaves R2 mounting to the caller.
+ * 
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param tenant - Tenant that owns the sandbox (defaults to the shared tenant)
+ * @param options.existingProcess - Gateway process the caller already looked up (looked up here if omitted)
+ * @param options.onPhase - Called as startup moves on, with the process once there is one
+ * @returns The running gateway process
+ */
+export async function ensureGatewayProcess(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+  tenant?: Tenant,
+  options: {
+    existingProcess?: Process | null;
+    onPhase?: (phase: StartupPhase, process: Process) => void;
+  } = {}
+): Promise<Process> {
+  const { onPhase } = options;
+  let { existingProcess } = options;
+  const log = logger.child({ tenant: tenant?.id });
 
   // Check if OpenClaw is already running or starting
-  const existingProcess = await findExistingOpenClawProcess(sandbox);
+  if (existingProcess === undefined) {
+    existingProcess = await findExistingOpenClawProcess(sandbox);
+  }
   if (existingProcess) {
-    console.log('Found existing OpenClaw process:', existingProcess.id, 'status:', existingProcess.status);
+    log.info('Found existing OpenClaw process', { processId: existingProcess.id, status: existingProcess.status });
 
     // Always use full startup timeout - a process can be "running" but not ready yet
     // (e.g., just started by another concurrent request). Using a shorter timeout
     // causes race conditions where we kill processes that are still initializing.
     try {
-      console.log('Waiting for OpenClaw gateway on port', MOLTBOT_PORT, 'timeout:', STARTUP_TIMEOUT_MS);
+      log.debug('Waiting for OpenClaw gateway', { port: MOLTBOT_PORT, timeoutMs: STARTUP_TIMEOUT_MS });
+      onPhase?.('waiting', existingProcess);
       await existingProcess.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: STARTUP_TIMEOUT_MS });
-      console.log('OpenClaw gateway is reachable');
+      onPhase?.('verifying', existingProcess);
+      await waitForGatewayReady(sandbox, env, tenant, STARTUP_TIMEOUT_MS);
+      log.info('OpenClaw gateway is reachable');
       return existingProcess;
     } catch (e) {
-      // Timeout waiting for port - process is likely dead or stuck, kill and restart
-      console.log('Existing process not reachable after full timeout, killing and restarting...');
+      // Process is dead, stuck, or was started with an old token - kill and restart
+      log.warn('Existing process not ready after full timeout, killing and restarting', { error: e });
       try {
         await existingProcess.kill();
       } catch (killError) {
-        console.log('Failed to kill process:', killError);
+        log.warn('Failed to kill process', { error: killError });
       }
     }
   }
 
   // Start a new OpenClaw gateway
-  console.log('Starting new OpenClaw gateway...');
-  const envVars = buildEnvVars(env);
+  const envVars = buildEnvVars(env, tenant);
   const command = '/usr/local/bin/start-openclaw.sh';
 
-  console.log('Starting process with command:', command);
-  console.log('Environment vars being passed:', Object.keys(envVars));
+  // Names only: the values are secrets
+  log.info('Starting new OpenClaw gateway', { command, envVars: Object.keys(envVars) });
 
   let process: Process;
   try {
     process = await sandbox.startProcess(command, {
       env: Object.keys(envVars).length > 0 ? envVars : undefined,
     });
-    console.log('Process started with id:', process.id, 'status:', process.status);
+    log.info('Process started', { processId: process.id, status: process.status });
+    onPhase?.('launching', process);
   } catch (startErr) {
-    console.error('Failed to start process:', startErr);
+    log.error('Failed to start process', { error: startErr });
     throw startErr;
   }
 
   // Wait for the gateway to be ready
   try {
-    console.log('[Gateway] Waiting for OpenClaw gateway to be ready on port', MOLTBOT_PORT);
+    log.debug('Waiting for OpenClaw gateway to listen', { port: MOLTBOT_PORT });
     await process.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: STARTUP_TIMEOUT_MS });
-    console.log('[Gateway] OpenClaw gateway is ready!');
 
     const logs = await process.getLogs();
-    if (logs.stdout) console.log('[Gateway] stdout:', logs.stdout);
-    if (logs.stderr) console.log('[Gateway] stderr:', logs.stderr);
+    log.info('OpenClaw gateway is listening', { stdout: logs.stdout, stderr: logs.stderr });
   } catch (e) {
-    console.error('[Gateway] waitForPort failed:', e);
+    log.error('waitForPort failed', { error: e });
     try {
       const logs = await process.getLogs();
-      console.error('[Gateway] startup failed. Stderr:', logs.stderr);
-      console.error('[Gateway] startup failed. Stdout:', logs.stdout);
+      log.error('Gateway startup failed', { stdout: logs.stdout, stderr: logs.stderr });
       throw new Error(`OpenClaw gateway failed to start. Stderr: ${logs.stderr || '(empty)'}`);
     } catch (logErr) {
-      console.error('[Gateway] Failed to get logs:', logErr);
+      log.error('Failed to get logs', { error: logErr });
       throw e;
     }
   }
 
-  // Verify gateway is actually responding
-  console.log('[Gateway] Verifying gateway health...');
-  
+  // An open port isn't enough: check the gateway serves HTTP and accepts the worker's token
+  log.debug('Verifying gateway health');
+  onPhase?.('verifying', process);
+  const readiness = await waitForGatewayReady(sandbox, env, tenant, STARTUP_TIMEOUT_MS);
+  log.info('OpenClaw gateway is ready', { version: readiness.version });
+
   return process;
 }
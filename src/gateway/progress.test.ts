@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { detectScriptPhase, getStartupErrorHint, isScriptPhase, tailLogLines } from './progress';
+import { createMockEnv } from '../test-utils';
+
+describe('detectScriptPhase', () => {
+  it('returns null before the script reports anything', () => {
+    expect(detectScriptPhase('')).toBeNull();
+    expect(detectScriptPhase('Config directory: /root/.openclaw\n')).toBeNull();
+  });
+
+  it('follows the script through restore, config and gateway start', () => {
+    expect(detectScriptPhase('Restoring from R2 backup at /data/moltbot/openclaw...\n')).toBe('restoring');
+    expect(detectScriptPhase('Restoring from R2 backup...\nUsing existing config\n')).toBe('configuring');
+    expect(detectScriptPhase('R2 not mounted, starting fresh\nNo existing config, initializing from template...\nStarting OpenClaw Gateway...\n'))
+      .toBe('waiting');
+  });
+});
+
+describe('isScriptPhase', () => {
+  it('only allows phases the script output can replace', () => {
+    expect(isScriptPhase('launching')).toBe(true);
+    expect(isScriptPhase('waiting')).toBe(true);
+    expect(isScriptPhase('mounting')).toBe(false);
+    expect(isScriptPhase('verifying')).toBe(false);
+    expect(isScriptPhase('failed')).toBe(false);
+    expect(isScriptPhase(null)).toBe(false);
+  });
+});
+
+describe('tailLogLines', () => {
+  it('keeps the last non-empty lines of stdout then stderr', () => {
+    const logs = { stdout: 'one\n\ntwo  \nthree\n', stderr: 'oops\n' };
+
+    expect(tailLogLines(logs, 3)).toEqual(['two', 'three', 'oops']);
+  });
+
+  it('handles missing output', () => {
+    expect(tailLogLines({})).toEqual([]);
+  });
+});
+
+describe('getStartupErrorHint', () => {
+  it('points at a missing API key first', () => {
+    const env = createMockEnv();
+
+    expect(getStartupErrorHint('anything', env)).toContain('ANTHROPIC_API_KEY');
+  });
+
+  it('suggests a restart for auth failures', () => {
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk-test' });
+
+    expect(getStartupErrorHint('OpenClaw gateway is not ready (auth): token mismatch', env)).toContain('Restart the gateway');
+  });
+
+  it('points at the gateway output for http and handshake failures', () => {
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk-test' });
+
+    expect(getStartupErrorHint('OpenClaw gateway is not ready (handshake): closed', env)).toContain('/debug/logs');
+  });
+
+  it('falls back to wrangler tail', () => {
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk-test' });
+
+    expect(getStartupErrorHint('Gateway exited', env)).toContain('wrangler tail');
+  });
+});
@@ -0,0 +1,87 @@
+import type { OpenClawEnv } from '../types';
+import { STARTUP_LOG_LINES } from '../config';
+
+/**
+ * Steps of a gateway startup, in order
+ *
+ * - mounting: the worker is mounting R2
+ * - launching: start-openclaw.sh is running
+ * - restoring / configuring: the script is restoring the R2 backup / writing openclaw.json
+ * - waiting: the gateway is booting; the worker waits for its port
+ * - verifying: the port is open; the worker runs the readiness check
+ */
+export type StartupPhase =
+  | 'mounting'
+  | 'launching'
+  | 'restoring'
+  | 'configuring'
+  | 'waiting'
+  | 'verifying'
+  | 'ready'
+  | 'failed';
+
+/**
+ * Phases that come from start-openclaw.sh output rather than from the worker
+ */
+const SCRIPT_PHASES: StartupPhase[] = ['launching', 'restoring', 'configuring', 'waiting'];
+
+/**
+ * What the loading page shows while the gateway starts
+ */
+export interface StartupProgress {
+  phase: StartupPhase | null;  // null if the gateway isn't ready and no startup has run yet
+  startedAt: string | null;
+  history: Array<{ phase: StartupPhase; at: string }>;
+  logs: string[];  // last lines of start-openclaw.sh output
+  error: string | null;
+  hint: string | null;  // what to do about the error
+}
+
+/**
+ * Work out which part of start-openclaw.sh is running from its output so far
+ *
+ * @returns The latest phase the output shows, or null if it shows none yet
+ */
+export function detectScriptPhase(stdout: string): StartupPhase | null {
+  let phase: StartupPhase | null = null;
+  for (const line of stdout.split('\n')) {
+    if (/^Starting (OpenClaw Gateway|gateway)/.test(line)) phase = 'waiting';
+    else if (/config (from template|initializ)|initializing from template|Using existing config/i.test(line)) phase = 'configuring';
+    else if (/Restor|R2 (backup|last sync|not mounted|mounted)|sync timestamp/.test(line)) phase = 'restoring';
+  }
+  return phase;
+}
+
+/**
+ * Whether a phase reported by the worker may be replaced by one read from the script output
+ */
+export function isScriptPhase(phase: StartupPhase | null): boolean {
+  return phase !== null && SCRIPT_PHASES.includes(phase);
+}
+
+/**
+ * The last lines of a process's output, stdout and stderr interleaved in that order
+ */
+export function tailLogLines(logs: { stdout?: string; stderr?: string }, limit: number = STARTUP_LOG_LINES): string[] {
+  const lines = [...(logs.stdout ?? '').split('\n'), ...(logs.stderr ?? '').split('\n')];
+  return lines.map(line => line.trimEnd()).filter(Boolean).slice(-limit);
+}
+
+/**
+ * Suggest what to do about a failed startup
+ */
+export function getStartupErrorHint(error: string, env: OpenClawEnv): string {
+  if (!env.ANTHROPIC_API_KEY) {
+    return 'ANTHROPIC_API_KEY is not set. Run: wrangler secret put ANTHROPIC_API_KEY';
+  }
+  if (error.includes('heap out of memory') || error.includes('OOM')) {
+    return 'Gateway ran out of memory. Try again or check for memory leaks.';
+  }
+  if (error.includes('(auth)')) {
+    return 'The gateway rejected the worker\'s token. Restart the gateway from the admin UI so it picks up MOLTBOT_GATEWAY_TOKEN.';
+  }
+  if (error.includes('(http)') || error.includes('(handshake)')) {
+    return 'The gateway started but isn\'t serving requests. Check its output in the admin UI or /debug/logs.';
+  }
+  return 'Check worker logs with: wrangler tail';
+}
@@ -5,6 +5,7 @@ import {
   createMockEnvWithR2, 
   createMockProcess, 
   createMockSandbox, 
+  getLogEntries,
   suppressConsole 
 } from '../test-utils';
 
@@ -57,8 +58,8 @@ describe('mountR2Storage', () => {
       const result = await mountR2Storage(sandbox, env);
 
       expect(result).toBe(false);
-      expect(console.log).toHaveBeenCalledWith(
-        expect.stringContaining('R2 storage not configured')
+      expect(getLogEntries()).toContainEqual(
+        expect.objectContaining({ level: 'info', component: 'r2', msg: expect.stringContaining('R2 storage not configured') })
       );
     });
   });
@@ -90,6 +91,25 @@ describe('mountR2Storage', () => {
       );
     });
 
+    it('mounts only the tenant prefix when a tenant is given', async () => {
+      const { sandbox, mountBucketMock, startProcessMock } = createMockSandbox({ mounted: false });
+      startProcessMock.mockResolvedValueOnce(createMockProcess('overlayfs\n'));
+      const env = createMockEnvWithR2();
+
+      const result = await mountR2Storage(sandbox, env, {
+        id: 'alice-1234abcd',
+        sandboxId: 'openclaw-alice-1234abcd',
+        r2Prefix: '/tenants/alice-1234abcd',
+      });
+
+      expect(result).toBe(true);
+      expect(mountBucketMock).toHaveBeenCalledWith(
+        'openclaw-data',
+        '/data/openclaw',
+        expect.objectContaining({ prefix: '/tenants/alice-1234abcd' })
+      );
+    });
+
     it('returns true immediately when bucket is already mounted', async () => {
       const { sandbox, mountBucketMock, startProcessMock } = createMockSandbox({ mounted: true });
       // probeMount sees a fuse filesystem type when mounted
@@ -100,11 +120,8 @@ describe('mountR2Storage', () => {
 
       expect(result).toBe(true);
       expect(mountBucketMock).not.toHaveBeenCalled();
-      expect(console.log).toHaveBeenCalledWith(
-        'R2 bucket already mounted at',
-        '/data/openclaw',
-        '(fsType:',
-        'fuse.s3fs)'
+      expect(getLogEntries()).toContainEqual(
+        expect.objectContaining({ msg: 'R2 bucket already mounted', mountPath: '/data/openclaw', fsType: 'fuse.s3fs' })
       );
     });
 
@@ -115,8 +132,8 @@ describe('mountR2Storage', () => {
 
       await mountR2Storage(sandbox, env);
 
-      expect(console.log).toHaveBeenCalledWith(
-        'R2 bucket mounted successfully - openclaw data will persist across sessions'
+      expect(getLogEntries()).toContainEqual(
+        expect.objectContaining({ msg: 'R2 bucket mounted successfully - openclaw data will persist across sessions' })
       );
     });
   });
@@ -133,9 +150,8 @@ describe('mountR2Storage', () => {
       const result = await mountR2Storage(sandbox, env);
 
       expect(result).toBe(false);
-      expect(console.error).toHaveBeenCalledWith(
-        'Failed to mount R2 bucket:',
-        expect.any(Error)
+      expect(getLogEntries()).toContainEqual(
+        expect.objectContaining({ level: 'error', msg: 'Failed to mount R2 bucket', error: { name: 'Error', message: 'Mount failed' } })
       );
     });
 
@@ -157,9 +173,8 @@ describe('mountR2Storage', () => {
       const result = await mountR2Storage(sandbox, env);
 
       expect(result).toBe(true);
-      expect(console.log).toHaveBeenCalledWith(
-        'R2 mount path is in use and appears mounted (fsType:',
-        'fuse.s3fs)'
+      expect(getLogEntries()).toContainEqual(
+        expect.objectContaining({ msg: 'R2 mount path is in use and appears mounted', fsType: 'fuse.s3fs' })
       );
     });
   });
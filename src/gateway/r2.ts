@@ -1,8 +1,11 @@
 import type { Sandbox } from '@cloudflare/sandbox';
-import type { OpenClawEnv } from '../types';
+import type { OpenClawEnv, Tenant } from '../types';
 import { R2_MOUNT_PATH, R2_BUCKET_NAME } from '../config';
+import { createLogger } from '../logger';
 import { waitForProcess } from './utils';
 
+const logger = createLogger('r2');
+
 type MountProbe =
   | { state: 'mounted'; fsType: string }
   | { state: 'not_mounted'; fsType: string }
@@ -59,30 +62,33 @@ function isMountPathInUseError(errorMessage: string): boolean {
  * 
  * @param sandbox - The sandbox instance
  * @param env - Worker environment bindings
+ * @param tenant - Tenant whose bucket prefix to mount (defaults to the whole bucket)
  * @returns true if mounted successfully, false otherwise
  */
-export async function mountR2Storage(sandbox: Sandbox, env: OpenClawEnv): Promise<boolean> {
+export async function mountR2Storage(sandbox: Sandbox, env: OpenClawEnv, tenant?: Tenant): Promise<boolean> {
+  const log = logger.child({ tenant: tenant?.id, mountPath: R2_MOUNT_PATH });
+
   // Skip if R2 credentials are not configured
   if (!env.R2_ACCESS_KEY_ID || !env.R2_SECRET_ACCESS_KEY || !env.CF_ACCOUNT_ID) {
-    console.log('R2 storage not configured (missing R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY, or CF_ACCOUNT_ID)');
+    log.info('R2 storage not configured (missing R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY, or CF_ACCOUNT_ID)');
     return false;
   }
 
   // Check mount state up front. This is both faster and avoids InvalidMountConfigError.
   const initialProbe = await probeMount(sandbox);
   if (initialProbe.state === 'mounted') {
-    console.log('R2 bucket already mounted at', R2_MOUNT_PATH, '(fsType:', initialProbe.fsType + ')');
+    log.info('R2 bucket already mounted', { fsType: initialProbe.fsType });
     return true;
   }
   if (initialProbe.state === 'unresponsive') {
-    console.log('R2 mount appears unresponsive, attempting remount at', R2_MOUNT_PATH);
+    log.warn('R2 mount appears unresponsive, attempting remount');
     await lazyUnmountR2(sandbox);
   } else {
-    console.log('R2 mount not detected at', R2_MOUNT_PATH, '(fsType:', initialProbe.fsType + ')');
+    log.info('R2 mount not detected', { fsType: initialProbe.fsType });
   }
 
   try {
-    console.log('Mounting R2 bucket at', R2_MOUNT_PATH);
+    log.debug('Mounting R2 bucket');
     await sandbox.mountBucket(R2_BUCKET_NAME, R2_MOUNT_PATH, {
       endpoint: `https://${env.CF_ACCOUNT_ID}.r2.cloudflarestorage.com`,
       // Pass credentials explicitly since we use R2_* naming instead of AWS_*
@@ -90,23 +96,24 @@ export async function mountR2Storage(sandbox: Sandbox, env: OpenClawEnv): Promis
         accessKeyId: env.R2_ACCESS_KEY_ID,
         secretAccessKey: env.R2_SECRET_ACCESS_KEY,
       },
+      prefix: tenant?.r2Prefix,
     });
-    console.log('R2 bucket mounted successfully - openclaw data will persist across sessions');
+    log.info('R2 bucket mounted successfully - openclaw data will persist across sessions');
     return true;
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : String(err);
-    console.log('R2 mount error:', errorMessage);
+    log.warn('R2 mount error', { error: errorMessage });
 
     // If the platform reports "path already in use", treat it as already-mounted
     // unless the mount is unresponsive.
     if (isMountPathInUseError(errorMessage)) {
       const probe = await probeMount(sandbox);
       if (probe.state === 'mounted') {
-        console.log('R2 mount path is in use and appears mounted (fsType:', probe.fsType + ')');
+        log.info('R2 mount path is in use and appears mounted', { fsType: probe.fsType });
         return true;
       }
       if (probe.state === 'unresponsive') {
-        console.log('R2 mount path is in use but unresponsive; attempting remount at', R2_MOUNT_PATH);
+        log.warn('R2 mount path is in use but unresponsive; attempting remount');
         await lazyUnmountR2(sandbox);
         try {
           await sandbox.mountBucket(R2_BUCKET_NAME, R2_MOUNT_PATH, {
@@ -115,17 +122,18 @@ export async function mountR2Storage(sandbox: Sandbox, env: OpenClawEnv): Promis
               accessKeyId: env.R2_ACCESS_KEY_ID,
               secretAccessKey: env.R2_SECRET_ACCESS_KEY,
             },
+            prefix: tenant?.r2Prefix,
           });
-          console.log('R2 bucket mounted successfully after remount attempt');
+          log.info('R2 bucket mounted successfully after remount attempt');
           return true;
         } catch (retryErr) {
-          console.log('R2 remount error:', retryErr instanceof Error ? retryErr.message : String(retryErr));
+          log.warn('R2 remount error', { error: retryErr });
         }
       }
     }
     
     // Don't fail if mounting fails - openclaw can still run without persistent storage
-    console.error('Failed to mount R2 bucket:', err);
+    log.error('Failed to mount R2 bucket', { error: err });
     return false;
   }
 }
@@ -0,0 +1,316 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createSnapshot,
+  deleteSnapshot,
+  diffManifests,
+  getSnapshotInterval,
+  getSnapshotRetention,
+  isValidSnapshotId,
+  listSnapshots,
+  parseDuration,
+  parseManifestLines,
+  pruneSnapshots,
+  restoreSnapshot,
+  selectSnapshotsToPrune,
+  snapshotIdFor,
+  type SnapshotManifest,
+  type SnapshotSummary,
+} from './snapshots';
+import { mountR2Storage } from './r2';
+import { syncToR2 } from './sync';
+import {
+  createMockBucket,
+  createMockEnv,
+  createMockEnvWithR2,
+  createMockProcess,
+  createMockSandbox,
+  suppressConsole,
+} from '../test-utils';
+import type { Tenant } from '../types';
+
+vi.mock('./r2', () => ({ mountR2Storage: vi.fn() }));
+vi.mock('./sync', () => ({ syncToR2: vi.fn() }));
+vi.mock('./process', () => ({ findExistingOpenClawProcess: vi.fn().mockResolvedValue(null) }));
+
+const HASH_A = 'a'.repeat(64);
+const HASH_B = 'b'.repeat(64);
+const HASH_C = 'c'.repeat(64);
+
+function manifest(id: string, files: SnapshotManifest['files']): SnapshotManifest {
+  return { id, createdAt: id, reason: 'scheduled', totalSize: 0, files };
+}
+
+function summary(id: string): SnapshotSummary {
+  return { id, createdAt: id, reason: 'scheduled', totalSize: 0, fileCount: 0 };
+}
+
+function storedManifest(id: string, createdAt = '2025-01-01T00:00:00.000Z'): string {
+  return JSON.stringify({ ...manifest(id, []), createdAt });
+}
+
+describe('snapshot ids', () => {
+  it('builds sortable, filesystem-safe ids', () => {
+    expect(snapshotIdFor(new Date('2025-01-31T14:05:09.123Z'))).toBe('2025-01-31T14-05-09Z');
+  });
+
+  it('accepts generated ids', () => {
+    expect(isValidSnapshotId(snapshotIdFor(new Date()))).toBe(true);
+  });
+
+  it('rejects anything that could escape a shell command', () => {
+    expect(isValidSnapshotId('../openclaw')).toBe(false);
+    expect(isValidSnapshotId("2025-01-31T14-05-09Z'; rm -rf /")).toBe(false);
+  });
+});
+
+describe('parseDuration', () => {
+  it('parses seconds, minutes, hours and days', () => {
+    expect(parseDuration('30s')).toBe(30_000);
+    expect(parseDuration('15m')).toBe(900_000);
+    expect(parseDuration('6H')).toBe(21_600_000);
+    expect(parseDuration('1d')).toBe(86_400_000);
+  });
+
+  it('returns null for values that turn the feature off', () => {
+    expect(parseDuration('off')).toBeNull();
+    expect(parseDuration('never')).toBeNull();
+  });
+
+  it('returns undefined for invalid values', () => {
+    expect(parseDuration('soon')).toBeUndefined();
+  });
+});
+
+describe('snapshot settings', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('defaults to a 6 hour interval and 28 snapshots', () => {
+    const env = createMockEnv();
+    expect(getSnapshotInterval(env)).toBe(6 * 60 * 60 * 1000);
+    expect(getSnapshotRetention(env)).toBe(28);
+  });
+
+  it('uses SNAPSHOT_INTERVAL and SNAPSHOT_RETENTION', () => {
+    const env = createMockEnv({ SNAPSHOT_INTERVAL: '1h', SNAPSHOT_RETENTION: '5' });
+    expect(getSnapshotInterval(env)).toBe(3_600_000);
+    expect(getSnapshotRetention(env)).toBe(5);
+  });
+
+  it('falls back to defaults for invalid values', () => {
+    const env = createMockEnv({ SNAPSHOT_INTERVAL: 'sometimes', SNAPSHOT_RETENTION: '-1' });
+    expect(getSnapshotInterval(env)).toBe(6 * 60 * 60 * 1000);
+    expect(getSnapshotRetention(env)).toBe(28);
+  });
+});
+
+describe('parseManifestLines', () => {
+  it('parses hash, size and path and ignores other output', () => {
+    const output = [
+      `${HASH_B} 12 workspace/AGENTS.md`,
+      'rsync: some warning',
+      `${HASH_A} 345 openclaw/openclaw.json`,
+      `${HASH_C} 0 skills/my skill/SKILL.md`,
+      '__SNAPSHOT_OK__',
+    ].join('\n');
+
+    expect(parseManifestLines(output)).toEqual([
+      { sha256: HASH_A, size: 345, path: 'openclaw/openclaw.json' },
+      { sha256: HASH_C, size: 0, path: 'skills/my skill/SKILL.md' },
+      { sha256: HASH_B, size: 12, path: 'workspace/AGENTS.md' },
+    ]);
+  });
+});
+
+describe('diffManifests', () => {
+  it('reports added, removed and changed files', () => {
+    const from = manifest('2025-01-01T00-00-00Z', [
+      { path: 'openclaw/openclaw.json', size: 10, sha256: HASH_A },
+      { path: 'workspace/memory/old.md', size: 5, sha256: HASH_B },
+      { path: 'workspace/AGENTS.md', size: 7, sha256: HASH_C },
+    ]);
+    const to = manifest('2025-01-02T00-00-00Z', [
+      { path: 'openclaw/openclaw.json', size: 11, sha256: HASH_B },
+      { path: 'workspace/memory/new.md', size: 5, sha256: HASH_A },
+      { path: 'workspace/AGENTS.md', size: 7, sha256: HASH_C },
+    ]);
+
+    const diff = diffManifests(from, to);
+
+    expect(diff.from).toBe(from.id);
+    expect(diff.to).toBe(to.id);
+    expect(diff.added.map(f => f.path)).toEqual(['workspace/memory/new.md']);
+    expect(diff.removed.map(f => f.path)).toEqual(['workspace/memory/old.md']);
+    expect(diff.changed).toEqual([{ path: 'openclaw/openclaw.json', before: from.files[0], after: to.files[0] }]);
+    expect(diff.unchanged).toBe(1);
+  });
+});
+
+describe('selectSnapshotsToPrune', () => {
+  it('keeps the most recent snapshots', () => {
+    const snapshots = [
+      summary('2025-01-02T00-00-00Z'),
+      summary('2025-01-04T00-00-00Z'),
+      summary('2025-01-01T00-00-00Z'),
+      summary('2025-01-03T00-00-00Z'),
+    ];
+    expect(selectSnapshotsToPrune(snapshots, 2)).toEqual(['2025-01-02T00-00-00Z', '2025-01-01T00-00-00Z']);
+  });
+
+  it('prunes nothing within the retention limit', () => {
+    expect(selectSnapshotsToPrune([summary('2025-01-01T00-00-00Z')], 5)).toEqual([]);
+  });
+});
+
+describe('snapshot storage', () => {
+  const tenant: Tenant = { id: 'alice', sandboxId: 'openclaw-alice', r2Prefix: '/tenants/alice' };
+
+  it('lists completed snapshots newest first and skips incomplete ones', async () => {
+    const { bucket } = createMockBucket({
+      'snapshots/2025-01-01T00-00-00Z/manifest.json': storedManifest('2025-01-01T00-00-00Z'),
+      'snapshots/2025-01-01T00-00-00Z/openclaw/openclaw.json': '{}',
+      'snapshots/2025-01-02T00-00-00Z/manifest.json': storedManifest('2025-01-02T00-00-00Z'),
+      'snapshots/2025-01-03T00-00-00Z/openclaw/openclaw.json': '{}',
+    });
+
+    const snapshots = await listSnapshots(bucket);
+    expect(snapshots.map(s => s.id)).toEqual(['2025-01-02T00-00-00Z', '2025-01-01T00-00-00Z']);
+  });
+
+  it('only lists the tenant\'s own snapshots', async () => {
+    const { bucket } = createMockBucket({
+      'snapshots/2025-01-01T00-00-00Z/manifest.json': storedManifest('2025-01-01T00-00-00Z'),
+      'tenants/alice/snapshots/2025-01-02T00-00-00Z/manifest.json': storedManifest('2025-01-02T00-00-00Z'),
+    });
+
+    const snapshots = await listSnapshots(bucket, tenant);
+    expect(snapshots.map(s => s.id)).toEqual(['2025-01-02T00-00-00Z']);
+  });
+
+  it('deletes every object in a snapshot', async () => {
+    const { bucket, objects } = createMockBucket({
+      'snapshots/2025-01-01T00-00-00Z/manifest.json': storedManifest('2025-01-01T00-00-00Z'),
+      'snapshots/2025-01-01T00-00-00Z/openclaw/openclaw.json': '{}',
+      'snapshots/2025-01-02T00-00-00Z/manifest.json': storedManifest('2025-01-02T00-00-00Z'),
+    });
+
+    await deleteSnapshot(bucket, undefined, '2025-01-01T00-00-00Z');
+    expect([...objects.keys()]).toEqual(['snapshots/2025-01-02T00-00-00Z/manifest.json']);
+  });
+
+  it('prunes snapshots beyond SNAPSHOT_RETENTION', async () => {
+    suppressConsole();
+    const { bucket, objects } = createMockBucket({
+      'snapshots/2025-01-01T00-00-00Z/manifest.json': storedManifest('2025-01-01T00-00-00Z'),
+      'snapshots/2025-01-02T00-00-00Z/manifest.json': storedManifest('2025-01-02T00-00-00Z'),
+      'snapshots/2025-01-03T00-00-00Z/manifest.json': storedManifest('2025-01-03T00-00-00Z'),
+    });
+
+    const deleted = await pruneSnapshots(createMockEnv({ MOLTBOT_BUCKET: bucket, SNAPSHOT_RETENTION: '2' }));
+
+    expect(deleted).toEqual(['2025-01-01T00-00-00Z']);
+    expect(objects.has('snapshots/2025-01-01T00-00-00Z/manifest.json')).toBe(false);
+    expect(objects.size).toBe(2);
+  });
+});
+
+describe('createSnapshot', () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.mocked(mountR2Storage).mockReset().mockResolvedValue(true);
+  });
+
+  it('returns error when R2 is not configured', async () => {
+    const { sandbox } = createMockSandbox();
+    const result = await createSnapshot(sandbox, createMockEnv());
+    expect(result).toEqual({ success: false, error: 'R2 storage is not configured' });
+  });
+
+  it('aborts when there is no local config', async () => {
+    const { sandbox, startProcessMock } = createMockSandbox();
+    startProcessMock.mockResolvedValue(createMockProcess('__MISSING__\n'));
+
+    const result = await createSnapshot(sandbox, createMockEnvWithR2());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Snapshot aborted: source missing openclaw.json');
+  });
+
+  it('writes the manifest to R2 after copying files', async () => {
+    const { bucket, objects } = createMockBucket();
+    const { sandbox, startProcessMock } = createMockSandbox();
+    startProcessMock.mockResolvedValue(createMockProcess(
+      `${HASH_A} 100 openclaw/openclaw.json\n${HASH_B} 20 workspace/AGENTS.md\n__SNAPSHOT_OK__\n`
+    ));
+
+    const result = await createSnapshot(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }), undefined, 'manual');
+
+    expect(result.success).toBe(true);
+    expect(result.snapshot).toMatchObject({ reason: 'manual', fileCount: 2, totalSize: 120 });
+    const key = `snapshots/${result.snapshot!.id}/manifest.json`;
+    expect(JSON.parse(objects.get(key)!).files).toHaveLength(2);
+    expect(startProcessMock.mock.calls[0][0]).toContain(`/data/openclaw/snapshots/${result.snapshot!.id}`);
+  });
+
+  it('does not write a manifest when the copy fails', async () => {
+    const { bucket } = createMockBucket();
+    const { sandbox, startProcessMock } = createMockSandbox();
+    startProcessMock.mockResolvedValue(createMockProcess('', { exitCode: 1, stderr: 'rsync: error' }));
+
+    const result = await createSnapshot(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }));
+
+    expect(result).toMatchObject({ success: false, error: 'Snapshot failed', details: 'rsync: error' });
+    expect(bucket.put).not.toHaveBeenCalled();
+  });
+});
+
+describe('restoreSnapshot', () => {
+  const id = '2025-01-01T00-00-00Z';
+
+  beforeEach(() => {
+    suppressConsole();
+    vi.mocked(mountR2Storage).mockReset().mockResolvedValue(true);
+    vi.mocked(syncToR2).mockReset().mockResolvedValue({ success: true });
+  });
+
+  it('rejects unknown snapshots', async () => {
+    const { bucket } = createMockBucket();
+    const { sandbox, startProcessMock } = createMockSandbox();
+
+    const result = await restoreSnapshot(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }), undefined, id);
+
+    expect(result).toMatchObject({ success: false, error: `Snapshot not found: ${id}` });
+    expect(startProcessMock).not.toHaveBeenCalled();
+  });
+
+  it('takes a safety snapshot, restores files and syncs them to the main backup', async () => {
+    const { bucket } = createMockBucket({ [`snapshots/${id}/manifest.json`]: storedManifest(id) });
+    const { sandbox, startProcessMock } = createMockSandbox();
+    startProcessMock
+      .mockResolvedValueOnce(createMockProcess(`${HASH_A} 1 openclaw/openclaw.json\n__SNAPSHOT_OK__\n`))
+      .mockResolvedValueOnce(createMockProcess('__RESTORE_OK__\n'));
+    const env = createMockEnvWithR2({ MOLTBOT_BUCKET: bucket });
+
+    const result = await restoreSnapshot(sandbox, env, undefined, id);
+
+    expect(result.success).toBe(true);
+    expect(result.safetySnapshotId).toMatch(/Z$/);
+    expect(startProcessMock.mock.calls[1][0]).toContain(`/data/openclaw/snapshots/${id}/openclaw/`);
+    expect(startProcessMock.mock.calls[1][0]).toContain('.last-sync');
+    expect(syncToR2).toHaveBeenCalledWith(sandbox, env, undefined);
+  });
+
+  it('reports missing snapshot files', async () => {
+    const { bucket } = createMockBucket({ [`snapshots/${id}/manifest.json`]: storedManifest(id) });
+    const { sandbox, startProcessMock } = createMockSandbox();
+    startProcessMock
+      .mockResolvedValueOnce(createMockProcess('__MISSING__\n'))
+      .mockResolvedValueOnce(createMockProcess('__MISSING__\n'));
+
+    const result = await restoreSnapshot(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }), undefined, id);
+
+    expect(result).toMatchObject({ success: false, error: 'Snapshot files are missing from R2' });
+    expect(syncToR2).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,496 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { OpenClawEnv, Tenant } from '../types';
+import {
+  DEFAULT_SNAPSHOT_INTERVAL_MS,
+  DEFAULT_SNAPSHOT_RETENTION,
+  OPENCLAW_CONFIG_DIR,
+  OPENCLAW_WORKSPACE_DIR,
+  R2_MOUNT_PATH,
+} from '../config';
+import { createLogger } from '../logger';
+import { findExistingOpenClawProcess } from './process';
+import { mountR2Storage } from './r2';
+import { syncToR2 } from './sync';
+import { waitForProcess } from './utils';
+
+const SNAPSHOT_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+const SNAPSHOT_STAGING_DIR = '/tmp/openclaw-snapshots';
+const SNAPSHOT_DIR = 'snapshots';
+const RSYNC_EXCLUDES = `--exclude="*.lock" --exclude="*.log" --exclude="*.tmp"`;
+const SNAPSHOT_ID_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}Z$/;
+
+const logger = createLogger('snapshot');
+
+/**
+ * Why a snapshot was taken
+ */
+export type SnapshotReason = 'scheduled' | 'manual' | 'pre-restore';
+
+/**
+ * One file in a snapshot, relative to the snapshot root
+ * (e.g. `openclaw/openclaw.json`, `workspace/AGENTS.md`, `skills/foo/SKILL.md`)
+ */
+export interface SnapshotFile {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * Manifest stored as `snapshots/<id>/manifest.json` once a snapshot is complete
+ */
+export interface SnapshotManifest {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  totalSize: number;
+  files: SnapshotFile[];
+}
+
+export type SnapshotSummary = Omit<SnapshotManifest, 'files'> & { fileCount: number };
+
+export interface SnapshotResult {
+  success: boolean;
+  snapshot?: SnapshotSummary;
+  error?: string;
+  details?: string;
+}
+
+export interface SnapshotDiff {
+  from: string;
+  to: string;
+  added: SnapshotFile[];
+  removed: SnapshotFile[];
+  changed: Array<{ path: string; before: SnapshotFile; after: SnapshotFile }>;
+  unchanged: number;
+}
+
+export interface RestoreResult {
+  success: boolean;
+  snapshotId: string;
+  safetySnapshotId?: string;
+  error?: string;
+  details?: string;
+}
+
+/**
+ * Check that a snapshot id has the expected shape.
+ * Ids are interpolated into shell commands, so anything else is rejected.
+ */
+export function isValidSnapshotId(id: string): boolean {
+  return SNAPSHOT_ID_PATTERN.test(id);
+}
+
+/**
+ * Build a sortable, filesystem-safe snapshot id like `2025-01-31T14-05-00Z`
+ */
+export function snapshotIdFor(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z').replace(/:/g, '-');
+}
+
+/**
+ * Parse a duration like '30m', '6h' or '1d'
+ *
+ * @returns Milliseconds, null if the value disables the feature ('off', 'never', '0'),
+ *          or undefined if the value can't be parsed
+ */
+export function parseDuration(value: string): number | null | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'off' || normalized === 'never' || normalized === '0') return null;
+
+  const match = normalized.match(/^(\d+)\s*(s|m|h|d)$/);
+  if (!match) return undefined;
+  const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 's' | 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit;
+}
+
+/**
+ * Get the scheduled snapshot interval from SNAPSHOT_INTERVAL
+ *
+ * @returns Interval in ms, or null if scheduled snapshots are turned off
+ */
+export function getSnapshotInterval(env: OpenClawEnv): number | null {
+  if (!env.SNAPSHOT_INTERVAL) return DEFAULT_SNAPSHOT_INTERVAL_MS;
+  const interval = parseDuration(env.SNAPSHOT_INTERVAL);
+  if (interval === undefined) {
+    logger.warn('Invalid SNAPSHOT_INTERVAL, using default', { value: env.SNAPSHOT_INTERVAL });
+    return DEFAULT_SNAPSHOT_INTERVAL_MS;
+  }
+  return interval;
+}
+
+/**
+ * Get the number of snapshots to keep from SNAPSHOT_RETENTION
+ */
+export function getSnapshotRetention(env: OpenClawEnv): number {
+  const retention = Number.parseInt(env.SNAPSHOT_RETENTION || '', 10);
+  return Number.isFinite(retention) && retention > 0 ? retention : DEFAULT_SNAPSHOT_RETENTION;
+}
+
+/**
+ * Parse the `<sha256> <size> <path>` lines printed by the snapshot script
+ */
+export function parseManifestLines(output: string): SnapshotFile[] {
+  const files: SnapshotFile[] = [];
+  for (const line of output.split('\n')) {
+    const match = line.match(/^([0-9a-f]{64}) (\d+) (.+)$/);
+    if (match) {
+      files.push({ sha256: match[1], size: Number(match[2]), path: match[3] });
+    }
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Compare two snapshot manifests
+ */
+export function diffManifests(from: SnapshotManifest, to: SnapshotManifest): SnapshotDiff {
+  const before = new Map(from.files.map(f => [f.path, f]));
+  const after = new Map(to.files.map(f => [f.path, f]));
+  const diff: SnapshotDiff = { from: from.id, to: to.id, added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const [path, file] of after) {
+    const previous = before.get(path);
+    if (!previous) diff.added.push(file);
+    else if (previous.sha256 !== file.sha256) diff.changed.push({ path, before: previous, after: file });
+    else diff.unchanged++;
+  }
+  for (const [path, file] of before) {
+    if (!after.has(path)) diff.removed.push(file);
+  }
+
+  return diff;
+}
+
+/**
+ * Pick the snapshots that fall outside the retention policy
+ *
+ * @param snapshots - Snapshot summaries, in any order
+ * @param retention - Number of most recent snapshots to keep
+ * @returns Ids of snapshots to delete
+ */
+export function selectSnapshotsToPrune(snapshots: SnapshotSummary[], retention: number): string[] {
+  return [...snapshots]
+    .sort((a, b) => b.id.localeCompare(a.id))
+    .slice(retention)
+    .map(s => s.id);
+}
+
+// R2 key prefix for a tenant's files, matching the prefix mountR2Storage() mounts
+function bucketPrefix(tenant?: Tenant): string {
+  return tenant?.r2Prefix ? `${tenant.r2Prefix.replace(/^\/+/, '')}/` : '';
+}
+
+function manifestKey(tenant: Tenant | undefined, id: string): string {
+  return `${bucketPrefix(tenant)}${SNAPSHOT_DIR}/${id}/manifest.json`;
+}
+
+function toSummary(manifest: SnapshotManifest): SnapshotSummary {
+  const { files, ...rest } = manifest;
+  return { ...rest, fileCount: files.length };
+}
+
+/**
+ * Get the manifest of a completed snapshot
+ *
+ * @returns The manifest, or null if there is no completed snapshot with that id
+ */
+export async function getSnapshotManifest(
+  bucket: R2Bucket,
+  tenant: Tenant | undefined,
+  id: string
+): Promise<SnapshotManifest | null> {
+  if (!isValidSnapshotId(id)) return null;
+  const object = await bucket.get(manifestKey(tenant, id));
+  if (!object) return null;
+  return object.json<SnapshotManifest>();
+}
+
+/**
+ * List completed snapshots, newest first
+ *
+ * Snapshots without a manifest (still being written, or interrupted) are skipped.
+ */
+export async function listSnapshots(bucket: R2Bucket, tenant?: Tenant): Promise<SnapshotSummary[]> {
+  const prefix = `${bucketPrefix(tenant)}${SNAPSHOT_DIR}/`;
+  const ids: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix, delimiter: '/', cursor });
+    for (const dir of page.delimitedPrefixes) {
+      const id = dir.slice(prefix.length).replace(/\/$/, '');
+      if (isValidSnapshotId(id)) ids.push(id);
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  const manifests = await Promise.all(ids.map(id => getSnapshotManifest(bucket, tenant, id)));
+  return manifests
+    .filter((m): m is SnapshotManifest => m !== null)
+    .map(toSummary)
+    .sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/**
+ * Delete every object belonging to a snapshot
+ */
+export async function deleteSnapshot(bucket: R2Bucket, tenant: Tenant | undefined, id: string): Promise<void> {
+  if (!isValidSnapshotId(id)) return;
+  const prefix = `${bucketPrefix(tenant)}${SNAPSHOT_DIR}/${id}/`;
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix, cursor });
+    if (page.objects.length > 0) {
+      await bucket.delete(page.objects.map(o => o.key));
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+}
+
+/**
+ * Delete snapshots beyond SNAPSHOT_RETENTION
+ *
+ * @returns Ids of the deleted snapshots
+ */
+export async function pruneSnapshots(env: OpenClawEnv, tenant?: Tenant): Promise<string[]> {
+  const snapshots = await listSnapshots(env.MOLTBOT_BUCKET, tenant);
+  const toDelete = selectSnapshotsToPrune(snapshots, getSnapshotRetention(env));
+  for (const id of toDelete) {
+    await deleteSnapshot(env.MOLTBOT_BUCKET, tenant, id);
+  }
+  if (toDelete.length > 0) {
+    logger.info('Pruned snapshots', { tenant: tenant?.id, snapshots: toDelete });
+  }
+  return toDelete;
+}
+
+async function runSnapshotScript(
+  sandbox: Sandbox,
+  script: string
+): Promise<{ stdout: string; stderr: string; exitCode?: number }> {
+  const proc = await sandbox.startProcess(`sh -lc '${script}'`);
+  try {
+    await waitForProcess(proc, SNAPSHOT_TIMEOUT_MS);
+  } catch (err) {
+    try {
+      await proc.kill();
+    } catch {
+      // Process may already be gone
+    }
+    throw err;
+  }
+  const logs = await proc.getLogs().catch(() => ({ stdout: '', stderr: '' }));
+  return { stdout: logs.stdout || '', stderr: logs.stderr || '', exitCode: proc.exitCode };
+}
+
+/**
+ * Take a point-in-time snapshot of the openclaw config, workspace and skills
+ *
+ * The files are first copied to a local staging directory so the snapshot is
+ * consistent and hashing doesn't read through the R2 mount, then copied to
+ * `snapshots/<id>/` in R2. The manifest is written last, so a snapshot is only
+ * listed once all of its files are in place.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param tenant - Tenant that owns the sandbox (defaults to the shared tenant)
+ * @param reason - Why the snapshot is being taken
+ */
+export async function createSnapshot(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+  tenant?: Tenant,
+  reason: SnapshotReason = 'manual'
+): Promise<SnapshotResult> {
+  if (!env.R2_ACCESS_KEY_ID || !env.R2_SECRET_ACCESS_KEY || !env.CF_ACCOUNT_ID) {
+    return { success: false, error: 'R2 storage is not configured' };
+  }
+
+  const mounted = await mountR2Storage(sandbox, env, tenant);
+  if (!mounted) {
+    return { success: false, error: 'Failed to mount R2 storage' };
+  }
+
+  const createdAt = new Date();
+  const id = snapshotIdFor(createdAt);
+  const stage = `${SNAPSHOT_STAGING_DIR}/${id}`;
+  const target = `${R2_MOUNT_PATH}/${SNAPSHOT_DIR}/${id}`;
+
+  const script = [
+    `if ! test -f "${OPENCLAW_CONFIG_DIR}/openclaw.json"; then echo "__MISSING__"; exit 0; fi`,
+    `set -e`,
+    `rm -rf "${stage}" && mkdir -p "${stage}/openclaw"`,
+    `rsync -r ${RSYNC_EXCLUDES} "${OPENCLAW_CONFIG_DIR}/" "${stage}/openclaw/"`,
+    `if test -d "${OPENCLAW_WORKSPACE_DIR}"; then rsync -r ${RSYNC_EXCLUDES} --exclude="skills/" "${OPENCLAW_WORKSPACE_DIR}/" "${stage}/workspace/"; fi`,
+    `if test -d "${OPENCLAW_WORKSPACE_DIR}/skills"; then rsync -r ${RSYNC_EXCLUDES} "${OPENCLAW_WORKSPACE_DIR}/skills/" "${stage}/skills/"; fi`,
+    `cd "${stage}"`,
+    `find . -type f | sort | while IFS= read -r f; do echo "$(sha256sum "$f" | cut -d" " -f1) $(stat -c %s "$f") \${f#./}"; done`,
+    `mkdir -p "${target}"`,
+    `rsync -r --no-times "${stage}/" "${target}/"`,
+    `cd / && rm -rf "${stage}"`,
+    `echo "__SNAPSHOT_OK__"`,
+  ].join('; ');
+
+  let output: { stdout: string; stderr: string; exitCode?: number };
+  try {
+    output = await runSnapshotScript(sandbox, script);
+  } catch (err) {
+    return {
+      success: false,
+      error: 'Snapshot timed out',
+      details: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  if (output.stdout.includes('__MISSING__')) {
+    return {
+      success: false,
+      error: 'Snapshot aborted: source missing openclaw.json',
+      details: 'There is no local config to snapshot yet.',
+    };
+  }
+  if (!output.stdout.includes('__SNAPSHOT_OK__')) {
+    return {
+      success: false,
+      error: 'Snapshot failed',
+      details: (output.stderr || output.stdout || `exitCode=${output.exitCode ?? 'unknown'}`).trim(),
+    };
+  }
+
+  const files = parseManifestLines(output.stdout);
+  const manifest: SnapshotManifest = {
+    id,
+    createdAt: createdAt.toISOString(),
+    reason,
+    totalSize: files.reduce((sum, f) => sum + f.size, 0),
+    files,
+  };
+  await env.MOLTBOT_BUCKET.put(manifestKey(tenant, id), JSON.stringify(manifest), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+
+  logger.info('Created snapshot', { tenant: tenant?.id, id, files: files.length, reason });
+  return { success: true, snapshot: toSummary(manifest) };
+}
+
+/**
+ * Take a scheduled snapshot if SNAPSHOT_INTERVAL has passed since the latest one,
+ * then prune old snapshots
+ *
+ * @returns The snapshot result, or null if no snapshot was due
+ */
+export async function runScheduledSnapshot(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+  tenant?: Tenant,
+  now: number = Date.now()
+): Promise<SnapshotResult | null> {
+  const interval = getSnapshotInterval(env);
+  if (interval === null) return null;
+
+  const [latest] = await listSnapshots(env.MOLTBOT_BUCKET, tenant);
+  if (latest && now - Date.parse(latest.createdAt) < interval) return null;
+
+  const result = await createSnapshot(sandbox, env, tenant, 'scheduled');
+  if (result.success) {
+    await pruneSnapshots(env, tenant);
+  }
+  return result;
+}
+
+/**
+ * Restore a snapshot into the container
+ *
+ * Takes a 'pre-restore' snapshot of the current state first so the restore
+ * can be undone, stops the gateway, copies the snapshot over the local config,
+ * workspace and skills, then syncs the restored state to the main R2 backup
+ * so a container restart doesn't bring back the old data. The caller is
+ * responsible for starting the gateway again.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param tenant - Tenant that owns the sandbox (defaults to the shared tenant)
+ * @param id - Id of the snapshot to restore
+ */
+export async function restoreSnapshot(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+  tenant: Tenant | undefined,
+  id: string
+): Promise<RestoreResult> {
+  if (!isValidSnapshotId(id)) {
+    return { success: false, snapshotId: id, error: 'Invalid snapshot id' };
+  }
+
+  const manifest = await getSnapshotManifest(env.MOLTBOT_BUCKET, tenant, id);
+  if (!manifest) {
+    return { success: false, snapshotId: id, error: `Snapshot not found: ${id}` };
+  }
+
+  const mounted = await mountR2Storage(sandbox, env, tenant);
+  if (!mounted) {
+    return { success: false, snapshotId: id, error: 'Failed to mount R2 storage' };
+  }
+
+  // Best effort: a broken local state (the usual reason to restore) may not be snapshottable
+  const safety = await createSnapshot(sandbox, env, tenant, 'pre-restore');
+  if (!safety.success) {
+    logger.warn('Pre-restore snapshot failed, restoring anyway', { tenant: tenant?.id, error: safety.error });
+  }
+
+  const gateway = await findExistingOpenClawProcess(sandbox);
+  if (gateway) {
+    try {
+      await gateway.kill();
+    } catch (err) {
+      logger.warn('Failed to stop gateway before restore', { tenant: tenant?.id, error: err });
+    }
+  }
+
+  const source = `${R2_MOUNT_PATH}/${SNAPSHOT_DIR}/${id}`;
+  const rsync = `rsync -r --no-times --delete ${RSYNC_EXCLUDES}`;
+  const script = [
+    `if ! test -d "${source}/openclaw"; then echo "__MISSING__"; exit 0; fi`,
+    `set -e`,
+    `mkdir -p "${OPENCLAW_CONFIG_DIR}" "${OPENCLAW_WORKSPACE_DIR}"`,
+    `${rsync} "${source}/openclaw/" "${OPENCLAW_CONFIG_DIR}/"`,
+    `if test -d "${source}/workspace"; then ${rsync} --exclude="skills/" "${source}/workspace/" "${OPENCLAW_WORKSPACE_DIR}/"; fi`,
+    `if test -d "${source}/skills"; then mkdir -p "${OPENCLAW_WORKSPACE_DIR}/skills" && ${rsync} "${source}/skills/" "${OPENCLAW_WORKSPACE_DIR}/skills/"; fi`,
+    // Mark local data as newest so start-openclaw.sh doesn't restore the old backup over it
+    `date -Iseconds > "${OPENCLAW_CONFIG_DIR}/.last-sync"`,
+    `echo "__RESTORE_OK__"`,
+  ].join('; ');
+
+  let output: { stdout: string; stderr: string; exitCode?: number };
+  try {
+    output = await runSnapshotScript(sandbox, script);
+  } catch (err) {
+    return {
+      success: false,
+      snapshotId: id,
+      safetySnapshotId: safety.snapshot?.id,
+      error: 'Restore timed out',
+      details: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  if (!output.stdout.includes('__RESTORE_OK__')) {
+    return {
+      success: false,
+      snapshotId: id,
+      safetySnapshotId: safety.snapshot?.id,
+      error: output.stdout.includes('__MISSING__') ? 'Snapshot files are missing from R2' : 'Restore failed',
+      details: (output.stderr || output.stdout).trim() || undefined,
+    };
+  }
+
+  const sync = await syncToR2(sandbox, env, tenant);
+  if (!sync.success) {
+    logger.warn('Restored snapshot but failed to sync it to the main backup', { tenant: tenant?.id, id, error: sync.error });
+  }
+
+  logger.info('Restored snapshot', { tenant: tenant?.id, id });
+  return { success: true, snapshotId: id, safetySnapshotId: safety.snapshot?.id };
+}
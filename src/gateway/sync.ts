@@ -1,6 +1,7 @@
 import type { Sandbox } from '@cloudflare/sandbox';
-import type { OpenClawEnv } from '../types';
-import { R2_MOUNT_PATH } from '../config';
+import type { OpenClawEnv, Tenant } from '../types';
+import { OPENCLAW_CONFIG_DIR, OPENCLAW_WORKSPACE_DIR, R2_MOUNT_PATH } from '../config';
+import { createLogger, type Logger } from '../logger';
 import { mountR2Storage } from './r2';
 import { waitForProcess } from './utils';
 
@@ -12,78 +13,8 @@ export interface SyncResult {
 }
 
 const DEFAULT_SYNC_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
-const OPENCLAW_CONFIG_DIR = '/root/.openclaw';
-const OPENCLAW_WORKSPACE_DIR = '/root/openclaw';
 
-function isDebugEnabled(env: OpenClawEnv): boolean {
-  return env.DEBUG_ROUTES === 'true' || env.DEV_MODE === 'true';
-}
-
-type SyncLogEvent = {
-  t: number; // elapsed ms
-  event: string;
-  data?: Record<string, unknown>;
-};
-
-function safeJsonStringify(x: unknown): string {
-  try {
-    return JSON.stringify(x);
-  } catch {
-    return '"[unserializable]"';
-  }
-}
-
-function sanitizeLogData(data?: Record<string, unknown>): Record<string, unknown> | undefined {
-  if (!data) return undefined;
-  const out: Record<string, unknown> = {};
-  for (const [k, v] of Object.entries(data)) {
-    if (typeof v === 'string') out[k] = truncate(v, 2000);
-    else out[k] = v;
-  }
-  return out;
-}
-
-function createSyncLogger(env: OpenClawEnv): {
-  runId: string;
-  startedAt: number;
-  log: (event: string, data?: Record<string, unknown>) => void;
-  flushBundle: (finalResult?: SyncResult) => void;
-} {
-  const startedAt = Date.now();
-  const runId =
-    typeof globalThis.crypto?.randomUUID === 'function'
-      ? globalThis.crypto.randomUUID()
-      : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-
-  const events: SyncLogEvent[] = [];
-
-  const log = (event: string, data?: Record<string, unknown>): void => {
-    const t = Date.now() - startedAt;
-    const sanitized = sanitizeLogData({ runId, t, ...data });
-    events.push({ t, event, data: sanitizeLogData(data) });
-    if (!isDebugEnabled(env)) return;
-    console.log(safeJsonStringify({ msg: '[syncToR2]', event, ...sanitized }));
-  };
-
-  const flushBundle = (finalResult?: SyncResult): void => {
-    if (!isDebugEnabled(env)) return;
-    // Emit a single bundled line to make sharing logs easy.
-    // Keep it reasonably sized: cap events and truncate deeply nested fields.
-    const capped = events.slice(-60);
-    console.log(
-      safeJsonStringify({
-        msg: '[syncToR2]',
-        event: 'bundle',
-        runId,
-        durationMs: Date.now() - startedAt,
-        finalResult,
-        events: capped,
-      })
-    );
-  };
-
-  return { runId, startedAt, log, flushBundle };
-}
+const syncLogger = createLogger('sync');
 
 function truncate(s: string, max: number): string {
   if (s.length <= max) return s;
@@ -91,7 +22,7 @@ function truncate(s: string, max: number): string {
 }
 
 async function bestEffortKill(
-  log: (event: string, data?: Record<string, unknown>) => void,
+  logger: Logger,
   proc: unknown,
   reason: string
 ): Promise<void> {
@@ -102,16 +33,16 @@ async function bestEffortKill(
     // Sandbox process methods are RPC-backed; calling `.call()` attempts to
     // invoke an RPC method named "call" (which doesn't exist).
     await (proc as { kill: () => Promise<void> }).kill();
-    log('process_killed', { reason });
+    logger.debug('process_killed', { reason });
   } catch (err) {
-    log('process_kill_error', {
+    logger.debug('process_kill_error', {
       reason,
       error: err instanceof Error ? err.message : String(err),
     });
   }
 }
 
-async function checkForActiveRsync(sandbox: Sandbox, env: OpenClawEnv): Promise<{
+async function checkForActiveRsync(sandbox: Sandbox, logger: Logger): Promise<{
   hasActive: boolean;
   details?: string;
 }> {
@@ -127,33 +58,14 @@ async function checkForActiveRsync(sandbox: Sandbox, env: OpenClawEnv): Promise<
 
     const id = (active as unknown as { id?: string }).id;
     const command = (active as unknown as { command?: string }).command;
-    // Keep using plain console for this one: it’s useful even when debug routes are off.
-    // Also: syncToR2 now emits a bundled line for easier sharing when debug is on.
-    if (isDebugEnabled(env)) {
-      console.log(
-        safeJsonStringify({
-          msg: '[syncToR2]',
-          event: 'rsync_already_running',
-          id,
-          command: truncate(command || '', 500),
-        })
-      );
-    }
+    logger.info('rsync_already_running', { id, command: truncate(command || '', 500) });
     return {
       hasActive: true,
       details: `Skipped: another rsync appears to be running${id ? ` (id=${id})` : ''}.`,
     };
   } catch (err) {
     // If listProcesses fails, don't block sync; just log and proceed.
-    if (isDebugEnabled(env)) {
-      console.log(
-        safeJsonStringify({
-          msg: '[syncToR2]',
-          event: 'rsync_check_error',
-          error: err instanceof Error ? err.message : String(err),
-        })
-      );
-    }
+    logger.warn('rsync_check_error', { error: err });
     return { hasActive: false };
   }
 }
@@ -169,7 +81,7 @@ function getProcessStatus(proc: unknown): string | undefined {
 }
 
 async function ensureRsyncSuccess(
-  log: (event: string, data?: Record<string, unknown>) => void,
+  logger: Logger,
   proc: unknown,
   which: 'openclaw' | 'workspace' | 'skills'
 ): Promise<SyncResult | undefined> {
@@ -179,7 +91,7 @@ async function ensureRsyncSuccess(
     const logs = await (proc as { getLogs?: () => Promise<{ stdout?: string; stderr?: string }> })
       .getLogs?.()
       .catch(() => ({ stdout: '', stderr: '' }));
-    log('rsync_failed', {
+    logger.error('rsync_failed', {
       which,
       status,
       exitCode,
@@ -207,21 +119,23 @@ async function ensureRsyncSuccess(
  * 
  * @param sandbox - The sandbox instance
  * @param env - Worker environment bindings
+ * @param tenant - Tenant that owns the sandbox (defaults to the shared tenant)
  * @returns SyncResult with success status and optional error details
  */
-export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<SyncResult> {
-  const logger = createSyncLogger(env);
-  const withBundle = (result: SyncResult): SyncResult => {
-    logger.flushBundle(result);
+export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv, tenant?: Tenant): Promise<SyncResult> {
+  const startedAt = Date.now();
+  const logger = syncLogger.child({ tenant: tenant?.id, runId: crypto.randomUUID() });
+  const finish = (result: SyncResult): SyncResult => {
+    logger.debug('finished', { durationMs: Date.now() - startedAt, result });
     return result;
   };
 
   // Check if R2 is configured
   if (!env.R2_ACCESS_KEY_ID || !env.R2_SECRET_ACCESS_KEY || !env.CF_ACCOUNT_ID) {
-    return withBundle({ success: false, error: 'R2 storage is not configured' });
+    return finish({ success: false, error: 'R2 storage is not configured' });
   }
 
-  logger.log('start', {
+  logger.debug('start', {
     r2MountPath: R2_MOUNT_PATH,
     hasR2AccessKeyId: !!env.R2_ACCESS_KEY_ID,
     hasR2SecretAccessKey: !!env.R2_SECRET_ACCESS_KEY,
@@ -229,18 +143,18 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
   });
 
   // Mount R2 if not already mounted
-  const mounted = await mountR2Storage(sandbox, env);
+  const mounted = await mountR2Storage(sandbox, env, tenant);
   if (!mounted) {
-    logger.log('mount_failed');
-    return withBundle({ success: false, error: 'Failed to mount R2 storage' });
+    logger.debug('mount_failed');
+    return finish({ success: false, error: 'Failed to mount R2 storage' });
   }
-  logger.log('mount_ok');
+  logger.debug('mount_ok');
 
   // If an earlier cron run timed out, rsync may still be running in the container.
   // Avoid piling up multiple rsync processes.
-  const activeRsync = await checkForActiveRsync(sandbox, env);
+  const activeRsync = await checkForActiveRsync(sandbox, logger);
   if (activeRsync.hasActive) {
-    return withBundle({ success: true, details: activeRsync.details });
+    return finish({ success: true, details: activeRsync.details });
   }
 
   // Sanity check: verify source has critical files before syncing
@@ -257,7 +171,7 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
       `if test -d "${R2_MOUNT_PATH}/workspace" && test -n "$(ls -A "${R2_MOUNT_PATH}/workspace" 2>/dev/null)"; then echo "__WORKSPACE_REMOTE_NONEMPTY__"; else echo "__WORKSPACE_REMOTE_EMPTY__"; fi` +
       `'`;
     const checkProc = await sandbox.startProcess(verifyCmd);
-    logger.log('verify_started', { cmd: verifyCmd, status: checkProc.status });
+    logger.debug('verify_started', { cmd: verifyCmd, status: checkProc.status });
 
     // Best-effort wait: ignore timeouts and poll logs.
     await waitForProcess(checkProc, 10_000, 200).catch(() => {});
@@ -272,7 +186,7 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
       await new Promise((r) => setTimeout(r, 100));
     }
 
-    logger.log('verify_result', {
+    logger.debug('verify_result', {
       status: checkProc.status,
       exitCode: (checkProc as unknown as { exitCode?: number }).exitCode,
       stdout: truncate(stdout.trim(), 500),
@@ -280,7 +194,7 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
     });
 
     if (stdout.includes('__MISSING__')) {
-      return withBundle({ 
+      return finish({ 
         success: false, 
         error: 'Sync aborted: source missing openclaw.json',
         details: 'The local config directory is missing critical files. This could indicate corruption or an incomplete setup.',
@@ -293,7 +207,7 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
       stdout.includes('__WORKSPACE_REMOTE_NONEMPTY__') &&
       stdout.includes('__WORKSPACE_LOCAL_EMPTY__')
     ) {
-      return withBundle({
+      return finish({
         success: false,
         error: 'Sync aborted: local workspace appears empty',
         details:
@@ -308,8 +222,8 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
       );
     }
   } catch (err) {
-    logger.log('verify_error', { error: err instanceof Error ? err.message : String(err) });
-    return withBundle({ 
+    logger.error('verify_error', { error: err instanceof Error ? err.message : String(err) });
+    return finish({ 
       success: false, 
       error: 'Failed to verify source files',
       details: err instanceof Error ? err.message : 'Unknown error',
@@ -334,75 +248,75 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
   const writeTimestampCmd = `sh -lc 'date -Iseconds > ${R2_MOUNT_PATH}/.last-sync'`;
   
   try {
-    logger.log('rsync_started', { cmd: syncOpenclawCmd });
+    logger.debug('rsync_started', { cmd: syncOpenclawCmd });
     const proc = await sandbox.startProcess(syncOpenclawCmd);
-    logger.log('rsync_process', { status: proc.status });
+    logger.debug('rsync_process', { status: proc.status });
 
     try {
       await waitForProcess(proc, DEFAULT_SYNC_TIMEOUT_MS);
     } catch (e) {
       // Include logs/status to help diagnose timeouts or stuck rsync.
       const logs = await proc.getLogs().catch(() => ({ stdout: '', stderr: '' }));
-      logger.log('rsync_wait_error', {
+      logger.debug('rsync_wait_error', {
         error: e instanceof Error ? e.message : String(e),
         status: proc.status,
         exitCode: (proc as unknown as { exitCode?: number }).exitCode,
         stdout: truncate((logs.stdout || '').trim(), 2000),
         stderr: truncate((logs.stderr || '').trim(), 2000),
       });
-      await bestEffortKill(logger.log, proc, 'rsync_openclaw_timeout');
+      await bestEffortKill(logger, proc, 'rsync_openclaw_timeout');
       throw e;
     }
-    logger.log('rsync_wait_done', {
+    logger.debug('rsync_wait_done', {
       status: proc.status,
       exitCode: (proc as unknown as { exitCode?: number }).exitCode,
     });
-    const openclawResult = await ensureRsyncSuccess(logger.log, proc, 'openclaw');
-    if (openclawResult) return withBundle(openclawResult);
+    const openclawResult = await ensureRsyncSuccess(logger, proc, 'openclaw');
+    if (openclawResult) return finish(openclawResult);
 
-    logger.log('rsync_started', { cmd: syncWorkspaceCmd });
+    logger.debug('rsync_started', { cmd: syncWorkspaceCmd });
     const workspaceProc = await sandbox.startProcess(syncWorkspaceCmd);
-    logger.log('rsync_process', { status: workspaceProc.status });
+    logger.debug('rsync_process', { status: workspaceProc.status });
 
     try {
       await waitForProcess(workspaceProc, DEFAULT_SYNC_TIMEOUT_MS);
     } catch (e) {
       const logs = await workspaceProc.getLogs().catch(() => ({ stdout: '', stderr: '' }));
-      logger.log('rsync_wait_error', {
+      logger.debug('rsync_wait_error', {
         error: e instanceof Error ? e.message : String(e),
         status: workspaceProc.status,
         exitCode: (workspaceProc as unknown as { exitCode?: number }).exitCode,
         stdout: truncate((logs.stdout || '').trim(), 2000),
         stderr: truncate((logs.stderr || '').trim(), 2000),
       });
-      await bestEffortKill(logger.log, workspaceProc, 'rsync_workspace_timeout');
+      await bestEffortKill(logger, workspaceProc, 'rsync_workspace_timeout');
       throw e;
     }
-    const workspaceResult = await ensureRsyncSuccess(logger.log, workspaceProc, 'workspace');
-    if (workspaceResult) return withBundle(workspaceResult);
+    const workspaceResult = await ensureRsyncSuccess(logger, workspaceProc, 'workspace');
+    if (workspaceResult) return finish(workspaceResult);
 
-    logger.log('rsync_started', { cmd: syncSkillsCmd });
+    logger.debug('rsync_started', { cmd: syncSkillsCmd });
     const skillsProc = await sandbox.startProcess(syncSkillsCmd);
-    logger.log('rsync_process', { status: skillsProc.status });
+    logger.debug('rsync_process', { status: skillsProc.status });
 
     try {
       await waitForProcess(skillsProc, DEFAULT_SYNC_TIMEOUT_MS);
     } catch (e) {
       const logs = await skillsProc.getLogs().catch(() => ({ stdout: '', stderr: '' }));
-      logger.log('rsync_wait_error', {
+      logger.debug('rsync_wait_error', {
         error: e instanceof Error ? e.message : String(e),
         status: skillsProc.status,
         exitCode: (skillsProc as unknown as { exitCode?: number }).exitCode,
         stdout: truncate((logs.stdout || '').trim(), 2000),
         stderr: truncate((logs.stderr || '').trim(), 2000),
       });
-      await bestEffortKill(logger.log, skillsProc, 'rsync_skills_timeout');
+      await bestEffortKill(logger, skillsProc, 'rsync_skills_timeout');
       throw e;
     }
-    const skillsResult = await ensureRsyncSuccess(logger.log, skillsProc, 'skills');
-    if (skillsResult) return withBundle(skillsResult);
+    const skillsResult = await ensureRsyncSuccess(logger, skillsProc, 'skills');
+    if (skillsResult) return finish(skillsResult);
 
-    logger.log('timestamp_write_started', { cmd: writeTimestampCmd });
+    logger.debug('timestamp_write_started', { cmd: writeTimestampCmd });
     const writeProc = await sandbox.startProcess(writeTimestampCmd);
     await waitForProcess(writeProc, 15000);
 
@@ -419,7 +333,7 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
     const out = timestampLogs.stdout?.trim();
     const lastSync = out && out !== '__MISSING__' ? out : undefined;
 
-    logger.log('timestamp_result', {
+    logger.debug('timestamp_result', {
       status: timestampProc.status,
       exitCode: (timestampProc as unknown as { exitCode?: number }).exitCode,
       stdout: truncate((timestampLogs.stdout || '').trim(), 500),
@@ -427,7 +341,7 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
     });
     
     if (lastSync && lastSync.match(/^\d{4}-\d{2}-\d{2}/)) {
-      return withBundle({ success: true, lastSync });
+      return finish({ success: true, lastSync });
     } else {
       const logs = await proc.getLogs();
       const diagProc = await sandbox.startProcess(
@@ -441,7 +355,7 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
       );
       await waitForProcess(diagProc, 5000, 200).catch(() => {});
       const diagLogs = await diagProc.getLogs().catch(() => ({ stdout: '', stderr: '' }));
-      logger.log('timestamp_missing_diag', {
+      logger.debug('timestamp_missing_diag', {
         rsyncStatus: proc.status,
         rsyncExitCode: (proc as unknown as { exitCode?: number }).exitCode,
         rsyncStdout: truncate((logs.stdout || '').trim(), 2000),
@@ -449,7 +363,7 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
         diagStdout: truncate((diagLogs.stdout || '').trim(), 2000),
         diagStderr: truncate((diagLogs.stderr || '').trim(), 2000),
       });
-      return withBundle({
+      return finish({
         success: false,
         error: 'Sync failed',
         details: [
@@ -460,8 +374,8 @@ export async function syncToR2(sandbox: Sandbox, env: OpenClawEnv): Promise<Sync
       });
     }
   } catch (err) {
-    logger.log('sync_error', { error: err instanceof Error ? err.message : String(err) });
-    return withBundle({ 
+    logger.error('sync_error', { error: err instanceof Error ? err.message : String(err) });
+    return finish({ 
       success: false, 
       error: 'Sync error',
       details: err instanceof Error ? err.message : 'Unknown error',
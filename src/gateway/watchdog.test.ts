@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Process } from '@cloudflare/sandbox';
+import {
+  checkGatewayHealth,
+  computeBackoffMs,
+  getWatchdogState,
+  isCrashLooping,
+  resetWatchdogState,
+  runWatchdog,
+  type WatchdogRestart,
+} from './watchdog';
+import { checkGatewayReadiness } from './health';
+import { ensureOpenClawGateway, findExistingOpenClawProcess } from './process';
+import { createMockBucket, createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+import { SHARED_TENANT } from '../tenant/tenant';
+
+vi.mock('./health', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./health')>()),
+  checkGatewayReadiness: vi.fn(),
+}));
+vi.mock('./process', () => ({
+  ensureOpenClawGateway: vi.fn(),
+  findExistingOpenClawProcess: vi.fn(),
+}));
+
+const NOW = Date.parse('2025-01-01T12:00:00.000Z');
+const STATE_KEY = '_worker/watchdog/shared.json';
+
+function createGatewayProcess(overrides: Partial<Process> = {}): Process {
+  return {
+    id: 'gateway-1',
+    command: 'start-openclaw.sh',
+    status: 'running',
+    startTime: new Date(NOW - 60 * 60 * 1000),
+    waitForPort: vi.fn().mockResolvedValue(undefined),
+    kill: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  } as unknown as Process;
+}
+
+function restartAt(minutesAgo: number, success = true): WatchdogRestart {
+  return {
+    at: new Date(NOW - minutesAgo * 60 * 1000).toISOString(),
+    reason: 'missing',
+    success,
+    durationMs: 1000,
+  };
+}
+
+describe('computeBackoffMs', () => {
+  it('returns 0 with no failures', () => {
+    expect(computeBackoffMs(0)).toBe(0);
+  });
+
+  it('doubles with each failure', () => {
+    expect(computeBackoffMs(1)).toBe(60_000);
+    expect(computeBackoffMs(2)).toBe(120_000);
+    expect(computeBackoffMs(3)).toBe(240_000);
+  });
+
+  it('caps at one hour', () => {
+    expect(computeBackoffMs(20)).toBe(3_600_000);
+  });
+});
+
+describe('isCrashLooping', () => {
+  it('returns false for a few restarts', () => {
+    expect(isCrashLooping([restartAt(1), restartAt(5)], NOW)).toBe(false);
+  });
+
+  it('returns true for many restarts within the window', () => {
+    const history = [restartAt(1), restartAt(5), restartAt(10), restartAt(15), restartAt(20, false)];
+    expect(isCrashLooping(history, NOW)).toBe(true);
+  });
+
+  it('ignores restarts outside the window', () => {
+    const history = [restartAt(1), restartAt(5), restartAt(40), restartAt(45), restartAt(50)];
+    expect(isCrashLooping(history, NOW)).toBe(false);
+  });
+});
+
+const READY = { ready: true, failure: null, error: null, httpStatus: 200, version: null, latencyMs: 5 };
+
+describe('checkGatewayHealth', () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.mocked(findExistingOpenClawProcess).mockReset();
+    vi.mocked(checkGatewayReadiness).mockReset().mockResolvedValue(READY);
+  });
+
+  it('reports a missing gateway', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(null);
+    const { sandbox } = createMockSandbox();
+    expect((await checkGatewayHealth(sandbox, createMockEnv(), SHARED_TENANT, NOW)).health).toBe('missing');
+  });
+
+  it('reports a recently started gateway as starting without probing it', async () => {
+    const proc = createGatewayProcess({ startTime: new Date(NOW - 30_000) });
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(proc);
+    const { sandbox } = createMockSandbox();
+
+    expect((await checkGatewayHealth(sandbox, createMockEnv(), SHARED_TENANT, NOW)).health).toBe('starting');
+    expect(proc.waitForPort).not.toHaveBeenCalled();
+  });
+
+  it('reports a gateway that does not accept connections as unresponsive', async () => {
+    const proc = createGatewayProcess({ waitForPort: vi.fn().mockRejectedValue(new Error('timeout')) });
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(proc);
+    const { sandbox } = createMockSandbox();
+
+    expect((await checkGatewayHealth(sandbox, createMockEnv(), SHARED_TENANT, NOW)).health).toBe('unresponsive');
+  });
+
+  it('reports a gateway that accepts connections but fails the readiness check as unresponsive', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(createGatewayProcess());
+    vi.mocked(checkGatewayReadiness).mockResolvedValue({
+      ...READY,
+      ready: false,
+      failure: 'auth',
+      error: "Gateway rejected the worker's token: gateway token mismatch",
+    });
+    const { sandbox } = createMockSandbox();
+
+    expect((await checkGatewayHealth(sandbox, createMockEnv(), SHARED_TENANT, NOW)).health).toBe('unresponsive');
+  });
+
+  it('reports a reachable gateway as healthy', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(createGatewayProcess());
+    const { sandbox } = createMockSandbox();
+    expect((await checkGatewayHealth(sandbox, createMockEnv(), SHARED_TENANT, NOW)).health).toBe('healthy');
+  });
+});
+
+describe('runWatchdog', () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.mocked(checkGatewayReadiness).mockReset().mockResolvedValue(READY);
+    vi.mocked(findExistingOpenClawProcess).mockReset();
+    vi.mocked(ensureOpenClawGateway).mockReset();
+  });
+
+  it('does nothing when the gateway is healthy', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(createGatewayProcess());
+    const { bucket } = createMockBucket();
+    const { sandbox } = createMockSandbox();
+
+    const result = await runWatchdog(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }), SHARED_TENANT, NOW);
+
+    expect(result.action).toBe('healthy');
+    expect(result.state.lastHealthyAt).toBe(new Date(NOW).toISOString());
+    expect(ensureOpenClawGateway).not.toHaveBeenCalled();
+  });
+
+  it('restarts a missing gateway and records it', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(null);
+    vi.mocked(ensureOpenClawGateway).mockResolvedValue(createGatewayProcess());
+    const { bucket } = createMockBucket();
+    const { sandbox } = createMockSandbox();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+
+    const result = await runWatchdog(sandbox, env, SHARED_TENANT, NOW);
+
+    expect(result.action).toBe('restarted');
+    expect(ensureOpenClawGateway).toHaveBeenCalledWith(sandbox, env, SHARED_TENANT);
+    expect(result.state.history).toHaveLength(1);
+    expect(result.state.history[0]).toMatchObject({ reason: 'missing', success: true });
+    expect((await getWatchdogState(bucket, 'shared')).history).toHaveLength(1);
+  });
+
+  it('kills an unresponsive gateway before restarting it', async () => {
+    const proc = createGatewayProcess({ waitForPort: vi.fn().mockRejectedValue(new Error('timeout')) });
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(proc);
+    vi.mocked(ensureOpenClawGateway).mockResolvedValue(createGatewayProcess());
+    const { bucket } = createMockBucket();
+    const { sandbox } = createMockSandbox();
+
+    const result = await runWatchdog(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }), SHARED_TENANT, NOW);
+
+    expect(proc.kill).toHaveBeenCalled();
+    expect(result.state.history[0]).toMatchObject({ reason: 'unresponsive', success: true });
+  });
+
+  it('backs off after a failed restart', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(null);
+    vi.mocked(ensureOpenClawGateway).mockRejectedValue(new Error('boom'));
+    const { bucket } = createMockBucket();
+    const { sandbox } = createMockSandbox();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+
+    const first = await runWatchdog(sandbox, env, SHARED_TENANT, NOW);
+    expect(first.action).toBe('restart-failed');
+    expect(first.state.consecutiveFailures).toBe(1);
+    expect(first.state.history[0].error).toBe('boom');
+
+    const second = await runWatchdog(sandbox, env, SHARED_TENANT, NOW + 30_000);
+    expect(second.action).toBe('backoff');
+    expect(ensureOpenClawGateway).toHaveBeenCalledTimes(1);
+
+    const third = await runWatchdog(sandbox, env, SHARED_TENANT, NOW + 61_000);
+    expect(third.action).toBe('restart-failed');
+    expect(third.state.consecutiveFailures).toBe(2);
+  });
+
+  it('pauses restarts once a crash loop is detected', async () => {
+    vi.mocked(findExistingOpenClawProcess).mockResolvedValue(null);
+    vi.mocked(ensureOpenClawGateway).mockResolvedValue(createGatewayProcess());
+    const { bucket } = createMockBucket({
+      [STATE_KEY]: JSON.stringify({ history: [restartAt(5), restartAt(10), restartAt(15), restartAt(20)] }),
+    });
+    const { sandbox } = createMockSandbox();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+
+    const result = await runWatchdog(sandbox, env, SHARED_TENANT, NOW);
+    expect(result.action).toBe('restarted');
+    expect(result.state.crashLoop).toBe(true);
+
+    const next = await runWatchdog(sandbox, env, SHARED_TENANT, NOW + 5 * 60 * 1000);
+    expect(next.action).toBe('crash-loop');
+    expect(ensureOpenClawGateway).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('resetWatchdogState', () => {
+  it('clears crash loop and backoff but keeps history', async () => {
+    const { bucket } = createMockBucket({
+      [STATE_KEY]: JSON.stringify({
+        crashLoop: true,
+        consecutiveFailures: 3,
+        nextAttemptAt: new Date(NOW).toISOString(),
+        history: [restartAt(1, false)],
+      }),
+    });
+
+    const state = await resetWatchdogState(bucket, 'shared');
+
+    expect(state).toMatchObject({ crashLoop: false, consecutiveFailures: 0, nextAttemptAt: null });
+    expect(state.history).toHaveLength(1);
+    expect((await getWatchdogState(bucket, 'shared')).crashLoop).toBe(false);
+  });
+});
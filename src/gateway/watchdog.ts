@@ -0,0 +1,241 @@
+import type { Sandbox, Process } from '@cloudflare/sandbox';
+import type { OpenClawEnv, Tenant } from '../types';
+import {
+  STARTUP_TIMEOUT_MS,
+  WATCHDOG_BACKOFF_BASE_MS,
+  WATCHDOG_BACKOFF_MAX_MS,
+  WATCHDOG_CRASH_LOOP_RESTARTS,
+  WATCHDOG_CRASH_LOOP_WINDOW_MS,
+  WATCHDOG_HISTORY_LIMIT,
+  WATCHDOG_PROBE_TIMEOUT_MS,
+  WORKER_STATE_PREFIX,
+} from '../config';
+import { createLogger } from '../logger';
+import { checkGatewayLiveness, checkGatewayReadiness } from './health';
+import { ensureOpenClawGateway, findExistingOpenClawProcess } from './process';
+
+const WATCHDOG_KEY_PREFIX = `${WORKER_STATE_PREFIX}watchdog/`;
+
+const logger = createLogger('watchdog');
+
+/**
+ * Why the watchdog decided a gateway needed restarting
+ */
+export type WatchdogRestartReason = 'missing' | 'unresponsive';
+
+/**
+ * One restart attempt made by the watchdog
+ */
+export interface WatchdogRestart {
+  at: string;
+  reason: WatchdogRestartReason;
+  success: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Watchdog state persisted in R2 between cron runs
+ */
+export interface WatchdogState {
+  consecutiveFailures: number;
+  nextAttemptAt: string | null;
+  crashLoop: boolean;
+  lastCheckAt: string | null;
+  lastHealthyAt: string | null;
+  history: WatchdogRestart[];
+}
+
+/**
+ * Result of probing the gateway process
+ */
+export type GatewayHealth = 'healthy' | 'starting' | WatchdogRestartReason;
+
+/**
+ * What a single watchdog run did
+ */
+export type WatchdogAction = 'healthy' | 'starting' | 'backoff' | 'crash-loop' | 'restarted' | 'restart-failed';
+
+export interface WatchdogResult {
+  action: WatchdogAction;
+  state: WatchdogState;
+}
+
+function emptyState(): WatchdogState {
+  return {
+    consecutiveFailures: 0,
+    nextAttemptAt: null,
+    crashLoop: false,
+    lastCheckAt: null,
+    lastHealthyAt: null,
+    history: [],
+  };
+}
+
+function watchdogKey(tenantId: string): string {
+  return `${WATCHDOG_KEY_PREFIX}${tenantId}.json`;
+}
+
+/**
+ * Get the watchdog state for a tenant
+ *
+ * @returns The stored state, or a fresh state if the watchdog has never run
+ */
+export async function getWatchdogState(bucket: R2Bucket, tenantId: string): Promise<WatchdogState> {
+  const object = await bucket.get(watchdogKey(tenantId));
+  if (!object) return emptyState();
+  return { ...emptyState(), ...(await object.json<Partial<WatchdogState>>()) };
+}
+
+async function saveWatchdogState(bucket: R2Bucket, tenantId: string, state: WatchdogState): Promise<void> {
+  await bucket.put(watchdogKey(tenantId), JSON.stringify(state), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+/**
+ * Clear backoff and crash-loop state so the watchdog resumes restarting the gateway.
+ * Restart history is kept.
+ */
+export async function resetWatchdogState(bucket: R2Bucket, tenantId: string): Promise<WatchdogState> {
+  const state = await getWatchdogState(bucket, tenantId);
+  const reset = { ...state, consecutiveFailures: 0, nextAttemptAt: null, crashLoop: false };
+  await saveWatchdogState(bucket, tenantId, reset);
+  return reset;
+}
+
+/**
+ * Delay before the next restart attempt after a number of consecutive failures
+ */
+export function computeBackoffMs(consecutiveFailures: number): number {
+  if (consecutiveFailures <= 0) return 0;
+  return Math.min(WATCHDOG_BACKOFF_BASE_MS * 2 ** (consecutiveFailures - 1), WATCHDOG_BACKOFF_MAX_MS);
+}
+
+/**
+ * Check if the restart history shows a crash loop
+ *
+ * Successful restarts count too: a gateway that starts and then dies again
+ * before the next check is just as stuck as one that never comes up.
+ */
+export function isCrashLooping(history: WatchdogRestart[], now: number): boolean {
+  const recent = history.filter(r => now - Date.parse(r.at) < WATCHDOG_CRASH_LOOP_WINDOW_MS);
+  return recent.length >= WATCHDOG_CRASH_LOOP_RESTARTS;
+}
+
+/**
+ * Probe the gateway process
+ *
+ * A process that is still within its startup timeout is reported as 'starting'
+ * rather than unresponsive, so the watchdog never kills a gateway mid-boot.
+ * After that it must pass both the liveness and the readiness check.
+ */
+export async function checkGatewayHealth(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+  tenant: Tenant,
+  now: number = Date.now()
+): Promise<{ health: GatewayHealth; process: Process | null }> {
+  const process = await findExistingOpenClawProcess(sandbox);
+  if (!process) return { health: 'missing', process: null };
+
+  const startedAt = process.startTime ? new Date(process.startTime).getTime() : 0;
+  if (process.status === 'starting' || now - startedAt < STARTUP_TIMEOUT_MS) {
+    return { health: 'starting', process };
+  }
+
+  if (!(await checkGatewayLiveness(process, WATCHDOG_PROBE_TIMEOUT_MS))) {
+    return { health: 'unresponsive', process };
+  }
+
+  const readiness = await checkGatewayReadiness(sandbox, env, tenant);
+  if (!readiness.ready) {
+    logger.warn('Gateway is alive but not ready', { tenant: tenant.id, failure: readiness.failure, error: readiness.error });
+    return { health: 'unresponsive', process };
+  }
+  return { health: 'healthy', process };
+}
+
+/**
+ * Check the gateway and restart it if it is missing or not responding
+ *
+ * Failed restarts are retried with exponential backoff. Once too many restarts
+ * happen within WATCHDOG_CRASH_LOOP_WINDOW_MS the watchdog stops restarting
+ * until resetWatchdogState() is called.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param tenant - Tenant that owns the sandbox
+ * @param now - Current time in ms (for testing)
+ */
+export async function runWatchdog(
+  sandbox: Sandbox,
+  env: OpenClawEnv,
+  tenant: Tenant,
+  now: number = Date.now()
+): Promise<WatchdogResult> {
+  const log = logger.child({ tenant: tenant.id });
+  const state = await getWatchdogState(env.MOLTBOT_BUCKET, tenant.id);
+  state.lastCheckAt = new Date(now).toISOString();
+
+  const { health, process } = await checkGatewayHealth(sandbox, env, tenant, now);
+
+  if (health === 'healthy' || health === 'starting') {
+    if (health === 'healthy') {
+      state.lastHealthyAt = state.lastCheckAt;
+      state.consecutiveFailures = 0;
+      state.nextAttemptAt = null;
+    }
+    await saveWatchdogState(env.MOLTBOT_BUCKET, tenant.id, state);
+    return { action: health, state };
+  }
+
+  if (state.crashLoop) {
+    log.warn('Gateway needs a restart but restarts are paused (crash loop)', { health });
+    await saveWatchdogState(env.MOLTBOT_BUCKET, tenant.id, state);
+    return { action: 'crash-loop', state };
+  }
+
+  if (state.nextAttemptAt && now < Date.parse(state.nextAttemptAt)) {
+    log.info('Gateway needs a restart, backing off', { health, nextAttemptAt: state.nextAttemptAt });
+    await saveWatchdogState(env.MOLTBOT_BUCKET, tenant.id, state);
+    return { action: 'backoff', state };
+  }
+
+  log.warn('Gateway needs a restart, restarting', { health });
+  if (process) {
+    try {
+      await process.kill();
+    } catch (killErr) {
+      log.warn('Failed to kill unresponsive process', { error: killErr });
+    }
+  }
+
+  const restart: WatchdogRestart = { at: state.lastCheckAt, reason: health, success: false, durationMs: 0 };
+  try {
+    await ensureOpenClawGateway(sandbox, env, tenant);
+    restart.success = true;
+  } catch (err) {
+    restart.error = err instanceof Error ? err.message : String(err);
+  }
+  restart.durationMs = Date.now() - now;
+
+  state.history = [restart, ...state.history].slice(0, WATCHDOG_HISTORY_LIMIT);
+  if (restart.success) {
+    state.consecutiveFailures = 0;
+    state.nextAttemptAt = null;
+    state.lastHealthyAt = new Date().toISOString();
+  } else {
+    state.consecutiveFailures += 1;
+    state.nextAttemptAt = new Date(now + computeBackoffMs(state.consecutiveFailures)).toISOString();
+    log.error('Restart failed', { error: restart.error, nextAttemptAt: state.nextAttemptAt });
+  }
+
+  if (isCrashLooping(state.history, now)) {
+    state.crashLoop = true;
+    log.error('Crash loop detected, pausing automatic restarts');
+  }
+
+  await saveWatchdogState(env.MOLTBOT_BUCKET, tenant.id, state);
+  return { action: restart.success ? 'restarted' : 'restart-failed', state };
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { proxyGatewayWebSocket, transformErrorMessage } from './ws-proxy';
+import { suppressConsole } from '../test-utils';
+import { WS_RECONNECT_BUFFER_BYTES, WS_RECONNECT_WINDOW_MS } from '../config';
+
+class FakeSocket extends EventTarget {
+  readyState = 1;
+  sent: unknown[] = [];
+  closed: { code?: number; reason?: string } | null = null;
+
+  send(data: unknown) {
+    this.sent.push(data);
+  }
+
+  close(code?: number, reason?: string) {
+    this.readyState = 3;
+    this.closed = { code, reason };
+  }
+
+  receive(data: unknown) {
+    this.dispatchEvent(Object.assign(new Event('message'), { data }));
+  }
+
+  drop(code: number, reason = '') {
+    this.readyState = 3;
+    this.dispatchEvent(Object.assign(new Event('close'), { code, reason }));
+  }
+}
+
+const asWs = (socket: FakeSocket) => socket as unknown as WebSocket;
+
+const CONNECT = JSON.stringify({ type: 'req', id: 'c1', method: 'connect', params: { auth: { token: 't' } } });
+
+describe('transformErrorMessage', () => {
+  it('points token errors at the token URL', () => {
+    expect(transformErrorMessage('gateway token mismatch', 'example.com'))
+      .toBe('Invalid or missing token. Visit https://example.com?token={REPLACE_WITH_YOUR_TOKEN}');
+  });
+
+  it('points pairing errors at the admin UI', () => {
+    expect(transformErrorMessage('pairing required', 'example.com')).toBe('Pairing required. Visit https://example.com/_admin/');
+  });
+
+  it('leaves other messages alone', () => {
+    expect(transformErrorMessage('something else', 'example.com')).toBe('something else');
+  });
+});
+
+describe('proxyGatewayWebSocket', () => {
+  let client: FakeSocket;
+  let gateway: FakeSocket;
+
+  beforeEach(() => {
+    suppressConsole();
+    vi.stubGlobal('WebSocket', { OPEN: 1 });
+    client = new FakeSocket();
+    gateway = new FakeSocket();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('relays messages both ways and rewrites gateway errors', () => {
+    proxyGatewayWebSocket(asWs(client), asWs(gateway), { host: 'example.com' });
+
+    client.receive(CONNECT);
+    gateway.receive(JSON.stringify({ type: 'res', id: 'c1', ok: false, error: { message: 'pairing required' } }));
+
+    expect(gateway.sent).toEqual([CONNECT]);
+    expect(JSON.parse(client.sent[0] as string).error.message).toBe('Pairing required. Visit https://example.com/_admin/');
+  });
+
+  it('closes the client when the gateway closes without reconnect', () => {
+    proxyGatewayWebSocket(asWs(client), asWs(gateway), { host: 'example.com' });
+
+    gateway.drop(1011, 'gateway token missing');
+
+    expect(client.closed).toEqual({
+      code: 1011,
+      reason: 'Invalid or missing token. Visit https://example.com?token={REPLACE_WITH_YOUR_TOKEN}',
+    });
+  });
+
+  it('closes the gateway when the client closes', () => {
+    proxyGatewayWebSocket(asWs(client), asWs(gateway), { host: 'example.com' });
+
+    client.drop(1000, 'bye');
+
+    expect(gateway.closed).toEqual({ code: 1000, reason: 'bye' });
+  });
+
+  describe('with reconnect', () => {
+    it('holds client messages and replays the handshake to the restarted gateway', async () => {
+      const restarted = new FakeSocket();
+      const reconnect = vi.fn().mockResolvedValue(asWs(restarted));
+      proxyGatewayWebSocket(asWs(client), asWs(gateway), { host: 'example.com', reconnect });
+      client.receive(CONNECT);
+      gateway.receive(JSON.stringify({ type: 'res', id: 'c1', ok: true }));
+
+      gateway.drop(1012, 'service restart');
+      client.receive('{"type":"req","id":"r1","method":"chat.send"}');
+      await vi.waitFor(() => expect(restarted.sent).toEqual([CONNECT]));
+
+      restarted.receive(JSON.stringify({ type: 'event', event: 'connect.challenge', payload: { nonce: 'n' } }));
+      restarted.receive(JSON.stringify({ type: 'res', id: 'c1', ok: true }));
+      restarted.receive('{"type":"event","event":"tick"}');
+
+      expect(client.closed).toBeNull();
+      expect(client.sent).toEqual([JSON.stringify({ type: 'res', id: 'c1', ok: true }), '{"type":"event","event":"tick"}']);
+      expect(restarted.sent).toEqual([CONNECT, '{"type":"req","id":"r1","method":"chat.send"}']);
+    });
+
+    it('closes the client when the restarted gateway rejects the handshake', async () => {
+      const restarted = new FakeSocket();
+      proxyGatewayWebSocket(asWs(client), asWs(gateway), {
+        host: 'example.com',
+        reconnect: vi.fn().mockResolvedValue(asWs(restarted)),
+      });
+      client.receive(CONNECT);
+
+      gateway.drop(1006);
+      await vi.waitFor(() => expect(restarted.sent).toEqual([CONNECT]));
+      restarted.receive(JSON.stringify({ type: 'res', id: 'c1', ok: false, error: { message: 'pairing required' } }));
+
+      expect(client.closed).toEqual({ code: 1008, reason: 'Pairing required. Visit https://example.com/_admin/' });
+      expect(restarted.closed?.code).toBe(1000);
+    });
+
+    it('passes policy closes through without reconnecting', () => {
+      const reconnect = vi.fn();
+      proxyGatewayWebSocket(asWs(client), asWs(gateway), { host: 'example.com', reconnect });
+
+      gateway.drop(1008, 'unauthorized');
+
+      expect(reconnect).not.toHaveBeenCalled();
+      expect(client.closed).toEqual({ code: 1008, reason: 'unauthorized' });
+    });
+
+    it.each([1000, 1001])('passes a normal close (%i) through without reconnecting', (code) => {
+      const reconnect = vi.fn();
+      proxyGatewayWebSocket(asWs(client), asWs(gateway), { host: 'example.com', reconnect });
+
+      gateway.drop(code, 'bye');
+
+      expect(reconnect).not.toHaveBeenCalled();
+      expect(client.closed).toEqual({ code, reason: 'bye' });
+    });
+
+    it('closes the client when the gateway is not back in time', async () => {
+      vi.useFakeTimers();
+      const reconnect = vi.fn().mockRejectedValue(new Error('not ready'));
+      proxyGatewayWebSocket(asWs(client), asWs(gateway), { host: 'example.com', reconnect });
+
+      gateway.drop(1006);
+      await vi.advanceTimersByTimeAsync(WS_RECONNECT_WINDOW_MS);
+
+      expect(reconnect.mock.calls.length).toBeGreaterThan(1);
+      expect(client.closed?.code).toBe(1013);
+      const calls = reconnect.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(10_000);
+      expect(reconnect).toHaveBeenCalledTimes(calls);
+    });
+
+    it('closes the client when too much is held', () => {
+      proxyGatewayWebSocket(asWs(client), asWs(gateway), {
+        host: 'example.com',
+        reconnect: () => new Promise<WebSocket>(() => {}),
+      });
+
+      gateway.drop(1006);
+      client.receive('x'.repeat(WS_RECONNECT_BUFFER_BYTES + 1));
+
+      expect(client.closed?.code).toBe(1013);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { WS_RECONNECT_BUFFER_BYTES, WS_RECONNECT_RETRY_MS, WS_RECONNECT_WINDOW_MS } from '../config';
+import { createLogger, type Logger } from '../logger';
+
+/**
+ * Options for proxyGatewayWebSocket()
+ */
+export interface GatewayWebSocketProxyOptions {
+  host: string;  // the worker's host, used in transformed error messages
+  logger?: Logger;  // defaults to a 'ws' logger without request fields
+  /**
+   * Open (and accept) a new WebSocket to the gateway after it went away.
+   * When set, the client stays connected across gateway restarts; when unset,
+   * the client is closed along with the gateway's socket.
+   */
+  reconnect?: () => Promise<WebSocket>;
+}
+
+interface Frame {
+  type?: string;
+  id?: string;
+  method?: string;
+  event?: string;
+  ok?: boolean;
+  error?: { message?: string };
+}
+
+/**
+ * Transform error messages from the gateway to be more user-friendly.
+ */
+export function transformErrorMessage(message: string, host: string): string {
+  if (message.includes('gateway token missing') || message.includes('gateway token mismatch')) {
+    return `Invalid or missing token. Visit https://${host}?token={REPLACE_WITH_YOUR_TOKEN}`;
+  }
+
+  if (message.includes('pairing required')) {
+    return `Pairing required. Visit https://${host}/_admin/`;
+  }
+
+  return message;
+}
+
+function parseFrame(data: unknown): Frame | null {
+  if (typeof data !== 'string') return null;
+  try {
+    const frame = JSON.parse(data);
+    return frame && typeof frame === 'object' ? frame : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Transform a close reason and truncate it to 123 bytes max (WebSocket spec)
+ */
+function toCloseReason(reason: string, host: string): string {
+  const transformed = transformErrorMessage(reason, host);
+  return transformed.length > 123 ? transformed.slice(0, 120) + '...' : transformed;
+}
+
+/**
+ * Close codes that mean the gateway went away rather than ended this client's
+ * session: abnormal closure, internal error and service restart
+ */
+function isReconnectable(code: number): boolean {
+  return code === 1006 || code === 1011 || code === 1012;
+}
+
+function byteLength(data: string | ArrayBuffer): number {
+  return typeof data === 'string' ? new TextEncoder().encode(data).byteLength : data.byteLength;
+}
+
+/**
+ * What is safe to log about a frame: its shape, never its contents
+ */
+function describeFrame(data: string | ArrayBuffer, frame: Frame | null) {
+  return {
+    bytes: byteLength(data),
+    type: frame?.type ?? (typeof data === 'string' ? 'text' : 'binary'),
+    id: frame?.id,
+    method: frame?.method,
+    event: frame?.event,
+  };
+}
+
+/**
+ * Relay messages between a client WebSocket and the gateway's, rewriting
+ * gateway error messages into instructions for the user.
+ *
+ * With options.reconnect set, a gateway socket that closes (e.g. because of an
+ * admin restart) doesn't close the client. Client messages are held, up to
+ * WS_RECONNECT_BUFFER_BYTES, while the proxy reconnects. The client's original
+ * connect request is then replayed so the new gateway knows who it is talking
+ * to. Its challenge and connect response are kept from the client, which
+ * already finished its handshake, and the held messages are sent on. If the
+ * gateway rejects the replayed connect, or isn't back within
+ * WS_RECONNECT_WINDOW_MS, the client is closed and reconnects itself as usual.
+ *
+ * @param serverWs - Worker end of the client's WebSocket pair (accepted)
+ * @param containerWs - WebSocket to the gateway (accepted)
+ */
+export function proxyGatewayWebSocket(
+  serverWs: WebSocket,
+  containerWs: WebSocket,
+  options: GatewayWebSocketProxyOptions
+): void {
+  const { host, reconnect, logger = createLogger('ws') } = options;
+  let container: WebSocket | null = containerWs;  // null while the gateway is away
+  let handshake: { id: string; data: string } | null = null;  // client's connect request
+  let replayId: string | null = null;  // replayed connect request awaiting its response
+  let pending: Array<string | ArrayBuffer> | null = null;  // client messages held while the gateway is away
+  let pendingBytes = 0;
+  let deadline: ReturnType<typeof setTimeout> | undefined;
+  let clientClosed = false;
+
+  const closeClient = (code: number, reason: string) => {
+    clearTimeout(deadline);
+    pending = null;
+    const ws = container;
+    container = null;
+    ws?.close(1000, 'Client closed by proxy');
+    serverWs.close(code, toCloseReason(reason, host));
+  };
+
+  const flush = (ws: WebSocket) => {
+    clearTimeout(deadline);
+    const messages = pending ?? [];
+    pending = null;
+    pendingBytes = 0;
+    logger.info('Gateway is back, sending held client messages', { count: messages.length });
+    for (const data of messages) ws.send(data);
+  };
+
+  const onContainerMessage = (ws: WebSocket, event: MessageEvent) => {
+    if (ws !== container) return;
+    let data = event.data;
+    const frame = parseFrame(data);
+    logger.debug('Container -> Client', describeFrame(data, frame));
+
+    if (replayId) {
+      // The client already answered a challenge and got a connect response from the old gateway
+      if (frame?.type === 'event' && frame.event === 'connect.challenge') return;
+      if (frame?.type === 'res' && frame.id === replayId) {
+        replayId = null;
+        if (frame.ok) {
+          flush(ws);
+        } else {
+          logger.warn('Gateway rejected the replayed connect', { error: frame.error?.message });
+          closeClient(1008, frame.error?.message || 'Gateway rejected the reconnect');
+        }
+        return;
+      }
+    }
+
+    // Try to intercept and transform error messages
+    if (frame?.error?.message) {
+      const original = frame.error.message;
+      frame.error.message = transformErrorMessage(original, host);
+      logger.debug('Gateway error', { error: original, transformed: frame.error.message });
+      data = JSON.stringify(frame);
+    }
+
+    if (serverWs.readyState === WebSocket.OPEN) {
+      serverWs.send(data);
+    } else {
+      logger.debug('Client not open, dropping message', { readyState: serverWs.readyState });
+    }
+  };
+
+  const reopen = async () => {
+    while (pending && !clientClosed && reconnect) {
+      try {
+        const ws = await reconnect();
+        if (!pending || clientClosed) {
+          ws.close(1000, 'Client went away');
+          return;
+        }
+        container = ws;
+        attach(ws);
+        if (handshake) {
+          replayId = handshake.id;
+          ws.send(handshake.data);
+        } else {
+          flush(ws);
+        }
+        return;
+      } catch (err) {
+        logger.debug('Gateway not back yet', { error: err });
+        await new Promise(r => setTimeout(r, WS_RECONNECT_RETRY_MS));
+      }
+    }
+  };
+
+  const onContainerClose = (ws: WebSocket, code: number, reason: string) => {
+    if (ws !== container || clientClosed) return;
+    container = null;
+    replayId = null;
+
+    if (!reconnect || !isReconnectable(code)) {
+      serverWs.close(code, toCloseReason(reason, host));
+      return;
+    }
+
+    if (!pending) {
+      logger.info('Gateway socket closed, holding client until it is back', { code, reason });
+      pending = [];
+      pendingBytes = 0;
+      deadline = setTimeout(() => {
+        closeClient(1013, `Gateway did not come back within ${WS_RECONNECT_WINDOW_MS / 1000}s`);
+      }, WS_RECONNECT_WINDOW_MS);
+    }
+    void reopen();
+  };
+
+  function attach(ws: WebSocket) {
+    ws.addEventListener('message', (event) => onContainerMessage(ws, event));
+    ws.addEventListener('close', (event) => {
+      logger.info('Container closed', { code: event.code, reason: event.reason });
+      onContainerClose(ws, event.code, event.reason);
+    });
+    ws.addEventListener('error', (event) => {
+      logger.error('Container WebSocket error', { error: (event as ErrorEvent).message });
+      onContainerClose(ws, 1011, 'Container error');
+    });
+  }
+
+  // Relay messages from client to container
+  serverWs.addEventListener('message', (event) => {
+    const frame = parseFrame(event.data);
+    logger.debug('Client -> Container', describeFrame(event.data, frame));
+    if (reconnect && !handshake) {
+      if (frame?.type === 'req' && frame.method === 'connect' && frame.id) {
+        handshake = { id: frame.id, data: event.data as string };
+      }
+    }
+
+    if (pending) {
+      pendingBytes += byteLength(event.data);
+      if (pendingBytes > WS_RECONNECT_BUFFER_BYTES) {
+        closeClient(1013, 'Too many messages while the gateway restarted');
+        return;
+      }
+      pending.push(event.data);
+      return;
+    }
+
+    if (container?.readyState === WebSocket.OPEN) {
+      container.send(event.data);
+    } else {
+      logger.debug('Container not open, dropping message', { readyState: container?.readyState });
+    }
+  });
+
+  attach(containerWs);
+
+  // Handle close events
+  serverWs.addEventListener('close', (event) => {
+    logger.info('Client closed', { code: event.code, reason: event.reason });
+    clientClosed = true;
+    clearTimeout(deadline);
+    pending = null;
+    container?.close(event.code, event.reason);
+  });
+
+  serverWs.addEventListener('error', (event) => {
+    logger.error('Client WebSocket error', { error: (event as ErrorEvent).message });
+    clientClosed = true;
+    clearTimeout(deadline);
+    pending = null;
+    container?.close(1011, 'Client error');
+  });
+}
@@ -21,32 +21,35 @@
  */
 
 import { Hono } from 'hono';
-import { getSandbox, Sandbox, type SandboxOptions } from '@cloudflare/sandbox';
+import { Sandbox } from '@cloudflare/sandbox';
 
 import type { AppEnv, OpenClawEnv } from './types';
 import { MOLTBOT_PORT } from './config';
 import { createAccessMiddleware } from './auth';
-import { ensureOpenClawGateway, findExistingOpenClawProcess, syncToR2 } from './gateway';
+import {
+  getGatewayCoordinator,
+  getStartupErrorHint,
+  proxyGatewayWebSocket,
+  runScheduledSnapshot,
+  runWatchdog,
+  syncToR2,
+} from './gateway';
+import { GatewayCoordinator } from './gateway/coordinator-object';
+import {
+  SHARED_TENANT,
+  buildSandboxOptions,
+  buildTenant,
+  createTenantMiddleware,
+  getTenantSandbox,
+  isPerUserTenancy,
+  listTenants,
+} from './tenant';
+import { configureLogger, createLogger } from './logger';
 import { publicRoutes, api, adminUi, debug, cdp } from './routes';
 import loadingPageHtml from './assets/loading.html';
 import configErrorHtml from './assets/config-error.html';
 
-/**
- * Transform error messages from the gateway to be more user-friendly.
- */
-function transformErrorMessage(message: string, host: string): string {
-  if (message.includes('gateway token missing') || message.includes('gateway token mismatch')) {
-    return `Invalid or missing token. Visit https://${host}?token={REPLACE_WITH_YOUR_TOKEN}`;
-  }
-  
-  if (message.includes('pairing required')) {
-    return `Pairing required. Visit https://${host}/_admin/`;
-  }
-  
-  return message;
-}
-
-export { Sandbox };
+export { Sandbox, GatewayCoordinator };
 
 /**
  * Validate required environment variables.
@@ -81,29 +84,6 @@ function validateRequiredEnv(env: OpenClawEnv): string[] {
   return missing;
 }
 
-/**
- * Build sandbox options based on environment configuration.
- * 
- * SANDBOX_SLEEP_AFTER controls how long the container stays alive after inactivity:
- * - 'never' (default): Container stays alive indefinitely (recommended due to long cold starts)
- * - Duration string: e.g., '10m', '1h', '30s' - container sleeps after this period of inactivity
- * 
- * To reduce costs at the expense of cold start latency, set SANDBOX_SLEEP_AFTER to a duration:
- *   npx wrangler secret put SANDBOX_SLEEP_AFTER
- *   # Enter: 10m (or 1h, 30m, etc.)
- */
-function buildSandboxOptions(env: OpenClawEnv): SandboxOptions {
-  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
-  
-  // 'never' means keep the container alive indefinitely
-  if (sleepAfter === 'never') {
-    return { keepAlive: true };
-  }
-  
-  // Otherwise, use the specified duration
-  return { sleepAfter };
-}
-
 // Main app
 const app = new Hono<AppEnv>();
 
@@ -111,21 +91,24 @@ const app = new Hono<AppEnv>();
 // MIDDLEWARE: Applied to ALL routes
 // =============================================================================
 
-// Middleware: Log every request
+// Middleware: Give every request a logger tagged with its id, and log the request
 app.use('*', async (c, next) => {
+  configureLogger(c.env);
+  const requestId = c.req.header('cf-ray') ?? crypto.randomUUID();
+  const logger = createLogger('http', { requestId });
+  c.set('logger', logger);
+
   const url = new URL(c.req.url);
-  console.log(`[REQ] ${c.req.method} ${url.pathname}${url.search}`);
-  console.log(`[REQ] Has ANTHROPIC_API_KEY: ${!!c.env.ANTHROPIC_API_KEY}`);
-  console.log(`[REQ] DEV_MODE: ${c.env.DEV_MODE}`);
-  console.log(`[REQ] DEBUG_ROUTES: ${c.env.DEBUG_ROUTES}`);
+  logger.info('Request', { method: c.req.method, path: url.pathname + url.search });
   await next();
 });
 
 // Middleware: Initialize sandbox for all requests
+// In per-user tenancy mode this is replaced by the user's own sandbox once
+// Cloudflare Access has identified them (see the tenant middleware below).
 app.use('*', async (c, next) => {
-  const options = buildSandboxOptions(c.env);
-  const sandbox = getSandbox(c.env.Sandbox, 'openclaw', options);
-  c.set('sandbox', sandbox);
+  c.set('tenant', SHARED_TENANT);
+  c.set('sandbox', getTenantSandbox(c.env, SHARED_TENANT));
   await next();
 });
 
@@ -134,7 +117,7 @@ app.use('*', async (c, next) => {
 // =============================================================================
 
 // Mount public routes first (before auth middleware)
-// Includes: /sandbox-health, /logo.png, /logo-small.png, /api/status, /_admin/assets/*
+// Includes: /sandbox-health, /logo.png, /logo-small.png, /api/status(/live|/ready), /_admin/assets/*
 app.route('/', publicRoutes);
 
 // Mount CDP routes (uses shared secret auth via query param, not CF Access)
@@ -160,7 +143,7 @@ app.use('*', async (c, next) => {
   
   const missingVars = validateRequiredEnv(c.env);
   if (missingVars.length > 0) {
-    console.error('[CONFIG] Missing required environment variables:', missingVars.join(', '));
+    c.get('logger').error('Missing required environment variables', { component: 'config', missing: missingVars });
     
     const acceptsHtml = c.req.header('Accept')?.includes('text/html');
     if (acceptsHtml) {
@@ -193,6 +176,9 @@ app.use('*', async (c, next) => {
   return middleware(c, next);
 });
 
+// Middleware: Route authenticated users to their own sandbox (TENANCY_MODE=per-user)
+app.use('*', createTenantMiddleware());
+
 // Mount API routes (protected by Cloudflare Access)
 app.route('/api', api);
 
@@ -214,26 +200,29 @@ app.route('/debug', debug);
 
 app.all('*', async (c) => {
   const sandbox = c.get('sandbox');
+  const tenant = c.get('tenant');
   const request = c.req.raw;
   const url = new URL(request.url);
+  const logger = c.get('logger').child({ component: 'proxy', tenant: tenant.id });
 
-  console.log('[PROXY] Handling request:', url.pathname);
+  logger.debug('Handling request', { path: url.pathname });
 
-  // Check if gateway is already running
-  const existingProcess = await findExistingOpenClawProcess(sandbox);
-  const isGatewayReady = existingProcess !== null && existingProcess.status === 'running';
+  // Check if gateway is already running (answered from the coordinator's cache when fresh)
+  const coordinator = getGatewayCoordinator(c.env, tenant);
+  const status = await coordinator.getStatus(tenant);
+  const isGatewayReady = status.running;
   
   // For browser requests (non-WebSocket, non-API), show loading page if gateway isn't ready
   const isWebSocketRequest = request.headers.get('Upgrade')?.toLowerCase() === 'websocket';
   const acceptsHtml = request.headers.get('Accept')?.includes('text/html');
   
   if (!isGatewayReady && !isWebSocketRequest && acceptsHtml) {
-    console.log('[PROXY] Gateway not ready, serving loading page');
+    logger.info('Gateway not ready, serving loading page');
     
     // Start the gateway in the background (don't await)
     c.executionCtx.waitUntil(
-      ensureOpenClawGateway(sandbox, c.env).catch((err: Error) => {
-        console.error('[PROXY] Background gateway start failed:', err);
+      coordinator.ensureReady(tenant).catch((err: Error) => {
+        logger.error('Background gateway start failed', { error: err });
       })
     );
     
@@ -241,46 +230,41 @@ app.all('*', async (c) => {
     return c.html(loadingPageHtml);
   }
 
-  // Ensure openclaw is running (this will wait for startup)
+  // Ensure openclaw is running (this will wait for startup, shared with concurrent requests)
   try {
-    await ensureOpenClawGateway(sandbox, c.env);
+    await coordinator.ensureReady(tenant);
   } catch (error) {
-    console.error('[PROXY] Failed to start OpenClaw:', error);
+    logger.error('Failed to start OpenClaw', { error });
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
-    let hint = 'Check worker logs with: wrangler tail';
-    if (!c.env.ANTHROPIC_API_KEY) {
-      hint = 'ANTHROPIC_API_KEY is not set. Run: wrangler secret put ANTHROPIC_API_KEY';
-    } else if (errorMessage.includes('heap out of memory') || errorMessage.includes('OOM')) {
-      hint = 'Gateway ran out of memory. Try again or check for memory leaks.';
-    }
-
     return c.json({
       error: 'OpenClaw gateway failed to start',
       details: errorMessage,
-      hint,
+      hint: getStartupErrorHint(errorMessage, c.env),
     }, 503);
   }
 
   // Proxy to OpenClaw with WebSocket message interception
   if (isWebSocketRequest) {
-    console.log('[WS] Proxying WebSocket connection to OpenClaw');
-    console.log('[WS] URL:', request.url);
-    console.log('[WS] Search params:', url.search);
+    logger.info('Proxying WebSocket connection to OpenClaw', { url: request.url });
     
     // Get WebSocket connection to the container
-    const containerResponse = await sandbox.wsConnect(request, MOLTBOT_PORT);
-    console.log('[WS] wsConnect response status:', containerResponse.status);
+    let containerResponse: Response;
+    try {
+      containerResponse = await sandbox.wsConnect(request, MOLTBOT_PORT);
+    } catch (err) {
+      await coordinator.invalidate(tenant, 'WebSocket connect failed');
+      throw err;
+    }
+    logger.debug('wsConnect response', { status: containerResponse.status });
     
     // Get the container-side WebSocket
     const containerWs = containerResponse.webSocket;
     if (!containerWs) {
-      console.error('[WS] No WebSocket in container response - falling back to direct proxy');
+      logger.error('No WebSocket in container response - falling back to direct proxy');
       return containerResponse;
     }
     
-    console.log('[WS] Got container WebSocket, setting up interception');
-    
     // Create a WebSocket pair for the client
     const [clientWs, serverWs] = Object.values(new WebSocketPair());
     
@@ -288,86 +272,46 @@ app.all('*', async (c) => {
     serverWs.accept();
     containerWs.accept();
     
-    console.log('[WS] Both WebSockets accepted');
-    console.log('[WS] containerWs.readyState:', containerWs.readyState);
-    console.log('[WS] serverWs.readyState:', serverWs.readyState);
-    
-    // Relay messages from client to container
-    serverWs.addEventListener('message', (event) => {
-      console.log('[WS] Client -> Container:', typeof event.data, typeof event.data === 'string' ? event.data.slice(0, 200) : '(binary)');
-      if (containerWs.readyState === WebSocket.OPEN) {
-        containerWs.send(event.data);
-      } else {
-        console.log('[WS] Container not open, readyState:', containerWs.readyState);
-      }
-    });
-    
-    // Relay messages from container to client, with error transformation
-    containerWs.addEventListener('message', (event) => {
-      console.log('[WS] Container -> Client (raw):', typeof event.data, typeof event.data === 'string' ? event.data.slice(0, 500) : '(binary)');
-      let data = event.data;
-      
-      // Try to intercept and transform error messages
-      if (typeof data === 'string') {
-        try {
-          const parsed = JSON.parse(data);
-          console.log('[WS] Parsed JSON, has error.message:', !!parsed.error?.message);
-          if (parsed.error?.message) {
-            console.log('[WS] Original error.message:', parsed.error.message);
-            parsed.error.message = transformErrorMessage(parsed.error.message, url.host);
-            console.log('[WS] Transformed error.message:', parsed.error.message);
-            data = JSON.stringify(parsed);
+    // Relay messages both ways, optionally holding the client while the gateway restarts
+    proxyGatewayWebSocket(serverWs, containerWs, {
+      host: url.host,
+      logger: logger.child({ component: 'ws' }),
+      reconnect: c.env.WS_RESILIENT_PROXY === 'true'
+        ? async () => {
+            // Only a failed connect means the gateway is gone; a restart in progress is waited for as usual
+            await coordinator.ensureReady(tenant);
+            let response: Response;
+            try {
+              response = await sandbox.wsConnect(request, MOLTBOT_PORT);
+            } catch (err) {
+              await coordinator.invalidate(tenant, 'WebSocket reconnect failed');
+              throw err;
+            }
+            if (!response.webSocket) {
+              throw new Error(`WebSocket upgrade failed with HTTP ${response.status}`);
+            }
+            response.webSocket.accept();
+            return response.webSocket;
           }
-        } catch (e) {
-          console.log('[WS] Not JSON or parse error:', e);
-        }
-      }
-      
-      if (serverWs.readyState === WebSocket.OPEN) {
-        serverWs.send(data);
-      } else {
-        console.log('[WS] Server not open, readyState:', serverWs.readyState);
-      }
+        : undefined,
     });
     
-    // Handle close events
-    serverWs.addEventListener('close', (event) => {
-      console.log('[WS] Client closed:', event.code, event.reason);
-      containerWs.close(event.code, event.reason);
-    });
-    
-    containerWs.addEventListener('close', (event) => {
-      console.log('[WS] Container closed:', event.code, event.reason);
-      // Transform the close reason (truncate to 123 bytes max for WebSocket spec)
-      let reason = transformErrorMessage(event.reason, url.host);
-      if (reason.length > 123) {
-        reason = reason.slice(0, 120) + '...';
-      }
-      console.log('[WS] Transformed close reason:', reason);
-      serverWs.close(event.code, reason);
-    });
-    
-    // Handle errors
-    serverWs.addEventListener('error', (event) => {
-      console.error('[WS] Client error:', event);
-      containerWs.close(1011, 'Client error');
-    });
-    
-    containerWs.addEventListener('error', (event) => {
-      console.error('[WS] Container error:', event);
-      serverWs.close(1011, 'Container error');
-    });
-    
-    console.log('[WS] Returning intercepted WebSocket response');
     return new Response(null, {
       status: 101,
       webSocket: clientWs,
     });
   }
 
-  console.log('[HTTP] Proxying:', url.pathname + url.search);
-  const httpResponse = await sandbox.containerFetch(request, MOLTBOT_PORT);
-  console.log('[HTTP] Response status:', httpResponse.status);
+  logger.debug('Proxying HTTP request', { path: url.pathname + url.search });
+  let httpResponse: Response;
+  try {
+    httpResponse = await sandbox.containerFetch(request, MOLTBOT_PORT);
+  } catch (err) {
+    // The cached state said ready; make the next request check the container again
+    await coordinator.invalidate(tenant, 'proxied request failed');
+    throw err;
+  }
+  logger.debug('Gateway responded', { status: httpResponse.status });
   
   // Add debug header to verify worker handled the request
   const newHeaders = new Headers(httpResponse.headers);
@@ -383,28 +327,66 @@ app.all('*', async (c) => {
 
 /**
  * Scheduled handler for cron triggers.
- * Syncs openclaw config/state from container to R2 for persistence.
+ * Runs the gateway watchdog, then syncs openclaw config/state from container to R2 for persistence
+ * and takes a snapshot when SNAPSHOT_INTERVAL has passed.
+ * In per-user tenancy mode, every registered tenant's sandbox is handled in turn.
  */
 async function scheduled(
   _event: ScheduledEvent,
   env: OpenClawEnv,
   _ctx: ExecutionContext
 ): Promise<void> {
-  const options = buildSandboxOptions(env);
-  const sandbox = getSandbox(env.Sandbox, 'openclaw', options);
+  configureLogger(env);
+  const runLogger = createLogger('cron', { runId: crypto.randomUUID() });
+  const tenants = isPerUserTenancy(env)
+    ? await Promise.all((await listTenants(env.MOLTBOT_BUCKET)).map(r => buildTenant(env, r.id, r.email)))
+    : [SHARED_TENANT];
+  const keepAlive = 'keepAlive' in buildSandboxOptions(env);
+
+  for (const tenant of tenants) {
+    const logger = runLogger.child({ tenant: tenant.id });
+    const sandbox = getTenantSandbox(env, tenant);
+    const state = await sandbox.getState().catch(() => null);
+    const awake = state?.status === 'running' || state?.status === 'healthy';
+
+    // A stopped keep-alive container has crashed and should come back so chat
+    // channels keep working; a sleeping one is expected and left alone.
+    if (awake || keepAlive) {
+      try {
+        const result = await runWatchdog(sandbox, env, tenant);
+        if (result.action !== 'healthy') {
+          logger.info('Watchdog result', { action: result.action });
+        }
+        if (result.action === 'restarted' || result.action === 'restart-failed') {
+          await getGatewayCoordinator(env, tenant).invalidate(tenant, `watchdog ${result.action}`);
+        }
+      } catch (err) {
+        logger.error('Watchdog failed', { error: err });
+      }
+    }
 
-  console.log('[cron] Starting backup sync to R2...');
-  const result = await syncToR2(sandbox, env);
-  
-  if (result.success) {
-    console.log('[cron] Backup sync completed successfully at', result.lastSync);
-  } else {
-    // Log as structured JSON so Cloudflare log aggregation doesn't drop multi-line details.
-    console.error(JSON.stringify({
-      msg: '[cron] Backup sync failed',
-      error: result.error,
-      details: result.details,
-    }));
+    // Don't wake sleeping per-user containers just to back them up: nothing changed
+    if (tenant !== SHARED_TENANT && !awake) {
+      logger.info('Skipping sync, container is not awake', { containerStatus: state?.status ?? 'unknown' });
+      continue;
+    }
+
+    logger.info('Starting backup sync to R2');
+    const result = await syncToR2(sandbox, env, tenant);
+
+    if (result.success) {
+      logger.info('Backup sync completed', { lastSync: result.lastSync });
+
+      const snapshot = await runScheduledSnapshot(sandbox, env, tenant).catch((err) => ({
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      }));
+      if (snapshot && !snapshot.success) {
+        logger.error('Scheduled snapshot failed', { error: snapshot.error });
+      }
+    } else {
+      logger.error('Backup sync failed', { error: result.error, details: result.details });
+    }
   }
 }
 
@@ -0,0 +1,2 @@
+export { configureLogger, createLogger, getLogLevel, type Logger, type LogFields, type LogLevel } from './logger';
+export { REDACTED, isSecretField, redact, redactString } from './redact';
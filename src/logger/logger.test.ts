@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { configureLogger, createLogger, getLogLevel } from './logger';
+import { createMockEnv, getLogEntries, suppressConsole } from '../test-utils';
+
+describe('getLogLevel', () => {
+  it('uses LOG_LEVEL when valid', () => {
+    expect(getLogLevel(createMockEnv({ LOG_LEVEL: 'WARN' }))).toBe('warn');
+  });
+
+  it('defaults to debug with DEV_MODE or DEBUG_ROUTES, info otherwise', () => {
+    expect(getLogLevel(createMockEnv({ DEV_MODE: 'true' }))).toBe('debug');
+    expect(getLogLevel(createMockEnv({ DEBUG_ROUTES: 'true' }))).toBe('debug');
+    expect(getLogLevel(createMockEnv())).toBe('info');
+    expect(getLogLevel(createMockEnv({ LOG_LEVEL: 'verbose' }))).toBe('info');
+  });
+});
+
+describe('createLogger', () => {
+  beforeEach(() => {
+    suppressConsole();
+    configureLogger(createMockEnv());
+  });
+
+  afterEach(() => {
+    configureLogger({});
+    vi.restoreAllMocks();
+  });
+
+  it('writes one JSON line with level, component and fields', () => {
+    createLogger('proxy', { requestId: 'r1' }).info('Handling request', { path: '/' });
+
+    expect(console.log).toHaveBeenCalledTimes(1);
+    expect(getLogEntries()).toEqual([
+      { level: 'info', msg: 'Handling request', component: 'proxy', requestId: 'r1', path: '/' },
+    ]);
+  });
+
+  it('writes warnings and errors to the matching console method', () => {
+    const logger = createLogger('gateway');
+    logger.warn('careful');
+    logger.error('broken');
+
+    expect(vi.mocked(console.warn).mock.calls[0][0]).toContain('"level":"warn"');
+    expect(vi.mocked(console.error).mock.calls[0][0]).toContain('"level":"error"');
+  });
+
+  it('drops entries below the configured level', () => {
+    const logger = createLogger('gateway');
+    logger.debug('hidden');
+
+    configureLogger(createMockEnv({ LOG_LEVEL: 'debug' }));
+    logger.debug('shown');
+
+    expect(getLogEntries().map(entry => entry.msg)).toEqual(['shown']);
+  });
+
+  it('adds child fields to every entry', () => {
+    createLogger('http', { requestId: 'r1' }).child({ component: 'ws', tenant: 't1' }).info('Client closed');
+
+    expect(getLogEntries()).toEqual([{ level: 'info', msg: 'Client closed', component: 'ws', requestId: 'r1', tenant: 't1' }]);
+  });
+
+  it('redacts configured secrets from messages and fields', () => {
+    configureLogger(createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'gateway-token-value' }));
+
+    createLogger('proxy').info('token gateway-token-value seen', { url: '/?x=gateway-token-value' });
+
+    expect(getLogEntries()).toEqual([
+      { level: 'info', msg: 'token [REDACTED] seen', component: 'proxy', url: '/?x=[REDACTED]' },
+    ]);
+  });
+});
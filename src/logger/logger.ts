@@ -0,0 +1,82 @@
+import type { OpenClawEnv } from '../types';
+import { getSecretValues, redact, redactString } from './redact';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Writes one JSON line per entry, with the logger's fields (component,
+ * requestId, tenant, ...) merged in and secrets redacted
+ */
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** A logger that adds these fields to every entry */
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function isLogLevel(value: string | undefined): value is LogLevel {
+  return value !== undefined && value in LEVELS;
+}
+
+/**
+ * The minimum level to log: LOG_LEVEL if set, otherwise debug when
+ * DEBUG_ROUTES or DEV_MODE is on, info otherwise
+ */
+export function getLogLevel(env: Partial<OpenClawEnv>): LogLevel {
+  const level = env.LOG_LEVEL?.trim().toLowerCase();
+  if (isLogLevel(level)) return level;
+  return env.DEBUG_ROUTES === 'true' || env.DEV_MODE === 'true' ? 'debug' : 'info';
+}
+
+// Shared by every logger in this isolate; env is the same for every request it serves
+const config = { level: 'info' as LogLevel, secrets: [] as string[] };
+
+/**
+ * Apply the environment's log level and secrets to all loggers
+ *
+ * Call at each entry point (fetch, scheduled, Durable Object constructors)
+ * before logging.
+ */
+export function configureLogger(env: Partial<OpenClawEnv>): void {
+  config.level = getLogLevel(env);
+  config.secrets = getSecretValues(env);
+}
+
+function write(level: LogLevel, base: LogFields, msg: string, fields?: LogFields): void {
+  if (LEVELS[level] < LEVELS[config.level]) return;
+
+  const entry = redact({ ...base, ...fields }, config.secrets) as LogFields;
+  let line: string;
+  try {
+    line = JSON.stringify({ level, msg: redactString(msg, config.secrets), ...entry });
+  } catch {
+    line = JSON.stringify({ level, msg: redactString(msg, config.secrets), component: base.component, unserializable: true });
+  }
+
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+/**
+ * Create a logger for a part of the worker
+ *
+ * @param component - Tag added to every entry, e.g. 'proxy' or 'watchdog'
+ * @param fields - More fields added to every entry
+ */
+export function createLogger(component: string, fields: LogFields = {}): Logger {
+  const base = { component, ...fields };
+  return {
+    debug: (msg, extra) => write('debug', base, msg, extra),
+    info: (msg, extra) => write('info', base, msg, extra),
+    warn: (msg, extra) => write('warn', base, msg, extra),
+    error: (msg, extra) => write('error', base, msg, extra),
+    child: (extra) => createLogger(component, { ...fields, ...extra }),
+  };
+}
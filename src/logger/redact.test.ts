@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { getSecretValues, redact, redactString, REDACTED } from './redact';
+import { createMockEnv } from '../test-utils';
+
+describe('getSecretValues', () => {
+  it('collects configured secrets', () => {
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk-ant-abcdef123456', CDP_SECRET: 'cdp-secret-value', DEV_MODE: 'true' });
+
+    expect(getSecretValues(env)).toEqual(['sk-ant-abcdef123456', 'cdp-secret-value']);
+  });
+
+  it('skips values too short to redact safely', () => {
+    expect(getSecretValues(createMockEnv({ CDP_SECRET: 'abc' }))).toEqual([]);
+  });
+});
+
+describe('redactString', () => {
+  it('replaces known secret values', () => {
+    expect(redactString('token is my-gateway-token!', ['my-gateway-token'])).toBe(`token is ${REDACTED}!`);
+  });
+
+  it('redacts credentials in query strings', () => {
+    expect(redactString('wss://example.com/?token=abc123&session=1')).toBe(`wss://example.com/?token=${REDACTED}&session=1`);
+    expect(redactString('/cdp?secret=s3cret')).toBe(`/cdp?secret=${REDACTED}`);
+  });
+
+  it('redacts bearer tokens, API keys and JWTs', () => {
+    expect(redactString('Authorization: Bearer abc.def-ghi')).toBe(`Authorization: Bearer ${REDACTED}`);
+    expect(redactString('key sk-ant-api03-abcdefgh')).toBe(`key ${REDACTED}`);
+    expect(redactString('jwt eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl')).toBe(`jwt ${REDACTED}`);
+  });
+
+  it('caps long strings', () => {
+    const out = redactString('x'.repeat(2500));
+
+    expect(out).toHaveLength(2000 + '…(+500 chars)'.length);
+    expect(out.endsWith('…(+500 chars)')).toBe(true);
+  });
+});
+
+describe('redact', () => {
+  it('redacts string fields named like credentials', () => {
+    expect(redact({ gatewayToken: 'abc', apiKey: 'def', hasApiKey: true, tokenCount: 3 }))
+      .toEqual({ gatewayToken: REDACTED, apiKey: REDACTED, hasApiKey: true, tokenCount: 3 });
+  });
+
+  it('keeps ids and other fields only named after credentials', () => {
+    expect(redact({ tokenId: 'b6f1c2', token_id: 'b6f1c2', secretType: 'api', TELEGRAM_BOT_TOKEN: 'abc', cookieHeader: 'a=b' }))
+      .toEqual({ tokenId: 'b6f1c2', token_id: 'b6f1c2', secretType: 'api', TELEGRAM_BOT_TOKEN: REDACTED, cookieHeader: REDACTED });
+  });
+
+  it('replaces message bodies with their size', () => {
+    expect(redact({ method: 'chat.send', params: { text: 'hello' }, body: 'secret plans' }))
+      .toEqual({ method: 'chat.send', params: '[omitted]', body: '[12 chars]' });
+  });
+
+  it('turns errors into name and message', () => {
+    expect(redact({ error: new TypeError('bad url /?token=abc') }))
+      .toEqual({ error: { name: 'TypeError', message: `bad url /?token=${REDACTED}` } });
+  });
+
+  it('walks nested objects and arrays', () => {
+    expect(redact({ items: [{ url: '/?token=abc' }], nested: { password: 'p' } }, []))
+      .toEqual({ items: [{ url: `/?token=${REDACTED}` }], nested: { password: REDACTED } });
+  });
+});
@@ -0,0 +1,104 @@
+import type { OpenClawEnv } from '../types';
+
+/** Env vars whose values must never appear in logs */
+const SECRET_ENV_KEYS = [
+  'AI_GATEWAY_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'OPENAI_API_KEY',
+  'MOLTBOT_GATEWAY_TOKEN',
+  'CDP_SECRET',
+  'R2_ACCESS_KEY_ID',
+  'R2_SECRET_ACCESS_KEY',
+  'TELEGRAM_BOT_TOKEN',
+  'DISCORD_BOT_TOKEN',
+  'SLACK_BOT_TOKEN',
+  'SLACK_APP_TOKEN',
+] as const satisfies ReadonlyArray<keyof OpenClawEnv>;
+
+/** Field names whose string values are credentials */
+const SECRET_FIELD = /token|secret|password|passwd|api[-_]?key|authorization|cookie|credential|signature/i;
+
+/** Field names that mention a credential but hold something else, e.g. tokenId or SECRET_COUNT */
+const NOT_SECRET_FIELD = /(?:Ids?|Count|Type|[-_](?:ids?|IDS?|count|COUNT|type|TYPE))$/;
+
+/** Field names whose values are user content (chat messages, CDP payloads, request bodies) */
+const BODY_FIELDS = new Set(['body', 'content', 'text', 'payload', 'params', 'frame', 'args']);
+
+/** Query parameters that carry credentials, e.g. ?token= on gateway and CDP URLs */
+const SECRET_PARAM = /([?&](?:token|secret|key|api_key|access_token|password|auth)=)[^&\s#"']+/gi;
+const BEARER = /\b(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi;
+const API_KEY = /\bsk-[A-Za-z0-9_-]{8,}/g;
+const JWT = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+
+const MAX_STRING_LENGTH = 2000;
+const MAX_DEPTH = 5;
+const MAX_ARRAY_LENGTH = 50;
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Whether a field (or header) name holds a credential, e.g. Authorization or api_key but not tokenId
+ */
+export function isSecretField(name: string): boolean {
+  return SECRET_FIELD.test(name) && !NOT_SECRET_FIELD.test(name);
+}
+
+/**
+ * The values of configured secrets, for redacting them wherever they appear
+ */
+export function getSecretValues(env: Partial<OpenClawEnv>): string[] {
+  return SECRET_ENV_KEYS
+    .map(key => env[key])
+    .filter((value): value is string => typeof value === 'string' && value.length >= 8);
+}
+
+/**
+ * Remove credentials from a string and cap its length
+ */
+export function redactString(value: string, secrets: string[] = []): string {
+  let out = value;
+  for (const secret of secrets) {
+    out = out.split(secret).join(REDACTED);
+  }
+  out = out
+    .replace(SECRET_PARAM, `$1${REDACTED}`)
+    .replace(BEARER, `$1${REDACTED}`)
+    .replace(API_KEY, REDACTED)
+    .replace(JWT, REDACTED);
+  if (out.length > MAX_STRING_LENGTH) {
+    out = out.slice(0, MAX_STRING_LENGTH) + `…(+${out.length - MAX_STRING_LENGTH} chars)`;
+  }
+  return out;
+}
+
+/**
+ * Make a value safe to log
+ *
+ * Credentials are replaced wherever they appear; fields holding user content
+ * are replaced with their size; errors become { name, message }.
+ */
+export function redact(value: unknown, secrets: string[] = [], key?: string, depth: number = 0): unknown {
+  if (key && BODY_FIELDS.has(key) && value != null) {
+    return typeof value === 'string' ? `[${value.length} chars]` : '[omitted]';
+  }
+  if (typeof value === 'string') {
+    return key && isSecretField(key) ? REDACTED : redactString(value, secrets);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message, secrets) };
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[nested]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_LENGTH).map(item => redact(item, secrets, undefined, depth + 1));
+    if (value.length > MAX_ARRAY_LENGTH) items.push(`…(+${value.length - MAX_ARRAY_LENGTH} items)`);
+    return items;
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) {
+    out[k] = redact(v, secrets, k, depth + 1);
+  }
+  return out;
+}
@@ -1,20 +1,91 @@
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import puppeteer from '@cloudflare/puppeteer';
 import type { AppEnv } from '../types';
 import { createAccessMiddleware } from '../auth';
-import { ensureOpenClawGateway, findExistingOpenClawProcess, mountR2Storage, syncToR2, waitForProcess } from '../gateway';
-import { R2_MOUNT_PATH } from '../config';
+import {
+  createSnapshot,
+  diffManifests,
+  findExistingOpenClawProcess,
+  getGatewayCoordinator,
+  getSnapshotInterval,
+  getSnapshotManifest,
+  getSnapshotRetention,
+  getWatchdogState,
+  isValidSnapshotId,
+  listSnapshots,
+  mountR2Storage,
+  resetWatchdogState,
+  restoreSnapshot,
+  syncToR2,
+  waitForProcess,
+} from '../gateway';
+import { createTenantOverrideMiddleware, isPerUserTenancy, isTenantAdmin, listTenants, SHARED_TENANT } from '../tenant';
+import { R2_MOUNT_PATH, STARTUP_PROGRESS_POLL_MS, STARTUP_TIMEOUT_MS } from '../config';
+import {
+  deleteProfile,
+  deleteRecording,
+  getBlockedNavigations,
+  getBrowserPoolStats,
+  getCdpSessionStats,
+  getNavigationPolicy,
+  getRecordingFile,
+  listCdpTokens,
+  listProfiles,
+  listRecordings,
+  loadProfile,
+  mintCdpToken,
+  normalizeCdpTokenScope,
+  revokeCdpToken,
+  summarizeProfile,
+  type CdpTokenScope,
+} from '../cdp';
 
 // CLI commands can take 10-15 seconds to complete due to WebSocket connection overhead
 const CLI_TIMEOUT_MS = 20000;
 
 /**
  * API routes
+ * - /api/gateway/startup - Startup progress stream for the loading page (Cloudflare Access required)
  * - /api/admin/* - Protected admin API routes (Cloudflare Access required)
  * 
  * Note: /api/status is now handled by publicRoutes (no auth required)
  */
 const api = new Hono<AppEnv>();
 
+// GET /api/gateway/startup - Stream gateway startup progress as Server-Sent Events
+// Sends a `progress` event whenever the phase or log lines change, then `ready` or `failed`.
+api.get('/gateway/startup', async (c) => {
+  const tenant = c.get('tenant');
+  const coordinator = getGatewayCoordinator(c.env, tenant);
+
+  // Start the gateway if nothing has yet (joins the startup in flight otherwise)
+  c.executionCtx.waitUntil(
+    coordinator.ensureReady(tenant).catch((err: Error) => {
+      c.get('logger').error('Gateway start failed', { component: 'startup', error: err });
+    })
+  );
+
+  return streamSSE(c, async (stream) => {
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS * 2;
+    let last = '';
+
+    while (!stream.aborted && Date.now() < deadline) {
+      const progress = await coordinator.getProgress(tenant);
+      const data = JSON.stringify(progress);
+      if (data !== last) {
+        await stream.writeSSE({ event: 'progress', data });
+        last = data;
+      }
+      if (progress.phase === 'ready' || progress.phase === 'failed') {
+        await stream.writeSSE({ event: progress.phase, data });
+        return;
+      }
+      await stream.sleep(STARTUP_PROGRESS_POLL_MS);
+    }
+  });
+});
+
 /**
  * Admin API routes - all protected by Cloudflare Access
  */
@@ -23,13 +94,55 @@ const adminApi = new Hono<AppEnv>();
 // Middleware: Verify Cloudflare Access JWT for all admin routes
 adminApi.use('*', createAccessMiddleware({ type: 'json' }));
 
+// Middleware: Let tenant admins target another tenant via ?tenant=<id>
+adminApi.use('*', createTenantOverrideMiddleware());
+
+// GET /api/admin/tenant - Describe the tenant these admin routes act on
+adminApi.get('/tenant', (c) => {
+  const tenant = c.get('tenant');
+  return c.json({
+    mode: isPerUserTenancy(c.env) ? 'per-user' : 'shared',
+    isAdmin: isTenantAdmin(c.env, c.get('accessUser')),
+    tenant: {
+      id: tenant.id,
+      email: tenant.email,
+      sandboxId: tenant.sandboxId,
+      r2Prefix: tenant.r2Prefix,
+      // Only per-user tenants have a derived token; the shared token stays a secret
+      gatewayToken: tenant.gatewayToken,
+    },
+  });
+});
+
+// GET /api/admin/tenants - List all tenants (tenant admins only)
+adminApi.get('/tenants', async (c) => {
+  if (!isPerUserTenancy(c.env)) {
+    return c.json({ mode: 'shared', tenants: [{ id: SHARED_TENANT.id, sandboxId: SHARED_TENANT.sandboxId }] });
+  }
+
+  if (!isTenantAdmin(c.env, c.get('accessUser'))) {
+    return c.json({
+      error: 'Forbidden',
+      hint: 'Only users listed in TENANT_ADMIN_EMAILS can list tenants',
+    }, 403);
+  }
+
+  try {
+    const tenants = await listTenants(c.env.MOLTBOT_BUCKET);
+    return c.json({ mode: 'per-user', tenants });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
 // GET /api/admin/devices - List pending and paired devices
 adminApi.get('/devices', async (c) => {
   const sandbox = c.get('sandbox');
 
   try {
     // Ensure openclaw is running first
-    await ensureOpenClawGateway(sandbox, c.env);
+    await getGatewayCoordinator(c.env, c.get('tenant')).ensureReady(c.get('tenant'));
 
     // Run openclaw CLI to list devices (CLI is still named openclaw until upstream renames)
     // Must specify --url to connect to the gateway running in the same container
@@ -110,7 +223,7 @@ adminApi.post('/devices/:requestId/approve', async (c) => {
 
   try {
     // Ensure openclaw is running first
-    await ensureOpenClawGateway(sandbox, c.env);
+    await getGatewayCoordinator(c.env, c.get('tenant')).ensureReady(c.get('tenant'));
 
     // Run openclaw CLI to approve the device (CLI is still named openclaw)
     const proc = await sandbox.startProcess(`openclaw devices approve ${requestId} --url ws://localhost:18789`);
@@ -157,7 +270,7 @@ adminApi.post('/devices/approve-all', async (c) => {
 
   try {
     // Ensure openclaw is running first
-    await ensureOpenClawGateway(sandbox, c.env);
+    await getGatewayCoordinator(c.env, c.get('tenant')).ensureReady(c.get('tenant'));
 
     // First, get the list of pending devices (CLI is still named openclaw)
     const listProc = await sandbox.startProcess('openclaw devices list --json --url ws://localhost:18789');
@@ -250,7 +363,7 @@ adminApi.get('/storage', async (c) => {
   if (hasCredentials) {
     try {
       // Mount R2 if not already mounted
-      await mountR2Storage(sandbox, c.env);
+      await mountR2Storage(sandbox, c.env, c.get('tenant'));
       
       // Check for sync marker file
       const proc = await sandbox.startProcess(`cat ${R2_MOUNT_PATH}/.last-sync 2>/dev/null || echo ""`);
@@ -279,7 +392,7 @@ adminApi.get('/storage', async (c) => {
 adminApi.post('/storage/sync', async (c) => {
   const sandbox = c.get('sandbox');
   
-  const result = await syncToR2(sandbox, c.env);
+  const result = await syncToR2(sandbox, c.env, c.get('tenant'));
   
   if (result.success) {
     return c.json({
@@ -297,6 +410,96 @@ adminApi.post('/storage/sync', async (c) => {
   }
 });
 
+// GET /api/admin/snapshots - List point-in-time snapshots, newest first
+adminApi.get('/snapshots', async (c) => {
+  try {
+    const snapshots = await listSnapshots(c.env.MOLTBOT_BUCKET, c.get('tenant'));
+    return c.json({
+      snapshots,
+      intervalMs: getSnapshotInterval(c.env),
+      retention: getSnapshotRetention(c.env),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/snapshots - Take a snapshot now
+adminApi.post('/snapshots', async (c) => {
+  const result = await createSnapshot(c.get('sandbox'), c.env, c.get('tenant'), 'manual');
+
+  if (result.success) {
+    return c.json(result);
+  }
+  const status = result.error?.includes('not configured') ? 400 : 500;
+  return c.json(result, status);
+});
+
+// GET /api/admin/snapshots/diff?from=<id>&to=<id> - Compare two snapshots
+adminApi.get('/snapshots/diff', async (c) => {
+  const from = c.req.query('from');
+  const to = c.req.query('to');
+  if (!from || !to) {
+    return c.json({ error: 'from and to query parameters are required' }, 400);
+  }
+  if (!isValidSnapshotId(from) || !isValidSnapshotId(to)) {
+    return c.json({ error: 'Invalid snapshot id' }, 400);
+  }
+
+  const [before, after] = await Promise.all([
+    getSnapshotManifest(c.env.MOLTBOT_BUCKET, c.get('tenant'), from),
+    getSnapshotManifest(c.env.MOLTBOT_BUCKET, c.get('tenant'), to),
+  ]);
+  if (!before || !after) {
+    return c.json({ error: `Snapshot not found: ${!before ? from : to}` }, 404);
+  }
+
+  return c.json(diffManifests(before, after));
+});
+
+// GET /api/admin/snapshots/:id - Get a snapshot's manifest
+adminApi.get('/snapshots/:id', async (c) => {
+  const id = c.req.param('id');
+  if (!isValidSnapshotId(id)) {
+    return c.json({ error: 'Invalid snapshot id' }, 400);
+  }
+
+  const manifest = await getSnapshotManifest(c.env.MOLTBOT_BUCKET, c.get('tenant'), id);
+  if (!manifest) {
+    return c.json({ error: `Snapshot not found: ${id}` }, 404);
+  }
+  return c.json(manifest);
+});
+
+// POST /api/admin/snapshots/:id/restore - Restore a snapshot and restart the gateway
+adminApi.post('/snapshots/:id/restore', async (c) => {
+  const id = c.req.param('id');
+  if (!isValidSnapshotId(id)) {
+    return c.json({ error: 'Invalid snapshot id' }, 400);
+  }
+
+  const sandbox = c.get('sandbox');
+  const result = await restoreSnapshot(sandbox, c.env, c.get('tenant'), id);
+  if (!result.success) {
+    const status = result.error?.startsWith('Snapshot not found') ? 404 : 500;
+    return c.json(result, status);
+  }
+
+  // The restore stopped the gateway, so the coordinator's cached state is stale
+  const coordinator = getGatewayCoordinator(c.env, c.get('tenant'));
+  await coordinator.invalidate(c.get('tenant'), 'snapshot restored');
+  const bootPromise = coordinator.ensureReady(c.get('tenant')).catch((err) => {
+    c.get('logger').error('Gateway restart after restore failed', { component: 'api', error: err });
+  });
+  c.executionCtx.waitUntil(bootPromise);
+
+  return c.json({
+    ...result,
+    message: 'Snapshot restored, gateway restarting...',
+  });
+});
+
 // POST /api/admin/gateway/restart - Kill the current gateway and start a new one
 adminApi.post('/gateway/restart', async (c) => {
   const sandbox = c.get('sandbox');
@@ -306,19 +509,21 @@ adminApi.post('/gateway/restart', async (c) => {
     const existingProcess = await findExistingOpenClawProcess(sandbox);
     
     if (existingProcess) {
-      console.log('Killing existing gateway process:', existingProcess.id);
+      c.get('logger').info('Killing existing gateway process', { component: 'api', processId: existingProcess.id });
       try {
         await existingProcess.kill();
       } catch (killErr) {
-        console.error('Error killing process:', killErr);
+        c.get('logger').error('Error killing process', { component: 'api', error: killErr });
       }
       // Wait a moment for the process to die
       await new Promise(r => setTimeout(r, 2000));
     }
 
     // Start a new gateway in the background
-    const bootPromise = ensureOpenClawGateway(sandbox, c.env).catch((err) => {
-      console.error('Gateway restart failed:', err);
+    const coordinator = getGatewayCoordinator(c.env, c.get('tenant'));
+    await coordinator.invalidate(c.get('tenant'), 'gateway restart requested');
+    const bootPromise = coordinator.ensureReady(c.get('tenant')).catch((err) => {
+      c.get('logger').error('Gateway restart failed', { component: 'api', error: err });
     });
     c.executionCtx.waitUntil(bootPromise);
 
@@ -335,6 +540,233 @@ adminApi.post('/gateway/restart', async (c) => {
   }
 });
 
+// GET /api/admin/gateway/watchdog - Get watchdog status and restart history
+adminApi.get('/gateway/watchdog', async (c) => {
+  try {
+    const state = await getWatchdogState(c.env.MOLTBOT_BUCKET, c.get('tenant').id);
+    return c.json(state);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/gateway/watchdog/reset - Clear backoff and resume automatic restarts after a crash loop
+adminApi.post('/gateway/watchdog/reset', async (c) => {
+  try {
+    const state = await resetWatchdogState(c.env.MOLTBOT_BUCKET, c.get('tenant').id);
+    return c.json({ success: true, state });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// CDP tokens grant browser access for the whole deployment, so in per-user mode only tenant admins manage them
+adminApi.use('/cdp/*', async (c, next) => {
+  if (isPerUserTenancy(c.env) && !isTenantAdmin(c.env, c.get('accessUser'))) {
+    return c.json({
+      error: 'Forbidden',
+      hint: 'Only users listed in TENANT_ADMIN_EMAILS can manage CDP tokens',
+    }, 403);
+  }
+  if (!c.env.CDP_SECRET) {
+    return c.json({
+      error: 'CDP endpoint not configured',
+      hint: 'Set CDP_SECRET via: wrangler secret put CDP_SECRET',
+    }, 503);
+  }
+  return next();
+});
+
+// GET /api/admin/cdp/tokens - List CDP access tokens with usage counters
+adminApi.get('/cdp/tokens', async (c) => {
+  try {
+    const tokens = await listCdpTokens(c.env.MOLTBOT_BUCKET);
+    return c.json({ tokens });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/cdp/tokens - Mint a scoped, expiring CDP access token (returned once)
+adminApi.post('/cdp/tokens', async (c) => {
+  let body: { label?: unknown; ttlSeconds?: unknown; scope?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    body = {};
+  }
+
+  let scope: CdpTokenScope;
+  try {
+    scope = normalizeCdpTokenScope(body.scope);
+    if (body.ttlSeconds !== undefined && (typeof body.ttlSeconds !== 'number' || !(body.ttlSeconds > 0))) {
+      throw new Error('ttlSeconds must be a positive number');
+    }
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Invalid request' }, 400);
+  }
+
+  try {
+    const { token, record } = await mintCdpToken(c.env, {
+      label: typeof body.label === 'string' ? body.label : undefined,
+      ttlSeconds: body.ttlSeconds as number | undefined,
+      scope,
+      createdBy: c.get('accessUser')?.email,
+    });
+    return c.json({ token, record });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/cdp/tokens/:id/revoke - Revoke a CDP access token
+adminApi.post('/cdp/tokens/:id/revoke', async (c) => {
+  try {
+    const record = await revokeCdpToken(c.env.MOLTBOT_BUCKET, c.req.param('id'));
+    if (!record) {
+      return c.json({ error: 'Token not found' }, 404);
+    }
+    return c.json({ success: true, record });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/cdp/blocked - Navigation policy and recently blocked browser navigations
+adminApi.get('/cdp/blocked', async (c) => {
+  try {
+    const blocked = await getBlockedNavigations(c.env.MOLTBOT_BUCKET);
+    return c.json({ policy: getNavigationPolicy(c.env), blocked });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/cdp/pool - Browser session pool size and hit rate
+adminApi.get('/cdp/pool', async (c) => {
+  if (!c.env.BROWSER) {
+    return c.json({
+      error: 'Browser Rendering not configured',
+      hint: 'Add browser binding to wrangler.jsonc',
+    }, 503);
+  }
+
+  try {
+    return c.json(await getBrowserPoolStats(puppeteer, c.env));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/cdp/limits - Session limits, close reasons and rejected requests
+adminApi.get('/cdp/limits', async (c) => {
+  try {
+    return c.json(await getCdpSessionStats(puppeteer, c.env));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/cdp/recordings - List recorded CDP sessions, newest first
+adminApi.get('/cdp/recordings', async (c) => {
+  try {
+    const recordings = await listRecordings(c.env.MOLTBOT_BUCKET);
+    return c.json({ recordings });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/cdp/recordings/:id - Download a recording's HAR (console output and screenshot list included)
+adminApi.get('/cdp/recordings/:id', async (c) => {
+  const id = c.req.param('id');
+  const object = await getRecordingFile(c.env.MOLTBOT_BUCKET, id, 'recording.har');
+  if (!object) {
+    return c.json({ error: `Recording not found: ${id}` }, 404);
+  }
+
+  return new Response(object.body, {
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Disposition': `attachment; filename="${id}.har"`,
+    },
+  });
+});
+
+// GET /api/admin/cdp/recordings/:id/screenshots/:file - Download a screenshot referenced by the HAR
+adminApi.get('/cdp/recordings/:id/screenshots/:file', async (c) => {
+  const id = c.req.param('id');
+  const object = await getRecordingFile(c.env.MOLTBOT_BUCKET, id, `screenshots/${c.req.param('file')}`);
+  if (!object) {
+    return c.json({ error: 'Screenshot not found' }, 404);
+  }
+
+  return new Response(object.body, { headers: { 'Content-Type': 'image/jpeg' } });
+});
+
+// DELETE /api/admin/cdp/recordings/:id - Delete a recording and its screenshots
+adminApi.delete('/cdp/recordings/:id', async (c) => {
+  const id = c.req.param('id');
+  try {
+    if (!(await deleteRecording(c.env.MOLTBOT_BUCKET, id))) {
+      return c.json({ error: `Recording not found: ${id}` }, 404);
+    }
+    return c.json({ success: true, id });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/cdp/profiles - List browser profiles (cookie and storage names, no values)
+adminApi.get('/cdp/profiles', async (c) => {
+  try {
+    const profiles = await listProfiles(c.env.MOLTBOT_BUCKET);
+    return c.json({ profiles });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/cdp/profiles/:name - Show one browser profile (cookie and storage names, no values)
+adminApi.get('/cdp/profiles/:name', async (c) => {
+  const name = c.req.param('name');
+  try {
+    const profile = await loadProfile(c.env.MOLTBOT_BUCKET, name);
+    if (!profile) {
+      return c.json({ error: `Profile not found: ${name}` }, 404);
+    }
+    return c.json(summarizeProfile(profile));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// DELETE /api/admin/cdp/profiles/:name - Delete a browser profile
+adminApi.delete('/cdp/profiles/:name', async (c) => {
+  const name = c.req.param('name');
+  try {
+    if (!(await deleteProfile(c.env.MOLTBOT_BUCKET, name))) {
+      return c.json({ error: `Profile not found: ${name}` }, 404);
+    }
+    return c.json({ success: true, name });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
 // Mount admin API routes under /admin
 api.route('/admin', adminApi);
 
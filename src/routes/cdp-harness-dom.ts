@@ -0,0 +1,372 @@
+/**
+ * A small DOM for the fake browser in cdp-harness.ts
+ *
+ * Enough of Node, Element and Document for the shim's in-page functions: a
+ * forgiving HTML parser, tree walking, attributes, serialization and simple
+ * CSS selectors (tag, #id, .class, [attr] and [attr=value], joined by
+ * descendant or child combinators). There is no layout: every element is a
+ * 100x20 box stacked in document order, so each has its own position.
+ */
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+const HIDDEN_TEXT_ELEMENTS = new Set(['script', 'style', 'head', 'template', 'noscript']);
+
+export const BOX_WIDTH = 100;
+export const BOX_HEIGHT = 20;
+
+const VIEWPORT = { width: 1280, height: 720 };
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export class FakeNode {
+  static readonly ELEMENT_NODE = 1;
+  static readonly TEXT_NODE = 3;
+  static readonly COMMENT_NODE = 8;
+  static readonly DOCUMENT_NODE = 9;
+  static readonly DOCUMENT_TYPE_NODE = 10;
+
+  parentNode: FakeNode | null = null;
+  childNodes: FakeNode[] = [];
+  nodeValue: string | null = null;
+
+  constructor(readonly nodeType: number, readonly nodeName: string) {}
+
+  get ownerDocument(): FakeDocument | null {
+    let node: FakeNode | null = this.parentNode;
+    while (node && !(node instanceof FakeDocument)) node = node.parentNode;
+    return node;
+  }
+
+  get textContent(): string {
+    if (this.nodeType === FakeNode.TEXT_NODE || this.nodeType === FakeNode.COMMENT_NODE) return this.nodeValue ?? '';
+    return this.childNodes.map(child => (child.nodeType === FakeNode.COMMENT_NODE ? '' : child.textContent)).join('');
+  }
+
+  set textContent(value: string) {
+    for (const child of this.childNodes) child.parentNode = null;
+    this.childNodes = [];
+    if (value) this.appendChild(new FakeText(value));
+  }
+
+  appendChild(child: FakeNode): FakeNode {
+    child.parentNode?.removeChild(child);
+    child.parentNode = this;
+    this.childNodes.push(child);
+    return child;
+  }
+
+  removeChild(child: FakeNode): FakeNode {
+    const index = this.childNodes.indexOf(child);
+    if (index < 0) throw new Error('The node to be removed is not a child of this node.');
+    this.childNodes.splice(index, 1);
+    child.parentNode = null;
+    return child;
+  }
+
+  get children(): FakeElement[] {
+    return this.childNodes.filter((child): child is FakeElement => child instanceof FakeElement);
+  }
+
+  /** Elements below this node, in document order */
+  descendants(): FakeElement[] {
+    return this.children.flatMap(child => [child, ...child.descendants()]);
+  }
+
+  querySelectorAll(selector: string): FakeElement[] {
+    const matches = parseSelector(selector);
+    return this.descendants().filter(matches);
+  }
+
+  querySelector(selector: string): FakeElement | null {
+    return this.querySelectorAll(selector)[0] ?? null;
+  }
+}
+
+export class FakeText extends FakeNode {
+  constructor(value: string) {
+    super(FakeNode.TEXT_NODE, '#text');
+    this.nodeValue = value;
+  }
+}
+
+export class FakeComment extends FakeNode {
+  constructor(value: string) {
+    super(FakeNode.COMMENT_NODE, '#comment');
+    this.nodeValue = value;
+  }
+}
+
+export class FakeDocumentType extends FakeNode {
+  publicId = '';
+  systemId = '';
+
+  constructor(name: string) {
+    super(FakeNode.DOCUMENT_TYPE_NODE, name);
+  }
+}
+
+export class FakeElement extends FakeNode {
+  readonly localName: string;
+  attributes: Array<{ name: string; value: string }> = [];
+  style: Record<string, string> = {};
+  scrollWidth = VIEWPORT.width;
+  scrollHeight = VIEWPORT.height;
+  clientWidth = VIEWPORT.width;
+  clientHeight = VIEWPORT.height;
+  /** Set by ElementHandle.uploadFile */
+  files: string[] = [];
+
+  constructor(localName: string) {
+    super(FakeNode.ELEMENT_NODE, localName.toUpperCase());
+    this.localName = localName.toLowerCase();
+  }
+
+  get tagName(): string {
+    return this.nodeName;
+  }
+
+  get id(): string {
+    return this.getAttribute('id') ?? '';
+  }
+
+  get classList(): string[] {
+    return (this.getAttribute('class') ?? '').split(/\s+/).filter(Boolean);
+  }
+
+  get href(): string {
+    return this.resolveUrl('href');
+  }
+
+  get src(): string {
+    return this.resolveUrl('src');
+  }
+
+  get alt(): string {
+    return this.getAttribute('alt') ?? '';
+  }
+
+  private resolveUrl(name: string): string {
+    const value = this.getAttribute(name);
+    if (value === null) return '';
+    try {
+      return new URL(value, this.ownerDocument?.URL).href;
+    } catch {
+      return value;
+    }
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.find(attr => attr.name === name.toLowerCase())?.value ?? null;
+  }
+
+  setAttribute(name: string, value: string): void {
+    const attr = this.attributes.find(a => a.name === name.toLowerCase());
+    if (attr) attr.value = String(value);
+    else this.attributes.push({ name: name.toLowerCase(), value: String(value) });
+  }
+
+  get innerText(): string {
+    const collect = (node: FakeNode): string => {
+      if (node instanceof FakeText) return node.nodeValue ?? '';
+      if (node instanceof FakeElement && HIDDEN_TEXT_ELEMENTS.has(node.localName)) return '';
+      return node.childNodes.map(collect).join(' ');
+    };
+    return collect(this).replace(/\s+/g, ' ').trim();
+  }
+
+  get outerHTML(): string {
+    return serialize(this);
+  }
+
+  getBoundingClientRect() {
+    const index = this.ownerDocument?.descendants().indexOf(this) ?? 0;
+    const top = index * BOX_HEIGHT;
+    return { x: 0, y: top, left: 0, top, width: BOX_WIDTH, height: BOX_HEIGHT, right: BOX_WIDTH, bottom: top + BOX_HEIGHT };
+  }
+
+  scrollIntoView(): void {}
+}
+
+export class FakeDocument extends FakeNode {
+  activeElement: FakeElement | null = null;
+
+  /**
+   * @param info - Live URL and title of the document (the fake frame's state)
+   */
+  constructor(private readonly info: { url: string; title: string }, html: string) {
+    super(FakeNode.DOCUMENT_NODE, '#document');
+    parseInto(this, html);
+  }
+
+  get URL(): string {
+    return this.info.url;
+  }
+
+  get baseURI(): string {
+    return this.info.url;
+  }
+
+  get title(): string {
+    return this.info.title;
+  }
+
+  get documentElement(): FakeElement {
+    return this.children[0];
+  }
+
+  get body(): FakeElement | null {
+    return this.documentElement.children.find(child => child.localName === 'body') ?? null;
+  }
+}
+
+function serialize(node: FakeNode): string {
+  if (node instanceof FakeText) return node.nodeValue ?? '';
+  if (node instanceof FakeComment) return `<!--${node.nodeValue}-->`;
+  if (node instanceof FakeDocumentType) return `<!DOCTYPE ${node.nodeName}>`;
+  if (!(node instanceof FakeElement)) return node.childNodes.map(serialize).join('');
+
+  const attributes = node.attributes.map(attr => ` ${attr.name}="${attr.value.replace(/"/g, '&quot;')}"`).join('');
+  if (VOID_ELEMENTS.has(node.localName)) return `<${node.localName}${attributes}>`;
+  return `<${node.localName}${attributes}>${node.childNodes.map(serialize).join('')}</${node.localName}>`;
+}
+
+const TOKEN = /<!--([\s\S]*?)-->|<!doctype\s+([^>]*)>|<\/([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>|([^<]+|<)/gi;
+const ATTRIBUTE = /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * Parse HTML into a document, adding html, head and body elements where missing like a browser
+ */
+function parseInto(doc: FakeDocument, html: string): void {
+  const root = new FakeNode(FakeNode.DOCUMENT_NODE, '#fragment');
+  let current: FakeNode = root;
+
+  TOKEN.lastIndex = 0;
+  for (let match = TOKEN.exec(html); match; match = TOKEN.exec(html)) {
+    const [, comment, doctype, closing, opening, attributes, text] = match;
+    if (comment !== undefined) {
+      current.appendChild(new FakeComment(comment));
+    } else if (doctype !== undefined) {
+      current.appendChild(new FakeDocumentType(doctype.trim()));
+    } else if (closing !== undefined) {
+      const name = closing.toLowerCase();
+      for (let node: FakeNode | null = current; node && node !== root; node = node.parentNode) {
+        if (node instanceof FakeElement && node.localName === name) {
+          current = node.parentNode!;
+          break;
+        }
+      }
+    } else if (opening !== undefined) {
+      const element = new FakeElement(opening);
+      ATTRIBUTE.lastIndex = 0;
+      for (let attr = ATTRIBUTE.exec(attributes); attr; attr = ATTRIBUTE.exec(attributes)) {
+        element.setAttribute(attr[1], decodeEntities(attr[2] ?? attr[3] ?? attr[4] ?? ''));
+      }
+      current.appendChild(element);
+
+      if (RAW_TEXT_ELEMENTS.has(element.localName)) {
+        const end = html.toLowerCase().indexOf(`</${element.localName}`, TOKEN.lastIndex);
+        const stop = end < 0 ? html.length : end;
+        const content = html.slice(TOKEN.lastIndex, stop);
+        if (content) element.appendChild(new FakeText(element.localName === 'textarea' ? decodeEntities(content) : content));
+        TOKEN.lastIndex = end < 0 ? html.length : html.indexOf('>', end) + 1;
+      } else if (!VOID_ELEMENTS.has(element.localName) && !match[0].endsWith('/>')) {
+        current = element;
+      }
+    } else if (text !== undefined) {
+      current.appendChild(new FakeText(decodeEntities(text)));
+    }
+  }
+
+  for (const node of [...root.childNodes]) {
+    if (node instanceof FakeDocumentType) doc.appendChild(node);
+  }
+
+  let htmlElement = root.children.find(child => child.localName === 'html');
+  if (!htmlElement) {
+    htmlElement = new FakeElement('html');
+    for (const node of [...root.childNodes]) {
+      if (!(node instanceof FakeDocumentType)) htmlElement.appendChild(node);
+    }
+  }
+  doc.appendChild(htmlElement);
+
+  if (!htmlElement.children.some(child => child.localName === 'head')) {
+    const head = new FakeElement('head');
+    htmlElement.childNodes.unshift(head);
+    head.parentNode = htmlElement;
+  }
+  if (!htmlElement.children.some(child => child.localName === 'body')) {
+    const body = new FakeElement('body');
+    for (const node of [...htmlElement.childNodes]) {
+      if (!(node instanceof FakeElement && node.localName === 'head')) body.appendChild(node);
+    }
+    htmlElement.appendChild(body);
+  }
+}
+
+type Matcher = (el: FakeElement) => boolean;
+
+const COMPOUND_PART = /([a-zA-Z][\w-]*|\*)|#([\w-]+)|\.([\w-]+)|\[\s*([\w-]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+)))?\s*\]/g;
+
+function parseCompound(text: string): (el: FakeElement) => boolean {
+  const tests: Array<(el: FakeElement) => boolean> = [];
+  let consumed = 0;
+  COMPOUND_PART.lastIndex = 0;
+  for (let part = COMPOUND_PART.exec(text); part; part = COMPOUND_PART.exec(text)) {
+    if (part.index !== consumed) break;
+    consumed = COMPOUND_PART.lastIndex;
+    const [, tag, id, className, attr, v1, v2, v3] = part;
+    if (tag && tag !== '*') tests.push(el => el.localName === tag.toLowerCase());
+    if (id) tests.push(el => el.id === id);
+    if (className) tests.push(el => el.classList.includes(className));
+    if (attr) {
+      const value = v1 ?? v2 ?? v3;
+      tests.push(el => (value === undefined ? el.getAttribute(attr) !== null : el.getAttribute(attr) === value));
+    }
+  }
+  if (consumed !== text.length || consumed === 0) throw new Error(`'${text}' is not a valid selector`);
+  return el => tests.every(test => test(el));
+}
+
+/**
+ * Compile a selector list into a matcher; like a browser's, ancestors may be outside the queried node
+ */
+function parseSelector(selector: string): Matcher {
+  const alternatives = selector.split(',').map((complex) => {
+    // Compound selectors from right to left, each with the combinator that joins it to the next one to the left
+    const tokens = complex.trim().replace(/\s*>\s*/g, ' > ').split(/\s+/).filter(Boolean);
+    const steps: Array<{ test: (el: FakeElement) => boolean; combinator: ' ' | '>' }> = [];
+    let combinator: ' ' | '>' = ' ';
+    for (const token of tokens) {
+      if (token === '>') {
+        combinator = '>';
+        continue;
+      }
+      steps.push({ test: parseCompound(token), combinator });
+      combinator = ' ';
+    }
+    if (steps.length === 0) throw new Error(`'${selector}' is not a valid selector`);
+    return steps.reverse();
+  });
+
+  const matchFrom = (el: FakeElement, steps: typeof alternatives[number], i: number): boolean => {
+    if (!steps[i].test(el)) return false;
+    if (i === steps.length - 1) return true;
+    const combinator = steps[i].combinator;
+    for (let parent = el.parentNode; parent; parent = parent.parentNode) {
+      if (parent instanceof FakeElement && matchFrom(parent, steps, i + 1)) return true;
+      if (combinator === '>') return false;
+    }
+    return false;
+  };
+
+  return el => alternatives.some(steps => matchFrom(el, steps, 0));
+}
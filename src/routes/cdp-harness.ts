@@ -0,0 +1,785 @@
+import { expect } from 'vitest';
+import type { Browser, Page } from '@cloudflare/puppeteer';
+import type { OpenClawEnv } from '../types';
+import { FULL_CDP_GRANT, type BrowserLauncher, type CdpGrant } from '../cdp';
+import { createMockBucket, createMockEnv } from '../test-utils';
+import { initCDPSession } from './cdp';
+import { FakeDocument, FakeDocumentType, FakeElement, FakeNode } from './cdp-harness-dom';
+
+/**
+ * Test harness for the CDP shim
+ *
+ * - createFakeBrowser: an in-memory stand-in for a Browser Rendering browser.
+ *   Pages "load" the sites you give them (title, HTML, status) and fire the same
+ *   request/response/navigation events Puppeteer does, so network, runtime and
+ *   interception code paths run for real. page.evaluate runs the expression in
+ *   Node against the page's HTML parsed into a small DOM (see cdp-harness-dom).
+ * - createCdpDriver: runs initCDPSession against a fake WebSocket and lets a
+ *   test send CDP commands and inspect responses and events.
+ * - replayTranscript: sends the commands of a recorded CDP transcript and
+ *   checks every response and event against it (see CdpTranscript).
+ */
+
+/** A page the fake browser can load */
+export interface FakeSite {
+  title?: string;
+  html?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  /** Accessibility snapshot; defaults to a RootWebArea named after the title */
+  axTree?: FakeAXNode;
+  /** Iframes in the page, loaded from `sites` like the page itself */
+  frames?: Array<{ url: string; name?: string }>;
+  /** The browser keeps no body, as when Chrome turns a navigation into a download */
+  bodyUnavailable?: boolean;
+}
+
+export interface FakeAXNode {
+  role: string;
+  name?: string;
+  value?: string | number;
+  /** Selector for the DOM element behind this node; nodes without one have no element */
+  selector?: string;
+  children?: FakeAXNode[];
+  [property: string]: unknown;
+}
+
+export interface FakeBrowserOptions {
+  /** Sites by URL; unknown URLs load an empty 200 page */
+  sites?: Record<string, FakeSite>;
+}
+
+/** A call the shim made on a fake page or browser, for assertions */
+export interface FakeCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface FakePage {
+  /** The fake, typed as a Puppeteer Page for the shim */
+  page: Page;
+  calls: FakeCall[];
+  /** Fire a page event (e.g. 'console') as if the browser had */
+  emit(event: string, ...args: unknown[]): void;
+  /** Values of the page's handles the shim disposed, in order */
+  released: unknown[];
+  /** Fire a protocol event (e.g. 'Page.screencastFrame') on the page's attached CDP sessions */
+  emitProtocol(event: string, params: Record<string, unknown>): void;
+}
+
+export interface FakeBrowser {
+  browser: Browser;
+  /** Pages in creation order, including closed ones */
+  pages: FakePage[];
+  calls: FakeCall[];
+  closed: boolean;
+  /** The cookie jar, shared by all pages */
+  cookies: Array<Record<string, unknown>>;
+  /** localStorage by origin */
+  storage: Record<string, Record<string, string>>;
+  /** A Browser Rendering API whose launch() returns this browser */
+  launcher: BrowserLauncher;
+}
+
+const VIEWPORT = { width: 1280, height: 720 };
+
+// 1x1 transparent PNG
+const FAKE_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const ABORT_ERRORS: Record<string, string> = {
+  aborted: 'net::ERR_ABORTED',
+  blockedbyclient: 'net::ERR_BLOCKED_BY_CLIENT',
+  failed: 'net::ERR_FAILED',
+};
+
+const HANDLE_VALUE = Symbol('fakeHandleValue');
+
+const EMPTY_HTML = '<html><head></head><body></body></html>';
+
+let objectCounter = 0;
+
+// Runs page.evaluate sources against a fake global scope. Direct eval inside `with`
+// makes free variables like `document` resolve to the scope.
+const runInScope = new Function(
+  'scope', 'source', 'args', 'isFunction',
+  'with (scope) { const value = eval(source); return isFunction ? value(...args) : value; }'
+) as (scope: object, source: string, args: unknown[], isFunction: boolean) => unknown;
+
+function unwrapHandle(value: unknown): unknown {
+  return value && typeof value === 'object' && HANDLE_VALUE in value
+    ? (value as { [HANDLE_VALUE]: unknown })[HANDLE_VALUE]
+    : value;
+}
+
+interface FakeRealm {
+  evaluate(fn: unknown, ...args: unknown[]): Promise<unknown>;
+  evaluateHandle(fn: unknown, ...args: unknown[]): Promise<unknown>;
+  /** Called when a handle in this realm is disposed */
+  released(value: unknown): void;
+}
+
+function describeFakeNode(node: FakeNode): { className: string; description: string } {
+  if (node instanceof FakeDocument) return { className: 'HTMLDocument', description: '#document' };
+  if (node instanceof FakeElement) {
+    const id = node.id ? `#${node.id}` : '';
+    return { className: 'HTMLElement', description: `${node.localName}${id}` };
+  }
+  return { className: node.nodeType === FakeNode.TEXT_NODE ? 'Text' : 'Node', description: node.nodeName };
+}
+
+// A JSHandle; DOM nodes get ElementHandle methods that run in the handle's realm
+function createFakeHandle(value: unknown, realm?: FakeRealm) {
+  const type = value === null ? 'object' : typeof value;
+  const isObject = value !== null && (typeof value === 'object' || typeof value === 'function');
+  const node = value instanceof FakeNode ? value : null;
+  let disposed = false;
+  const inRealm = () => {
+    if (!realm) throw new Error('JSHandle is not bound to a realm');
+    if (disposed) throw new Error('JSHandle is disposed!');
+    return realm;
+  };
+
+  const handle = {
+    [HANDLE_VALUE]: value,
+    remoteObject: () => (isObject
+      ? {
+          type,
+          subtype: node ? 'node' : Array.isArray(value) ? 'array' : undefined,
+          className: node ? describeFakeNode(node).className : (value as object).constructor?.name ?? 'Object',
+          description: node
+            ? describeFakeNode(node).description
+            : typeof value === 'function' ? String(value) : Array.isArray(value) ? `Array(${value.length})` : 'Object',
+          objectId: `fake-object-${++objectCounter}`,
+        }
+      : {
+          type,
+          subtype: value === null ? 'null' : undefined,
+          value,
+          description: String(value),
+        }),
+    jsonValue: async () => value,
+    dispose: async () => {
+      if (!disposed) realm?.released(value);
+      disposed = true;
+    },
+    asElement: () => (node ? handle : null),
+    evaluate: (fn: unknown, ...args: unknown[]) => inRealm().evaluate(fn, handle, ...args),
+    evaluateHandle: (fn: unknown, ...args: unknown[]) => inRealm().evaluateHandle(fn, handle, ...args),
+    getProperties: async () => new Map(
+      isObject ? Object.entries(value as object).map(([key, v]) => [key, createFakeHandle(v, realm)]) : []
+    ),
+    $: async (selector: string) => {
+      const found = node?.querySelector(selector);
+      return found ? createFakeHandle(found, realm) : null;
+    },
+    $$: async (selector: string) => (node?.querySelectorAll(selector) ?? []).map(el => createFakeHandle(el, realm)),
+    focus: async () => {
+      if (node instanceof FakeElement && node.ownerDocument) node.ownerDocument.activeElement = node;
+    },
+    uploadFile: async (...files: string[]) => {
+      if (node instanceof FakeElement) node.files = files;
+    },
+    screenshot: async () => Buffer.from(FAKE_PNG_BASE64, 'base64'),
+  };
+  return handle;
+}
+
+
+function originOf(url: string): string {
+  return url.startsWith('http') ? new URL(url).origin : 'null';
+}
+
+// A Storage over a plain object; like the real one, only the items are enumerable
+function createStorage(items: Record<string, string>): Record<string, string> {
+  return Object.defineProperties(items, {
+    getItem: { value: (key: string) => items[key] ?? null, configurable: true },
+    setItem: { value: (key: string, value: unknown) => { items[key] = String(value); }, configurable: true },
+    removeItem: { value: (key: string) => { delete items[key]; }, configurable: true },
+  });
+}
+
+function createWindow(): Record<string, unknown> {
+  const style = new Proxy({}, { get: () => '0px' });
+  return {
+    innerWidth: VIEWPORT.width,
+    innerHeight: VIEWPORT.height,
+    scrollX: 0,
+    scrollY: 0,
+    getComputedStyle: () => style,
+  };
+}
+
+interface FakeFrame {
+  doc: { url: string; title: string; html: string; site?: FakeSite; dom: FakeDocument };
+  children: FakeFrame[];
+  /** What the shim sees as the Puppeteer Frame */
+  frame: Record<string, unknown>;
+  /** Replace the document, detaching child frames */
+  load(url: string): void;
+  /** Fire framenavigated and attach the document's iframes */
+  announce(): void;
+}
+
+function createPage(browser: FakeBrowser, options: FakeBrowserOptions): FakePage {
+  const listeners = new Map<string, Set<(...args: unknown[]) => unknown>>();
+  const calls: FakeCall[] = [];
+  const released: unknown[] = [];
+  const protocolSessions = new Set<Map<string, Set<(params: unknown) => unknown>>>();
+  const state = {
+    closed: false,
+    interception: false,
+    viewport: { width: 1280, height: 720, deviceScaleFactor: 1 } as { width: number; height: number; deviceScaleFactor?: number },
+  };
+
+  const emit = (event: string, ...args: unknown[]) => {
+    for (const listener of listeners.get(event) ?? []) listener(...args);
+  };
+  const record = (method: string) => async (...args: unknown[]) => {
+    calls.push({ method, args });
+  };
+
+  // Functions from page.exposeFunction, callable from every frame's main world
+  const exposed: Record<string, (...args: unknown[]) => unknown> = {};
+
+  const main = createFrame(null, '');
+  const mainRealm = () => (main.frame.mainRealm as () => FakeRealm)();
+  const allFrames = (frame: FakeFrame): FakeFrame[] => [frame, ...frame.children.flatMap(allFrames)];
+
+  // A frame holds one document at a time. Each world (main and isolated) gets its
+  // own `window`, so globals set in one aren't visible in the other.
+  function createFrame(parent: FakeFrame | null, name: string): FakeFrame {
+    const doc = { url: 'about:blank', title: '', html: EMPTY_HTML, site: undefined as FakeSite | undefined } as FakeFrame['doc'];
+    doc.dom = new FakeDocument(doc, doc.html);
+    let worlds = { main: createWindow(), isolated: createWindow() };
+
+    const scope = (world: keyof typeof worlds) => ({
+      document: doc.dom,
+      Node: FakeNode,
+      Element: FakeElement,
+      Document: FakeDocument,
+      DocumentType: FakeDocumentType,
+      location: { href: doc.url, origin: originOf(doc.url) },
+      localStorage: createStorage(browser.storage[originOf(doc.url)] ??= {}),
+      window: worlds[world],
+      ...(world === 'main' ? exposed : {}),
+    });
+
+    const realm = (world: keyof typeof worlds) => {
+      const evaluate = async (fn: unknown, ...args: unknown[]) => {
+        const isFunction = typeof fn === 'function';
+        return runInScope(scope(world), isFunction ? `(${String(fn)})` : String(fn), args.map(unwrapHandle), isFunction);
+      };
+      const fakeRealm: FakeRealm & { adoptHandle(handle: unknown): Promise<unknown> } = {
+        evaluate,
+        released: value => released.push(value),
+        evaluateHandle: async (fn: unknown, ...args: unknown[]) => createFakeHandle(await evaluate(fn, ...args), fakeRealm),
+        // Both worlds share the DOM, so adopting a node is wrapping it for this realm
+        adoptHandle: async (handle: unknown) => createFakeHandle(unwrapHandle(handle), fakeRealm),
+      };
+      return fakeRealm;
+    };
+
+    const fake: FakeFrame = {
+      doc,
+      children: [],
+      frame: {
+        url: () => doc.url,
+        name: () => name,
+        parentFrame: () => parent?.frame ?? null,
+        childFrames: () => fake.children.map(child => child.frame),
+        isDetached: () => false,
+        ...realm('main'),
+        mainRealm: () => realm('main'),
+        isolatedRealm: () => realm('isolated'),
+      },
+      load(url: string) {
+        for (const child of fake.children.flatMap(allFrames).reverse()) emit('framedetached', child.frame);
+        fake.children = [];
+        worlds = { main: createWindow(), isolated: createWindow() };
+        doc.url = url;
+        doc.site = options.sites?.[url];
+        doc.title = doc.site?.title ?? '';
+        doc.html = doc.site?.html ?? EMPTY_HTML;
+        doc.dom = new FakeDocument(doc, doc.html);
+      },
+      announce() {
+        emit('framenavigated', fake.frame);
+        for (const child of doc.site?.frames ?? []) {
+          const frame = createFrame(fake, child.name ?? '');
+          fake.children.push(frame);
+          emit('frameattached', frame.frame);
+          frame.load(child.url);
+          frame.announce();
+        }
+      },
+    };
+    return fake;
+  }
+
+  async function navigate(url: string) {
+    let decision: (outcome: string) => void = () => {};
+    const decided = new Promise<string>((resolve) => { decision = resolve; });
+    const site = options.sites?.[url];
+    let errorText: string | null = null;
+
+    const response = {
+      url: () => url,
+      status: () => site?.status ?? 200,
+      statusText: () => ((site?.status ?? 200) < 400 ? 'OK' : 'Error'),
+      ok: () => (site?.status ?? 200) < 400,
+      headers: () => ({ 'content-type': 'text/html; charset=utf-8', ...site?.headers }),
+      remoteAddress: () => ({ ip: '203.0.113.10', port: 443 }),
+      fromCache: () => false,
+      fromServiceWorker: () => false,
+      buffer: async () => {
+        if (site?.bodyUnavailable) throw new Error('No resource with given identifier found');
+        return Buffer.from(site?.html ?? '');
+      },
+      text: async () => site?.html ?? '',
+      request: () => request,
+    };
+    const request = {
+      url: () => url,
+      method: () => 'GET',
+      headers: () => ({}),
+      postData: () => undefined,
+      hasPostData: () => false,
+      resourceType: () => 'document',
+      isNavigationRequest: () => true,
+      initiator: () => undefined,
+      frame: () => main.frame,
+      redirectChain: () => [],
+      response: () => (errorText ? null : response),
+      failure: () => (errorText ? { errorText } : null),
+      continue: async () => decision('continue'),
+      respond: async () => decision('continue'),
+      abort: async (reason = 'failed') => decision(reason),
+    };
+
+    emit('request', request);
+    const outcome = state.interception ? await decided : 'continue';
+    if (outcome !== 'continue') {
+      errorText = ABORT_ERRORS[outcome] ?? 'net::ERR_FAILED';
+      emit('requestfailed', request);
+      throw new Error(`${errorText} at ${url}`);
+    }
+
+    emit('response', response);
+    main.load(url);
+    emit('requestfinished', request);
+    main.announce();
+    emit('domcontentloaded');
+    emit('load');
+    return response;
+  }
+
+  const page = {
+    url: () => main.doc.url,
+    title: async () => main.doc.title,
+    content: async () => main.doc.html,
+    metrics: async () => ({ Timestamp: 1, Documents: 1, Frames: 1 + main.children.length }),
+    isClosed: () => state.closed,
+    mainFrame: () => main.frame,
+    frames: () => allFrames(main).map(frame => frame.frame),
+    on: (event: string, listener: (...args: unknown[]) => unknown) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+      return page;
+    },
+    off: (event: string, listener: (...args: unknown[]) => unknown) => {
+      listeners.get(event)?.delete(listener);
+      return page;
+    },
+    goto: async (url: string, ...args: unknown[]) => {
+      calls.push({ method: 'goto', args: [url, ...args] });
+      return navigate(url);
+    },
+    reload: async () => navigate(main.doc.url),
+    setContent: async (html: string) => {
+      main.doc.html = html;
+      main.doc.title = html.match(/<title>([^<]*)<\/title>/i)?.[1] ?? '';
+      main.doc.dom = new FakeDocument(main.doc, html);
+    },
+    exposeFunction: async (name: string, fn: (...args: unknown[]) => unknown) => {
+      if (name in exposed) throw new Error(`Failed to add page binding with name ${name}: window['${name}'] already exists!`);
+      exposed[name] = fn;
+    },
+    removeExposedFunction: async (name: string) => {
+      delete exposed[name];
+    },
+    setRequestInterception: async (enabled: boolean) => {
+      state.interception = enabled;
+    },
+    evaluate: main.frame.evaluate,
+    evaluateHandle: main.frame.evaluateHandle,
+    evaluateOnNewDocument: async (...args: unknown[]) => {
+      calls.push({ method: 'evaluateOnNewDocument', args });
+      return { identifier: String(calls.length) };
+    },
+    screenshot: async (screenshotOptions: { encoding?: string } = {}) => {
+      calls.push({ method: 'screenshot', args: [screenshotOptions] });
+      return screenshotOptions.encoding === 'base64' ? FAKE_PNG_BASE64 : Buffer.from(FAKE_PNG_BASE64, 'base64');
+    },
+    pdf: async () => Buffer.from('%PDF-1.4\n'),
+    accessibility: {
+      snapshot: async (snapshotOptions: { root?: unknown } = {}) => {
+        const elementOf = (node: FakeAXNode) => (node.selector ? main.doc.dom.querySelector(node.selector) : null);
+        const withElementHandles = (node: FakeAXNode): unknown => {
+          const { selector: _selector, ...rest } = node;
+          return {
+            ...rest,
+            children: node.children?.map(withElementHandles),
+            elementHandle: async () => {
+              const element = elementOf(node);
+              return element ? createFakeHandle(element, mainRealm()) : null;
+            },
+          };
+        };
+        const find = (node: FakeAXNode, element: unknown): FakeAXNode | null => (
+          elementOf(node) === element ? node : node.children?.map(child => find(child, element)).find(Boolean) ?? null
+        );
+
+        const tree = main.doc.site?.axTree ?? { role: 'RootWebArea', name: main.doc.title, children: [] };
+        const root = snapshotOptions.root ? find(tree, unwrapHandle(snapshotOptions.root)) : tree;
+        return root ? withElementHandles(root) : null;
+      },
+    },
+    cookies: async () => browser.cookies,
+    setCookie: async (...cookies: Array<Record<string, unknown>>) => {
+      browser.cookies.push(...cookies);
+    },
+    deleteCookie: async (...cookies: Array<{ name: string }>) => {
+      const kept = browser.cookies.filter(c => !cookies.some(d => d.name === c.name));
+      browser.cookies.splice(0, browser.cookies.length, ...kept);
+    },
+    $: (selector: string) => createFakeHandle(main.doc.dom, mainRealm()).$(selector),
+    $$: (selector: string) => createFakeHandle(main.doc.dom, mainRealm()).$$(selector),
+    createCDPSession: async () => {
+      const handlers = new Map<string, Set<(params: unknown) => unknown>>();
+      protocolSessions.add(handlers);
+      return {
+        send: async (method: string, params: { cookies?: Array<Record<string, unknown>> } = {}) => {
+          calls.push({ method: `cdp:${method}`, args: [params] });
+          if (method === 'Network.getAllCookies') return { cookies: browser.cookies };
+          if (method === 'Network.setCookies') browser.cookies.push(...params.cookies ?? []);
+          return {};
+        },
+        on: (event: string, handler: (params: unknown) => unknown) => {
+          if (!handlers.has(event)) handlers.set(event, new Set());
+          handlers.get(event)!.add(handler);
+        },
+        off: (event: string, handler: (params: unknown) => unknown) => {
+          handlers.get(event)?.delete(handler);
+        },
+        detach: async () => {
+          protocolSessions.delete(handlers);
+        },
+      };
+    },
+    mouse: { click: record('mouse.click'), move: record('mouse.move'), down: record('mouse.down'), up: record('mouse.up'), wheel: record('mouse.wheel') },
+    keyboard: { type: record('keyboard.type'), down: record('keyboard.down'), up: record('keyboard.up'), press: record('keyboard.press'), sendCharacter: record('keyboard.sendCharacter') },
+    viewport: () => state.viewport,
+    setViewport: async (viewport: typeof state.viewport) => {
+      calls.push({ method: 'setViewport', args: [viewport] });
+      state.viewport = viewport;
+    },
+    setUserAgent: record('setUserAgent'),
+    setExtraHTTPHeaders: record('setExtraHTTPHeaders'),
+    setCacheEnabled: record('setCacheEnabled'),
+    setBypassCSP: record('setBypassCSP'),
+    setGeolocation: record('setGeolocation'),
+    emulateMediaType: record('emulateMediaType'),
+    emulateMediaFeatures: record('emulateMediaFeatures'),
+    emulateTimezone: record('emulateTimezone'),
+    setDefaultTimeout: record('setDefaultTimeout'),
+    bringToFront: record('bringToFront'),
+    close: async () => {
+      state.closed = true;
+      emit('close');
+    },
+    browser: () => browser.browser,
+  };
+
+  const emitProtocol = (event: string, params: Record<string, unknown>) => {
+    for (const handlers of protocolSessions) {
+      for (const handler of handlers.get(event) ?? []) handler(params);
+    }
+  };
+
+  const fake: FakePage = { page: page as unknown as Page, calls, emit, released, emitProtocol };
+  browser.pages.push(fake);
+  return fake;
+}
+
+/**
+ * Create an in-memory browser for the CDP shim
+ */
+export function createFakeBrowser(options: FakeBrowserOptions = {}): FakeBrowser {
+  const fake = { pages: [], calls: [], closed: false, cookies: [], storage: {} } as unknown as FakeBrowser;
+
+  const newPage = async () => createPage(fake, options).page;
+  const browser = {
+    newPage,
+    pages: async () => fake.pages.filter(p => !p.page.isClosed()).map(p => p.page),
+    createBrowserContext: async () => ({ newPage, close: async () => {} }),
+    defaultBrowserContext: () => ({ newPage, close: async () => {} }),
+    browserContexts: () => [],
+    sessionId: () => 'fake-session',
+    connected: true,
+    disconnect: async () => {},
+    close: async () => {
+      fake.calls.push({ method: 'close', args: [] });
+      fake.closed = true;
+    },
+  };
+
+  fake.browser = browser as unknown as Browser;
+  fake.launcher = {
+    launch: async () => fake.browser,
+    connect: async () => fake.browser,
+    sessions: async () => [],
+  } as unknown as BrowserLauncher;
+  return fake;
+}
+
+/** A message the shim sent to the client */
+export interface CdpMessage {
+  id?: number;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string };
+  sessionId?: string;
+}
+
+export interface CdpDriverOptions {
+  browser?: FakeBrowser;
+  env?: Partial<OpenClawEnv>;
+  grant?: CdpGrant;
+  /** Browser profile to use, as with `/cdp?profile=` */
+  profile?: string;
+  /** Called once the client is connected, before the shim has set up the session */
+  onConnect?: (driver: CdpDriver) => void;
+}
+
+export interface CdpDriver {
+  browser: FakeBrowser;
+  env: OpenClawEnv;
+  /** Every message the shim sent, in order */
+  messages: CdpMessage[];
+  /** Set once the shim closes the socket */
+  closed: { code?: number; reason?: string } | null;
+  /** Send a command and wait for its response */
+  send(method: string, params?: Record<string, unknown>, sessionId?: string): Promise<CdpMessage>;
+  /** Events sent so far, optionally filtered by method */
+  events(method?: string): CdpMessage[];
+  /** Close the client side of the socket and wait for the shim to clean up */
+  close(): Promise<void>;
+}
+
+/**
+ * Open a CDP session on a fake browser, as a client connecting to /cdp would
+ *
+ * Browsers are never pooled (CDP_POOL_IDLE_SECONDS=0), so closing the driver
+ * closes the fake browser.
+ */
+export async function createCdpDriver(options: CdpDriverOptions = {}): Promise<CdpDriver> {
+  const browser = options.browser ?? createFakeBrowser();
+  const env = createMockEnv({
+    MOLTBOT_BUCKET: createMockBucket().bucket,
+    CDP_POOL_IDLE_SECONDS: '0',
+    ...options.env,
+  });
+
+  const listeners = new Map<string, Array<(event: unknown) => unknown>>();
+  const pending = new Map<number, (message: CdpMessage) => void>();
+  let nextId = 1;
+
+  const driver: CdpDriver = {
+    browser,
+    env,
+    messages: [],
+    closed: null,
+    send(method, params = {}, sessionId) {
+      const id = nextId++;
+      const reply = new Promise<CdpMessage>((resolve) => pending.set(id, resolve));
+      for (const listener of listeners.get('message') ?? []) {
+        listener({ data: JSON.stringify({ id, method, params, sessionId }) });
+      }
+      return reply;
+    },
+    events(method) {
+      return driver.messages.filter(m => m.method && (!method || m.method === method));
+    },
+    async close() {
+      await Promise.all((listeners.get('close') ?? []).map(listener => listener({ code: 1000 })));
+    },
+  };
+
+  const socket = {
+    send(data: string) {
+      const message = JSON.parse(data) as CdpMessage;
+      driver.messages.push(message);
+      if (message.id !== undefined) {
+        pending.get(message.id)?.(message);
+        pending.delete(message.id);
+      }
+    },
+    close(code?: number, reason?: string) {
+      driver.closed = { code, reason };
+    },
+    addEventListener(type: string, listener: (event: unknown) => unknown) {
+      if (!listeners.has(type)) listeners.set(type, []);
+      listeners.get(type)!.push(listener);
+    },
+  };
+
+  options.onConnect?.(driver);
+  await initCDPSession(socket as unknown as WebSocket, env, options.grant ?? FULL_CDP_GRANT, {
+    launcher: browser.launcher,
+    profile: options.profile,
+  });
+  return driver;
+}
+
+/**
+ * A recorded exchange between a CDP client and the shim
+ *
+ * Each step sends one command and describes its response and the events the
+ * shim sent while handling it. Expectations are partial: objects only need the
+ * listed keys, arrays must have the same length. Strings have special forms:
+ *
+ * - `"$capture:name"` matches any value and remembers it as `name`
+ * - `"$name"` (in sends or expectations) is replaced by a remembered value
+ * - `"$any"` matches any value, including a missing one
+ */
+export interface CdpTranscript {
+  description: string;
+  /** The client and version the transcript was taken from */
+  client: string;
+  /** Sites the fake browser serves while replaying */
+  sites?: Record<string, FakeSite>;
+  /** Events the shim sends on connect, before the first command */
+  connectEvents?: Array<Record<string, unknown>>;
+  steps: CdpTranscriptStep[];
+}
+
+export interface CdpTranscriptStep {
+  send: { method: string; params?: Record<string, unknown>; sessionId?: string };
+  result?: Record<string, unknown>;
+  error?: Record<string, unknown>;
+  events?: Array<Record<string, unknown>>;
+}
+
+function substitute(value: unknown, vars: Map<string, unknown>): unknown {
+  if (typeof value === 'string' && value.startsWith('$') && vars.has(value.slice(1))) {
+    return vars.get(value.slice(1));
+  }
+  if (Array.isArray(value)) return value.map(v => substitute(v, vars));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v, vars)]));
+  }
+  return value;
+}
+
+/**
+ * Check a value against a transcript expectation
+ *
+ * @returns A description of the first mismatch, or null if it matches
+ */
+export function matchExpectation(
+  actual: unknown,
+  expected: unknown,
+  vars: Map<string, unknown>,
+  path = '$'
+): string | null {
+  if (expected === '$any') return null;
+  if (typeof expected === 'string' && expected.startsWith('$capture:')) {
+    if (actual === undefined) return `${path}: expected a value to capture`;
+    const name = expected.slice('$capture:'.length);
+    if (vars.has(name) && vars.get(name) !== actual) {
+      return `${path}: expected ${JSON.stringify(vars.get(name))} (captured as ${name}), got ${JSON.stringify(actual)}`;
+    }
+    vars.set(name, actual);
+    return null;
+  }
+
+  expected = substitute(expected, vars);
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      return `${path}: expected an array of ${expected.length}, got ${JSON.stringify(actual)}`;
+    }
+    for (let i = 0; i < expected.length; i++) {
+      const mismatch = matchExpectation(actual[i], expected[i], vars, `${path}[${i}]`);
+      if (mismatch) return mismatch;
+    }
+    return null;
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') return `${path}: expected an object, got ${JSON.stringify(actual)}`;
+    for (const [key, value] of Object.entries(expected)) {
+      const mismatch = matchExpectation((actual as Record<string, unknown>)[key], value, vars, `${path}.${key}`);
+      if (mismatch) return mismatch;
+    }
+    return null;
+  }
+  return actual === expected ? null : `${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`;
+}
+
+/**
+ * Check that the expected events appear, in order, among the sent events
+ */
+function matchEvents(actual: CdpMessage[], expected: Array<Record<string, unknown>>, vars: Map<string, unknown>): string | null {
+  let from = 0;
+  for (const [i, event] of expected.entries()) {
+    let lastMismatch = `no ${String(event.method)} event`;
+    let found = false;
+    for (; from < actual.length; from++) {
+      if (actual[from].method !== event.method) continue;
+      // Match against a copy of the vars so a failed candidate doesn't capture anything
+      const attempt = new Map(vars);
+      const mismatch = matchExpectation(actual[from], event, attempt, `events[${i}]`);
+      if (!mismatch) {
+        attempt.forEach((value, key) => vars.set(key, value));
+        found = true;
+        from++;
+        break;
+      }
+      lastMismatch = mismatch;
+    }
+    if (!found) return lastMismatch;
+  }
+  return null;
+}
+
+/**
+ * Replay a transcript against a fresh shim session, failing the test on the first mismatch
+ *
+ * @returns The driver, still open, for further assertions
+ */
+export async function replayTranscript(transcript: CdpTranscript, options: Omit<CdpDriverOptions, 'browser'> = {}): Promise<CdpDriver> {
+  const driver = await createCdpDriver({ ...options, browser: createFakeBrowser({ sites: transcript.sites }) });
+  const vars = new Map<string, unknown>();
+
+  const connectMismatch = matchEvents(driver.events(), transcript.connectEvents ?? [], vars);
+  expect(connectMismatch, 'connect events').toBeNull();
+
+  for (const [i, step] of transcript.steps.entries()) {
+    const label = `step ${i + 1} (${step.send.method})`;
+    const before = driver.messages.length;
+    const send = substitute(step.send, vars) as CdpTranscriptStep['send'];
+    const response = await driver.send(send.method, send.params, send.sessionId);
+    const events = driver.messages.slice(before).filter(m => m.method);
+
+    if (step.error) {
+      expect(response.error, `${label}: expected an error`).toBeDefined();
+      expect(matchExpectation(response.error, step.error, vars, 'error'), label).toBeNull();
+    } else {
+      expect(response.error, `${label}: unexpected error`).toBeUndefined();
+      expect(matchExpectation(response.result, step.result ?? {}, vars, 'result'), label).toBeNull();
+    }
+    expect(matchEvents(events, step.events ?? [], vars), label).toBeNull();
+  }
+
+  return driver;
+}
@@ -0,0 +1,866 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { createCdpDriver, createFakeBrowser, replayTranscript, type CdpDriver, type CdpTranscript, type FakeSite } from './cdp-harness';
+import { cdp } from './cdp';
+import type { BrowserLauncher, CdpGrant } from '../cdp';
+import type { AppEnv } from '../types';
+import { createLogger } from '../logger';
+import { createMockBucket, createMockEnv, suppressConsole } from '../test-utils';
+import { getBlockedNavigations, getCdpSessionStats, getDownloadBody, loadProfile } from '../cdp';
+import { resetCdpSessionCounters } from '../cdp/limits';
+import playwrightConnect from './cdp-transcripts/playwright-connect-over-cdp.json';
+import puppeteerConnect from './cdp-transcripts/puppeteer-connect.json';
+
+// The REST endpoints launch browsers through the default export; point it at a fake browser
+const browserApi = vi.hoisted(() => ({ launcher: null as unknown as BrowserLauncher }));
+vi.mock('@cloudflare/puppeteer', () => ({
+  default: {
+    launch: (...args: Parameters<BrowserLauncher['launch']>) => browserApi.launcher.launch(...args),
+    connect: (...args: Parameters<BrowserLauncher['connect']>) => browserApi.launcher.connect(...args),
+    sessions: (...args: Parameters<BrowserLauncher['sessions']>) => browserApi.launcher.sessions(...args),
+  },
+}));
+
+const transcripts: Record<string, CdpTranscript> = {
+  'Playwright connectOverCDP': playwrightConnect,
+  'Puppeteer connect': puppeteerConnect,
+};
+
+describe('CDP shim conformance', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it.each(Object.entries(transcripts))('replays the %s transcript', async (_name, transcript) => {
+    const driver = await replayTranscript(transcript);
+    await driver.close();
+    expect(driver.browser.closed).toBe(true);
+  });
+});
+
+describe('CDP shim', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('announces the initial page on connect', async () => {
+    const driver = await createCdpDriver();
+    expect(driver.events('Target.targetCreated')).toHaveLength(1);
+    expect(driver.browser.pages).toHaveLength(1);
+  });
+
+  it('reports unknown domains and methods as CDP errors', async () => {
+    const driver = await createCdpDriver();
+
+    expect((await driver.send('Bogus.method')).error).toEqual({ code: -32000, message: 'Unknown domain: Bogus' });
+    expect((await driver.send('Page.bogus')).error?.message).toBe('Unknown Page method: bogus');
+  });
+
+  it('rejects commands for an unknown session', async () => {
+    const driver = await createCdpDriver();
+    const response = await driver.send('Page.enable', {}, 'NOT-A-SESSION');
+
+    expect(response.sessionId).toBe('NOT-A-SESSION');
+    expect(response.error?.message).toBe('Session with given id not found: NOT-A-SESSION');
+  });
+
+  it('blocks navigation to private addresses', async () => {
+    const driver = await createCdpDriver();
+    const response = await driver.send('Page.navigate', { url: 'http://169.254.169.254/latest/meta-data/' });
+
+    expect(response.error?.message).toMatch(/^Navigation blocked by policy/);
+    expect(driver.browser.pages[0].calls.some(call => call.method === 'goto')).toBe(false);
+  });
+
+  it('records blocked navigations for admins in one write when the session ends', async () => {
+    const driver = await createCdpDriver();
+    await driver.send('Page.navigate', { url: 'http://169.254.169.254/latest/meta-data/' });
+    await driver.send('Page.navigate', { url: 'http://10.0.0.1/' });
+    expect(await getBlockedNavigations(driver.env.MOLTBOT_BUCKET)).toEqual([]);
+
+    await driver.close();
+
+    const blocked = await getBlockedNavigations(driver.env.MOLTBOT_BUCKET);
+    expect(blocked.map(entry => entry.url)).toEqual(['http://10.0.0.1/', 'http://169.254.169.254/latest/meta-data/']);
+    const writes = vi.mocked(driver.env.MOLTBOT_BUCKET.put).mock.calls.filter(([key]) => key.includes('cdp-policy/'));
+    expect(writes).toHaveLength(1);
+  });
+
+  it('rejects input and script execution for read-only tokens', async () => {
+    const driver = await createCdpDriver({ grant: { tokenId: 'token-1', scope: { readOnly: true } } });
+
+    expect((await driver.send('Runtime.evaluate', { expression: '1 + 1' })).error?.message)
+      .toBe('Runtime.evaluate is not allowed by this token (read-only)');
+    expect((await driver.send('Page.navigate', { url: 'https://example.com/' })).error).toBeUndefined();
+  });
+
+  it('only sends network events while Network is enabled', async () => {
+    const driver = await createCdpDriver();
+
+    await driver.send('Page.navigate', { url: 'https://example.com/a' });
+    expect(driver.events('Network.requestWillBeSent')).toHaveLength(0);
+
+    await driver.send('Network.enable');
+    await driver.send('Page.navigate', { url: 'https://example.com/b' });
+    expect(driver.events('Network.requestWillBeSent').map(e => (e.params?.request as { url: string }).url))
+      .toEqual(['https://example.com/b']);
+  });
+
+  it('returns response bodies buffered while Network is enabled', async () => {
+    const browser = createFakeBrowser({ sites: { 'https://example.com/': { html: '<p>hello</p>' } } });
+    const driver = await createCdpDriver({ browser });
+
+    await driver.send('Network.enable');
+    await driver.send('Page.navigate', { url: 'https://example.com/' });
+    const requestId = driver.events('Network.requestWillBeSent')[0].params?.requestId;
+
+    const response = await driver.send('Network.getResponseBody', { requestId });
+    expect(response.result).toEqual({ body: '<p>hello</p>', base64Encoded: false });
+  });
+
+  it('forwards console messages once Runtime is enabled', async () => {
+    const driver = await createCdpDriver();
+    await driver.send('Runtime.enable');
+
+    driver.browser.pages[0].emit('console', {
+      type: () => 'log',
+      text: () => 'hello',
+      args: () => [],
+      location: () => ({}),
+      stackTrace: () => [],
+    });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(driver.events('Runtime.consoleAPICalled')).toMatchObject([{ params: { type: 'log', args: [] } }]);
+  });
+
+  it('reports iframes in the frame tree and evaluates in their execution contexts', async () => {
+    const browser = createFakeBrowser({
+      sites: {
+        'https://shop.example/checkout': { title: 'Checkout', frames: [{ url: 'https://pay.example/form', name: 'payment' }] },
+        'https://pay.example/form': { title: 'Card details' },
+      },
+    });
+    const driver = await createCdpDriver({ browser });
+    await driver.send('Runtime.enable');
+    await driver.send('Page.navigate', { url: 'https://shop.example/checkout' });
+
+    const { frameTree } = (await driver.send('Page.getFrameTree')).result as {
+      frameTree: { frame: { id: string }; childFrames: Array<{ frame: Record<string, unknown> }> };
+    };
+    const child = frameTree.childFrames[0].frame;
+    expect(child).toMatchObject({ parentId: frameTree.frame.id, name: 'payment', url: 'https://pay.example/form' });
+    expect(driver.events('Page.frameAttached').map(e => e.params))
+      .toEqual([{ frameId: child.id, parentFrameId: frameTree.frame.id }]);
+    expect(driver.events('Page.frameNavigated').map(e => (e.params?.frame as { id: string }).id))
+      .toEqual([frameTree.frame.id, child.id]);
+
+    const childContext = driver.events('Runtime.executionContextCreated')
+      .map(e => e.params?.context as { id: number; auxData: { frameId: string } })
+      .find(context => context.auxData.frameId === child.id)!;
+    expect((await driver.send('Runtime.evaluate', { expression: 'document.title', contextId: childContext.id })).result)
+      .toMatchObject({ result: { value: 'Card details' } });
+    expect((await driver.send('Runtime.evaluate', { expression: 'document.title' })).result)
+      .toMatchObject({ result: { value: 'Checkout' } });
+
+    await driver.send('Page.navigate', { url: 'https://shop.example/done' });
+    expect(driver.events('Page.frameDetached').map(e => e.params?.frameId)).toEqual([child.id]);
+    expect(driver.events('Runtime.executionContextDestroyed').map(e => e.params?.executionContextId))
+      .toEqual([childContext.id]);
+    expect((await driver.send('Runtime.evaluate', { expression: '1', contextId: childContext.id })).error?.message)
+      .toBe('Cannot find context with specified id');
+  });
+
+  it('creates isolated worlds that page globals do not leak into', async () => {
+    const driver = await createCdpDriver();
+    await driver.send('Runtime.enable');
+    const frameId = driver.events('Target.targetCreated')[0].params?.targetInfo as { targetId: string };
+
+    const { executionContextId } = (await driver.send('Page.createIsolatedWorld', {
+      frameId: frameId.targetId,
+      worldName: 'agent',
+    })).result as { executionContextId: number };
+    expect(driver.events('Runtime.executionContextCreated').at(-1)?.params?.context)
+      .toMatchObject({ id: executionContextId, name: 'agent', auxData: { isDefault: false, type: 'isolated' } });
+
+    await driver.send('Runtime.evaluate', { expression: 'window.secret = 42' });
+    const isolated = await driver.send('Runtime.evaluate', { expression: 'typeof window.secret', contextId: executionContextId });
+    expect(isolated.result).toMatchObject({ result: { value: 'undefined' } });
+
+    const handle = await driver.send('Runtime.evaluate', {
+      expression: '({ world: "agent" })',
+      contextId: executionContextId,
+      returnByValue: false,
+    });
+    const objectId = (handle.result as { result: { objectId: string } }).result.objectId;
+    const called = await driver.send('Runtime.callFunctionOn', {
+      functionDeclaration: 'function () { return this.world + ":" + typeof window.secret; }',
+      objectId,
+    });
+    expect(called.result).toMatchObject({ result: { value: 'agent:undefined' } });
+
+    expect((await driver.send('Page.createIsolatedWorld', { frameId: 'NOPE' })).error?.message)
+      .toBe('No frame for given id found: NOPE');
+  });
+
+  it('delivers Runtime bindings called by the page until they are removed', async () => {
+    const driver = await createCdpDriver();
+    await driver.send('Runtime.addBinding', { name: 'reportToAgent' });
+    expect((await driver.send('Runtime.addBinding', { name: 'reportToAgent' })).error).toBeUndefined();
+
+    await driver.send('Runtime.evaluate', { expression: 'reportToAgent(JSON.stringify({ step: 1 }))' });
+    expect(driver.events('Runtime.bindingCalled').map(e => e.params)).toEqual([
+      { name: 'reportToAgent', payload: '{"step":1}', executionContextId: expect.any(Number) },
+    ]);
+
+    await driver.send('Runtime.removeBinding', { name: 'reportToAgent' });
+    const afterRemoval = await driver.send('Runtime.evaluate', { expression: 'reportToAgent("again")' });
+    expect(afterRemoval.result).toMatchObject({ exceptionDetails: { text: 'reportToAgent is not defined' } });
+    expect(driver.events('Runtime.bindingCalled')).toHaveLength(1);
+  });
+
+  it('saves downloads to R2 and reports them with download events', async () => {
+    const browser = createFakeBrowser({
+      sites: {
+        'https://example.com/export': {
+          html: 'id,name\n1,Ada\n',
+          headers: { 'content-type': 'text/csv', 'content-disposition': 'attachment; filename="people.csv"' },
+        },
+      },
+    });
+    const driver = await createCdpDriver({ browser });
+    await driver.send('Browser.setDownloadBehavior', { behavior: 'allowAndName', downloadPath: '/tmp', eventsEnabled: true });
+    await driver.send('Page.navigate', { url: 'https://example.com/export' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const [willBegin] = driver.events('Browser.downloadWillBegin');
+    expect(willBegin.params).toMatchObject({ url: 'https://example.com/export', suggestedFilename: 'people.csv' });
+    const guid = willBegin.params?.guid as string;
+    expect(driver.events('Browser.downloadProgress').map(e => e.params))
+      .toEqual([{ guid, totalBytes: 14, receivedBytes: 14, state: 'completed' }]);
+    expect(driver.events('Page.downloadProgress')).toHaveLength(1);
+
+    const stored = await getDownloadBody(driver.env.MOLTBOT_BUCKET, guid);
+    expect(await stored?.text()).toBe('id,name\n1,Ada\n');
+  });
+
+  it('stops refetching a download once it passes the size limit', async () => {
+    const browser = createFakeBrowser({
+      sites: {
+        'https://example.com/dump.bin': {
+          headers: { 'content-type': 'application/octet-stream', 'content-disposition': 'attachment' },
+          bodyUnavailable: true,
+        },
+      },
+    });
+    // No content-length, so only counting the streamed bytes can catch it
+    const chunk = new Uint8Array(1024 * 1024);
+    let pulls = 0;
+    const fetchMock = vi.fn(async () => new Response(new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls += 1;
+        controller.enqueue(chunk);
+      },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+    try {
+      const driver = await createCdpDriver({ browser });
+      await driver.send('Page.navigate', { url: 'https://example.com/dump.bin' });
+      await vi.waitFor(() => expect(driver.events('Page.downloadProgress')).toHaveLength(1));
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/dump.bin', expect.anything());
+      expect(driver.events('Page.downloadProgress')[0].params).toMatchObject({ state: 'canceled' });
+      expect(pulls).toBeLessThan(60);
+      expect(await driver.env.MOLTBOT_BUCKET.list()).toMatchObject({ objects: [] });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('checks each redirect of a refetched download against the navigation policy', async () => {
+    const browser = createFakeBrowser({
+      sites: {
+        'https://example.com/report.csv': {
+          headers: { 'content-type': 'text/csv', 'content-disposition': 'attachment' },
+          bodyUnavailable: true,
+        },
+      },
+    });
+    const fetchMock = vi.fn(async () => new Response(null, {
+      status: 302,
+      headers: { location: 'http://169.254.169.254/latest/meta-data/' },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    try {
+      const driver = await createCdpDriver({ browser });
+      await driver.send('Page.navigate', { url: 'https://example.com/report.csv' });
+      await vi.waitFor(() => expect(driver.events('Page.downloadProgress')).toHaveLength(1));
+
+      expect(driver.events('Page.downloadProgress')[0].params).toMatchObject({ state: 'canceled' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/report.csv', expect.objectContaining({ redirect: 'manual' }));
+
+      await driver.close();
+      const blocked = await getBlockedNavigations(driver.env.MOLTBOT_BUCKET);
+      expect(blocked).toMatchObject([{ url: 'http://169.254.169.254/latest/meta-data/', source: 'download' }]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('does not save downloads when the client denies them', async () => {
+    const browser = createFakeBrowser({
+      sites: { 'https://example.com/report.pdf': { html: '%PDF-1.4', headers: { 'content-type': 'application/pdf' } } },
+    });
+    const driver = await createCdpDriver({ browser });
+    await driver.send('Page.setDownloadBehavior', { behavior: 'deny' });
+    await driver.send('Page.navigate', { url: 'https://example.com/report.pdf' });
+
+    expect(driver.events('Page.downloadWillBegin')).toHaveLength(0);
+    expect((await driver.send('Page.setDownloadBehavior', { behavior: 'sometimes' })).error?.message)
+      .toBe('Invalid download behavior: sometimes');
+  });
+
+  it('closes the browser when the client disconnects', async () => {
+    const driver = await createCdpDriver();
+    await driver.close();
+    expect(driver.browser.closed).toBe(true);
+  });
+});
+
+describe('CDP shim screencast', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('forwards frames, passes acks through and stops on request', async () => {
+    const driver = await createCdpDriver();
+    const [page] = driver.browser.pages;
+
+    await driver.send('Page.startScreencast', { format: 'png', maxWidth: 640, everyNthFrame: 2 });
+    expect(page.calls.find(call => call.method === 'cdp:Page.startScreencast')?.args[0])
+      .toMatchObject({ format: 'png', maxWidth: 640, everyNthFrame: 2 });
+
+    const metadata = { offsetTop: 0, pageScaleFactor: 1, deviceWidth: 640, deviceHeight: 360, scrollOffsetX: 0, scrollOffsetY: 0 };
+    page.emitProtocol('Page.screencastFrame', { data: 'ZnJhbWUx', metadata, sessionId: 1 });
+    expect(driver.events('Page.screencastFrame').map(e => e.params)).toEqual([{ data: 'ZnJhbWUx', metadata, sessionId: 1 }]);
+
+    await driver.send('Page.screencastFrameAck', { sessionId: 1 });
+    expect(page.calls.filter(call => call.method === 'cdp:Page.screencastFrameAck').map(call => call.args[0]))
+      .toEqual([{ sessionId: 1 }]);
+
+    await driver.send('Page.stopScreencast');
+    expect(page.calls.some(call => call.method === 'cdp:Page.stopScreencast')).toBe(true);
+    page.emitProtocol('Page.screencastFrame', { data: 'ZnJhbWUy', metadata, sessionId: 2 });
+    expect(driver.events('Page.screencastFrame')).toHaveLength(1);
+  });
+
+  it('defaults to jpeg and restarts a running screencast with new options', async () => {
+    const driver = await createCdpDriver();
+    const [page] = driver.browser.pages;
+
+    await driver.send('Page.startScreencast');
+    await driver.send('Page.startScreencast', { format: 'jpeg', quality: 40 });
+
+    const starts = page.calls.filter(call => call.method === 'cdp:Page.startScreencast').map(call => call.args[0]);
+    expect(starts).toMatchObject([{ format: 'jpeg' }, { format: 'jpeg', quality: 40 }]);
+    expect(page.calls.filter(call => call.method === 'cdp:Page.stopScreencast')).toHaveLength(1);
+
+    page.emitProtocol('Page.screencastFrame', { data: 'ZnJhbWU=', metadata: {}, sessionId: 3 });
+    expect(driver.events('Page.screencastFrame')).toHaveLength(1);
+  });
+});
+
+describe('CDP shim DOM', () => {
+  const LOGIN = 'https://app.example/login';
+  const sites = {
+    [LOGIN]: {
+      title: 'Sign in',
+      html: '<html><head><title>Sign in</title></head><body><h1>Sign in</h1>'
+        + '<form><input id="user" name="user"><input id="avatar" type="file"><button class="primary">Go</button></form></body></html>',
+    },
+  };
+
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  async function openLogin() {
+    const driver = await createCdpDriver({ browser: createFakeBrowser({ sites }) });
+    await driver.send('Page.navigate', { url: LOGIN });
+    return driver;
+  }
+
+  it('maps node ids from querySelectorAll to the selected elements', async () => {
+    const driver = await openLogin();
+    const { root } = (await driver.send('DOM.getDocument')).result as { root: { nodeId: number } };
+
+    const { nodeIds } = (await driver.send('DOM.querySelectorAll', { nodeId: root.nodeId, selector: 'form input' })).result as { nodeIds: number[] };
+    expect(nodeIds).toHaveLength(2);
+    const avatar = nodeIds[1];
+    expect((await driver.send('DOM.querySelector', { nodeId: root.nodeId, selector: '#avatar' })).result).toEqual({ nodeId: avatar });
+
+    const { node } = (await driver.send('DOM.describeNode', { nodeId: avatar })).result as { node: Record<string, unknown> };
+    expect(node).toMatchObject({ nodeId: avatar, backendNodeId: avatar, localName: 'input', attributes: ['id', 'avatar', 'type', 'file'] });
+
+    // Elements are stacked 20px apart in document order: html, head, title, body, h1, form, input#user, input#avatar
+    const { model } = (await driver.send('DOM.getBoxModel', { nodeId: avatar })).result as { model: { border: number[] } };
+    expect(model.border).toEqual([0, 140, 100, 140, 100, 160, 0, 160]);
+  });
+
+  it('resolves nodes into the page world and back with requestNode', async () => {
+    const driver = await openLogin();
+    const { nodeId } = (await driver.send('DOM.querySelector', { nodeId: 0, selector: 'button.primary' })).result as { nodeId: number };
+    await driver.send('Runtime.evaluate', { expression: 'window.pageGlobal = "page"' });
+
+    const { object } = (await driver.send('DOM.resolveNode', { nodeId })).result as { object: { objectId: string; subtype: string } };
+    expect(object.subtype).toBe('node');
+    const called = await driver.send('Runtime.callFunctionOn', {
+      functionDeclaration: 'function () { return this.textContent + ":" + window.pageGlobal; }',
+      objectId: object.objectId,
+    });
+    expect(called.result).toMatchObject({ result: { value: 'Go:page' } });
+
+    expect((await driver.send('DOM.requestNode', { objectId: object.objectId })).result).toEqual({ nodeId });
+  });
+
+  it('keeps the node registry out of reach of page scripts', async () => {
+    const driver = await openLogin();
+    const { nodeIds } = (await driver.send('DOM.querySelectorAll', { nodeId: 0, selector: 'input' })).result as { nodeIds: number[] };
+
+    const probe = await driver.send('Runtime.evaluate', { expression: 'typeof window.__cdpShimNodes' });
+    expect(probe.result).toMatchObject({ result: { value: 'undefined' } });
+
+    // A hostile page tries to point the avatar's id at the user field
+    await driver.send('Runtime.evaluate', {
+      expression: 'window.__cdpShimNodes = { nodes: { get: () => ({ deref: () => document.querySelector("#user") }) } }',
+    });
+    const { node } = (await driver.send('DOM.describeNode', { nodeId: nodeIds[1] })).result as { node: { attributes: string[] } };
+    expect(node.attributes).toEqual(['id', 'avatar', 'type', 'file']);
+  });
+
+  it('fails DOM commands clearly when Puppeteer no longer exposes frame realms', async () => {
+    const driver = await openLogin();
+    delete (driver.browser.pages[0].page.mainFrame() as unknown as Record<string, unknown>).isolatedRealm;
+
+    expect((await driver.send('DOM.querySelector', { nodeId: 0, selector: '#user' })).error?.message)
+      .toBe('Unsupported Puppeteer version: Frame.isolatedRealm() is not available');
+  });
+
+  it('keeps node handles of other tabs when one tab navigates', async () => {
+    const driver = await openLogin();
+    const { nodeId } = (await driver.send('DOM.querySelector', { nodeId: 0, selector: '#user' })).result as { nodeId: number };
+    await driver.send('DOM.focus', { nodeId });
+    const [first] = driver.browser.pages;
+
+    const { targetId } = (await driver.send('Target.createTarget', { url: 'about:blank' })).result as { targetId: string };
+    const { sessionId } = (await driver.send('Target.attachToTarget', { targetId, flatten: true })).result as { sessionId: string };
+    const released = first.released.length;
+    await driver.send('Page.navigate', { url: LOGIN }, sessionId);
+
+    expect(first.released).toHaveLength(released);
+    expect((await driver.send('DOM.describeNode', { nodeId })).result).toMatchObject({ node: { attributes: ['id', 'user', 'name', 'user'] } });
+
+    await driver.send('Page.navigate', { url: LOGIN });
+    expect(first.released.length).toBeGreaterThan(released);
+    expect((await driver.send('DOM.describeNode', { nodeId })).error?.message).toMatch(/No node with given id found/);
+  });
+});
+
+describe('CDP shim accessibility', () => {
+  const FORM = 'https://app.example/form';
+  const sites: Record<string, FakeSite> = {
+    [FORM]: {
+      title: 'Sign in',
+      html: '<html><head><title>Sign in</title></head><body><main><h1>Sign in</h1>'
+        + '<input id="user" name="user"><button id="go">Go</button></main></body></html>',
+      axTree: {
+        role: 'RootWebArea',
+        name: 'Sign in',
+        children: [{
+          role: 'main',
+          selector: 'main',
+          children: [
+            { role: 'heading', name: 'Sign in', level: 1, selector: 'h1' },
+            { role: 'textbox', name: 'User', selector: '#user' },
+            { role: 'button', name: 'Go', selector: '#go', children: [{ role: 'StaticText', name: 'Go' }] },
+          ],
+        }],
+      },
+    },
+  };
+
+  interface AXNode {
+    nodeId: string;
+    role: { value: string };
+    name?: { value: string };
+    parentId?: string;
+    childIds: string[];
+    backendDOMNodeId?: number;
+  }
+
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  async function openForm() {
+    const driver = await createCdpDriver({ browser: createFakeBrowser({ sites }) });
+    await driver.send('Page.navigate', { url: FORM });
+    return driver;
+  }
+
+  async function nodeIdOf(driver: Awaited<ReturnType<typeof openForm>>, selector: string) {
+    return ((await driver.send('DOM.querySelector', { nodeId: 0, selector })).result as { nodeId: number }).nodeId;
+  }
+
+  it('gives AX nodes the DOM node ids of the elements behind them', async () => {
+    const driver = await openForm();
+    const { nodes } = (await driver.send('Accessibility.getFullAXTree')).result as { nodes: AXNode[] };
+
+    const button = nodes.find(node => node.role.value === 'button')!;
+    const buttonId = await nodeIdOf(driver, '#go');
+    expect(button).toMatchObject({ nodeId: String(buttonId), backendDOMNodeId: buttonId, name: { value: 'Go' } });
+
+    // Text nodes have no element: they get AX-only ids, and are still linked to their parent
+    const text = nodes.find(node => node.role.value === 'StaticText')!;
+    expect(text.backendDOMNodeId).toBeUndefined();
+    expect(text.nodeId).toMatch(/^ax-/);
+    expect(text.parentId).toBe(button.nodeId);
+    expect(button.childIds).toEqual([text.nodeId]);
+
+    // The id works with DOM commands and points at the same element
+    const { node } = (await driver.send('DOM.describeNode', { backendNodeId: button.backendDOMNodeId })).result as { node: { attributes: string[] } };
+    expect(node.attributes).toEqual(['id', 'go']);
+    const { model } = (await driver.send('DOM.getBoxModel', { backendNodeId: button.backendDOMNodeId })).result as { model: { border: number[] } };
+    // html, head, title, body, main, h1, input, button
+    expect(model.border.slice(0, 2)).toEqual([0, 140]);
+
+    // The same ids come back on the next snapshot
+    const again = (await driver.send('Accessibility.getFullAXTree')).result as { nodes: AXNode[] };
+    expect(again.nodes.map(n => n.nodeId).filter(id => !id.startsWith('ax-'))).toEqual(
+      nodes.map(n => n.nodeId).filter(id => !id.startsWith('ax-'))
+    );
+  });
+
+  it('queries the AX tree by role and accessible name', async () => {
+    const driver = await openForm();
+
+    const { nodes } = (await driver.send('Accessibility.queryAXTree', { role: 'textbox', accessibleName: 'User' })).result as { nodes: AXNode[] };
+    expect(nodes.map(node => node.backendDOMNodeId)).toEqual([await nodeIdOf(driver, '#user')]);
+
+    const mainId = await nodeIdOf(driver, 'main');
+    const inMain = (await driver.send('Accessibility.queryAXTree', { nodeId: mainId, accessibleName: 'Sign in' })).result as { nodes: AXNode[] };
+    expect(inMain.nodes.map(node => node.role.value)).toEqual(['heading']);
+  });
+
+  it('returns a node with its relatives, or alone with fetchRelatives false', async () => {
+    const driver = await openForm();
+    const userId = await nodeIdOf(driver, '#user');
+
+    const { nodes } = (await driver.send('Accessibility.getPartialAXTree', { nodeId: userId })).result as { nodes: AXNode[] };
+    expect(nodes.map(node => node.role.value)).toEqual(['RootWebArea', 'main', 'heading', 'textbox', 'button']);
+    expect(nodes.find(node => node.role.value === 'textbox')?.backendDOMNodeId).toBe(userId);
+
+    const buttonId = await nodeIdOf(driver, '#go');
+    const alone = (await driver.send('Accessibility.getPartialAXTree', { nodeId: buttonId, fetchRelatives: false })).result as { nodes: AXNode[] };
+    expect(alone.nodes.map(node => node.role.value)).toEqual(['button', 'StaticText']);
+    expect(alone.nodes[0].nodeId).toBe(String(buttonId));
+  });
+});
+
+describe('CDP shim session limits', () => {
+  beforeEach(() => {
+    suppressConsole();
+    resetCdpSessionCounters();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('detaches and closes an idle session', async () => {
+    vi.useFakeTimers();
+    const driver = await createCdpDriver({ env: { CDP_IDLE_TIMEOUT_SECONDS: '60' } });
+    await driver.send('Target.setAutoAttach', { autoAttach: true, flatten: true });
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    await driver.send('Browser.getVersion');
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(driver.closed).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(driver.closed).toEqual({ code: 1008, reason: 'Session idle timeout' });
+    expect(driver.events('Inspector.detached').map(e => e.sessionId)).toEqual([expect.any(String), undefined]);
+    expect(driver.browser.closed).toBe(true);
+
+    const { counters } = await getCdpSessionStats(driver.browser.launcher, driver.env);
+    expect(counters).toMatchObject({ opened: 1, active: 0, closed: { idle: 1 } });
+  });
+
+  it('ends the session at the lifetime limit even while active', async () => {
+    vi.useFakeTimers();
+    const driver = await createCdpDriver({
+      env: { CDP_MAX_SESSION_SECONDS: '120', CDP_IDLE_TIMEOUT_SECONDS: '60' },
+      grant: { tokenId: 'token-1', scope: { maxSessionSeconds: 90 } },
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await vi.advanceTimersByTimeAsync(29_000);
+      await driver.send('Browser.getVersion');
+    }
+    expect(driver.closed).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(driver.closed?.reason).toBe('Session time limit reached');
+    expect((await getCdpSessionStats(driver.browser.launcher, driver.env)).counters.closed.lifetime).toBe(1);
+  });
+
+  it('refuses to open more targets than the limit', async () => {
+    const driver = await createCdpDriver({ env: { CDP_MAX_TARGETS: '2' } });
+
+    expect((await driver.send('Target.createTarget', { url: 'about:blank' })).error).toBeUndefined();
+    expect((await driver.send('Target.createTarget', { url: 'about:blank' })).error?.message)
+      .toBe('Target limit reached: at most 2 pages per session');
+    expect(driver.browser.pages).toHaveLength(2);
+  });
+
+  it('rejects messages over the size limit', async () => {
+    const driver = await createCdpDriver({ env: { CDP_MAX_MESSAGE_BYTES: '200' } });
+
+    const response = await driver.send('Runtime.evaluate', { expression: `'${'x'.repeat(200)}'` });
+    expect(response.error).toEqual({ code: -32600, message: 'Message exceeds the 200 byte limit' });
+    expect((await driver.send('Browser.getVersion')).error).toBeUndefined();
+
+    const { counters } = await getCdpSessionStats(driver.browser.launcher, driver.env);
+    expect(counters.rejected.messageSize).toBe(1);
+  });
+
+  it('refuses screenshots and viewports over the pixel limit', async () => {
+    const driver = await createCdpDriver({ env: { CDP_MAX_SCREENSHOT_PIXELS: '1000000' } });
+    const clip = { x: 0, y: 0, width: 2000, height: 2000, scale: 1 };
+    expect((await driver.send('Page.captureScreenshot', { clip })).error?.message)
+      .toBe('Screenshot size limit reached: at most 1000000 pixels');
+    expect((await driver.send('Page.captureScreenshot', { clip: { ...clip, width: 500 } })).error).toBeUndefined();
+
+    const viewport = { width: 800, height: 600, deviceScaleFactor: 2, mobile: false };
+    expect((await driver.send('Emulation.setDeviceMetricsOverride', viewport)).error?.message)
+      .toBe('Screenshot size limit reached: at most 1000000 pixels');
+    expect((await driver.send('Page.captureScreenshot', {})).error).toBeUndefined();
+
+    const { counters } = await getCdpSessionStats(driver.browser.launcher, driver.env);
+    expect(counters.rejected.screenshotSize).toBe(2);
+  });
+
+  it('counts a client disconnect', async () => {
+    const driver = await createCdpDriver();
+    await driver.close();
+    await driver.close();
+
+    const { counters } = await getCdpSessionStats(driver.browser.launcher, driver.env);
+    expect(counters).toMatchObject({ opened: 1, active: 0, closed: { client: 1, idle: 0, lifetime: 0 } });
+  });
+  it('cleans up after a client that disconnects while the browser launches', async () => {
+    let client: CdpDriver | undefined;
+    const opening = createCdpDriver({ onConnect: (driver) => { client = driver; } });
+    await client!.close();
+    const driver = await opening;
+
+    expect(driver.browser.closed).toBe(true);
+    const { counters } = await getCdpSessionStats(driver.browser.launcher, driver.env);
+    expect(counters).toMatchObject({ opened: 1, active: 0, closed: { client: 1 } });
+  });
+
+  it('releases the browser when setup fails', async () => {
+    const browser = createFakeBrowser();
+    (browser.browser as unknown as { createBrowserContext: () => Promise<unknown> }).createBrowserContext = async () => ({
+      newPage: async () => { throw new Error('target crashed'); },
+      close: async () => {},
+    });
+
+    const driver = await createCdpDriver({ browser });
+
+    expect(driver.closed).toEqual({ code: 1011, reason: 'Browser launch failed' });
+    expect(browser.closed).toBe(true);
+    const { counters } = await getCdpSessionStats(browser.launcher, driver.env);
+    expect(counters).toMatchObject({ opened: 0, active: 0 });
+  });
+});
+
+describe('CDP shim browser profiles', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  async function browseWithProfile(grant?: CdpGrant) {
+    const driver = await createCdpDriver({ profile: 'work', grant });
+    await driver.send('Page.navigate', { url: 'https://app.example/' });
+    await driver.send('Network.setCookie', { name: 'sid', value: 's3cret', domain: 'app.example', path: '/' });
+    await driver.send('Runtime.evaluate', { expression: 'localStorage.setItem("theme", "dark")' });
+    await driver.close();
+    return driver;
+  }
+
+  it('saves cookies and localStorage at close and restores them in the next session', async () => {
+    const first = await browseWithProfile();
+
+    const saved = await loadProfile(first.env.MOLTBOT_BUCKET, 'work');
+    expect(saved?.cookies).toMatchObject([{ name: 'sid', value: 's3cret', domain: 'app.example' }]);
+    expect(saved?.localStorage).toEqual({ 'https://app.example': { theme: 'dark' } });
+
+    const browser = createFakeBrowser();
+    await createCdpDriver({ browser, profile: 'work', env: { MOLTBOT_BUCKET: first.env.MOLTBOT_BUCKET } });
+    expect(browser.cookies).toMatchObject([{ name: 'sid', value: 's3cret' }]);
+    const injected = browser.pages[0].calls.find(call => call.method === 'evaluateOnNewDocument');
+    expect(injected?.args[1]).toEqual({ 'https://app.example': { theme: 'dark' } });
+  });
+
+  it('does not save profiles for read-only tokens', async () => {
+    const driver = await browseWithProfile({ tokenId: 'token-1', scope: { readOnly: true } });
+    expect(await loadProfile(driver.env.MOLTBOT_BUCKET, 'work')).toBeNull();
+  });
+});
+
+describe('CDP REST browser endpoints', () => {
+  const SECRET = 'cdp-secret-value';
+  const DOCS = 'https://docs.example/start';
+  const sites: Record<string, FakeSite> = {
+    [DOCS]: {
+      title: 'Docs',
+      html: '<html><head><title>Docs</title></head><body><h1>Intro</h1>'
+        + '<p>Read the <a href="/guide">guide</a> first.</p><ul><li>One</li><li>Two</li></ul></body></html>',
+    },
+  };
+
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createBrowserApi() {
+    const browser = createFakeBrowser({ sites });
+    browserApi.launcher = browser.launcher;
+    const env = createMockEnv({
+      CDP_SECRET: SECRET,
+      BROWSER: {} as Fetcher,
+      MOLTBOT_BUCKET: createMockBucket().bucket,
+      CDP_POOL_IDLE_SECONDS: '0',
+    });
+
+    const app = new Hono<AppEnv>();
+    app.use('*', async (c, next) => {
+      c.set('logger', createLogger('http'));
+      await next();
+    });
+    app.route('/cdp', cdp);
+
+    const request = async (path: string, init?: RequestInit) => {
+      const pending: Promise<unknown>[] = [];
+      const ctx = { waitUntil: (p: Promise<unknown>) => pending.push(p), passThroughOnException: () => {}, props: {} };
+      const response = await app.request(path, init, env, ctx as unknown as ExecutionContext);
+      await Promise.all(pending);
+      return response;
+    };
+    const post = (path: string, body: Record<string, unknown>) => request(path, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${SECRET}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { browser, env, request, post };
+  }
+
+  it('requires CDP credentials', async () => {
+    const { request } = createBrowserApi();
+    const response = await request('/cdp/browser/content', { method: 'POST', body: JSON.stringify({ url: DOCS }) });
+    expect(response.status).toBe(401);
+  });
+
+  it('takes screenshots with the requested viewport, type and quality', async () => {
+    const { browser, post } = createBrowserApi();
+    const response = await post('/cdp/browser/screenshot', {
+      url: DOCS,
+      type: 'jpeg',
+      quality: 60,
+      fullPage: true,
+      viewport: { width: 800, height: 600 },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/jpeg');
+    const [page] = browser.pages;
+    expect(page.calls.find(call => call.method === 'setViewport')?.args).toEqual([{ width: 800, height: 600 }]);
+    expect(page.calls.find(call => call.method === 'goto')?.args[0]).toBe(DOCS);
+    expect(page.calls.find(call => call.method === 'screenshot')?.args).toEqual([{ type: 'jpeg', quality: 60, fullPage: true }]);
+    expect(browser.closed).toBe(true);
+  });
+
+  it('screenshots a single element by selector', async () => {
+    const { browser, post } = createBrowserApi();
+
+    const found = await post('/cdp/browser/screenshot', { html: '<p id="note">hi</p>', selector: '#note' });
+    expect(found.status).toBe(200);
+    expect(found.headers.get('Content-Type')).toBe('image/png');
+    expect(browser.pages[0].calls.some(call => call.method === 'screenshot')).toBe(false);
+
+    const missing = await post('/cdp/browser/screenshot', { html: '<p id="note">hi</p>', selector: '#other' });
+    expect(missing.status).toBe(502);
+    expect(await missing.json()).toMatchObject({ details: 'No element matches selector: #other' });
+  });
+
+  it('returns content as html, text or markdown', async () => {
+    const { post } = createBrowserApi();
+
+    const html = await post('/cdp/browser/content', { url: DOCS });
+    expect(html.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    expect(await html.text()).toBe(sites[DOCS].html);
+
+    const text = await post('/cdp/browser/content', { url: DOCS, format: 'text' });
+    expect(await text.text()).toBe('Intro Read the guide first. One Two');
+
+    const markdown = await post('/cdp/browser/content', { url: DOCS, format: 'markdown' });
+    expect(markdown.headers.get('Content-Type')).toBe('text/markdown; charset=utf-8');
+    expect(await markdown.text()).toBe('# Docs\n\n# Intro\n\nRead the [guide](https://docs.example/guide) first.\n\n- One\n- Two\n');
+
+    expect((await post('/cdp/browser/content', { url: DOCS, format: 'pdf' })).status).toBe(400);
+  });
+
+  it('evaluates expressions and requires one', async () => {
+    const { post } = createBrowserApi();
+
+    const response = await post('/cdp/browser/evaluate', { url: DOCS, expression: 'document.title' });
+    expect(await response.json()).toEqual({ result: 'Docs' });
+    expect((await post('/cdp/browser/evaluate', { url: DOCS })).status).toBe(400);
+  });
+
+  it('refuses URLs the navigation policy blocks', async () => {
+    const { browser, post } = createBrowserApi();
+    const response = await post('/cdp/browser/pdf', { url: 'http://169.254.169.254/latest/meta-data/' });
+
+    expect(response.status).toBe(403);
+    expect(browser.pages).toHaveLength(0);
+  });
+
+  it('stores results behind signed links that expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { request, post } = createBrowserApi();
+
+    const stored = await post('/cdp/browser/content', { url: DOCS, format: 'text', store: true, expiresIn: 60 });
+    const { url, contentType } = await stored.json() as { url: string; contentType: string };
+    expect(contentType).toBe('text/plain; charset=utf-8');
+
+    const link = new URL(url);
+    const download = await request(link.pathname + link.search);
+    expect(download.status).toBe(200);
+    expect(download.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+    expect(await download.text()).toBe('Intro Read the guide first. One Two');
+
+    const tampered = new URL(link);
+    tampered.searchParams.set('expires', String(Number(link.searchParams.get('expires')) + 3600));
+    expect((await request(tampered.pathname + tampered.search)).status).toBe(403);
+
+    vi.setSystemTime(Date.now() + 61_000);
+    expect((await request(link.pathname + link.search)).status).toBe(410);
+  });
+});
@@ -1,6 +1,77 @@
-import { Hono } from 'hono';
+import { Hono, type Context, type Next } from 'hono';
 import type { AppEnv, OpenClawEnv } from '../types';
-import puppeteer, { type Browser, type Page } from '@cloudflare/puppeteer';
+import { createLogger, type Logger } from '../logger';
+import {
+  CDP_BLOCKED_LOG_LIMIT,
+  CDP_DOWNLOAD_MAX_BYTES,
+  CDP_RECORDING_FLUSH_INTERVAL_MS,
+  CDP_RECORDING_SCREENSHOT_INTERVAL_MS,
+  WORKER_STATE_PREFIX,
+} from '../config';
+import {
+  FULL_CDP_GRANT,
+  acquireBrowser,
+  checkNavigation,
+  countActiveBrowserSessions,
+  createDebuggerUrlToken,
+  createProfile,
+  createRecording,
+  deleteDownload,
+  getCdpSessionLimits,
+  getDownloadBody,
+  getDownloadInfo,
+  getNavigationPolicy,
+  getSuggestedFilename,
+  isDownloadResponse,
+  isMethodAllowed,
+  isValidProfileName,
+  listDownloads,
+  loadProfile,
+  pruneRecordings,
+  recordBlockedNavigations,
+  recordCdpTokenUse,
+  recordConsoleMessage,
+  recordNavigation,
+  recordPageTiming,
+  recordRequest,
+  recordRequestFailed,
+  recordRequestFinished,
+  recordResponse,
+  recordScreenshot,
+  releaseBrowser,
+  saveDownload,
+  saveProfile,
+  saveRecording,
+  trackLimitRejection,
+  trackSessionClosed,
+  trackSessionOpened,
+  updateProfile,
+  verifyCdpToken,
+  type BlockedNavigation,
+  type BrowserLauncher,
+  type BrowserProfile,
+  type CdpCloseReason,
+  type CdpGrant,
+  type CdpSessionLimits,
+  type DownloadInfo,
+  type NavigationPolicy,
+  type ProfileCookie,
+  type SessionRecording,
+} from '../cdp';
+import puppeteer, {
+  type Browser,
+  type BrowserContext,
+  type CDPSession as BrowserCDPSession,
+  type CookieParam,
+  type ElementHandle,
+  type Frame,
+  type HTTPRequest,
+  type HTTPResponse,
+  type JSHandle,
+  type Page,
+} from '@cloudflare/puppeteer';
+
+const cdpLogger = createLogger('cdp');
 
 /**
  * CDP (Chrome DevTools Protocol) WebSocket shim
@@ -8,21 +79,66 @@ import puppeteer, { type Browser, type Page } from '@cloudflare/puppeteer';
  * Implements a subset of the CDP protocol over WebSocket, translating commands
  * to Cloudflare Browser Rendering binding calls (Puppeteer interface).
  * 
- * Authentication: Pass secret as query param `?secret=<secret>` on WebSocket connect.
- * This route is intentionally NOT protected by Cloudflare Access.
+ * Authentication: a scoped token from POST /api/admin/cdp/tokens (header or `?token=`),
+ * or CDP_SECRET itself for full access. This route is intentionally NOT protected by
+ * Cloudflare Access.
+ * 
+ * Recording: connect with `?record=true` to save a HAR of the session, with console
+ * output and periodic screenshots, to R2 (listed under /api/admin/cdp/recordings).
+ * 
+ * Limits: sessions are closed (after Inspector.detached) at CDP_MAX_SESSION_SECONDS or
+ * after CDP_IDLE_TIMEOUT_SECONDS without a message; see src/cdp/limits.ts for the rest.
+ * 
+ * Profiles: connect with `?profile=<name>` to start with the cookies and localStorage
+ * saved under that name, and save them back when the session closes.
  * 
+ * Downloads: files a page downloads are stored in R2 and fetched with
+ * GET /cdp/downloads/:guid, using the guid from the download events.
+ *
+ * Flattened sessions: Target.attachToTarget and Target.setAutoAttach return a sessionId;
+ * commands that carry it are routed to that target's page, and events for the page
+ * are tagged with it.
+ *
  * Supported CDP domains:
- * - Browser: getVersion, close
- * - Target: createTarget, closeTarget, getTargets
- * - Page: navigate, reload, getFrameTree, captureScreenshot, getLayoutMetrics
- * - Runtime: evaluate
- * - DOM: getDocument, querySelector, querySelectorAll, getOuterHTML, getAttributes
+ * - Browser: getVersion, close, setDownloadBehavior (emits downloadWillBegin, downloadProgress)
+ * - Target: createTarget, closeTarget, getTargets, getTargetInfo, activateTarget, attachToTarget,
+ *   detachFromTarget, setAutoAttach, setDiscoverTargets, createBrowserContext,
+ *   disposeBrowserContext, getBrowserContexts
+ * - Page: navigate, reload, getFrameTree, setLifecycleEventsEnabled, createIsolatedWorld,
+ *   captureScreenshot, getLayoutMetrics, startScreencast, screencastFrameAck, stopScreencast,
+ *   setDownloadBehavior (emits frameAttached, frameDetached, frameNavigated, lifecycleEvent,
+ *   screencastFrame, downloadWillBegin, downloadProgress)
+ * - Runtime: enable, disable, evaluate, callFunctionOn, getProperties, addBinding, removeBinding
+ *   (emits executionContextCreated, executionContextDestroyed, consoleAPICalled, exceptionThrown,
+ *   bindingCalled); one context per frame and world
+ * - Log: enable, disable, clear (emits entryAdded)
+ * - Performance: enable, disable, getMetrics
+ * - Accessibility: enable, disable, getFullAXTree, getPartialAXTree, queryAXTree
+ * - DOM: getDocument, describeNode, resolveNode, requestNode, querySelector, querySelectorAll,
+ *   getOuterHTML, getAttributes
  * - Input: dispatchMouseEvent, dispatchKeyEvent, insertText
- * - Network: enable, disable, setCacheDisabled
- * - Emulation: setDeviceMetricsOverride, setUserAgentOverride
+ * - Network: enable, disable, getResponseBody, setCacheDisabled (emits requestWillBeSent,
+ *   responseReceived, loadingFinished, loadingFailed)
+ * - Emulation: setDeviceMetricsOverride, setUserAgentOverride, setFocusEmulationEnabled
  */
 const cdp = new Hono<AppEnv>();
 
+/** Largest response body buffered for getResponseBody */
+const MAX_RESPONSE_BODY_BYTES = 5 * 1024 * 1024;
+
+/** Total response body bytes buffered per session before the oldest are evicted */
+const MAX_BUFFERED_BODY_BYTES = 25 * 1024 * 1024;
+
+/** Default navigation/render timeout for the REST browser endpoints */
+const BROWSER_API_TIMEOUT_MS = 30_000;
+
+/** R2 key prefix for REST browser results stored with `store: true` */
+const BROWSER_ARTIFACT_PREFIX = `${WORKER_STATE_PREFIX}browser/`;
+
+/** Default and maximum lifetime of signed artifact links, in seconds */
+const BROWSER_ARTIFACT_TTL_SECONDS = 60 * 60;
+const BROWSER_ARTIFACT_MAX_TTL_SECONDS = 7 * 24 * 60 * 60;
+
 /**
  * CDP Message types
  */
@@ -30,40 +146,190 @@ interface CDPRequest {
   id: number;
   method: string;
   params?: Record<string, unknown>;
+  sessionId?: string;
 }
 
 interface CDPResponse {
   id: number;
   result?: unknown;
   error?: { code: number; message: string };
+  sessionId?: string;
 }
 
 interface CDPEvent {
   method: string;
   params?: Record<string, unknown>;
+  sessionId?: string;
 }
 
 /**
  * Session state for a CDP connection
  */
+interface FetchPattern {
+  urlPattern?: string;
+  requestStage?: string;
+}
+
+type DownloadBehavior = 'default' | 'allow' | 'allowAndName' | 'deny';
+
+/**
+ * A JavaScript world commands can run in: a frame's main world or an isolated world
+ */
+interface ExecutionContext {
+  page: Page;
+  frame: Frame;
+  worldName: string | null;  // null for the frame's main world
+}
+
+type ExecutionRealm = Pick<Frame, 'evaluate' | 'evaluateHandle'>;
+
 interface CDPSession {
   browser: Browser;
+  context: BrowserContext;  // the client's default browser context, closed when the browser is released
+  bucket: R2Bucket;  // for recording blocked navigations
+  blockedNavigations: BlockedNavigation[];  // recorded to R2 when the session ends
+  grant: CdpGrant;  // what the connecting token allows
+  policy: NavigationPolicy;  // deployment policy with the token's overrides
+  limits: CdpSessionLimits;
   pages: Map<string, Page>;  // targetId -> Page
   defaultTargetId: string;
-  nodeIdCounter: number;
-  nodeMap: Map<number, string>;  // nodeId -> selector path
-  objectIdCounter: number;
-  objectMap: Map<string, unknown>;  // objectId -> value (for Runtime.getProperties)
+  defaultBrowserContextId: string;
+  browserContexts: Map<string, BrowserContext>;  // browserContextId -> context from Target.createBrowserContext
+  targetContexts: Map<string, string>;  // targetId -> browserContextId (absent for the default context)
+  attachedSessions: Map<string, string>;  // sessionId -> targetId
+  autoAttach: boolean;
+  nodeIdCounter: number;  // next node id; shared across documents so stale ids never match new nodes
+  nodeMap: Map<number, { page: Page; handle: ElementHandle<Node> }>;  // nodeId -> handle to the DOM node, in its page's node realm
+  objectMap: Map<string, JSHandle>;  // objectId -> handle to the remote object
   scriptsToEvaluateOnNewDocument: Map<string, string>;  // identifier -> source
   extraHTTPHeaders: Map<string, string>;  // header name -> value
-  requestInterceptionEnabled: boolean;
+  fetchPatterns: Map<Page, FetchPattern[]>;  // pages with Fetch.enable active -> patterns (empty = all)
   pendingRequests: Map<string, { request: Request; resolve: (response: Response) => void }>;
+  requestIds: WeakMap<HTTPRequest, string>;  // Puppeteer request -> CDP requestId
+  networkEnabledPages: Set<Page>;  // pages with Network.enable active
+  networkListenerPages: WeakSet<Page>;  // pages with request listeners attached
+  responseBodies: Map<string, { body: string; base64Encoded: boolean; size: number }>;  // requestId -> body
+  responseBodyBytes: number;
+  frameIds: WeakMap<Frame, string>;  // child frame -> CDP frameId (a main frame uses its page's targetId)
+  executionContexts: Map<number, ExecutionContext>;  // contextId -> world; dropped when its document goes away
+  executionContextCounter: number;
+  objectContexts: Map<string, number>;  // objectId -> contextId of the world the object lives in
+  isolatedWorldNames: Set<string>;  // worlds from addScriptToEvaluateOnNewDocument, created in every new document
+  exceptionIdCounter: number;
+  runtimeEnabledPages: Set<Page>;  // pages with Runtime.enable active
+  logEnabledPages: Set<Page>;  // pages with Log.enable active
+  lifecycleEventPages: Set<Page>;  // pages with Page.setLifecycleEventsEnabled on
+  loaderIds: WeakMap<Frame, string>;  // frame -> loaderId of its document: the requestId of the navigation that loaded it
+  runtimeListenerPages: WeakSet<Page>;  // pages with console/error listeners attached
+  bindings: Map<Page, Set<string>>;  // page -> names added with Runtime.addBinding
+  screencasts: Map<Page, BrowserCDPSession>;  // page -> browser session streaming its screencast
+  recording: SessionRecording | null;  // set when the client connected with ?record=true
+  downloadBehavior: DownloadBehavior;  // from Browser/Page.setDownloadBehavior; only 'deny' stops capture
+  downloadEventsEnabled: boolean;  // Browser.setDownloadBehavior eventsEnabled
+  profile: BrowserProfile | null;  // set when the client connected with ?profile=<name>
+  logger: Logger;  // tagged with the session's target and token
+}
+
+/**
+ * Authenticate a CDP request
+ *
+ * Accepts CDP_SECRET (full access) or a token minted by the admin API (scoped),
+ * either as `Authorization: Bearer <value>`, `?token=<token>` or the legacy
+ * `?secret=<CDP_SECRET>`. Token uses are counted in the background.
+ *
+ * @returns The caller's grant, or an error response
+ */
+async function authorizeCdpRequest(c: Context<AppEnv>): Promise<CdpGrant | Response> {
+  const expectedSecret = c.env.CDP_SECRET;
+  if (!expectedSecret) {
+    return c.json({
+      error: 'CDP endpoint not configured',
+      hint: 'Set CDP_SECRET via: wrangler secret put CDP_SECRET',
+    }, 503);
+  }
+
+  const bearer = c.req.header('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const credential = bearer || c.req.query('token') || c.req.query('secret');
+  if (!credential) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  let grant: CdpGrant;
+  if (timingSafeEqual(credential, expectedSecret)) {
+    grant = FULL_CDP_GRANT;
+  } else {
+    try {
+      grant = await verifyCdpToken(c.env, credential);
+    } catch (err) {
+      return c.json({
+        error: 'Unauthorized',
+        details: err instanceof Error ? err.message : 'Invalid token',
+      }, 401);
+    }
+  }
+
+  if (!c.env.BROWSER) {
+    return c.json({
+      error: 'Browser Rendering not configured',
+      hint: 'Add browser binding to wrangler.jsonc',
+    }, 503);
+  }
+
+  if (grant.tokenId) {
+    const tokenId = grant.tokenId;
+    c.executionCtx.waitUntil(
+      recordCdpTokenUse(c.env.MOLTBOT_BUCKET, tokenId).catch((err) => {
+        c.get('logger').error('Failed to record token use', { component: 'cdp', tokenId, error: err });
+      })
+    );
+  }
+
+  c.set('cdpGrant', grant);
+  return grant;
+}
+
+/**
+ * Middleware requiring CDP credentials (see authorizeCdpRequest)
+ */
+async function requireCdpAuth(c: Context<AppEnv>, next: Next) {
+  const grant = await authorizeCdpRequest(c);
+  if (grant instanceof Response) return grant;
+  return next();
+}
+
+cdp.use('/json', requireCdpAuth);
+cdp.use('/json/*', requireCdpAuth);
+cdp.use('/browser/*', requireCdpAuth);
+cdp.use('/downloads', requireCdpAuth);
+cdp.use('/downloads/*', requireCdpAuth);
+
+/**
+ * Whether the client asked for the session to be recorded (`?record=true`)
+ */
+function isRecordingRequested(c: Context<AppEnv>): boolean {
+  const record = c.req.query('record');
+  return record === 'true' || record === '1';
+}
+
+/**
+ * Build the webSocketDebuggerUrl for discovery responses
+ *
+ * The URL carries a short-lived token with the caller's grant rather than
+ * CDP_SECRET, so the secret never ends up in client logs or configs.
+ */
+async function buildDebuggerUrl(c: Context<AppEnv>, url: URL): Promise<string> {
+  const token = await createDebuggerUrlToken(c.env, c.get('cdpGrant') ?? FULL_CDP_GRANT);
+  const wsProtocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  const record = isRecordingRequested(c) ? '&record=true' : '';
+  const profile = c.req.query('profile');
+  const profileParam = profile ? `&profile=${encodeURIComponent(profile)}` : '';
+  return `${wsProtocol}//${url.host}/cdp?token=${encodeURIComponent(token)}${record}${profileParam}`;
 }
 
 /**
  * GET /cdp - WebSocket upgrade endpoint
  * 
- * Connect with: ws://host/cdp?secret=<CDP_SECRET>
+ * Connect with: ws://host/cdp?token=<token> (or ?secret=<CDP_SECRET>)
  */
 cdp.get('/', async (c) => {
   // Check for WebSocket upgrade
@@ -71,22 +337,36 @@ cdp.get('/', async (c) => {
   if (upgradeHeader?.toLowerCase() !== 'websocket') {
     return c.json({
       error: 'WebSocket upgrade required',
-      hint: 'Connect via WebSocket: ws://host/cdp?secret=<CDP_SECRET>',
+      hint: 'Connect via WebSocket: ws://host/cdp?token=<token> (or ?secret=<CDP_SECRET>)',
       supported_methods: [
         // Browser
         'Browser.getVersion',
         'Browser.close',
+        'Browser.setDownloadBehavior',
         // Target
         'Target.createTarget',
         'Target.closeTarget',
         'Target.getTargets',
+        'Target.getTargetInfo',
+        'Target.activateTarget',
         'Target.attachToTarget',
+        'Target.detachFromTarget',
+        'Target.setAutoAttach',
+        'Target.setDiscoverTargets',
+        'Target.createBrowserContext',
+        'Target.disposeBrowserContext',
+        'Target.getBrowserContexts',
         // Page
         'Page.navigate',
         'Page.reload',
         'Page.captureScreenshot',
         'Page.getFrameTree',
+        'Page.setLifecycleEventsEnabled',
+        'Page.createIsolatedWorld',
         'Page.getLayoutMetrics',
+        'Page.startScreencast',
+        'Page.screencastFrameAck',
+        'Page.stopScreencast',
         'Page.bringToFront',
         'Page.setContent',
         'Page.printToPDF',
@@ -97,14 +377,37 @@ cdp.get('/', async (c) => {
         'Page.getNavigationHistory',
         'Page.navigateToHistoryEntry',
         'Page.setBypassCSP',
+        'Page.setDownloadBehavior',
         // Runtime
         'Runtime.evaluate',
         'Runtime.callFunctionOn',
         'Runtime.getProperties',
         'Runtime.releaseObject',
         'Runtime.releaseObjectGroup',
+        'Runtime.runIfWaitingForDebugger',
+        'Runtime.addBinding',
+        'Runtime.removeBinding',
+        'Runtime.enable',
+        'Runtime.disable',
+        // Log
+        'Log.enable',
+        'Log.disable',
+        'Log.clear',
+        // Performance
+        'Performance.enable',
+        'Performance.disable',
+        'Performance.getMetrics',
+        // Accessibility
+        'Accessibility.enable',
+        'Accessibility.disable',
+        'Accessibility.getFullAXTree',
+        'Accessibility.getPartialAXTree',
+        'Accessibility.queryAXTree',
         // DOM
         'DOM.getDocument',
+        'DOM.describeNode',
+        'DOM.resolveNode',
+        'DOM.requestNode',
         'DOM.querySelector',
         'DOM.querySelectorAll',
         'DOM.getOuterHTML',
@@ -123,6 +426,7 @@ cdp.get('/', async (c) => {
         // Network
         'Network.enable',
         'Network.disable',
+        'Network.getResponseBody',
         'Network.setCacheDisabled',
         'Network.setExtraHTTPHeaders',
         'Network.setCookie',
@@ -148,31 +452,39 @@ cdp.get('/', async (c) => {
         'Emulation.setTouchEmulationEnabled',
         'Emulation.setEmulatedMedia',
         'Emulation.setDefaultBackgroundColorOverride',
+        'Emulation.setFocusEmulationEnabled',
       ],
     });
   }
 
-  // Verify secret from query param
-  const url = new URL(c.req.url);
-  const providedSecret = url.searchParams.get('secret');
-  const expectedSecret = c.env.CDP_SECRET;
+  const grant = await authorizeCdpRequest(c);
+  if (grant instanceof Response) return grant;
 
-  if (!expectedSecret) {
+  const profile = c.req.query('profile');
+  if (profile !== undefined && !isValidProfileName(profile)) {
     return c.json({
-      error: 'CDP endpoint not configured',
-      hint: 'Set CDP_SECRET via: wrangler secret put CDP_SECRET',
-    }, 503);
-  }
-
-  if (!providedSecret || !timingSafeEqual(providedSecret, expectedSecret)) {
-    return c.json({ error: 'Unauthorized' }, 401);
+      error: 'Invalid profile name',
+      hint: 'Use up to 64 letters, digits, ".", "_" or "-"',
+    }, 400);
   }
 
-  if (!c.env.BROWSER) {
-    return c.json({
-      error: 'Browser Rendering not configured',
-      hint: 'Add browser binding to wrangler.jsonc',
-    }, 503);
+  // Browser Rendering counts connected sessions account-wide, so this holds across isolates
+  const { maxConcurrentSessions } = getCdpSessionLimits(c.env, grant.scope);
+  if (maxConcurrentSessions) {
+    let active = 0;
+    try {
+      active = await countActiveBrowserSessions(puppeteer, c.env);
+    } catch (err) {
+      c.get('logger').error('Failed to count active sessions', { component: 'cdp', error: err });
+    }
+    if (active >= maxConcurrentSessions) {
+      trackLimitRejection('concurrency');
+      return c.json({
+        error: 'Too many concurrent CDP sessions',
+        details: `${active} of ${maxConcurrentSessions} browser sessions are in use`,
+        hint: 'Close another session or raise CDP_MAX_CONCURRENT_SESSIONS',
+      }, 429);
+    }
   }
 
   // Create WebSocket pair
@@ -183,8 +495,9 @@ cdp.get('/', async (c) => {
   server.accept();
 
   // Initialize CDP session asynchronously
-  initCDPSession(server, c.env).catch((err) => {
-    console.error('[CDP] Failed to initialize session:', err);
+  const logger = c.get('logger').child({ component: 'cdp' });
+  initCDPSession(server, c.env, grant, { record: isRecordingRequested(c), profile, logger }).catch((err) => {
+    logger.error('Failed to initialize session', { error: err });
     server.close(1011, 'Failed to initialize browser session');
   });
 
@@ -198,35 +511,12 @@ cdp.get('/', async (c) => {
  * GET /json/version - CDP discovery endpoint
  * 
  * Returns browser version info and WebSocket URL for OpenClaw/Playwright compatibility.
- * Authentication: Pass secret as query param `?secret=<CDP_SECRET>`
+ * Authentication: see authorizeCdpRequest
  */
 cdp.get('/json/version', async (c) => {
-  // Verify secret from query param
   const url = new URL(c.req.url);
-  const providedSecret = url.searchParams.get('secret');
-  const expectedSecret = c.env.CDP_SECRET;
-
-  if (!expectedSecret) {
-    return c.json({
-      error: 'CDP endpoint not configured',
-      hint: 'Set CDP_SECRET via: wrangler secret put CDP_SECRET',
-    }, 503);
-  }
-
-  if (!providedSecret || !timingSafeEqual(providedSecret, expectedSecret)) {
-    return c.json({ error: 'Unauthorized' }, 401);
-  }
-
-  if (!c.env.BROWSER) {
-    return c.json({
-      error: 'Browser Rendering not configured',
-      hint: 'Add browser binding to wrangler.jsonc',
-    }, 503);
-  }
 
-  // Build the WebSocket URL - preserve the secret in the WS URL
-  const wsProtocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
-  const wsUrl = `${wsProtocol}//${url.host}/cdp?secret=${encodeURIComponent(providedSecret)}`;
+  const wsUrl = await buildDebuggerUrl(c, url);
 
   return c.json({
     'Browser': 'Cloudflare-Browser-Rendering/1.0',
@@ -244,35 +534,12 @@ cdp.get('/json/version', async (c) => {
  * Returns a list of available browser targets for OpenClaw/Playwright compatibility.
  * Note: Since we create targets on-demand per WebSocket connection, this returns
  * a placeholder target that will be created when connecting.
- * Authentication: Pass secret as query param `?secret=<CDP_SECRET>`
+ * Authentication: see authorizeCdpRequest
  */
 cdp.get('/json/list', async (c) => {
-  // Verify secret from query param
   const url = new URL(c.req.url);
-  const providedSecret = url.searchParams.get('secret');
-  const expectedSecret = c.env.CDP_SECRET;
-
-  if (!expectedSecret) {
-    return c.json({
-      error: 'CDP endpoint not configured',
-      hint: 'Set CDP_SECRET via: wrangler secret put CDP_SECRET',
-    }, 503);
-  }
-
-  if (!providedSecret || !timingSafeEqual(providedSecret, expectedSecret)) {
-    return c.json({ error: 'Unauthorized' }, 401);
-  }
-
-  if (!c.env.BROWSER) {
-    return c.json({
-      error: 'Browser Rendering not configured',
-      hint: 'Add browser binding to wrangler.jsonc',
-    }, 503);
-  }
 
-  // Build the WebSocket URL
-  const wsProtocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
-  const wsUrl = `${wsProtocol}//${url.host}/cdp?secret=${encodeURIComponent(providedSecret)}`;
+  const wsUrl = await buildDebuggerUrl(c, url);
 
   // Return a placeholder target - actual target is created on WS connect
   return c.json([
@@ -296,31 +563,7 @@ cdp.get('/json', async (c) => {
   const url = new URL(c.req.url);
   url.pathname = url.pathname.replace(/\/json\/?$/, '/json/list');
   
-  // Verify secret from query param
-  const providedSecret = url.searchParams.get('secret');
-  const expectedSecret = c.env.CDP_SECRET;
-
-  if (!expectedSecret) {
-    return c.json({
-      error: 'CDP endpoint not configured',
-      hint: 'Set CDP_SECRET via: wrangler secret put CDP_SECRET',
-    }, 503);
-  }
-
-  if (!providedSecret || !timingSafeEqual(providedSecret, expectedSecret)) {
-    return c.json({ error: 'Unauthorized' }, 401);
-  }
-
-  if (!c.env.BROWSER) {
-    return c.json({
-      error: 'Browser Rendering not configured',
-      hint: 'Add browser binding to wrangler.jsonc',
-    }, 503);
-  }
-
-  // Build the WebSocket URL
-  const wsProtocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
-  const wsUrl = `${wsProtocol}//${url.host}/cdp?secret=${encodeURIComponent(providedSecret)}`;
+  const wsUrl = await buildDebuggerUrl(c, url);
 
   return c.json([
     {
@@ -335,176 +578,1289 @@ cdp.get('/json', async (c) => {
   ]);
 });
 
+
 /**
- * Initialize a CDP session for a WebSocket connection
+ * Options shared by the REST browser endpoints
  */
-async function initCDPSession(ws: WebSocket, env: OpenClawEnv): Promise<void> {
-  let session: CDPSession | null = null;
+interface BrowserRequestOptions {
+  url?: string;
+  html?: string;
+  viewport?: { width: number; height: number; deviceScaleFactor?: number };
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+  timeout?: number;
+  cookies?: Array<{ name: string; value: string; url?: string; domain?: string; path?: string }>;
+  store?: boolean;
+  expiresIn?: number;
+}
 
-  try {
-    // Launch browser
-    const browser = await puppeteer.launch(env.BROWSER!);
-    const page = await browser.newPage();
-    const targetId = crypto.randomUUID();
+/**
+ * Open a page as described by the request options, run `fn` on it and return the browser to the pool
+ */
+async function withBrowserPage<T>(
+  c: Context<AppEnv>,
+  options: BrowserRequestOptions,
+  fn: (page: Page) => Promise<T>
+): Promise<T> {
+  const grant = c.get('cdpGrant') ?? FULL_CDP_GRANT;
+  const policy = getNavigationPolicy(c.env, grant.scope);
 
-    session = {
-      browser,
-      pages: new Map([[targetId, page]]),
-      defaultTargetId: targetId,
-      nodeIdCounter: 1,
-      nodeMap: new Map(),
-      objectIdCounter: 1,
-      objectMap: new Map(),
-      scriptsToEvaluateOnNewDocument: new Map(),
-      extraHTTPHeaders: new Map(),
-      requestInterceptionEnabled: false,
-      pendingRequests: new Map(),
-    };
+  const blocked: BlockedNavigation[] = [];
+  const { browser, context } = await acquireBrowser(puppeteer, c.env);
+  try {
+    const page = await context.newPage();
 
-    // Send initial target created event
-    sendEvent(ws, 'Target.targetCreated', {
-      targetInfo: {
-        targetId,
-        type: 'page',
-        title: '',
-        url: 'about:blank',
-        attached: true,
-      },
+    // Apply the navigation policy to redirects and subresources too
+    await page.setRequestInterception(true);
+    page.on('request', async (request) => {
+      const verdict = checkNavigation(policy, request.url());
+      if (verdict.allowed) {
+        await request.continue().catch(() => {});
+        return;
+      }
+      noteBlockedNavigation(blocked, grant.tokenId, request.url(), verdict.reason, c.req.path);
+      await request.abort('blockedbyclient').catch(() => {});
     });
 
-    console.log('[CDP] Session initialized, targetId:', targetId);
-  } catch (err) {
-    console.error('[CDP] Browser launch failed:', err);
-    ws.close(1011, 'Browser launch failed');
-    return;
-  }
-
-  // Handle incoming messages
-  ws.addEventListener('message', async (event) => {
-    if (!session) return;
+    const timeout = options.timeout ?? BROWSER_API_TIMEOUT_MS;
+    page.setDefaultTimeout(timeout);
 
-    let request: CDPRequest;
-    try {
-      request = JSON.parse(event.data as string);
-    } catch {
-      console.error('[CDP] Invalid JSON received');
-      return;
+    if (options.viewport) {
+      await page.setViewport(options.viewport);
     }
-
-    console.log('[CDP] Request:', request.method, request.params);
-
-    try {
-      const result = await handleCDPMethod(session, request.method, request.params || {}, ws);
-      sendResponse(ws, request.id, result);
-    } catch (err) {
-      console.error('[CDP] Method error:', request.method, err);
-      sendError(ws, request.id, -32000, err instanceof Error ? err.message : 'Unknown error');
+    if (options.cookies?.length) {
+      await page.setCookie(...options.cookies.map(cookie => (
+        cookie.url || cookie.domain ? cookie : { ...cookie, url: options.url }
+      )));
     }
-  });
 
-  // Handle close
-  ws.addEventListener('close', async () => {
-    console.log('[CDP] WebSocket closed, cleaning up');
-    if (session) {
-      try {
-        await session.browser.close();
-      } catch (err) {
-        console.error('[CDP] Error closing browser:', err);
-      }
+    const waitUntil = options.waitUntil ?? 'load';
+    if (options.url) {
+      await page.goto(options.url, { waitUntil, timeout });
+    } else if (options.html) {
+      await page.setContent(options.html, { waitUntil, timeout });
     }
-  });
 
-  ws.addEventListener('error', (event) => {
-    console.error('[CDP] WebSocket error:', event);
-  });
+    return await fn(page);
+  } finally {
+    // Reset and return the browser to the pool after the response is sent
+    c.executionCtx.waitUntil(
+      releaseBrowser(browser, c.env).then(() => flushBlockedNavigations(c.env.MOLTBOT_BUCKET, blocked))
+    );
+  }
 }
 
 /**
- * Handle a CDP method call
+ * Parse and validate the JSON body of a REST browser request
  */
-async function handleCDPMethod(
-  session: CDPSession,
-  method: string,
-  params: Record<string, unknown>,
-  ws: WebSocket
-): Promise<unknown> {
-  const [domain, command] = method.split('.');
-  
-  // Get the current page (use targetId from params or default)
-  const targetId = (params.targetId as string) || session.defaultTargetId;
-  const page = session.pages.get(targetId);
+async function parseBrowserRequest<T extends BrowserRequestOptions>(c: Context<AppEnv>): Promise<T> {
+  let body: T;
+  try {
+    body = await c.req.json<T>();
+  } catch {
+    throw new Error('Request body must be JSON');
+  }
 
-  switch (domain) {
-    case 'Browser':
-      return handleBrowser(session, command, params);
-    
-    case 'Target':
-      return handleTarget(session, command, params, ws);
-    
-    case 'Page':
-      if (!page) throw new Error(`Target not found: ${targetId}`);
-      return handlePage(session, page, command, params, ws);
-    
-    case 'Runtime':
-      if (!page) throw new Error(`Target not found: ${targetId}`);
-      return handleRuntime(session, page, command, params);
-    
-    case 'DOM':
-      if (!page) throw new Error(`Target not found: ${targetId}`);
-      return handleDOM(session, page, command, params);
-    
-    case 'Input':
-      if (!page) throw new Error(`Target not found: ${targetId}`);
-      return handleInput(page, command, params);
-    
-    case 'Network':
-      return handleNetwork(session, page, command, params);
-    
-    case 'Emulation':
-      if (!page) throw new Error(`Target not found: ${targetId}`);
-      return handleEmulation(page, command, params);
-    
-    case 'Fetch':
-      if (!page) throw new Error(`Target not found: ${targetId}`);
-      return handleFetch(session, page, command, params, ws);
-    
-    default:
-      throw new Error(`Unknown domain: ${domain}`);
+  if (!body.url && body.html === undefined) {
+    throw new Error('url or html is required');
   }
+  if (body.url && !/^https?:\/\//i.test(body.url)) {
+    throw new Error('url must be an http(s) URL');
+  }
+  return body;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
 }
 
 /**
- * Browser domain handlers
+ * Sign a stored artifact name and expiry with CDP_SECRET
  */
-async function handleBrowser(
-  session: CDPSession,
-  command: string,
-  _params: Record<string, unknown>
-): Promise<unknown> {
-  switch (command) {
-    case 'getVersion':
-      return {
-        protocolVersion: '1.3',
-        product: 'Cloudflare-Browser-Rendering',
-        revision: 'cloudflare',
-        userAgent: 'Mozilla/5.0 Cloudflare Browser Rendering',
-        jsVersion: 'V8',
-      };
-    
-    case 'close':
-      await session.browser.close();
-      return {};
-    
-    default:
-      throw new Error(`Unknown Browser method: ${command}`);
-  }
+async function signArtifact(secret: string, name: string, expires: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`artifact:${name}:${expires}`));
+  return toHex(signature);
 }
 
 /**
- * Target domain handlers
+ * Send a REST browser result: inline, or stored in R2 behind a signed link when `store` is set
  */
-async function handleTarget(
-  session: CDPSession,
+async function sendBrowserResult(
+  c: Context<AppEnv>,
+  options: BrowserRequestOptions,
+  body: Uint8Array | string,
+  contentType: string,
+  extension: string
+): Promise<Response> {
+  // Copy Puppeteer's Buffers into a plain ArrayBuffer-backed view for Response/R2
+  const data = typeof body === 'string' ? body : new Uint8Array(body);
+  if (!options.store) {
+    return new Response(data, { headers: { 'Content-Type': contentType } });
+  }
+
+  const name = `${crypto.randomUUID()}.${extension}`;
+  await c.env.MOLTBOT_BUCKET.put(`${BROWSER_ARTIFACT_PREFIX}${name}`, data, {
+    httpMetadata: { contentType },
+  });
+
+  const expiresIn = Math.min(Math.max(options.expiresIn ?? BROWSER_ARTIFACT_TTL_SECONDS, 1), BROWSER_ARTIFACT_MAX_TTL_SECONDS);
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  const signature = await signArtifact(c.env.CDP_SECRET!, name, expires);
+  const origin = new URL(c.req.url).origin;
+
+  return c.json({
+    key: name,
+    contentType,
+    url: `${origin}/cdp/artifacts/${name}?expires=${expires}&signature=${signature}`,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  });
+}
+
+/**
+ * Run a REST browser handler, mapping bad input to 400 and browser failures to 502
+ */
+async function handleBrowserRequest<T extends BrowserRequestOptions>(
+  c: Context<AppEnv>,
+  handler: (options: T) => Promise<Response>
+): Promise<Response> {
+  let options: T;
+  try {
+    options = await parseBrowserRequest<T>(c);
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : 'Invalid request' }, 400);
+  }
+
+  const grant = c.get('cdpGrant') ?? FULL_CDP_GRANT;
+  const verdict = options.url ? checkNavigation(getNavigationPolicy(c.env, grant.scope), options.url) : null;
+  if (verdict && !verdict.allowed) {
+    const blocked: BlockedNavigation[] = [];
+    noteBlockedNavigation(blocked, grant.tokenId, options.url!, verdict.reason, c.req.path);
+    c.executionCtx.waitUntil(flushBlockedNavigations(c.env.MOLTBOT_BUCKET, blocked));
+    return c.json({ error: 'Navigation blocked by policy', details: verdict.reason }, 403);
+  }
+
+  try {
+    return await handler(options);
+  } catch (err) {
+    c.get('logger').error('Browser request failed', { component: 'cdp', path: c.req.path, error: err });
+    return c.json({
+      error: 'Browser request failed',
+      details: err instanceof Error ? err.message : 'Unknown error',
+    }, 502);
+  }
+}
+
+/**
+ * POST /browser/screenshot - Screenshot a URL or HTML
+ *
+ * Body: BrowserRequestOptions plus `type` (png|jpeg|webp), `quality`, `fullPage`, `selector`
+ */
+cdp.post('/browser/screenshot', (c) => handleBrowserRequest<BrowserRequestOptions & {
+  type?: 'png' | 'jpeg' | 'webp';
+  quality?: number;
+  fullPage?: boolean;
+  selector?: string;
+}>(c, async (options) => {
+  const type = options.type ?? 'png';
+  const data = await withBrowserPage(c, options, async (page) => {
+    if (options.selector) {
+      const element = await page.$(options.selector);
+      if (!element) throw new Error(`No element matches selector: ${options.selector}`);
+      return element.screenshot({ type, quality: type === 'png' ? undefined : options.quality });
+    }
+    return page.screenshot({
+      type,
+      quality: type === 'png' ? undefined : options.quality,
+      fullPage: options.fullPage,
+    });
+  });
+  return sendBrowserResult(c, options, data, `image/${type}`, type);
+}));
+
+/**
+ * POST /browser/pdf - Render a URL or HTML to PDF
+ *
+ * Body: BrowserRequestOptions plus `format` (e.g. A4, Letter), `landscape`, `printBackground`
+ */
+cdp.post('/browser/pdf', (c) => handleBrowserRequest<BrowserRequestOptions & {
+  format?: 'letter' | 'legal' | 'tabloid' | 'ledger' | 'a0' | 'a1' | 'a2' | 'a3' | 'a4' | 'a5' | 'a6';
+  landscape?: boolean;
+  printBackground?: boolean;
+}>(c, async (options) => {
+  const data = await withBrowserPage(c, options, (page) => page.pdf({
+    format: options.format ?? 'a4',
+    landscape: options.landscape,
+    printBackground: options.printBackground ?? true,
+  }));
+  return sendBrowserResult(c, options, data, 'application/pdf', 'pdf');
+}));
+
+/**
+ * POST /browser/content - Get the rendered page as HTML, text or markdown
+ *
+ * Body: BrowserRequestOptions plus `format` (html|text|markdown, default html)
+ */
+cdp.post('/browser/content', (c) => handleBrowserRequest<BrowserRequestOptions & {
+  format?: 'html' | 'text' | 'markdown';
+}>(c, async (options) => {
+  const format = options.format ?? 'html';
+  if (!['html', 'text', 'markdown'].includes(format)) {
+    return c.json({ error: 'format must be html, text or markdown' }, 400);
+  }
+
+  const content = await withBrowserPage(c, options, async (page) => {
+    if (format === 'text') return page.evaluate(() => document.body?.innerText ?? '');
+    if (format === 'markdown') return page.evaluate(htmlToMarkdown);
+    return page.content();
+  });
+
+  const contentTypes = { html: 'text/html', text: 'text/plain', markdown: 'text/markdown' };
+  const extensions = { html: 'html', text: 'txt', markdown: 'md' };
+  return sendBrowserResult(c, options, content, `${contentTypes[format]}; charset=utf-8`, extensions[format]);
+}));
+
+/**
+ * POST /browser/evaluate - Run a JavaScript expression in the page and return its result
+ *
+ * Body: BrowserRequestOptions plus `expression`. Promises are awaited; the result
+ * must be JSON-serializable.
+ */
+cdp.post('/browser/evaluate', (c) => handleBrowserRequest<BrowserRequestOptions & {
+  expression?: string;
+}>(c, async (options) => {
+  if (!options.expression) {
+    return c.json({ error: 'expression is required' }, 400);
+  }
+  if (c.get('cdpGrant')?.scope.readOnly) {
+    return c.json({ error: 'evaluate is not allowed by this token (read-only)' }, 403);
+  }
+
+  const result = await withBrowserPage(c, options, (page) => page.evaluate(options.expression!));
+  return sendBrowserResult(c, options, JSON.stringify({ result }), 'application/json', 'json');
+}));
+
+/**
+ * GET /artifacts/:name - Download a stored REST browser result
+ *
+ * Authenticated by the signed link returned when `store` was set, not by CDP_SECRET.
+ */
+cdp.get('/artifacts/:name', async (c) => {
+  const name = c.req.param('name');
+  const expires = Number(c.req.query('expires'));
+  const signature = c.req.query('signature') || '';
+
+  if (!c.env.CDP_SECRET || !/^[0-9a-f-]{36}\.[a-z]+$/.test(name) || !Number.isFinite(expires)) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+  if (!timingSafeEqual(signature, await signArtifact(c.env.CDP_SECRET, name, expires))) {
+    return c.json({ error: 'Invalid signature' }, 403);
+  }
+  if (expires < Date.now() / 1000) {
+    return c.json({ error: 'Link expired' }, 410);
+  }
+
+  const object = await c.env.MOLTBOT_BUCKET.get(`${BROWSER_ARTIFACT_PREFIX}${name}`);
+  if (!object) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  return new Response(object.body, {
+    headers: { 'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream' },
+  });
+});
+
+/**
+ * Whether a CDP caller may see a download: CDP_SECRET sees all, tokens their own
+ */
+function canAccessDownload(grant: CdpGrant | undefined, info: DownloadInfo): boolean {
+  return !grant?.tokenId || info.tokenId === grant.tokenId;
+}
+
+/**
+ * GET /downloads - List files downloaded by CDP sessions with the caller's token
+ */
+cdp.get('/downloads', async (c) => {
+  const grant = c.get('cdpGrant');
+  try {
+    const downloads = await listDownloads(c.env.MOLTBOT_BUCKET, grant?.tokenId ? grant.tokenId : undefined);
+    return c.json({ downloads });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+/**
+ * GET /downloads/:guid - Fetch a downloaded file by the guid from Browser/Page.downloadWillBegin
+ */
+cdp.get('/downloads/:guid', async (c) => {
+  const guid = c.req.param('guid');
+  const info = await getDownloadInfo(c.env.MOLTBOT_BUCKET, guid);
+  if (!info || !canAccessDownload(c.get('cdpGrant'), info)) {
+    return c.json({ error: 'Download not found' }, 404);
+  }
+
+  const object = await getDownloadBody(c.env.MOLTBOT_BUCKET, guid);
+  if (!object) {
+    return c.json({ error: 'Download not found' }, 404);
+  }
+
+  return new Response(object.body, {
+    headers: {
+      'Content-Type': info.mimeType,
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(info.suggestedFilename)}`,
+    },
+  });
+});
+
+/**
+ * DELETE /downloads/:guid - Delete a downloaded file
+ */
+cdp.delete('/downloads/:guid', async (c) => {
+  const guid = c.req.param('guid');
+  const info = await getDownloadInfo(c.env.MOLTBOT_BUCKET, guid);
+  if (!info || !canAccessDownload(c.get('cdpGrant'), info)) {
+    return c.json({ error: 'Download not found' }, 404);
+  }
+
+  await deleteDownload(c.env.MOLTBOT_BUCKET, guid);
+  return c.json({ success: true, guid });
+});
+
+/**
+ * Convert the current document to markdown (runs in the page)
+ */
+function htmlToMarkdown(): string {
+  const SKIP = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'IFRAME', 'HEAD']);
+
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as HTMLElement;
+    if (SKIP.has(el.tagName)) return '';
+    const inner = Array.from(el.childNodes).map(inline).join('');
+
+    switch (el.tagName) {
+      case 'A': {
+        const href = (el as HTMLAnchorElement).href;
+        return href && inner.trim() ? `[${inner.trim()}](${href})` : inner;
+      }
+      case 'IMG': {
+        const img = el as HTMLImageElement;
+        return img.src ? `![${img.alt || ''}](${img.src})` : '';
+      }
+      case 'STRONG':
+      case 'B':
+        return inner.trim() ? `**${inner.trim()}**` : '';
+      case 'EM':
+      case 'I':
+        return inner.trim() ? `_${inner.trim()}_` : '';
+      case 'CODE':
+        return `\`${el.textContent || ''}\``;
+      case 'BR':
+        return '\n';
+      default:
+        return block(el) ?? inner;
+    }
+  };
+
+  const block = (el: HTMLElement): string | null => {
+    const text = () => Array.from(el.childNodes).map(inline).join('').replace(/[ \t]+\n/g, '\n').trim();
+
+    if (/^H[1-6]$/.test(el.tagName)) return `\n\n${'#'.repeat(Number(el.tagName[1]))} ${text()}\n\n`;
+    switch (el.tagName) {
+      case 'P':
+      case 'DIV':
+      case 'SECTION':
+      case 'ARTICLE':
+      case 'MAIN':
+      case 'HEADER':
+      case 'FOOTER':
+        return `\n\n${text()}\n\n`;
+      case 'PRE':
+        return `\n\n\`\`\`\n${el.textContent || ''}\n\`\`\`\n\n`;
+      case 'BLOCKQUOTE':
+        return `\n\n${text().split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+      case 'HR':
+        return '\n\n---\n\n';
+      case 'UL':
+      case 'OL': {
+        const items = Array.from(el.children).filter(child => child.tagName === 'LI');
+        const lines = items.map((item, i) => {
+          const marker = el.tagName === 'OL' ? `${i + 1}.` : '-';
+          const content = Array.from(item.childNodes).map(inline).join('').trim();
+          return `${marker} ${content.replace(/\n+/g, '\n  ')}`;
+        });
+        return `\n\n${lines.join('\n')}\n\n`;
+      }
+      case 'TABLE': {
+        const rows = Array.from((el as HTMLTableElement).rows).map(row =>
+          Array.from(row.cells).map(cell => Array.from(cell.childNodes).map(inline).join('').trim().replace(/\|/g, '\\|'))
+        );
+        if (rows.length === 0) return '';
+        const header = `| ${rows[0].join(' | ')} |`;
+        const divider = `| ${rows[0].map(() => '---').join(' | ')} |`;
+        return `\n\n${[header, divider, ...rows.slice(1).map(r => `| ${r.join(' | ')} |`)].join('\n')}\n\n`;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const title = document.title ? `# ${document.title}\n\n` : '';
+  const body = document.body ? inline(document.body) : '';
+  return (title + body).replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+/**
+ * Options for initCDPSession
+ */
+export interface CDPSessionOptions {
+  /** Record the session to R2 (see createRecording) */
+  record?: boolean;
+  /** Browser Rendering API to launch browsers with; tests pass a fake */
+  launcher?: BrowserLauncher;
+  /** Browser profile to restore at launch and save at close (see restoreProfile) */
+  profile?: string;
+  /** Logger for the session, e.g. tagged with the request id */
+  logger?: Logger;
+}
+
+/**
+ * Initialize a CDP session for a WebSocket connection
+ */
+export async function initCDPSession(
+  ws: WebSocket,
+  env: OpenClawEnv,
+  grant: CdpGrant,
+  options: CDPSessionOptions = {}
+): Promise<void> {
+  const { record = false, launcher = puppeteer, profile: profileName } = options;
+  let logger = (options.logger ?? cdpLogger).child({ tokenId: grant.tokenId ?? 'secret' });
+  const limits = getCdpSessionLimits(env, grant.scope);
+  let session: CDPSession | null = null;
+  const recordingTimers: ReturnType<typeof setInterval>[] = [];
+  let lifetimeTimer: ReturnType<typeof setTimeout> | undefined;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+  let initializing = true;  // the client may leave before setup finishes; clean up after it does
+  let clientLeft = false;
+
+  // Tear down once, whether the client closed the socket, a limit ended the session or setup failed.
+  // This is the only place a session opened below is counted as closed.
+  const cleanup = async (reason: CdpCloseReason) => {
+    if (closed || !session) return;
+    closed = true;
+    clearTimeout(lifetimeTimer);
+    clearTimeout(idleTimer);
+    recordingTimers.forEach(timer => clearInterval(timer));
+    trackSessionClosed(reason);
+
+    if (session.recording) {
+      session.recording.endedAt = Date.now();
+      await flushRecording(session);
+      await pruneRecordings(session.bucket).catch((err) => {
+        logger.error('Failed to prune recordings', { error: err });
+      });
+    }
+    await flushBlockedNavigations(session.bucket, session.blockedNavigations);
+    // Read-only tokens can use a profile but not change it; a half set up browser would save a partial one
+    if (session.profile && !grant.scope.readOnly && reason !== 'error') {
+      await saveBrowserProfile(session, session.profile);
+    }
+    await releaseBrowser(session.browser, env);
+  };
+
+  // Tell the client why (like Chrome's Inspector.detached), then close
+  const endSession = async (reason: CdpCloseReason, message: string) => {
+    if (closed || !session) return;
+    logger.info('Ending session', { reason: message });
+    for (const sessionId of session.attachedSessions.keys()) {
+      sendEvent(ws, 'Inspector.detached', { reason: message }, sessionId);
+    }
+    sendEvent(ws, 'Inspector.detached', { reason: message });
+    ws.close(1008, message);
+    await cleanup(reason);
+  };
+
+  const resetIdleTimer = () => {
+    if (!limits.idleTimeoutSeconds) return;
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => endSession('idle', 'Session idle timeout'), limits.idleTimeoutSeconds * 1000);
+  };
+
+  // Handle close, including a client that leaves while the browser is still launching
+  ws.addEventListener('close', async () => {
+    logger.info('WebSocket closed, cleaning up');
+    if (initializing) {
+      clientLeft = true;
+      return;
+    }
+    await cleanup('client');
+  });
+
+  ws.addEventListener('error', (event) => {
+    logger.error('WebSocket error', { error: (event as ErrorEvent).message });
+  });
+
+  let browser: Browser | null = null;
+  try {
+    // Reuse a pooled browser session or launch a new one
+    const acquired = await acquireBrowser(launcher, env);
+    browser = acquired.browser;
+    const { context, reused } = acquired;
+    const page = await context.newPage();
+    const targetId = crypto.randomUUID();
+    logger = logger.child({ targetId });
+
+    session = {
+      browser,
+      context,
+      bucket: env.MOLTBOT_BUCKET,
+      blockedNavigations: [],
+      grant,
+      policy: getNavigationPolicy(env, grant.scope),
+      limits,
+      pages: new Map([[targetId, page]]),
+      defaultTargetId: targetId,
+      defaultBrowserContextId: crypto.randomUUID().replace(/-/g, '').toUpperCase(),
+      browserContexts: new Map(),
+      targetContexts: new Map(),
+      attachedSessions: new Map(),
+      autoAttach: false,
+      nodeIdCounter: 1,
+      nodeMap: new Map(),
+      objectMap: new Map(),
+      scriptsToEvaluateOnNewDocument: new Map(),
+      extraHTTPHeaders: new Map(),
+      fetchPatterns: new Map(),
+      pendingRequests: new Map(),
+      requestIds: new WeakMap(),
+      networkEnabledPages: new Set(),
+      networkListenerPages: new WeakSet(),
+      responseBodies: new Map(),
+      responseBodyBytes: 0,
+      frameIds: new WeakMap(),
+      executionContexts: new Map(),
+      executionContextCounter: 1,
+      objectContexts: new Map(),
+      isolatedWorldNames: new Set(),
+      exceptionIdCounter: 1,
+      runtimeEnabledPages: new Set(),
+      logEnabledPages: new Set(),
+      lifecycleEventPages: new Set(),
+      loaderIds: new WeakMap(),
+      runtimeListenerPages: new WeakSet(),
+      bindings: new Map(),
+      screencasts: new Map(),
+      recording: record ? createRecording(grant.tokenId) : null,
+      downloadBehavior: 'default',
+      downloadEventsEnabled: false,
+      profile: null,
+      logger,
+    };
+    trackSessionOpened();
+
+    if (profileName) {
+      session.profile = await restoreProfile(session, page, profileName);
+    }
+
+    await attachRequestInterception(session, ws, page);
+    attachRecorder(session, page);
+    attachDownloadHandler(session, ws, page);
+    attachFrameListeners(session, ws, page);
+    await applyProfileStorage(session, page);
+
+    // Send initial target created event
+    sendEvent(ws, 'Target.targetCreated', { targetInfo: await getTargetInfo(session, targetId) });
+
+    logger.info('Session initialized', { reused });
+
+    if (session.recording) {
+      const recordingSession = session;
+      let capturing = false;  // skip a tick rather than stack screenshots when pages are slow
+      logger.info('Recording session', { recordingId: session.recording.id });
+      recordingTimers.push(
+        setInterval(async () => {
+          if (capturing) return;
+          capturing = true;
+          await captureRecordingScreenshots(recordingSession);
+          capturing = false;
+        }, CDP_RECORDING_SCREENSHOT_INTERVAL_MS),
+        setInterval(() => flushRecording(recordingSession), CDP_RECORDING_FLUSH_INTERVAL_MS),
+      );
+    }
+
+    if (limits.maxSessionSeconds) {
+      lifetimeTimer = setTimeout(() => endSession('lifetime', 'Session time limit reached'), limits.maxSessionSeconds * 1000);
+    }
+    resetIdleTimer();
+  } catch (err) {
+    logger.error('Browser launch failed', { error: err });
+    if (!clientLeft) ws.close(1011, 'Browser launch failed');
+    if (session) {
+      await cleanup('error');
+    } else if (browser) {
+      closed = true;
+      await releaseBrowser(browser, env);
+    }
+    return;
+  }
+
+  initializing = false;
+  if (clientLeft) {
+    await cleanup('client');
+    return;
+  }
+
+  // Handle incoming messages
+  ws.addEventListener('message', async (event) => {
+    if (!session || closed) return;
+    resetIdleTimer();
+
+    const data = event.data as string;
+    if (limits.maxMessageBytes && new TextEncoder().encode(data).byteLength > limits.maxMessageBytes) {
+      trackLimitRejection('messageSize');
+      logger.warn('Message too large', { characters: data.length });
+      // Answer the command if its id can be found without parsing the whole message
+      const id = Number(data.match(/"id"\s*:\s*(\d+)/)?.[1]);
+      if (Number.isInteger(id)) {
+        sendError(ws, id, -32600, `Message exceeds the ${limits.maxMessageBytes} byte limit`);
+      }
+      return;
+    }
+
+    let request: CDPRequest;
+    try {
+      request = JSON.parse(data);
+    } catch {
+      logger.warn('Invalid JSON received');
+      return;
+    }
+
+    logger.debug('Request', { id: request.id, method: request.method, sessionId: request.sessionId });
+
+    try {
+      const result = await handleCDPMethod(session, request.method, request.params || {}, ws, request.sessionId);
+      sendResponse(ws, request.id, result, request.sessionId);
+    } catch (err) {
+      logger.warn('Method error', { method: request.method, error: err });
+      sendError(ws, request.id, -32000, err instanceof Error ? err.message : 'Unknown error', request.sessionId);
+    }
+  });
+}
+
+/**
+ * Feed a page's navigations, requests and console output into the session recording
+ */
+function attachRecorder(session: CDPSession, page: Page): void {
+  const recording = session.recording;
+  if (!recording) return;
+
+  const targetId = () => targetIdForPage(session, page);
+
+  page.on('framenavigated', (frame) => {
+    if (frame === page.mainFrame()) recordNavigation(recording, targetId(), frame.url());
+  });
+  page.on('domcontentloaded', () => recordPageTiming(recording, targetId(), 'onContentLoad'));
+  page.on('load', () => recordPageTiming(recording, targetId(), 'onLoad'));
+
+  page.on('request', (request) => {
+    recordRequest(recording, {
+      requestId: getRequestId(session, request),
+      targetId: targetId(),
+      method: request.method(),
+      url: request.url(),
+      headers: request.headers(),
+      postData: request.postData(),
+      resourceType: toCDPResourceType(request.resourceType()),
+    });
+  });
+
+  page.on('response', (response) => {
+    const remote = response.remoteAddress();
+    recordResponse(recording, getRequestId(session, response.request()), {
+      status: response.status(),
+      statusText: response.statusText(),
+      headers: response.headers(),
+      mimeType: (response.headers()['content-type'] || '').split(';')[0].trim(),
+      remoteAddress: remote.ip,
+      fromCache: response.fromCache(),
+    });
+  });
+
+  page.on('requestfinished', (request) => {
+    const contentLength = Number(request.response()?.headers()['content-length']);
+    recordRequestFinished(
+      recording,
+      getRequestId(session, request),
+      Number.isFinite(contentLength) ? contentLength : undefined
+    );
+  });
+
+  page.on('requestfailed', (request) => {
+    recordRequestFailed(recording, getRequestId(session, request), request.failure()?.errorText || 'net::ERR_FAILED');
+  });
+
+  page.on('console', (message) => {
+    recordConsoleMessage(recording, {
+      targetId: targetId(),
+      type: message.type(),
+      text: message.text(),
+      url: message.location().url,
+    });
+  });
+
+  page.on('pageerror', (error) => {
+    recordConsoleMessage(recording, {
+      targetId: targetId(),
+      type: 'pageerror',
+      text: error instanceof Error ? error.stack || error.message : String(error),
+      url: page.url(),
+    });
+  });
+}
+
+/**
+ * Screenshot every open page of a recorded session into R2
+ */
+async function captureRecordingScreenshots(session: CDPSession): Promise<void> {
+  const recording = session.recording;
+  if (!recording) return;
+
+  for (const [targetId, page] of session.pages) {
+    if (page.isClosed() || page.url() === 'about:blank') continue;
+    try {
+      const image = await page.screenshot({ type: 'jpeg', quality: 60 });
+      const key = recordScreenshot(recording, targetId);
+      if (!key) return;
+      await session.bucket.put(key, new Uint8Array(image), { httpMetadata: { contentType: 'image/jpeg' } });
+    } catch (err) {
+      session.logger.warn('Recording screenshot failed', { page: targetId, error: err });
+    }
+  }
+}
+
+/**
+ * Save the current state of a session recording to R2
+ */
+async function flushRecording(session: CDPSession): Promise<void> {
+  if (!session.recording) return;
+  try {
+    await saveRecording(session.bucket, session.recording);
+  } catch (err) {
+    session.logger.error('Failed to save recording', { recordingId: session.recording.id, error: err });
+  }
+}
+
+/**
+ * Load a browser profile and put its cookies into the browser
+ *
+ * A profile that doesn't exist yet starts empty. If loading fails the session
+ * runs without a profile, so a bad read never overwrites saved state at close.
+ */
+async function restoreProfile(session: CDPSession, page: Page, name: string): Promise<BrowserProfile | null> {
+  let profile: BrowserProfile | null;
+  try {
+    profile = await loadProfile(session.bucket, name);
+  } catch (err) {
+    session.logger.error('Failed to load profile, continuing without it', { profile: name, error: err });
+    return null;
+  }
+  if (!profile) {
+    session.logger.info('Starting new profile', { profile: name });
+    return createProfile(name);
+  }
+
+  if (profile.cookies.length) {
+    const client = await page.createCDPSession();
+    try {
+      await client.send('Network.setCookies', {
+        cookies: profile.cookies as CookieParam[],
+      });
+    } finally {
+      await client.detach().catch(() => {});
+    }
+  }
+  session.logger.info('Restored profile', { profile: name, cookies: profile.cookies.length });
+  return profile;
+}
+
+/**
+ * Restore a profile's localStorage in a page as each document loads
+ *
+ * Storage can only be written from a page on the same origin, so the saved
+ * values are injected into every new document and applied for its origin, once
+ * per tab, without overwriting keys the site has already set.
+ */
+async function applyProfileStorage(session: CDPSession, page: Page): Promise<void> {
+  if (!session.profile || Object.keys(session.profile.localStorage).length === 0) return;
+
+  await page.evaluateOnNewDocument((stored: Record<string, Record<string, string>>) => {
+    const items = stored[location.origin];
+    if (!items) return;
+    try {
+      if (sessionStorage.getItem('__cdpProfileRestored')) return;
+      for (const [key, value] of Object.entries(items)) {
+        if (localStorage.getItem(key) === null) localStorage.setItem(key, value);
+      }
+      sessionStorage.setItem('__cdpProfileRestored', '1');
+    } catch {
+      // Storage is unavailable in sandboxed and opaque-origin documents
+    }
+  }, session.profile.localStorage);
+}
+
+/**
+ * Save the browser's cookies and the localStorage of its open pages to the profile
+ *
+ * Only the default browser context is saved; contexts from
+ * Target.createBrowserContext are throwaway, like incognito windows.
+ */
+async function saveBrowserProfile(session: CDPSession, profile: BrowserProfile): Promise<void> {
+  try {
+    const storage: Record<string, Record<string, string>> = {};
+    let openPage: Page | undefined;
+    for (const [targetId, page] of session.pages) {
+      if (page.isClosed() || !isDefaultContextTarget(session, targetId)) continue;
+      openPage ??= page;
+      const url = page.url();
+      if (!url.startsWith('http')) continue;
+      try {
+        storage[new URL(url).origin] = await page.evaluate(() => Object.fromEntries(Object.entries(localStorage)));
+      } catch (err) {
+        session.logger.warn('Failed to read localStorage for profile', { url, error: err });
+      }
+    }
+
+    const page = openPage ?? await session.context.newPage();
+    const client = await page.createCDPSession();
+    let cookies: ProfileCookie[];
+    try {
+      const result = await client.send('Network.getAllCookies');
+      cookies = result.cookies.map(cookie => ({
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain,
+        path: cookie.path,
+        expires: cookie.expires,
+        httpOnly: cookie.httpOnly,
+        secure: cookie.secure,
+        sameSite: cookie.sameSite,
+      }));
+    } finally {
+      await client.detach().catch(() => {});
+    }
+
+    updateProfile(profile, cookies, storage);
+    await saveProfile(session.bucket, profile);
+    session.logger.info('Saved profile', { profile: profile.name, cookies: cookies.length });
+  } catch (err) {
+    session.logger.error('Failed to save profile', { profile: profile.name, error: err });
+  }
+}
+
+function parseDownloadBehavior(behavior: unknown): DownloadBehavior {
+  if (behavior === 'default' || behavior === 'allow' || behavior === 'allowAndName' || behavior === 'deny') {
+    return behavior;
+  }
+  throw new Error(`Invalid download behavior: ${String(behavior)}`);
+}
+
+/**
+ * Save a page's downloads to R2 (once per page)
+ *
+ * Sends Page.downloadWillBegin/downloadProgress to the page's session, and the
+ * Browser.* equivalents when Browser.setDownloadBehavior enabled events.
+ */
+function attachDownloadHandler(session: CDPSession, ws: WebSocket, page: Page): void {
+  page.on('response', (response) => {
+    if (!isDownloadResponse(response.headers(), response.request().isNavigationRequest())) return;
+    if (session.downloadBehavior === 'deny') {
+      session.logger.info('Download denied by client', { url: response.url() });
+      return;
+    }
+    captureDownload(session, ws, page, response);
+  });
+}
+
+async function captureDownload(session: CDPSession, ws: WebSocket, page: Page, response: HTTPResponse): Promise<void> {
+  const headers = response.headers();
+  const url = response.url();
+  const guid = crypto.randomUUID();
+  const suggestedFilename = getSuggestedFilename(url, headers);
+  const contentLength = Number(headers['content-length']);
+  const totalBytes = Number.isFinite(contentLength) ? contentLength : 0;
+
+  const emit = (event: string, params: Record<string, unknown>) => {
+    sendTargetEvent(session, ws, page, `Page.${event}`, params);
+    if (session.downloadEventsEnabled) sendEvent(ws, `Browser.${event}`, params);
+  };
+
+  emit('downloadWillBegin', { frameId: targetIdForPage(session, page), guid, url, suggestedFilename });
+  try {
+    if (totalBytes > CDP_DOWNLOAD_MAX_BYTES) {
+      throw new Error(`Download is larger than ${CDP_DOWNLOAD_MAX_BYTES} bytes`);
+    }
+    const body = await readDownloadBody(session, page, response);
+    if (body.byteLength > CDP_DOWNLOAD_MAX_BYTES) {
+      throw new Error(`Download is larger than ${CDP_DOWNLOAD_MAX_BYTES} bytes`);
+    }
+
+    await saveDownload(session.bucket, {
+      guid,
+      tokenId: session.grant.tokenId,
+      url,
+      suggestedFilename,
+      mimeType: (headers['content-type'] || '').split(';')[0].trim() || 'application/octet-stream',
+      size: body.byteLength,
+      createdAt: new Date().toISOString(),
+    }, body);
+    session.logger.info('Saved download', { guid, suggestedFilename, bytes: body.byteLength });
+    emit('downloadProgress', { guid, totalBytes: body.byteLength, receivedBytes: body.byteLength, state: 'completed' });
+  } catch (err) {
+    session.logger.warn('Download failed', { url, error: err });
+    emit('downloadProgress', { guid, totalBytes, receivedBytes: 0, state: 'canceled' });
+  }
+}
+
+// Request headers worth repeating when a download is fetched again; the rest can carry
+// credentials for the original host only
+const DOWNLOAD_FORWARDED_HEADERS = ['accept', 'accept-language', 'user-agent'];
+const DOWNLOAD_MAX_REDIRECTS = 5;
+
+/**
+ * Read a download's body from the browser, or fetch it again from the worker
+ *
+ * Chrome aborts a navigation once it turns into a download, which usually
+ * leaves no body to read. GET downloads are then fetched again with the
+ * page's cookies. Redirects are followed one hop at a time so each URL is
+ * checked against the navigation policy and only gets its own host's cookies.
+ */
+async function readDownloadBody(session: CDPSession, page: Page, response: HTTPResponse): Promise<Uint8Array> {
+  try {
+    return new Uint8Array(await response.buffer());
+  } catch {
+    // Fall through to fetching it again
+  }
+
+  const request = response.request();
+  if (request.method() !== 'GET') {
+    throw new Error(`Body of ${request.method()} download is not available`);
+  }
+
+  const requestHeaders = request.headers();
+  let url = response.url();
+  for (let hop = 0; hop <= DOWNLOAD_MAX_REDIRECTS; hop++) {
+    enforceNavigationPolicy(session, url, 'download');
+
+    const fetchHeaders = new Headers();
+    for (const name of DOWNLOAD_FORWARDED_HEADERS) {
+      if (requestHeaders[name]) fetchHeaders.set(name, requestHeaders[name]);
+    }
+    const cookies = await page.cookies(url);
+    if (cookies.length) {
+      fetchHeaders.set('Cookie', cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; '));
+    }
+
+    const refetched = await fetch(url, { headers: fetchHeaders, redirect: 'manual' });
+    const location = refetched.headers.get('location');
+    if (refetched.status >= 300 && refetched.status < 400 && location) {
+      await refetched.body?.cancel();
+      url = new URL(location, url).href;
+      continue;
+    }
+    if (!refetched.ok) {
+      throw new Error(`Fetching download failed: HTTP ${refetched.status}`);
+    }
+    return readLimitedBody(refetched, CDP_DOWNLOAD_MAX_BYTES);
+  }
+  throw new Error(`Fetching download failed: more than ${DOWNLOAD_MAX_REDIRECTS} redirects`);
+}
+
+/**
+ * Read a response body, giving up as soon as it is known to exceed `maxBytes`
+ */
+async function readLimitedBody(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const tooLarge = () => new Error(`Download is larger than ${maxBytes} bytes`);
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return new Uint8Array(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/**
+ * Handle a CDP method call
+ */
+async function handleCDPMethod(
+  session: CDPSession,
+  method: string,
+  params: Record<string, unknown>,
+  ws: WebSocket,
+  sessionId?: string
+): Promise<unknown> {
+  const [domain, command] = method.split('.');
+  
+  if (!isMethodAllowed(session.grant.scope, method)) {
+    throw new Error(`${method} is not allowed by this token (read-only)`);
+  }
+  if ((method === 'Page.navigate' || method === 'Target.createTarget') && params.url) {
+    enforceNavigationPolicy(session, params.url as string, method);
+  }
+  
+  // Get the current page: the session's target, else targetId from params or default
+  let targetId = (params.targetId as string) || session.defaultTargetId;
+  if (sessionId) {
+    const attachedTargetId = session.attachedSessions.get(sessionId);
+    if (!attachedTargetId) throw new Error(`Session with given id not found: ${sessionId}`);
+    targetId = attachedTargetId;
+  }
+  const page = session.pages.get(targetId);
+
+  switch (domain) {
+    case 'Browser':
+      return handleBrowser(session, command, params);
+    
+    case 'Target':
+      return handleTarget(session, command, params, ws);
+    
+    case 'Page':
+      if (!page) throw new Error(`Target not found: ${targetId}`);
+      return handlePage(session, page, command, params, ws);
+    
+    case 'Runtime':
+      if (!page) throw new Error(`Target not found: ${targetId}`);
+      return handleRuntime(session, page, command, params, ws);
+    
+    case 'DOM':
+      if (!page) throw new Error(`Target not found: ${targetId}`);
+      return handleDOM(session, page, command, params);
+    
+    case 'Accessibility':
+      if (!page) throw new Error(`Target not found: ${targetId}`);
+      return handleAccessibility(session, page, command, params);
+    
+    case 'Input':
+      if (!page) throw new Error(`Target not found: ${targetId}`);
+      return handleInput(page, command, params);
+    
+    case 'Network':
+      return handleNetwork(session, page, command, params, ws);
+    
+    case 'Emulation':
+      if (!page) throw new Error(`Target not found: ${targetId}`);
+      return handleEmulation(session, page, command, params);
+    
+    case 'Log':
+      if (!page) throw new Error(`Target not found: ${targetId}`);
+      return handleLog(session, page, command, ws);
+    
+    case 'Performance':
+      if (!page) throw new Error(`Target not found: ${targetId}`);
+      return handlePerformance(page, command);
+    
+    case 'Fetch':
+      if (!page) throw new Error(`Target not found: ${targetId}`);
+      return handleFetch(session, page, command, params, ws);
+    
+    default:
+      throw new Error(`Unknown domain: ${domain}`);
+  }
+}
+
+/**
+ * Browser domain handlers
+ */
+async function handleBrowser(
+  session: CDPSession,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  switch (command) {
+    case 'getVersion':
+      return {
+        protocolVersion: '1.3',
+        product: 'Cloudflare-Browser-Rendering',
+        revision: 'cloudflare',
+        userAgent: 'Mozilla/5.0 Cloudflare Browser Rendering',
+        jsVersion: 'V8',
+      };
+    
+    case 'close':
+      await session.browser.close();
+      return {};
+    
+    case 'setDownloadBehavior':
+      // Applies to every browser context; downloadPath is ignored since files go to R2
+      session.downloadBehavior = parseDownloadBehavior(params.behavior);
+      session.downloadEventsEnabled = params.eventsEnabled === true;
+      return {};
+    
+    default:
+      throw new Error(`Unknown Browser method: ${command}`);
+  }
+}
+
+/**
+ * Build a CDP TargetInfo for a page target
+ */
+async function getTargetInfo(session: CDPSession, targetId: string): Promise<Record<string, unknown>> {
+  const page = session.pages.get(targetId);
+  if (!page) throw new Error(`Target not found: ${targetId}`);
+
+  return {
+    targetId,
+    type: 'page',
+    title: await page.title().catch(() => ''),
+    url: page.url(),
+    attached: [...session.attachedSessions.values()].includes(targetId),
+    canAccessOpener: false,
+    browserContextId: session.targetContexts.get(targetId) ?? session.defaultBrowserContextId,
+  };
+}
+
+function isDefaultContextTarget(session: CDPSession, targetId: string): boolean {
+  return (session.targetContexts.get(targetId) ?? session.defaultBrowserContextId) === session.defaultBrowserContextId;
+}
+
+/**
+ * Find the target id of a page
+ */
+function targetIdForPage(session: CDPSession, page: Page): string {
+  for (const [targetId, p] of session.pages) {
+    if (p === page) return targetId;
+  }
+  return session.defaultTargetId;
+}
+
+/**
+ * Find the flattened session attached to a target, if any
+ */
+function sessionIdForTarget(session: CDPSession, targetId: string): string | undefined {
+  for (const [sessionId, attachedTargetId] of session.attachedSessions) {
+    if (attachedTargetId === targetId) return sessionId;
+  }
+  return undefined;
+}
+
+/**
+ * Attach a flattened session to a target and announce it with Target.attachedToTarget
+ */
+async function attachSession(session: CDPSession, ws: WebSocket, targetId: string): Promise<string> {
+  const sessionId = crypto.randomUUID().replace(/-/g, '').toUpperCase();
+  session.attachedSessions.set(sessionId, targetId);
+
+  sendEvent(ws, 'Target.attachedToTarget', {
+    sessionId,
+    targetInfo: await getTargetInfo(session, targetId),
+    waitingForDebugger: false,
+  });
+
+  return sessionId;
+}
+
+/**
+ * Detach sessions from a target (or a single session) and announce it with Target.detachedFromTarget
+ */
+function detachSessions(session: CDPSession, ws: WebSocket, targetId: string, onlySessionId?: string): void {
+  for (const [sessionId, attachedTargetId] of session.attachedSessions) {
+    if (attachedTargetId !== targetId) continue;
+    if (onlySessionId && sessionId !== onlySessionId) continue;
+
+    session.attachedSessions.delete(sessionId);
+    sendEvent(ws, 'Target.detachedFromTarget', { sessionId, targetId });
+  }
+}
+
+/**
+ * Register a new page as a target and auto-attach to it if the client asked for that
+ */
+async function addTarget(
+  session: CDPSession,
+  ws: WebSocket,
+  page: Page,
+  browserContextId?: string
+): Promise<string> {
+  const targetId = crypto.randomUUID();
+  await attachRequestInterception(session, ws, page);
+  session.pages.set(targetId, page);
+  attachRecorder(session, page);
+  attachDownloadHandler(session, ws, page);
+  attachFrameListeners(session, ws, page);
+  if (browserContextId) session.targetContexts.set(targetId, browserContextId);
+  if (isDefaultContextTarget(session, targetId)) await applyProfileStorage(session, page);
+
+  sendEvent(ws, 'Target.targetCreated', { targetInfo: await getTargetInfo(session, targetId) });
+  if (session.autoAttach) {
+    await attachSession(session, ws, targetId);
+  }
+
+  return targetId;
+}
+
+/**
+ * Close a page target and detach any sessions attached to it
+ */
+async function removeTarget(session: CDPSession, ws: WebSocket, targetId: string): Promise<void> {
+  const page = session.pages.get(targetId);
+  if (!page) throw new Error(`Target not found: ${targetId}`);
+
+  detachSessions(session, ws, targetId);
+  await stopScreencast(session, page);
+  await page.close().catch(() => {});
+  session.pages.delete(targetId);
+  session.targetContexts.delete(targetId);
+  session.networkEnabledPages.delete(page);
+  session.fetchPatterns.delete(page);
+  session.runtimeEnabledPages.delete(page);
+  session.logEnabledPages.delete(page);
+  session.lifecycleEventPages.delete(page);
+  session.bindings.delete(page);
+  clearExecutionContexts(session, page);
+  releaseNodes(session, page);
+
+  sendEvent(ws, 'Target.targetDestroyed', { targetId });
+}
+
+/**
+ * Target domain handlers
+ *
+ * Implements the flattened session protocol: Target.attachToTarget (or auto-attach)
+ * returns a sessionId, and commands carrying that sessionId are routed to its page.
+ */
+async function handleTarget(
+  session: CDPSession,
   command: string,
   params: Record<string, unknown>,
   ws: WebSocket
@@ -512,67 +1868,166 @@ async function handleTarget(
   switch (command) {
     case 'createTarget': {
       const url = (params.url as string) || 'about:blank';
-      const page = await session.browser.newPage();
-      const targetId = crypto.randomUUID();
-      
-      session.pages.set(targetId, page);
-      
+      const browserContextId = params.browserContextId as string | undefined;
+
+      const { maxTargets } = session.limits;
+      if (maxTargets && session.pages.size >= maxTargets) {
+        trackLimitRejection('targets');
+        throw new Error(`Target limit reached: at most ${maxTargets} pages per session`);
+      }
+
+      let page: Page;
+      if (browserContextId && browserContextId !== session.defaultBrowserContextId) {
+        const context = session.browserContexts.get(browserContextId);
+        if (!context) throw new Error(`Browser context not found: ${browserContextId}`);
+        page = await context.newPage();
+      } else {
+        page = await session.context.newPage();
+      }
+
+      const targetId = await addTarget(session, ws, page, browserContextId);
+
       if (url !== 'about:blank') {
         await page.goto(url);
       }
-      
-      sendEvent(ws, 'Target.targetCreated', {
-        targetInfo: {
-          targetId,
-          type: 'page',
-          title: await page.title(),
-          url: page.url(),
-          attached: true,
-        },
-      });
-      
+
       return { targetId };
     }
     
     case 'closeTarget': {
-      const targetId = params.targetId as string;
-      const page = session.pages.get(targetId);
-      
-      if (!page) {
-        throw new Error(`Target not found: ${targetId}`);
-      }
-      
-      await page.close();
-      session.pages.delete(targetId);
-      
-      sendEvent(ws, 'Target.targetDestroyed', { targetId });
-      
+      await removeTarget(session, ws, params.targetId as string);
       return { success: true };
     }
     
     case 'getTargets': {
-      const targets = [];
-      for (const [targetId, page] of session.pages) {
-        targets.push({
-          targetId,
-          type: 'page',
-          title: await page.title(),
-          url: page.url(),
-          attached: true,
-        });
+      const targetInfos = [];
+      for (const targetId of session.pages.keys()) {
+        targetInfos.push(await getTargetInfo(session, targetId));
       }
-      return { targetInfos: targets };
+      return { targetInfos };
+    }
+
+    case 'getTargetInfo': {
+      const targetId = (params.targetId as string) || session.defaultTargetId;
+      return { targetInfo: await getTargetInfo(session, targetId) };
+    }
+
+    case 'activateTarget': {
+      const page = session.pages.get(params.targetId as string);
+      if (!page) throw new Error(`Target not found: ${params.targetId}`);
+      await page.bringToFront();
+      return {};
     }
     
-    case 'attachToTarget':
-      // Already attached
-      return { sessionId: params.targetId };
+    case 'attachToTarget': {
+      const targetId = params.targetId as string;
+      if (!session.pages.has(targetId)) throw new Error(`Target not found: ${targetId}`);
+      return { sessionId: await attachSession(session, ws, targetId) };
+    }
+
+    case 'detachFromTarget': {
+      const sessionId = params.sessionId as string | undefined;
+      const targetId = sessionId ? session.attachedSessions.get(sessionId) : (params.targetId as string);
+      if (!targetId) throw new Error(`Session not found: ${sessionId}`);
+      detachSessions(session, ws, targetId, sessionId);
+      return {};
+    }
+
+    case 'setAutoAttach': {
+      session.autoAttach = !!params.autoAttach;
+      if (session.autoAttach) {
+        for (const targetId of session.pages.keys()) {
+          if (!sessionIdForTarget(session, targetId)) {
+            await attachSession(session, ws, targetId);
+          }
+        }
+      }
+      return {};
+    }
+
+    case 'setDiscoverTargets': {
+      if (params.discover) {
+        for (const targetId of session.pages.keys()) {
+          sendEvent(ws, 'Target.targetCreated', { targetInfo: await getTargetInfo(session, targetId) });
+        }
+      }
+      return {};
+    }
+
+    case 'createBrowserContext': {
+      const context = await session.browser.createBrowserContext();
+      const browserContextId = crypto.randomUUID().replace(/-/g, '').toUpperCase();
+      session.browserContexts.set(browserContextId, context);
+      return { browserContextId };
+    }
+
+    case 'disposeBrowserContext': {
+      const browserContextId = params.browserContextId as string;
+      const context = session.browserContexts.get(browserContextId);
+      if (!context) throw new Error(`Browser context not found: ${browserContextId}`);
+
+      for (const [targetId, contextId] of [...session.targetContexts]) {
+        if (contextId === browserContextId) {
+          await removeTarget(session, ws, targetId);
+        }
+      }
+      await context.close();
+      session.browserContexts.delete(browserContextId);
+      return {};
+    }
+
+    case 'getBrowserContexts':
+      return { browserContextIds: [session.defaultBrowserContextId, ...session.browserContexts.keys()] };
     
     default:
       throw new Error(`Unknown Target method: ${command}`);
   }
 }
 
+/**
+ * Start streaming Page.screencastFrame events for a page
+ *
+ * The screencast runs in the remote browser over its own CDP session, so frames
+ * (and their metadata) are forwarded as-is and acks are passed back through.
+ */
+async function startScreencast(
+  session: CDPSession,
+  ws: WebSocket,
+  page: Page,
+  params: Record<string, unknown>
+): Promise<void> {
+  await stopScreencast(session, page);
+
+  const client = await page.createCDPSession();
+  client.on('Page.screencastFrame', (frame) => {
+    sendTargetEvent(session, ws, page, 'Page.screencastFrame', { ...frame });
+  });
+  client.on('Page.screencastVisibilityChanged', (event) => {
+    sendTargetEvent(session, ws, page, 'Page.screencastVisibilityChanged', { ...event });
+  });
+  session.screencasts.set(page, client);
+
+  await client.send('Page.startScreencast', {
+    format: (params.format as 'jpeg' | 'png' | undefined) ?? 'jpeg',
+    quality: params.quality as number | undefined,
+    maxWidth: params.maxWidth as number | undefined,
+    maxHeight: params.maxHeight as number | undefined,
+    everyNthFrame: params.everyNthFrame as number | undefined,
+  });
+}
+
+/**
+ * Stop a page's screencast, if one is running
+ */
+async function stopScreencast(session: CDPSession, page: Page): Promise<void> {
+  const client = session.screencasts.get(page);
+  if (!client) return;
+
+  session.screencasts.delete(page);
+  await client.send('Page.stopScreencast').catch(() => {});
+  await client.detach().catch(() => {});
+}
+
 /**
  * Page domain handlers
  */
@@ -591,51 +2046,60 @@ async function handlePage(
       const response = await page.goto(url, {
         waitUntil: 'load',
       });
+      releaseNodes(session, page);
+      sendTargetEvent(session, ws, page, 'DOM.documentUpdated');
       
-      sendEvent(ws, 'Page.frameNavigated', {
-        frame: {
-          id: session.defaultTargetId,
-          url: page.url(),
-          securityOrigin: new URL(page.url()).origin,
-          mimeType: 'text/html',
-        },
-      });
-      
-      sendEvent(ws, 'Page.loadEventFired', {
+      // Page.frameNavigated was sent by attachFrameListeners as the document committed
+      sendTargetEvent(session, ws, page, 'Page.loadEventFired', {
         timestamp: Date.now() / 1000,
       });
       
       return {
-        frameId: session.defaultTargetId,
-        loaderId: crypto.randomUUID(),
+        frameId: targetIdForPage(session, page),
+        loaderId: getLoaderId(session, page.mainFrame()),
         errorText: response?.ok() ? undefined : 'Navigation failed',
       };
     }
     
     case 'reload': {
       await page.reload();
+      releaseNodes(session, page);
+      sendTargetEvent(session, ws, page, 'DOM.documentUpdated');
       return {};
     }
     
     case 'getFrameTree': {
-      return {
-        frameTree: {
-          frame: {
-            id: session.defaultTargetId,
-            loaderId: crypto.randomUUID(),
-            url: page.url(),
-            securityOrigin: page.url() ? new URL(page.url()).origin : '',
-            mimeType: 'text/html',
-          },
-          childFrames: [],
-        },
-      };
+      return { frameTree: buildFrameTree(session, page, page.mainFrame()) };
+    }
+    
+    case 'setLifecycleEventsEnabled':
+      // Puppeteer and Playwright wait for this while setting up a page
+      if (params.enabled) session.lifecycleEventPages.add(page);
+      else session.lifecycleEventPages.delete(page);
+      return {};
+    
+    case 'createIsolatedWorld': {
+      const frame = findFrame(session, page, params.frameId as string);
+      getIsolatedRealm(frame);  // fail now rather than on first evaluate
+      
+      const contextId = createExecutionContext(session, page, frame, (params.worldName as string) || '');
+      if (session.runtimeEnabledPages.has(page)) {
+        sendExecutionContextCreated(session, ws, contextId);
+      }
+      return { executionContextId: contextId };
     }
     
     case 'captureScreenshot': {
       const format = (params.format as string) || 'png';
       const quality = params.quality as number | undefined;
-      const clip = params.clip as { x: number; y: number; width: number; height: number } | undefined;
+      const clip = params.clip as { x: number; y: number; width: number; height: number; scale?: number } | undefined;
+      
+      if (clip) {
+        checkScreenshotSize(session, clip.width, clip.height, clip.scale ?? 1);
+      } else {
+        const viewport = page.viewport();
+        if (viewport) checkScreenshotSize(session, viewport.width, viewport.height, viewport.deviceScaleFactor ?? 1);
+      }
       
       const data = await page.screenshot({
         type: format as 'png' | 'jpeg' | 'webp',
@@ -648,6 +2112,24 @@ async function handlePage(
       return { data };
     }
     
+    case 'startScreencast': {
+      await startScreencast(session, ws, page, params);
+      return {};
+    }
+    
+    case 'screencastFrameAck': {
+      const client = session.screencasts.get(page);
+      if (client) {
+        await client.send('Page.screencastFrameAck', { sessionId: params.sessionId as number });
+      }
+      return {};
+    }
+    
+    case 'stopScreencast': {
+      await stopScreencast(session, page);
+      return {};
+    }
+    
     case 'getLayoutMetrics': {
       const metrics = await page.evaluate(() => ({
         width: document.documentElement.scrollWidth,
@@ -692,6 +2174,8 @@ async function handlePage(
       await page.setContent(html, {
         waitUntil: (params.waitUntil as 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2') || 'load',
       });
+      releaseNodes(session, page);
+      sendTargetEvent(session, ws, page, 'DOM.documentUpdated');
       
       return {};
     }
@@ -722,12 +2206,16 @@ async function handlePage(
     }
     
     case 'addScriptToEvaluateOnNewDocument': {
-      const source = params.source as string;
-      if (!source) throw new Error('source is required');
+      const source = params.source;
+      // Playwright sends an empty script just to create its utility world
+      if (typeof source !== 'string') throw new Error('source is required');
       
       const identifier = crypto.randomUUID();
       session.scriptsToEvaluateOnNewDocument.set(identifier, source);
       
+      // The script itself runs in the main world, but clients expect the named world to exist
+      if (params.worldName) session.isolatedWorldNames.add(params.worldName as string);
+      
       // Add to the page via evaluateOnNewDocument
       await page.evaluateOnNewDocument(source);
       
@@ -784,24 +2272,403 @@ async function handlePage(
         const delta = id - (window.history.length - 1);
         window.history.go(delta);
       }, entryId);
+      releaseNodes(session, page);
+      sendTargetEvent(session, ws, page, 'DOM.documentUpdated');
       
       return {};
     }
-    
-    case 'setBypassCSP': {
-      const enabled = params.enabled as boolean;
-      await page.setBypassCSP(enabled);
-      return {};
+    
+    case 'setBypassCSP': {
+      const enabled = params.enabled as boolean;
+      await page.setBypassCSP(enabled);
+      return {};
+    }
+    
+    case 'setDownloadBehavior':
+      session.downloadBehavior = parseDownloadBehavior(params.behavior);
+      return {};
+    
+    case 'enable':
+    case 'disable':
+      // No-op, events always enabled
+      return {};
+    
+    default:
+      throw new Error(`Unknown Page method: ${command}`);
+  }
+}
+
+/**
+ * CDP frame id of a frame; a page's main frame shares its target id, as in Chrome
+ */
+function getFrameId(session: CDPSession, page: Page, frame: Frame): string {
+  if (frame === page.mainFrame()) return targetIdForPage(session, page);
+
+  let frameId = session.frameIds.get(frame);
+  if (!frameId) {
+    frameId = crypto.randomUUID().replace(/-/g, '').toUpperCase();
+    session.frameIds.set(frame, frameId);
+  }
+  return frameId;
+}
+
+function findFrame(session: CDPSession, page: Page, frameId: string): Frame {
+  const frame = page.frames().find(f => getFrameId(session, page, f) === frameId);
+  if (!frame) throw new Error(`No frame for given id found: ${frameId}`);
+  return frame;
+}
+
+/**
+ * loaderId of a frame's current document, matching the requestId of the
+ * navigation request that loaded it (assigned on first use otherwise)
+ */
+function getLoaderId(session: CDPSession, frame: Frame): string {
+  let loaderId = session.loaderIds.get(frame);
+  if (!loaderId) {
+    loaderId = crypto.randomUUID();
+    session.loaderIds.set(frame, loaderId);
+  }
+  return loaderId;
+}
+
+function sendLifecycleEvent(session: CDPSession, ws: WebSocket, page: Page, frame: Frame, name: string): void {
+  if (!session.lifecycleEventPages.has(page)) return;
+  sendTargetEvent(session, ws, page, 'Page.lifecycleEvent', {
+    frameId: getFrameId(session, page, frame),
+    loaderId: getLoaderId(session, frame),
+    name,
+    timestamp: Date.now() / 1000,
+  });
+}
+
+/**
+ * Build a CDP Frame for Page.getFrameTree and Page.frameNavigated
+ */
+function describeFrame(session: CDPSession, page: Page, frame: Frame): Record<string, unknown> {
+  const url = frame.url();
+  const parent = frame.parentFrame();
+  return {
+    id: getFrameId(session, page, frame),
+    parentId: parent ? getFrameId(session, page, parent) : undefined,
+    loaderId: getLoaderId(session, frame),
+    name: frame.name(),
+    url,
+    securityOrigin: url ? new URL(url).origin : '',
+    mimeType: 'text/html',
+  };
+}
+
+function buildFrameTree(session: CDPSession, page: Page, frame: Frame): Record<string, unknown> {
+  return {
+    frame: describeFrame(session, page, frame),
+    childFrames: frame.childFrames().map(child => buildFrameTree(session, page, child)),
+  };
+}
+
+/**
+ * Subscribe to a page's frames (once per page, when its target is created)
+ *
+ * Sends Page.frameAttached/frameDetached/frameNavigated for every frame and keeps
+ * execution contexts in step: each new document gets a new main world context,
+ * plus the isolated worlds named by Page.addScriptToEvaluateOnNewDocument.
+ * With Page.setLifecycleEventsEnabled on, also sends Page.lifecycleEvent for
+ * init, DOMContentLoaded and load.
+ */
+function attachFrameListeners(session: CDPSession, ws: WebSocket, page: Page): void {
+  page.on('request', (request) => {
+    // Clients match the navigation's requestId against the loaderId in frameNavigated
+    if (request.isNavigationRequest() && request.frame()) {
+      session.loaderIds.set(request.frame()!, getRequestId(session, request));
+    }
+  });
+
+  page.on('frameattached', (frame) => {
+    const parent = frame.parentFrame();
+    sendTargetEvent(session, ws, page, 'Page.frameAttached', {
+      frameId: getFrameId(session, page, frame),
+      parentFrameId: parent ? getFrameId(session, page, parent) : undefined,
+    });
+  });
+
+  page.on('framedetached', (frame) => {
+    destroyExecutionContexts(session, ws, page, frame);
+    sendTargetEvent(session, ws, page, 'Page.frameDetached', { frameId: getFrameId(session, page, frame), reason: 'remove' });
+  });
+
+  page.on('framenavigated', (frame) => {
+    sendLifecycleEvent(session, ws, page, frame, 'init');
+
+    // A new document means new execution contexts; old object ids are now stale
+    if (frame === page.mainFrame()) {
+      clearExecutionContexts(session, page);
+      if (session.runtimeEnabledPages.has(page)) {
+        sendTargetEvent(session, ws, page, 'Runtime.executionContextsCleared');
+      }
+    } else {
+      destroyExecutionContexts(session, ws, page, frame);
+    }
+
+    if (session.runtimeEnabledPages.has(page)) {
+      sendExecutionContextCreated(session, ws, getExecutionContextId(session, page, frame));
+      for (const worldName of session.isolatedWorldNames) {
+        sendExecutionContextCreated(session, ws, createExecutionContext(session, page, frame, worldName));
+      }
+    }
+
+    sendTargetEvent(session, ws, page, 'Page.frameNavigated', {
+      frame: describeFrame(session, page, frame),
+      type: 'Navigation',
+    });
+  });
+
+  page.on('domcontentloaded', () => sendLifecycleEvent(session, ws, page, page.mainFrame(), 'DOMContentLoaded'));
+  page.on('load', () => {
+    // Network idleness isn't observable here; report it with load so networkidle waits finish
+    for (const name of ['load', 'networkAlmostIdle', 'networkIdle']) {
+      sendLifecycleEvent(session, ws, page, page.mainFrame(), name);
+    }
+  });
+}
+
+function createExecutionContext(session: CDPSession, page: Page, frame: Frame, worldName: string | null): number {
+  const contextId = session.executionContextCounter++;
+  session.executionContexts.set(contextId, { page, frame, worldName });
+  return contextId;
+}
+
+/**
+ * Execution context id of a frame's main world (or a named isolated world),
+ * assigning one on first use
+ */
+function getExecutionContextId(
+  session: CDPSession,
+  page: Page,
+  frame: Frame = page.mainFrame(),
+  worldName: string | null = null
+): number {
+  for (const [contextId, context] of session.executionContexts) {
+    if (context.frame === frame && context.worldName === worldName) return contextId;
+  }
+  return createExecutionContext(session, page, frame, worldName);
+}
+
+function forgetExecutionContext(session: CDPSession, contextId: number): void {
+  session.executionContexts.delete(contextId);
+  for (const [objectId, objectContextId] of session.objectContexts) {
+    if (objectContextId === contextId) session.objectContexts.delete(objectId);
+  }
+}
+
+/**
+ * Drop every execution context of a page (its main document went away)
+ */
+function clearExecutionContexts(session: CDPSession, page: Page): void {
+  for (const [contextId, context] of session.executionContexts) {
+    if (context.page === page) forgetExecutionContext(session, contextId);
+  }
+}
+
+/**
+ * Drop a frame's execution contexts, sending Runtime.executionContextDestroyed for each
+ */
+function destroyExecutionContexts(session: CDPSession, ws: WebSocket, page: Page, frame: Frame): void {
+  for (const [contextId, context] of session.executionContexts) {
+    if (context.frame !== frame) continue;
+    forgetExecutionContext(session, contextId);
+    if (session.runtimeEnabledPages.has(page)) {
+      sendTargetEvent(session, ws, page, 'Runtime.executionContextDestroyed', {
+        executionContextId: contextId,
+        executionContextUniqueId: `${getFrameId(session, page, frame)}.${contextId}`,
+      });
+    }
+  }
+}
+
+/**
+ * Send Runtime.executionContextCreated for an execution context
+ */
+function sendExecutionContextCreated(session: CDPSession, ws: WebSocket, contextId: number): void {
+  const context = session.executionContexts.get(contextId);
+  if (!context) return;
+
+  const { page, frame, worldName } = context;
+  const url = frame.url();
+  const frameId = getFrameId(session, page, frame);
+  sendTargetEvent(session, ws, page, 'Runtime.executionContextCreated', {
+    context: {
+      id: contextId,
+      origin: url.startsWith('http') ? new URL(url).origin : '',
+      name: worldName ?? '',
+      uniqueId: `${frameId}.${contextId}`,
+      auxData: { isDefault: worldName === null, type: worldName === null ? 'default' : 'isolated', frameId },
+    },
+  });
+}
+
+/**
+ * One of a frame's realms, through Puppeteer's internal Frame.mainRealm() / Frame.isolatedRealm()
+ *
+ * They aren't in Puppeteer's types, so this is the only place the shim reaches
+ * for them; if a Puppeteer update renames or drops them, every caller fails
+ * here with an error that says so rather than deep inside a DOM command.
+ */
+function getFrameRealm(frame: Frame, name: 'mainRealm' | 'isolatedRealm'): NodeRealm {
+  const accessor = (frame as unknown as Record<string, unknown>)[name];
+  if (typeof accessor !== 'function') {
+    throw new Error(`Unsupported Puppeteer version: Frame.${name}() is not available`);
+  }
+  const realm = accessor.call(frame) as NodeRealm | undefined;
+  if (!realm) throw new Error(`Frame.${name}() returned no realm`);
+  return realm;
+}
+
+/**
+ * Puppeteer's isolated world for a frame
+ *
+ * Puppeteer keeps one isolated world per frame for its own use, so all worlds
+ * from Page.createIsolatedWorld share it: they are isolated from the page's
+ * scripts, not from each other.
+ */
+function getIsolatedRealm(frame: Frame): ExecutionRealm {
+  return getFrameRealm(frame, 'isolatedRealm');
+}
+
+/**
+ * Where to evaluate for a command's execution context id (the main frame if none)
+ */
+function getExecutionRealm(session: CDPSession, page: Page, contextId: number | undefined): ExecutionRealm {
+  if (contextId === undefined) return page;
+
+  const context = session.executionContexts.get(contextId);
+  if (!context || context.page !== page) throw new Error('Cannot find context with specified id');
+  return context.worldName === null ? context.frame : getIsolatedRealm(context.frame);
+}
+
+/**
+ * Map a Puppeteer console message type to a CDP Runtime.consoleAPICalled type
+ */
+function toCDPConsoleType(type: string): string {
+  if (type === 'warn') return 'warning';
+  if (type === 'verbose') return 'debug';
+  return type;
+}
+
+/**
+ * Map a Puppeteer console message type to a CDP Log.entryAdded level
+ */
+function toLogLevel(type: string): string {
+  if (type === 'error' || type === 'assert') return 'error';
+  if (type === 'warn') return 'warning';
+  if (type === 'debug' || type === 'verbose') return 'verbose';
+  return 'info';
+}
+
+/**
+ * Subscribe to a page's console and error events (once per page)
+ *
+ * Runtime.* events are sent while Runtime.enable is active for the page and
+ * Log.entryAdded while Log.enable is.
+ */
+function attachRuntimeListeners(session: CDPSession, ws: WebSocket, page: Page): void {
+  if (session.runtimeListenerPages.has(page)) return;
+  session.runtimeListenerPages.add(page);
+
+  page.on('console', async (message) => {
+    const location = message.location();
+    const timestamp = Date.now();
+
+    if (session.logEnabledPages.has(page)) {
+      sendTargetEvent(session, ws, page, 'Log.entryAdded', {
+        entry: {
+          source: 'console-api',
+          level: toLogLevel(message.type()),
+          text: message.text(),
+          timestamp,
+          url: location.url,
+          lineNumber: location.lineNumber,
+        },
+      });
+    }
+
+    if (session.runtimeEnabledPages.has(page)) {
+      const args = [];
+      for (const arg of message.args()) {
+        args.push(await toRemoteObject(session, arg, false));
+      }
+      sendTargetEvent(session, ws, page, 'Runtime.consoleAPICalled', {
+        type: toCDPConsoleType(message.type()),
+        args,
+        executionContextId: getExecutionContextId(session, page),
+        timestamp,
+        stackTrace: {
+          callFrames: message.stackTrace().map(frame => ({
+            functionName: '',
+            scriptId: '',
+            url: frame.url ?? '',
+            lineNumber: frame.lineNumber ?? 0,
+            columnNumber: frame.columnNumber ?? 0,
+          })),
+        },
+      });
+    }
+  });
+
+  page.on('pageerror', (error) => {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const timestamp = Date.now();
+
+    if (session.logEnabledPages.has(page)) {
+      sendTargetEvent(session, ws, page, 'Log.entryAdded', {
+        entry: { source: 'javascript', level: 'error', text: err.message, timestamp, url: page.url() },
+      });
     }
-    
-    case 'enable':
-    case 'disable':
-      // No-op, events always enabled
-      return {};
-    
-    default:
-      throw new Error(`Unknown Page method: ${command}`);
+
+    if (session.runtimeEnabledPages.has(page)) {
+      sendTargetEvent(session, ws, page, 'Runtime.exceptionThrown', {
+        timestamp,
+        exceptionDetails: {
+          exceptionId: session.exceptionIdCounter++,
+          text: 'Uncaught',
+          lineNumber: 0,
+          columnNumber: 0,
+          url: page.url(),
+          exception: {
+            type: 'object',
+            subtype: 'error',
+            className: err.name,
+            description: err.stack || `${err.name}: ${err.message}`,
+          },
+          executionContextId: getExecutionContextId(session, page),
+        },
+      });
+    }
+  });
+}
+
+/**
+ * Expose a Runtime binding: calling `window[name](payload)` in the page sends Runtime.bindingCalled
+ *
+ * Built on page.exposeFunction, so the binding is installed in every frame's main
+ * world and survives navigations. Puppeteer doesn't say which frame called, so
+ * events carry the main frame's context id; executionContextId/executionContextName
+ * restrictions are not supported.
+ */
+async function addBinding(session: CDPSession, ws: WebSocket, page: Page, name: string): Promise<void> {
+  let names = session.bindings.get(page);
+  if (!names) {
+    names = new Set();
+    session.bindings.set(page, names);
   }
+  if (names.has(name)) return;
+
+  await page.exposeFunction(name, (payload: unknown) => {
+    sendTargetEvent(session, ws, page, 'Runtime.bindingCalled', {
+      name,
+      payload: typeof payload === 'string' ? payload : JSON.stringify(payload ?? null),
+      executionContextId: getExecutionContextId(session, page),
+    });
+  });
+  names.add(name);
 }
 
 /**
@@ -811,7 +2678,8 @@ async function handleRuntime(
   session: CDPSession,
   page: Page,
   command: string,
-  params: Record<string, unknown>
+  params: Record<string, unknown>,
+  ws: WebSocket
 ): Promise<unknown> {
   switch (command) {
     case 'evaluate': {
@@ -820,6 +2688,8 @@ async function handleRuntime(
       
       const returnByValue = params.returnByValue ?? true;
       const awaitPromise = params.awaitPromise ?? false;
+      const contextId = params.contextId as number | undefined;
+      const realm = getExecutionRealm(session, page, contextId);
       
       try {
         // Wrap in async IIFE if awaitPromise is true
@@ -827,22 +2697,21 @@ async function handleRuntime(
           ? `(async () => { return ${expression}; })()`
           : expression;
         
-        const result = await page.evaluate(wrappedExpression);
-        
-        // Store object reference if not returning by value
-        let objectId: string | undefined;
-        if (!returnByValue && result !== null && typeof result === 'object') {
-          objectId = `obj-${session.objectIdCounter++}`;
-          session.objectMap.set(objectId, result);
+        // Keep a live handle when the caller wants an object reference, so it can be
+        // passed to Runtime.callFunctionOn or DOM.requestNode later
+        if (!returnByValue) {
+          const handle = await realm.evaluateHandle(wrappedExpression);
+          return { result: await toRemoteObject(session, handle, false, contextId ?? getExecutionContextId(session, page)) };
         }
+
+        const result = await realm.evaluate(wrappedExpression);
         
         return {
           result: {
             type: typeof result,
             subtype: Array.isArray(result) ? 'array' : (result === null ? 'null' : undefined),
             className: result?.constructor?.name,
-            value: returnByValue ? result : undefined,
-            objectId,
+            value: result,
             description: String(result),
           },
         };
@@ -860,35 +2729,35 @@ async function handleRuntime(
     
     case 'callFunctionOn': {
       const functionDeclaration = params.functionDeclaration as string;
+      if (!functionDeclaration) throw new Error('functionDeclaration is required');
       const args = (params.arguments as Array<{ value?: unknown; objectId?: string }>) || [];
-      const returnByValue = params.returnByValue ?? true;
+      const returnByValue = (params.returnByValue as boolean | undefined) ?? true;
+      const objectId = params.objectId as string | undefined;
+      
+      // Run in the object's world if there is one, else the given context (DOM nodes live in the main frame)
+      const contextId = objectId ? session.objectContexts.get(objectId) : params.executionContextId as number | undefined;
+      const realm = getExecutionRealm(session, page, contextId);
       
       try {
-        // Resolve object references in arguments
-        const argValues = args.map(a => {
-          if (a.objectId) {
-            return session.objectMap.get(a.objectId);
-          }
-          return a.value;
-        });
+        // Resolve object references (including DOM nodes from DOM.resolveNode) to live handles
+        const thisArg = objectId ? resolveObject(session, objectId) : undefined;
+        const argValues = args.map(a => (a.objectId ? resolveObject(session, a.objectId) : a.value));
         
-        const fn = new Function(`return (${functionDeclaration}).apply(this, arguments)`);
-        const result = await page.evaluate(fn as () => unknown, ...argValues);
-        
-        let objectId: string | undefined;
-        if (!returnByValue && result !== null && typeof result === 'object') {
-          objectId = `obj-${session.objectIdCounter++}`;
-          session.objectMap.set(objectId, result);
+        // Workers can't compile code (no eval/new Function), so create the function inside the page
+        const fn = await realm.evaluateHandle(`(${functionDeclaration})`);
+        try {
+          const result = await realm.evaluateHandle(
+            (f: unknown, self: unknown, ...rest: unknown[]) => (f as (...a: unknown[]) => unknown).apply(self, rest),
+            fn,
+            thisArg,
+            ...argValues
+          );
+          return {
+            result: await toRemoteObject(session, result, returnByValue, contextId ?? getExecutionContextId(session, page)),
+          };
+        } finally {
+          await fn.dispose();
         }
-        
-        return {
-          result: {
-            type: typeof result,
-            subtype: Array.isArray(result) ? 'array' : (result === null ? 'null' : undefined),
-            value: returnByValue ? result : undefined,
-            objectId,
-          },
-        };
       } catch (err) {
         return {
           exceptionDetails: {
@@ -903,63 +2772,424 @@ async function handleRuntime(
     
     case 'getProperties': {
       const objectId = params.objectId as string;
-      const ownProperties = params.ownProperties ?? true;
       
       const obj = session.objectMap.get(objectId);
-      if (!obj || typeof obj !== 'object') {
+      if (!obj) {
         return { result: [] };
       }
       
-      const properties: Array<{
-        name: string;
-        value: { type: string; value?: unknown; description?: string };
-        writable?: boolean;
-        configurable?: boolean;
-        enumerable?: boolean;
-        isOwn?: boolean;
-      }> = [];
-      
-      const keys = ownProperties ? Object.getOwnPropertyNames(obj) : Object.keys(obj as object);
-      
-      for (const key of keys) {
-        const value = (obj as Record<string, unknown>)[key];
-        const descriptor = Object.getOwnPropertyDescriptor(obj, key);
-        
-        properties.push({
-          name: key,
-          value: {
-            type: typeof value,
-            value: value,
-            description: String(value),
-          },
-          writable: descriptor?.writable,
-          configurable: descriptor?.configurable,
-          enumerable: descriptor?.enumerable,
+      const handles = await obj.getProperties();
+      const result = [];
+      for (const [name, handle] of handles) {
+        result.push({
+          name,
+          value: await toRemoteObject(session, handle, false, session.objectContexts.get(objectId)),
+          writable: true,
+          configurable: true,
+          enumerable: true,
           isOwn: true,
         });
       }
       
-      return { result: properties };
+      return { result };
     }
     
     case 'releaseObject': {
       const objectId = params.objectId as string;
+      await session.objectMap.get(objectId)?.dispose().catch(() => {});
       session.objectMap.delete(objectId);
+      session.objectContexts.delete(objectId);
       return {};
     }
     
     case 'releaseObjectGroup': {
       // Release all objects (simplified - we don't track groups)
+      for (const obj of session.objectMap.values()) {
+        await obj.dispose().catch(() => {});
+      }
       session.objectMap.clear();
+      session.objectContexts.clear();
+      return {};
+    }
+    
+    case 'enable': {
+      attachRuntimeListeners(session, ws, page);
+      if (!session.runtimeEnabledPages.has(page)) {
+        session.runtimeEnabledPages.add(page);
+        // Announce every frame's main world, then isolated worlds created before Runtime.enable
+        for (const frame of page.frames()) getExecutionContextId(session, page, frame);
+        for (const [contextId, context] of session.executionContexts) {
+          if (context.page === page) sendExecutionContextCreated(session, ws, contextId);
+        }
+      }
+      return {};
+    }
+    
+    case 'disable': {
+      session.runtimeEnabledPages.delete(page);
+      return {};
+    }
+    
+    case 'addBinding': {
+      const name = params.name as string;
+      if (!name) throw new Error('name is required');
+      await addBinding(session, ws, page, name);
+      return {};
+    }
+    
+    case 'removeBinding': {
+      const name = params.name as string;
+      if (!name) throw new Error('name is required');
+      const names = session.bindings.get(page);
+      if (names?.delete(name)) {
+        await page.removeExposedFunction(name);
+      }
       return {};
     }
     
+    case 'runIfWaitingForDebugger':  // targets are never paused on attach
+      return {};
+    
+    default:
+      throw new Error(`Unknown Runtime method: ${command}`);
+  }
+}
+
+/**
+ * Log domain handlers
+ */
+async function handleLog(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  ws: WebSocket
+): Promise<unknown> {
+  switch (command) {
     case 'enable':
+      attachRuntimeListeners(session, ws, page);
+      session.logEnabledPages.add(page);
+      return {};
+    
     case 'disable':
+      session.logEnabledPages.delete(page);
+      return {};
+    
+    case 'clear':
       return {};
     
     default:
-      throw new Error(`Unknown Runtime method: ${command}`);
+      throw new Error(`Unknown Log method: ${command}`);
+  }
+}
+
+/**
+ * Performance domain handlers
+ *
+ * Puppeteer enables this domain on every page it attaches to.
+ */
+async function handlePerformance(page: Page, command: string): Promise<unknown> {
+  switch (command) {
+    case 'enable':
+    case 'disable':
+      return {};
+    
+    case 'getMetrics': {
+      const metrics = await page.metrics();
+      return {
+        metrics: Object.entries(metrics).map(([name, value]) => ({ name, value })),
+      };
+    }
+    
+    default:
+      throw new Error(`Unknown Performance method: ${command}`);
+  }
+}
+
+/**
+ * Look up a Runtime object by objectId
+ */
+function resolveObject(session: CDPSession, objectId: string): JSHandle {
+  const handle = session.objectMap.get(objectId);
+  if (!handle) {
+    throw new Error(`Could not find object with given id: ${objectId}`);
+  }
+  return handle;
+}
+
+/**
+ * Convert a handle to a CDP RemoteObject, keeping the handle alive under its objectId
+ */
+async function toRemoteObject(
+  session: CDPSession,
+  handle: JSHandle,
+  returnByValue: boolean,
+  contextId?: number
+): Promise<Record<string, unknown>> {
+  const remote = handle.remoteObject();
+
+  if (returnByValue) {
+    const value = await handle.jsonValue().catch(() => undefined);
+    await handle.dispose();
+    return { type: remote.type, subtype: remote.subtype, value, description: remote.description };
+  }
+
+  // Primitives have no objectId and carry their value inline
+  if (!remote.objectId) {
+    await handle.dispose();
+    return { ...remote };
+  }
+
+  session.objectMap.set(remote.objectId, handle);
+  if (contextId !== undefined) session.objectContexts.set(remote.objectId, contextId);
+  return { ...remote };
+}
+
+type NodeRealm = ExecutionRealm & {
+  adoptHandle<T extends JSHandle<Node>>(handle: T): Promise<T>;
+};
+
+/**
+ * Where a page's node ids live: Puppeteer's isolated world of its main frame
+ *
+ * Page scripts can't see the registry there, so they can neither detect the
+ * shim by it nor remap ids to make DOM commands land on other nodes. Handles
+ * in session.nodeMap belong to this world too.
+ */
+function getNodeRealm(page: Page): NodeRealm {
+  return getFrameRealm(page.mainFrame(), 'isolatedRealm');
+}
+
+/**
+ * The page's main world, where objects handed to the client live
+ */
+function getMainRealm(page: Page): NodeRealm {
+  return getFrameRealm(page.mainFrame(), 'mainRealm');
+}
+
+/** The node id registry, kept on the node realm's window */
+interface NodeRegistry {
+  ids: WeakMap<Node, number>;
+  nodes: Map<number, WeakRef<Node>>;
+  next: number;
+  /** Id of a node, assigning the next one on first sight */
+  idFor(node: Node): number;
+}
+
+/**
+ * Get the page's node realm, installing the node id registry in it if this document doesn't have one yet
+ *
+ * The registry's counter is moved up to session.nodeIdCounter, so ids stay unique
+ * across documents. Read the counter back from `registry.next` after assigning ids.
+ */
+async function getNodeRegistryRealm(session: CDPSession, page: Page): Promise<NodeRealm> {
+  const realm = getNodeRealm(page);
+  await realm.evaluate((base: number) => {
+    const w = window as unknown as { __cdpShimNodes?: NodeRegistry };
+    if (!w.__cdpShimNodes) {
+      const registry: NodeRegistry = {
+        ids: new WeakMap(),
+        nodes: new Map(),
+        next: base,
+        idFor(node) {
+          let id = registry.ids.get(node);
+          if (id === undefined) {
+            id = registry.next++;
+            registry.ids.set(node, id);
+            registry.nodes.set(id, new WeakRef(node));
+          }
+          return id;
+        },
+      };
+      w.__cdpShimNodes = registry;
+    }
+    w.__cdpShimNodes.next = Math.max(w.__cdpShimNodes.next, base);
+  }, session.nodeIdCounter);
+  return realm;
+}
+
+/**
+ * Assign node ids to DOM nodes
+ *
+ * Ids are kept in a registry in the node realm (a WeakMap from node to id), so
+ * the same node always gets the same id no matter how it was found, and any
+ * id can be turned back into a handle later. The registry starts counting from
+ * session.nodeIdCounter, so ids are never reused across navigations or pages.
+ *
+ * Takes ownership of the handles: they are disposed once copied into the node realm.
+ */
+async function registerNodes(session: CDPSession, page: Page, handles: ElementHandle<Node>[]): Promise<number[]> {
+  if (handles.length === 0) return [];
+
+  const realm = await getNodeRegistryRealm(session, page);
+  const adopted = await Promise.all(handles.map(async (handle) => {
+    const copy = await realm.adoptHandle(handle);
+    handle.dispose().catch(() => {});
+    return copy;
+  }));
+
+  const { ids, next } = await realm.evaluate((...nodes: Node[]) => {
+    const registry = (window as unknown as { __cdpShimNodes: NodeRegistry }).__cdpShimNodes;
+    return { ids: nodes.map(node => registry.idFor(node)), next: registry.next };
+  }, ...adopted);
+
+  session.nodeIdCounter = next;
+  ids.forEach((id, i) => {
+    if (session.nodeMap.has(id)) {
+      adopted[i].dispose().catch(() => {});
+    } else {
+      session.nodeMap.set(id, { page, handle: adopted[i] });
+    }
+  });
+  return ids;
+}
+
+/**
+ * Run querySelector(All) in the node realm and assign ids to the matches
+ *
+ * @param rootId - Node to search under; the document if null
+ */
+async function queryNodes(
+  session: CDPSession,
+  page: Page,
+  rootId: number | null,
+  selector: string,
+  all: boolean
+): Promise<number[]> {
+  const realm = await getNodeRegistryRealm(session, page);
+  const { ids, next } = await realm.evaluate((root: number | null, query: string, many: boolean) => {
+    const registry = (window as unknown as { __cdpShimNodes: NodeRegistry }).__cdpShimNodes;
+
+    let scope: ParentNode = document;
+    if (root !== null) {
+      const node = registry.nodes.get(root)?.deref();
+      if (!node) throw new Error(`No node with given id found: ${root}`);
+      scope = node as unknown as ParentNode;
+    }
+
+    const found = many ? Array.from(scope.querySelectorAll(query)) : [scope.querySelector(query)].filter(n => n !== null);
+    return { ids: found.map(node => registry.idFor(node)), next: registry.next };
+  }, rootId, selector, all);
+
+  session.nodeIdCounter = next;
+  return ids;
+}
+
+/**
+ * Get a handle to the DOM node addressed by nodeId, backendNodeId or objectId
+ */
+async function getNodeHandle(
+  session: CDPSession,
+  page: Page,
+  params: Record<string, unknown>
+): Promise<ElementHandle<Node>> {
+  const objectId = params.objectId as string | undefined;
+  if (objectId) {
+    const element = resolveObject(session, objectId).asElement();
+    if (!element) throw new Error(`Object is not a node: ${objectId}`);
+    return element;
+  }
+
+  const nodeId = (params.nodeId ?? params.backendNodeId) as number | undefined;
+  if (nodeId === undefined) throw new Error('Either nodeId, backendNodeId or objectId must be specified');
+
+  const cached = session.nodeMap.get(nodeId);
+  if (cached?.page === page) return cached.handle;
+
+  // Nodes serialized by getDocument/describeNode or found by querySelector are registered but have no handle yet
+  const handle = await getNodeRealm(page).evaluateHandle((id: number) => {
+    const w = window as unknown as { __cdpShimNodes?: NodeRegistry };
+    return w.__cdpShimNodes?.nodes.get(id)?.deref() ?? null;
+  }, nodeId);
+  const element = handle.asElement();
+  if (!element) {
+    await handle.dispose();
+    throw new Error(`No node with given id found: ${nodeId}`);
+  }
+
+  session.nodeMap.set(nodeId, { page, handle: element as ElementHandle<Node> });
+  return element as ElementHandle<Node>;
+}
+
+/**
+ * Serialize a DOM node (and its children up to `depth`) into a CDP DOM.Node
+ *
+ * @param depth - Child depth to include; -1 for the entire subtree
+ */
+async function describeNode(
+  session: CDPSession,
+  page: Page,
+  handle: ElementHandle<Node>,
+  depth: number
+): Promise<Record<string, unknown>> {
+  const realm = await getNodeRegistryRealm(session, page);
+  const target = await realm.adoptHandle(handle);
+  const { node, next } = await realm.evaluate((target: Node, maxDepth: number) => {
+    const registry = (window as unknown as { __cdpShimNodes: NodeRegistry }).__cdpShimNodes;
+    const idFor = (n: Node) => registry.idFor(n);
+
+    // Like Chrome, leave out whitespace-only text nodes
+    function childrenOf(n: Node): Node[] {
+      return Array.from(n.childNodes).filter(
+        c => c.nodeType !== Node.TEXT_NODE || (c.nodeValue || '').trim() !== ''
+      );
+    }
+
+    function serialize(n: Node, remaining: number): Record<string, unknown> {
+      const id = idFor(n);
+      const children = childrenOf(n);
+      const out: Record<string, unknown> = {
+        nodeId: id,
+        backendNodeId: id,
+        nodeType: n.nodeType,
+        nodeName: n.nodeName,
+        localName: n instanceof Element ? n.localName : '',
+        nodeValue: n.nodeValue || '',
+        childNodeCount: children.length,
+      };
+
+      if (n.parentNode) out.parentId = idFor(n.parentNode);
+
+      if (n instanceof Element) {
+        const attributes: string[] = [];
+        for (const attr of n.attributes) {
+          attributes.push(attr.name, attr.value);
+        }
+        out.attributes = attributes;
+      }
+
+      if (n instanceof Document) {
+        out.documentURL = n.URL;
+        out.baseURL = n.baseURI;
+        out.xmlVersion = '';
+      }
+
+      if (n instanceof DocumentType) {
+        out.publicId = n.publicId;
+        out.systemId = n.systemId;
+      }
+
+      if (remaining !== 0 && children.length > 0) {
+        out.children = children.map(c => serialize(c, remaining - 1));
+      }
+
+      return out;
+    }
+
+    return { node: serialize(target, maxDepth), next: registry.next };
+  }, target, depth).finally(() => target.dispose().catch(() => {}));
+
+  session.nodeIdCounter = next;
+  return node;
+}
+
+/**
+ * Drop a page's node handles, e.g. after a navigation replaced its document
+ */
+function releaseNodes(session: CDPSession, page: Page): void {
+  for (const [nodeId, { page: owner, handle }] of session.nodeMap) {
+    if (owner !== page) continue;
+    handle.dispose().catch(() => {});
+    session.nodeMap.delete(nodeId);
   }
 }
 
@@ -975,167 +3205,113 @@ async function handleDOM(
   switch (command) {
     case 'getDocument': {
       const depth = (params.depth as number) ?? 1;
-      
-      // Get basic document structure
-      const doc = await page.evaluate((maxDepth: number) => {
-        function serializeNode(node: Node, currentDepth: number): unknown {
-          const base: Record<string, unknown> = {
-            nodeId: Math.floor(Math.random() * 1000000),
-            nodeType: node.nodeType,
-            nodeName: node.nodeName,
-            localName: node.nodeName.toLowerCase(),
-            nodeValue: node.nodeValue || '',
-          };
-          
-          if (node instanceof Element) {
-            base.attributes = [];
-            for (const attr of node.attributes) {
-              (base.attributes as string[]).push(attr.name, attr.value);
-            }
-            
-            if (currentDepth < maxDepth && node.children.length > 0) {
-              base.children = [];
-              for (const child of node.children) {
-                (base.children as unknown[]).push(serializeNode(child, currentDepth + 1));
-              }
-              base.childNodeCount = node.children.length;
-            } else {
-              base.childNodeCount = node.children.length;
-            }
-          }
-          
-          return base;
-        }
-        
-        return serializeNode(document.documentElement, 0);
-      }, depth);
-      
-      // Create a stable root nodeId
-      const rootNodeId = session.nodeIdCounter++;
-      session.nodeMap.set(rootNodeId, 'html');
-      
-      return {
-        root: {
-          nodeId: rootNodeId,
-          backendNodeId: rootNodeId,
-          nodeType: 9, // Document
-          nodeName: '#document',
-          localName: '',
-          nodeValue: '',
-          childNodeCount: 1,
-          children: [doc],
-          documentURL: page.url(),
-          baseURL: page.url(),
-        },
-      };
+
+      const documentHandle = await page.evaluateHandle(() => document);
+      const [rootNodeId] = await registerNodes(session, page, [documentHandle as ElementHandle<Node>]);
+      const root = await describeNode(session, page, session.nodeMap.get(rootNodeId)!.handle, depth);
+
+      return { root };
     }
-    
+
+    case 'describeNode': {
+      const handle = await getNodeHandle(session, page, params);
+      const depth = (params.depth as number) ?? 1;
+      return { node: await describeNode(session, page, handle, depth) };
+    }
+
+    case 'resolveNode': {
+      const handle = await getNodeHandle(session, page, params);
+      // Hand out a separate handle, in the page's world, so Runtime.releaseObject can't invalidate the node id
+      const objectHandle = await getMainRealm(page).adoptHandle(handle);
+      return { object: await toRemoteObject(session, objectHandle, false) };
+    }
+
+    case 'requestNode': {
+      const objectId = params.objectId as string;
+      if (!objectId) throw new Error('objectId is required');
+
+      const handle = await getNodeHandle(session, page, { objectId });
+      const [nodeId] = await registerNodes(session, page, [await handle.evaluateHandle(node => node) as ElementHandle<Node>]);
+      return { nodeId };
+    }
+
     case 'querySelector': {
       const selector = params.selector as string;
       if (!selector) throw new Error('selector is required');
-      
-      const element = await page.$(selector);
-      if (!element) {
-        return { nodeId: 0 };
-      }
-      
-      const nodeId = session.nodeIdCounter++;
-      session.nodeMap.set(nodeId, selector);
-      
-      return { nodeId };
+
+      const [nodeId] = await queryNodes(session, page, (params.nodeId as number | undefined) || null, selector, false);
+      return { nodeId: nodeId ?? 0 };
     }
-    
+
     case 'querySelectorAll': {
       const selector = params.selector as string;
       if (!selector) throw new Error('selector is required');
-      
-      const elements = await page.$$(selector);
-      const nodeIds = elements.map((_, i) => {
-        const nodeId = session.nodeIdCounter++;
-        session.nodeMap.set(nodeId, `${selector}:nth-of-type(${i + 1})`);
-        return nodeId;
-      });
-      
+
+      const nodeIds = await queryNodes(session, page, (params.nodeId as number | undefined) || null, selector, true);
       return { nodeIds };
     }
-    
+
     case 'getOuterHTML': {
-      const nodeId = params.nodeId as number;
-      const selector = session.nodeMap.get(nodeId);
-      
-      if (!selector) {
-        // Try to get document HTML
+      if (params.nodeId === undefined && params.backendNodeId === undefined && !params.objectId) {
+        // No node given: return the whole document
         const html = await page.content();
         return { outerHTML: html };
       }
-      
-      const html = await page.evaluate((sel: string) => {
-        const el = document.querySelector(sel);
-        return el ? el.outerHTML : '';
-      }, selector);
-      
+
+      const handle = await getNodeHandle(session, page, params);
+      const html = await handle.evaluate((node: Node) => {
+        if (node instanceof Element) return node.outerHTML;
+        if (node instanceof Document) return node.documentElement.outerHTML;
+        return node.textContent || '';
+      });
+
       return { outerHTML: html };
     }
-    
-    case 'getAttributes': {
-      const nodeId = params.nodeId as number;
-      const selector = session.nodeMap.get(nodeId);
-      
-      if (!selector) throw new Error(`Node not found: ${nodeId}`);
-      
-      const attributes = await page.evaluate((sel: string) => {
-        const el = document.querySelector(sel);
-        if (!el) return [];
+
+    case 'getAttributes': {
+      const handle = await getNodeHandle(session, page, params);
+
+      const attributes = await handle.evaluate((node: Node) => {
+        if (!(node instanceof Element)) return [];
         const attrs: string[] = [];
-        for (const attr of el.attributes) {
+        for (const attr of node.attributes) {
           attrs.push(attr.name, attr.value);
         }
         return attrs;
-      }, selector);
-      
+      });
+
       return { attributes };
     }
-    
+
     case 'setAttributeValue': {
-      const nodeId = params.nodeId as number;
       const name = params.name as string;
       const value = params.value as string;
-      const selector = session.nodeMap.get(nodeId);
-      
-      if (!selector) throw new Error(`Node not found: ${nodeId}`);
-      
-      await page.evaluate((sel: string, attrName: string, attrValue: string) => {
-        const el = document.querySelector(sel);
-        if (el) el.setAttribute(attrName, attrValue);
-      }, selector, name, value);
-      
+      const handle = await getNodeHandle(session, page, params);
+
+      await handle.evaluate((node: Node, attrName: string, attrValue: string) => {
+        if (node instanceof Element) node.setAttribute(attrName, attrValue);
+      }, name, value);
+
       return {};
     }
-    
+
     case 'focus': {
-      const nodeId = params.nodeId as number;
-      const selector = session.nodeMap.get(nodeId);
-      
-      if (!selector) throw new Error(`Node not found: ${nodeId}`);
-      
-      await page.focus(selector);
+      const handle = await getNodeHandle(session, page, params);
+      await handle.focus();
       return {};
     }
-    
+
     case 'getBoxModel': {
-      const nodeId = params.nodeId as number;
-      const selector = session.nodeMap.get(nodeId);
-      
-      if (!selector) throw new Error(`Node not found: ${nodeId}`);
-      
-      const boxModel = await page.evaluate((sel: string) => {
-        const el = document.querySelector(sel);
-        if (!el) return null;
-        
+      const handle = await getNodeHandle(session, page, params);
+
+      const boxModel = await handle.evaluate((node: Node) => {
+        if (!(node instanceof Element)) return null;
+        const el = node;
+
         const rect = el.getBoundingClientRect();
         const scrollX = window.scrollX;
         const scrollY = window.scrollY;
-        
+
         // Content box (innermost)
         const style = window.getComputedStyle(el);
         const paddingTop = parseFloat(style.paddingTop);
@@ -1146,48 +3322,48 @@ async function handleDOM(
         const borderRight = parseFloat(style.borderRightWidth);
         const borderBottom = parseFloat(style.borderBottomWidth);
         const borderLeft = parseFloat(style.borderLeftWidth);
-        
+
         const content = {
           x: rect.left + scrollX + borderLeft + paddingLeft,
           y: rect.top + scrollY + borderTop + paddingTop,
           width: rect.width - borderLeft - borderRight - paddingLeft - paddingRight,
           height: rect.height - borderTop - borderBottom - paddingTop - paddingBottom,
         };
-        
+
         const padding = {
           x: rect.left + scrollX + borderLeft,
           y: rect.top + scrollY + borderTop,
           width: rect.width - borderLeft - borderRight,
           height: rect.height - borderTop - borderBottom,
         };
-        
+
         const border = {
           x: rect.left + scrollX,
           y: rect.top + scrollY,
           width: rect.width,
           height: rect.height,
         };
-        
+
         // Margin box
         const marginTop = parseFloat(style.marginTop);
         const marginRight = parseFloat(style.marginRight);
         const marginBottom = parseFloat(style.marginBottom);
         const marginLeft = parseFloat(style.marginLeft);
-        
+
         const margin = {
           x: rect.left + scrollX - marginLeft,
           y: rect.top + scrollY - marginTop,
           width: rect.width + marginLeft + marginRight,
           height: rect.height + marginTop + marginBottom,
         };
-        
+
         return { content, padding, border, margin };
-      }, selector);
-      
+      });
+
       if (!boxModel) {
-        throw new Error(`Element not found: ${selector}`);
+        throw new Error('Could not compute box model.');
       }
-      
+
       // Convert to quad format (4 points: top-left, top-right, bottom-right, bottom-left)
       const toQuad = (box: { x: number; y: number; width: number; height: number }) => [
         box.x, box.y,
@@ -1195,7 +3371,7 @@ async function handleDOM(
         box.x + box.width, box.y + box.height,
         box.x, box.y + box.height,
       ];
-      
+
       return {
         model: {
           content: toQuad(boxModel.content),
@@ -1207,83 +3383,225 @@ async function handleDOM(
         },
       };
     }
-    
+
     case 'scrollIntoViewIfNeeded': {
-      const nodeId = params.nodeId as number;
-      const selector = session.nodeMap.get(nodeId);
-      
-      if (!selector) throw new Error(`Node not found: ${nodeId}`);
-      
-      await page.evaluate((sel: string) => {
-        const el = document.querySelector(sel);
-        if (el) {
-          el.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+      const handle = await getNodeHandle(session, page, params);
+
+      await handle.evaluate((node: Node) => {
+        if (node instanceof Element) {
+          node.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
         }
-      }, selector);
-      
+      });
+
       return {};
     }
-    
+
     case 'removeNode': {
       const nodeId = params.nodeId as number;
-      const selector = session.nodeMap.get(nodeId);
-      
-      if (!selector) throw new Error(`Node not found: ${nodeId}`);
-      
-      await page.evaluate((sel: string) => {
-        const el = document.querySelector(sel);
-        if (el && el.parentNode) {
-          el.parentNode.removeChild(el);
-        }
-      }, selector);
-      
+      const handle = await getNodeHandle(session, page, { nodeId });
+
+      await handle.evaluate((node: Node) => {
+        node.parentNode?.removeChild(node);
+      });
+
       session.nodeMap.delete(nodeId);
+      await handle.dispose();
       return {};
     }
-    
+
     case 'setNodeValue': {
-      const nodeId = params.nodeId as number;
       const value = params.value as string;
-      const selector = session.nodeMap.get(nodeId);
-      
-      if (!selector) throw new Error(`Node not found: ${nodeId}`);
-      
-      await page.evaluate((sel: string, val: string) => {
-        const el = document.querySelector(sel);
-        if (el) {
-          el.textContent = val;
+      const handle = await getNodeHandle(session, page, params);
+
+      await handle.evaluate((node: Node, val: string) => {
+        if (node.nodeType === Node.ELEMENT_NODE) {
+          node.textContent = val;
+        } else {
+          node.nodeValue = val;
         }
-      }, selector, value);
-      
+      }, value);
+
       return {};
     }
-    
+
     case 'setFileInputFiles': {
-      const nodeId = params.nodeId as number;
       const files = params.files as string[];
-      const selector = session.nodeMap.get(nodeId);
-      
-      if (!selector) throw new Error(`Node not found: ${nodeId}`);
-      
-      const element = await page.$(selector);
-      if (element) {
-        // Cast to input element handle for uploadFile
-        const inputElement = element as unknown as { uploadFile: (...paths: string[]) => Promise<void> };
-        await inputElement.uploadFile(...files);
-      }
-      
+      const handle = await getNodeHandle(session, page, params);
+
+      await (handle as ElementHandle<HTMLInputElement>).uploadFile(...files);
+
       return {};
     }
-    
+
     case 'enable':
     case 'disable':
       return {};
-    
+
     default:
       throw new Error(`Unknown DOM method: ${command}`);
   }
 }
 
+// Puppeteer's accessibility snapshot node (not exported by @cloudflare/puppeteer)
+type SerializedAXNode = NonNullable<Awaited<ReturnType<Page['accessibility']['snapshot']>>>;
+
+// AXNode properties reported by Puppeteer, with their CDP names and value types
+const AX_PROPERTIES: Array<[keyof SerializedAXNode, string, string]> = [
+  ['disabled', 'disabled', 'boolean'],
+  ['expanded', 'expanded', 'boolean'],
+  ['focused', 'focused', 'boolean'],
+  ['modal', 'modal', 'boolean'],
+  ['multiline', 'multiline', 'boolean'],
+  ['multiselectable', 'multiselectable', 'boolean'],
+  ['readonly', 'readonly', 'boolean'],
+  ['required', 'required', 'boolean'],
+  ['selected', 'selected', 'boolean'],
+  ['checked', 'checked', 'tristate'],
+  ['pressed', 'pressed', 'tristate'],
+  ['level', 'level', 'integer'],
+  ['valuemin', 'valuemin', 'number'],
+  ['valuemax', 'valuemax', 'number'],
+  ['autocomplete', 'autocomplete', 'token'],
+  ['haspopup', 'hasPopup', 'token'],
+  ['invalid', 'invalid', 'token'],
+  ['orientation', 'orientation', 'token'],
+  ['keyshortcuts', 'keyshortcuts', 'string'],
+  ['roledescription', 'roledescription', 'string'],
+  ['valuetext', 'valuetext', 'string'],
+];
+
+/**
+ * Flatten a Puppeteer accessibility snapshot into CDP AXNodes
+ *
+ * Every AX node backed by a DOM node is registered with registerNodes, and its
+ * AX nodeId and backendDOMNodeId are that node's shim id, so the result can be
+ * passed straight to DOM.resolveNode, DOM.getBoxModel and friends.
+ *
+ * @param depth - Levels below the root to include; -1 for the entire tree
+ */
+async function flattenAXTree(
+  session: CDPSession,
+  page: Page,
+  root: SerializedAXNode | null,
+  depth = -1
+): Promise<Array<Record<string, unknown>>> {
+  if (!root) return [];
+
+  const entries: Array<{ node: SerializedAXNode; parent: number; childIndexes: number[] }> = [];
+  const walk = (node: SerializedAXNode, parent: number, level: number) => {
+    const index = entries.length;
+    entries.push({ node, parent, childIndexes: [] });
+    if (parent >= 0) entries[parent].childIndexes.push(index);
+    if (depth < 0 || level < depth) {
+      for (const child of node.children ?? []) walk(child, index, level + 1);
+    }
+  };
+  walk(root, -1, 0);
+
+  const handles = await Promise.all(entries.map(e => e.node.elementHandle().catch(() => null)));
+  const backed = handles.flatMap((handle, i) => (handle ? [{ handle: handle as ElementHandle<Node>, i }] : []));
+  const ids = await registerNodes(session, page, backed.map(b => b.handle));
+  const domIds = new Map(backed.map((b, j) => [b.i, ids[j]]));
+
+  const axId = (i: number) => (domIds.has(i) ? String(domIds.get(i)) : `ax-${i}`);
+
+  return entries.map(({ node, parent, childIndexes }, i) => {
+    const properties = AX_PROPERTIES
+      .filter(([key]) => node[key] !== undefined)
+      .map(([key, name, type]) => ({ name, value: { type, value: node[key] } }));
+
+    return {
+      nodeId: axId(i),
+      ignored: false,
+      role: { type: 'role', value: node.role },
+      ...(node.name !== undefined && { name: { type: 'computedString', value: node.name } }),
+      ...(node.description !== undefined && { description: { type: 'computedString', value: node.description } }),
+      ...(node.value !== undefined && {
+        value: { type: typeof node.value === 'number' ? 'number' : 'string', value: node.value },
+      }),
+      properties,
+      ...(parent >= 0 && { parentId: axId(parent) }),
+      childIds: childIndexes.map(axId),
+      ...(domIds.has(i) && { backendDOMNodeId: domIds.get(i) }),
+    };
+  });
+}
+
+/**
+ * Accessibility domain handlers
+ *
+ * Built on Puppeteer's accessibility snapshot. AX node ids are the shim's DOM
+ * node ids (see flattenAXTree), so they stay stable for the life of a document
+ * whether or not Accessibility.enable was called.
+ */
+async function handleAccessibility(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  switch (command) {
+    case 'enable':
+    case 'disable':
+      return {};
+
+    case 'getFullAXTree': {
+      const depth = (params.depth as number | undefined) ?? -1;
+      const snapshot = await page.accessibility.snapshot({ interestingOnly: false });
+      return { nodes: await flattenAXTree(session, page, snapshot, depth) };
+    }
+
+    case 'getPartialAXTree': {
+      const handle = await getNodeHandle(session, page, params);
+
+      if (params.fetchRelatives === false) {
+        const snapshot = await page.accessibility.snapshot({ root: handle, interestingOnly: false });
+        return { nodes: await flattenAXTree(session, page, snapshot, 1) };
+      }
+
+      // With relatives: the node, its children, its ancestors and their children (the node's siblings)
+      const [domId] = await registerNodes(session, page, [await handle.evaluateHandle(node => node) as ElementHandle<Node>]);
+      const nodes = await flattenAXTree(session, page, await page.accessibility.snapshot({ interestingOnly: false }));
+      const byId = new Map(nodes.map(node => [node.nodeId as string, node]));
+      const target = nodes.find(node => node.backendDOMNodeId === domId);
+      if (!target) {
+        throw new Error(`Node ${domId} is not in the accessibility tree`);
+      }
+
+      const included = new Set<string>([target.nodeId as string, ...(target.childIds as string[])]);
+      for (let parentId = target.parentId as string | undefined; parentId; ) {
+        const parent = byId.get(parentId)!;
+        included.add(parentId);
+        if (parentId === target.parentId) {
+          (parent.childIds as string[]).forEach(id => included.add(id));
+        }
+        parentId = parent.parentId as string | undefined;
+      }
+      return { nodes: nodes.filter(node => included.has(node.nodeId as string)) };
+    }
+
+    case 'queryAXTree': {
+      const accessibleName = params.accessibleName as string | undefined;
+      const role = params.role as string | undefined;
+      const hasRoot = params.nodeId !== undefined || params.backendNodeId !== undefined || params.objectId !== undefined;
+      const root = hasRoot ? await getNodeHandle(session, page, params) : undefined;
+
+      const snapshot = await page.accessibility.snapshot({ root, interestingOnly: false });
+      const nodes = await flattenAXTree(session, page, snapshot);
+      return {
+        nodes: nodes.filter((node) => {
+          if (role !== undefined && (node.role as { value: string }).value !== role) return false;
+          if (accessibleName !== undefined && (node.name as { value: string } | undefined)?.value !== accessibleName) return false;
+          return true;
+        }),
+      };
+    }
+
+    default:
+      throw new Error(`Unknown Accessibility method: ${command}`);
+  }
+}
+
 /**
  * Input domain handlers
  */
@@ -1366,6 +3684,167 @@ async function handleInput(
   }
 }
 
+/**
+ * Get the CDP request id for a Puppeteer request, assigning one on first sight
+ */
+function getRequestId(session: CDPSession, request: HTTPRequest): string {
+  let requestId = session.requestIds.get(request);
+  if (!requestId) {
+    requestId = crypto.randomUUID();
+    session.requestIds.set(request, requestId);
+  }
+  return requestId;
+}
+
+/**
+ * Map a Puppeteer resource type ('xhr', 'document') to a CDP one ('XHR', 'Document')
+ */
+function toCDPResourceType(resourceType: string): string {
+  const special: Record<string, string> = {
+    xhr: 'XHR',
+    texttrack: 'TextTrack',
+    eventsource: 'EventSource',
+    websocket: 'WebSocket',
+    cspviolationreport: 'CSPViolationReport',
+    signedexchange: 'SignedExchange',
+  };
+  return special[resourceType] ?? resourceType.charAt(0).toUpperCase() + resourceType.slice(1);
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return /^text\/|[/+](json|xml|javascript|ecmascript)\b|^application\/x-www-form-urlencoded/.test(mimeType);
+}
+
+/**
+ * Buffer a response body so Network.getResponseBody / Fetch.getResponseBody can return it.
+ * Bodies over MAX_RESPONSE_BODY_BYTES are skipped; the oldest bodies are evicted once
+ * the session holds more than MAX_BUFFERED_BODY_BYTES.
+ */
+async function bufferResponseBody(session: CDPSession, requestId: string, response: HTTPResponse): Promise<number> {
+  const contentLength = Number(response.headers()['content-length']);
+  if (contentLength > MAX_RESPONSE_BODY_BYTES) return contentLength;
+
+  let buffer: Buffer;
+  try {
+    buffer = await response.buffer();
+  } catch {
+    // Redirects and some cached responses have no body
+    return 0;
+  }
+  if (buffer.length > MAX_RESPONSE_BODY_BYTES) return buffer.length;
+
+  const mimeType = (response.headers()['content-type'] || '').split(';')[0].trim().toLowerCase();
+  const base64Encoded = !isTextMimeType(mimeType);
+  session.responseBodies.set(requestId, {
+    body: base64Encoded ? buffer.toString('base64') : buffer.toString('utf8'),
+    base64Encoded,
+    size: buffer.length,
+  });
+  session.responseBodyBytes += buffer.length;
+
+  for (const [id, entry] of session.responseBodies) {
+    if (session.responseBodyBytes <= MAX_BUFFERED_BODY_BYTES) break;
+    session.responseBodies.delete(id);
+    session.responseBodyBytes -= entry.size;
+  }
+
+  return buffer.length;
+}
+
+/**
+ * Get a buffered response body
+ */
+function getResponseBody(session: CDPSession, requestId: string): { body: string; base64Encoded: boolean } {
+  const entry = session.responseBodies.get(requestId);
+  if (!entry) throw new Error(`No data found for resource with given identifier: ${requestId}`);
+  return { body: entry.body, base64Encoded: entry.base64Encoded };
+}
+
+/**
+ * Subscribe to a page's request lifecycle (once per page)
+ *
+ * Response bodies are always buffered; Network.* events are only sent while
+ * Network.enable is active for the page.
+ */
+function attachNetworkListeners(session: CDPSession, ws: WebSocket, page: Page): void {
+  if (session.networkListenerPages.has(page)) return;
+  session.networkListenerPages.add(page);
+
+  const emit = (method: string, params: Record<string, unknown>) => {
+    if (session.networkEnabledPages.has(page)) {
+      sendTargetEvent(session, ws, page, method, params);
+    }
+  };
+
+  page.on('request', (request) => {
+    const requestId = getRequestId(session, request);
+    emit('Network.requestWillBeSent', {
+      requestId,
+      loaderId: request.isNavigationRequest() ? requestId : '',
+      documentURL: page.url(),
+      request: {
+        url: request.url(),
+        method: request.method(),
+        headers: request.headers(),
+        postData: request.postData(),
+        hasPostData: request.hasPostData(),
+      },
+      timestamp: Date.now() / 1000,
+      wallTime: Date.now() / 1000,
+      initiator: request.initiator() ?? { type: 'other' },
+      type: toCDPResourceType(request.resourceType()),
+      frameId: targetIdForPage(session, page),
+    });
+  });
+
+  page.on('response', (response) => {
+    const request = response.request();
+    const requestId = getRequestId(session, request);
+    const remote = response.remoteAddress();
+    emit('Network.responseReceived', {
+      requestId,
+      loaderId: request.isNavigationRequest() ? requestId : '',
+      timestamp: Date.now() / 1000,
+      type: toCDPResourceType(request.resourceType()),
+      response: {
+        url: response.url(),
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: response.headers(),
+        mimeType: (response.headers()['content-type'] || '').split(';')[0].trim(),
+        remoteIPAddress: remote.ip,
+        remotePort: remote.port,
+        fromDiskCache: response.fromCache(),
+        fromServiceWorker: response.fromServiceWorker(),
+        encodedDataLength: 0,
+      },
+      frameId: targetIdForPage(session, page),
+    });
+  });
+
+  page.on('requestfinished', async (request) => {
+    const requestId = getRequestId(session, request);
+    const response = request.response();
+    const encodedDataLength = response ? await bufferResponseBody(session, requestId, response) : 0;
+    emit('Network.loadingFinished', {
+      requestId,
+      timestamp: Date.now() / 1000,
+      encodedDataLength,
+    });
+  });
+
+  page.on('requestfailed', (request) => {
+    const errorText = request.failure()?.errorText || 'net::ERR_FAILED';
+    emit('Network.loadingFailed', {
+      requestId: getRequestId(session, request),
+      timestamp: Date.now() / 1000,
+      type: toCDPResourceType(request.resourceType()),
+      errorText,
+      canceled: errorText === 'net::ERR_ABORTED',
+    });
+  });
+}
+
 /**
  * Network domain handlers
  */
@@ -1373,13 +3852,25 @@ async function handleNetwork(
   session: CDPSession,
   page: Page | undefined,
   command: string,
-  params: Record<string, unknown>
+  params: Record<string, unknown>,
+  ws: WebSocket
 ): Promise<unknown> {
   switch (command) {
-    case 'enable':
-    case 'disable':
-      // Network events not fully supported, no-op
+    case 'enable': {
+      if (page) {
+        attachNetworkListeners(session, ws, page);
+        session.networkEnabledPages.add(page);
+      }
+      return {};
+    }
+    
+    case 'disable': {
+      if (page) session.networkEnabledPages.delete(page);
       return {};
+    }
+    
+    case 'getResponseBody':
+      return getResponseBody(session, params.requestId as string);
     
     case 'setCacheDisabled': {
       if (page) {
@@ -1515,6 +4006,7 @@ async function handleNetwork(
  * Emulation domain handlers
  */
 async function handleEmulation(
+  session: CDPSession,
   page: Page,
   command: string,
   params: Record<string, unknown>
@@ -1525,6 +4017,7 @@ async function handleEmulation(
       const height = params.height as number;
       const deviceScaleFactor = (params.deviceScaleFactor as number) || 1;
       const mobile = (params.mobile as boolean) || false;
+      checkScreenshotSize(session, width, height, deviceScaleFactor);
       
       await page.setViewport({
         width,
@@ -1625,6 +4118,10 @@ async function handleEmulation(
       return {};
     }
     
+    case 'setFocusEmulationEnabled':
+      // Playwright sends this for every page; headless pages already behave as focused
+      return {};
+    
     case 'setDefaultBackgroundColorOverride': {
       const color = params.color as { r: number; g: number; b: number; a?: number } | undefined;
       
@@ -1643,6 +4140,104 @@ async function handleEmulation(
   }
 }
 
+/**
+ * Refuse a screenshot clip or viewport larger than CDP_MAX_SCREENSHOT_PIXELS
+ */
+function checkScreenshotSize(session: CDPSession, width: number, height: number, scale: number): void {
+  const { maxScreenshotPixels } = session.limits;
+  if (!maxScreenshotPixels || width * height * scale * scale <= maxScreenshotPixels) return;
+  trackLimitRejection('screenshotSize');
+  throw new Error(`Screenshot size limit reached: at most ${maxScreenshotPixels} pixels`);
+}
+
+/**
+ * Log a URL refused by the navigation policy and hold it for flushBlockedNavigations()
+ *
+ * Only the newest CDP_BLOCKED_LOG_LIMIT entries are held, as only those are kept.
+ */
+function noteBlockedNavigation(
+  blocked: BlockedNavigation[],
+  tokenId: string | null,
+  url: string,
+  reason: string,
+  source: string
+): void {
+  cdpLogger.warn('Blocked navigation', { source, url, reason, tokenId });
+  blocked.push({ at: new Date().toISOString(), url, reason, source, tokenId });
+  if (blocked.length > CDP_BLOCKED_LOG_LIMIT) blocked.shift();
+}
+
+/**
+ * Record held blocked navigations to R2 so admins can review them
+ */
+function flushBlockedNavigations(bucket: R2Bucket, blocked: BlockedNavigation[]): Promise<void> {
+  return recordBlockedNavigations(bucket, blocked.splice(0)).catch((err) => {
+    cdpLogger.error('Failed to record blocked navigations', { error: err });
+  });
+}
+
+/**
+ * Throw (and record) if the navigation policy refuses a URL
+ *
+ * The error is returned to the client as the CDP error for the command.
+ */
+function enforceNavigationPolicy(session: CDPSession, url: string, source: string): void {
+  const verdict = checkNavigation(session.policy, url);
+  if (verdict.allowed) return;
+
+  noteBlockedNavigation(session.blockedNavigations, session.grant.tokenId, url, verdict.reason, source);
+  throw new Error(`Navigation blocked by policy: ${verdict.reason}`);
+}
+
+/**
+ * Intercept every request a page makes
+ *
+ * Requests the navigation policy refuses (including redirects and subresources)
+ * are aborted. Requests matching Fetch.enable patterns are paused and reported
+ * with Fetch.requestPaused; the rest continue.
+ */
+async function attachRequestInterception(session: CDPSession, ws: WebSocket, page: Page): Promise<void> {
+  await page.setRequestInterception(true);
+
+  page.on('request', async (request) => {
+    const verdict = checkNavigation(session.policy, request.url());
+    if (!verdict.allowed) {
+      noteBlockedNavigation(session.blockedNavigations, session.grant.tokenId, request.url(), verdict.reason, 'request');
+      await request.abort('blockedbyclient').catch(() => {});
+      return;
+    }
+
+    const patterns = session.fetchPatterns.get(page);
+    const shouldPause = patterns !== undefined && (
+      patterns.length === 0 || patterns.some(p => !p.urlPattern || request.url().match(p.urlPattern))
+    );
+    if (!shouldPause) {
+      await request.continue().catch(() => {});
+      return;
+    }
+
+    // Store the request for later handling
+    const requestId = getRequestId(session, request);
+    session.pendingRequests.set(requestId, {
+      request: request as unknown as Request,
+      resolve: () => {},
+    });
+
+    sendTargetEvent(session, ws, page, 'Fetch.requestPaused', {
+      requestId,
+      networkId: requestId,
+      request: {
+        url: request.url(),
+        method: request.method(),
+        headers: request.headers(),
+        postData: request.postData(),
+      },
+      frameId: targetIdForPage(session, page),
+      resourceType: request.resourceType(),
+    });
+  });
+}
+
 /**
  * Fetch domain handlers (request interception)
  */
@@ -1655,62 +4250,18 @@ async function handleFetch(
 ): Promise<unknown> {
   switch (command) {
     case 'enable': {
-      const patterns = params.patterns as Array<{ urlPattern?: string; requestStage?: string }> | undefined;
+      const patterns = params.patterns as FetchPattern[] | undefined;
       
-      session.requestInterceptionEnabled = true;
+      session.fetchPatterns.set(page, patterns ?? []);
       
-      // Set up request interception
-      await page.setRequestInterception(true);
-      
-      page.on('request', async (request) => {
-        if (!session.requestInterceptionEnabled) {
-          await request.continue();
-          return;
-        }
-        
-        const requestId = crypto.randomUUID();
-        
-        // Check if request matches patterns
-        let shouldIntercept = !patterns || patterns.length === 0;
-        if (patterns) {
-          for (const pattern of patterns) {
-            if (!pattern.urlPattern || request.url().match(pattern.urlPattern)) {
-              shouldIntercept = true;
-              break;
-            }
-          }
-        }
-        
-        if (shouldIntercept) {
-          // Store the request for later handling
-          session.pendingRequests.set(requestId, {
-            request: request as unknown as Request,
-            resolve: () => {},
-          });
-          
-          // Send Fetch.requestPaused event
-          sendEvent(ws, 'Fetch.requestPaused', {
-            requestId,
-            request: {
-              url: request.url(),
-              method: request.method(),
-              headers: request.headers(),
-              postData: request.postData(),
-            },
-            frameId: session.defaultTargetId,
-            resourceType: request.resourceType(),
-          });
-        } else {
-          await request.continue();
-        }
-      });
+      // The network listeners buffer bodies for getResponseBody
+      attachNetworkListeners(session, ws, page);
       
       return {};
     }
     
     case 'disable': {
-      session.requestInterceptionEnabled = false;
-      await page.setRequestInterception(false);
+      session.fetchPatterns.delete(page);
       return {};
     }
     
@@ -1725,6 +4276,9 @@ async function handleFetch(
       if (!pending) {
         throw new Error(`Request not found: ${requestId}`);
       }
+      if (url) {
+        enforceNavigationPolicy(session, url, 'Fetch.continueRequest');
+      }
       
       const request = pending.request as unknown as { continue: (opts?: Record<string, unknown>) => Promise<void> };
       
@@ -1801,11 +4355,8 @@ async function handleFetch(
       return {};
     }
     
-    case 'getResponseBody': {
-      // This would need to store response bodies, which we're not currently doing
-      // Return empty for now
-      return { body: '', base64Encoded: false };
-    }
+    case 'getResponseBody':
+      return getResponseBody(session, params.requestId as string);
     
     default:
       throw new Error(`Unknown Fetch method: ${command}`);
@@ -1815,27 +4366,40 @@ async function handleFetch(
 /**
  * Send a CDP response
  */
-function sendResponse(ws: WebSocket, id: number, result: unknown): void {
-  const response: CDPResponse = { id, result };
+function sendResponse(ws: WebSocket, id: number, result: unknown, sessionId?: string): void {
+  const response: CDPResponse = { id, result, sessionId };
   ws.send(JSON.stringify(response));
 }
 
 /**
  * Send a CDP error
  */
-function sendError(ws: WebSocket, id: number, code: number, message: string): void {
-  const response: CDPResponse = { id, error: { code, message } };
+function sendError(ws: WebSocket, id: number, code: number, message: string, sessionId?: string): void {
+  const response: CDPResponse = { id, error: { code, message }, sessionId };
   ws.send(JSON.stringify(response));
 }
 
 /**
  * Send a CDP event
  */
-function sendEvent(ws: WebSocket, method: string, params?: Record<string, unknown>): void {
-  const event: CDPEvent = { method, params };
+function sendEvent(ws: WebSocket, method: string, params?: Record<string, unknown>, sessionId?: string): void {
+  const event: CDPEvent = { method, params, sessionId };
   ws.send(JSON.stringify(event));
 }
 
+/**
+ * Send a CDP event for a page, tagged with the session attached to its target
+ */
+function sendTargetEvent(
+  session: CDPSession,
+  ws: WebSocket,
+  page: Page,
+  method: string,
+  params?: Record<string, unknown>
+): void {
+  sendEvent(ws, method, params, sessionIdForTarget(session, targetIdForPage(session, page)));
+}
+
 /**
  * Constant-time string comparison to prevent timing attacks
  */
@@ -360,7 +360,7 @@ debug.post('/r2-sync', async (c) => {
   const startedAt = Date.now();
 
   try {
-    const result = await syncToR2(sandbox, c.env);
+    const result = await syncToR2(sandbox, c.env, c.get('tenant'));
     const finishedAt = Date.now();
     return c.json({
       ok: true,
@@ -384,7 +384,7 @@ debug.get('/r2-sync', async (c) => {
   const startedAt = Date.now();
 
   try {
-    const result = await syncToR2(sandbox, c.env);
+    const result = await syncToR2(sandbox, c.env, c.get('tenant'));
     const finishedAt = Date.now();
     return c.json({
       ok: true,
@@ -1,7 +1,8 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import type { AppEnv } from '../types';
 import { MOLTBOT_PORT } from '../config';
-import { findExistingOpenClawProcess } from '../gateway';
+import { checkGatewayLiveness, findExistingOpenClawProcess, getGatewayCoordinator, type GatewayStatus } from '../gateway';
+import { getTenantSandbox, isPerUserTenancy, resolveRequestTenant, verifyRequestUser } from '../tenant';
 
 /**
  * Public routes - NO Cloudflare Access authentication required
@@ -30,26 +31,95 @@ publicRoutes.get('/logo-small.png', (c) => {
   return c.env.ASSETS.fetch(c.req.raw);
 });
 
+// Keep /api/status safe to show publicly: startup errors can carry whole stderr dumps
+function summarizeError(error: string | null): string | null {
+  if (!error) return null;
+  const firstLine = error.split('\n')[0];
+  return firstLine.length > 200 ? firstLine.slice(0, 197) + '...' : firstLine;
+}
+
+/**
+ * Whether the caller may see the gateway version and startup errors
+ *
+ * In shared mode anyone can reach the status endpoints; only signed-in users get the detail.
+ */
+async function canSeeStatusDetail(c: Context<AppEnv>): Promise<boolean> {
+  return isPerUserTenancy(c.env) || (await verifyRequestUser(c)) !== null;
+}
+
+function describeGatewayStatus(status: GatewayStatus, detailed: boolean) {
+  let state: string;
+  if (status.ready) state = 'running';
+  else if (status.starting) state = 'starting';
+  else if (!status.processId) state = 'not_running';
+  else if (status.failure) state = 'unhealthy';
+  else state = 'not_responding';
+
+  const startedAt = status.startedAt ? Date.parse(status.startedAt) : null;
+  return {
+    ok: status.ready,
+    status: state,
+    processId: status.processId,
+    uptimeSeconds: status.processId && startedAt ? Math.max(0, Math.floor((Date.now() - startedAt) / 1000)) : null,
+    version: detailed ? status.version : undefined,
+    failure: status.failure,
+    lastError: detailed ? summarizeError(status.error) : undefined,
+    checkedAt: status.checkedAt,
+  };
+}
+
 // GET /api/status - Public health check for gateway status (no auth required)
+// Reports readiness with detail: uptime, and for signed-in callers the gateway version and the last error
 publicRoutes.get('/api/status', async (c) => {
-  const sandbox = c.get('sandbox');
-  
+  // In per-user tenancy mode, report on the caller's own sandbox (if they're signed in)
+  const tenant = await resolveRequestTenant(c);
+  if (!tenant) {
+    return c.json({ ok: false, status: 'unauthenticated' });
+  }
+
+  try {
+    const status = await getGatewayCoordinator(c.env, tenant).checkHealth(tenant);
+    return c.json(describeGatewayStatus(status, await canSeeStatusDetail(c)));
+  } catch (err) {
+    return c.json({ ok: false, status: 'error', error: err instanceof Error ? err.message : 'Unknown error' });
+  }
+});
+
+// GET /api/status/ready - Readiness: the gateway serves HTTP and completes a WebSocket handshake (503 if not)
+publicRoutes.get('/api/status/ready', async (c) => {
+  const tenant = await resolveRequestTenant(c);
+  if (!tenant) {
+    return c.json({ ok: false, status: 'unauthenticated' }, 401);
+  }
+
+  try {
+    const health = await getGatewayCoordinator(c.env, tenant).checkHealth(tenant);
+    const status = describeGatewayStatus(health, await canSeeStatusDetail(c));
+    return c.json(status, status.ok ? 200 : 503);
+  } catch (err) {
+    return c.json({ ok: false, status: 'error', error: err instanceof Error ? err.message : 'Unknown error' }, 503);
+  }
+});
+
+// GET /api/status/live - Liveness: the gateway process is running and accepting connections (503 if not)
+publicRoutes.get('/api/status/live', async (c) => {
+  const tenant = await resolveRequestTenant(c);
+  if (!tenant) {
+    return c.json({ ok: false, status: 'unauthenticated' }, 401);
+  }
+  const sandbox = getTenantSandbox(c.env, tenant);
+
   try {
     const process = await findExistingOpenClawProcess(sandbox);
     if (!process) {
-      return c.json({ ok: false, status: 'not_running' });
+      return c.json({ ok: false, status: 'not_running' }, 503);
     }
-    
-    // Process exists, check if it's actually responding
-    // Try to reach the gateway with a short timeout
-    try {
-      await process.waitForPort(18789, { mode: 'tcp', timeout: 5000 });
-      return c.json({ ok: true, status: 'running', processId: process.id });
-    } catch {
-      return c.json({ ok: false, status: 'not_responding', processId: process.id });
+    if (!(await checkGatewayLiveness(process))) {
+      return c.json({ ok: false, status: 'not_responding', processId: process.id }, 503);
     }
+    return c.json({ ok: true, status: 'alive', processId: process.id });
   } catch (err) {
-    return c.json({ ok: false, status: 'error', error: err instanceof Error ? err.message : 'Unknown error' });
+    return c.json({ ok: false, status: 'error', error: err instanceof Error ? err.message : 'Unknown error' }, 503);
   }
 });
 
@@ -0,0 +1,11 @@
+export {
+  SHARED_TENANT,
+  buildSandboxOptions,
+  buildTenant,
+  isPerUserTenancy,
+  isTenantAdmin,
+  resolveTenant,
+} from './tenant';
+export { getTenantSandbox } from './sandbox';
+export { getTenantRecord, listTenants, registerTenant, type TenantRecord } from './registry';
+export { createTenantMiddleware, createTenantOverrideMiddleware, resolveRequestTenant, verifyRequestUser } from './middleware';
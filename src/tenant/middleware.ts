@@ -0,0 +1,116 @@
+import type { Context, Next } from 'hono';
+import type { AccessUser, AppEnv, Tenant } from '../types';
+import { extractJWT, isDevMode, verifyAccessJWT } from '../auth';
+import { createLogger } from '../logger';
+import { buildTenant, isPerUserTenancy, isTenantAdmin, resolveTenant, SHARED_TENANT } from './tenant';
+import { getTenantRecord, registerTenant } from './registry';
+import { getTenantSandbox } from './sandbox';
+
+const logger = createLogger('tenant');
+
+/**
+ * Create a middleware that points `sandbox` at the authenticated user's tenant
+ *
+ * Must run after the Cloudflare Access middleware. In shared tenancy mode this
+ * is a no-op and the shared sandbox set up earlier stays in place.
+ */
+export function createTenantMiddleware() {
+  return async (c: Context<AppEnv>, next: Next) => {
+    if (!isPerUserTenancy(c.env)) {
+      return next();
+    }
+
+    let tenant: Tenant;
+    try {
+      tenant = await resolveTenant(c.env, c.get('accessUser'));
+    } catch (err) {
+      return c.json({
+        error: 'Unauthorized',
+        details: err instanceof Error ? err.message : 'Could not resolve tenant',
+      }, 401);
+    }
+
+    c.set('tenant', tenant);
+    c.set('sandbox', getTenantSandbox(c.env, tenant));
+    c.executionCtx.waitUntil(
+      registerTenant(c.env.MOLTBOT_BUCKET, tenant, c.get('accessUser')).catch((err) => {
+        logger.error('Failed to register tenant', { tenant: tenant.id, error: err });
+      })
+    );
+
+    return next();
+  };
+}
+
+/**
+ * Create a middleware that lets tenant admins target another tenant with `?tenant=<id>`
+ *
+ * Used on admin API routes so actions like restart or sync can be applied to
+ * any registered tenant, not just the caller's own.
+ */
+export function createTenantOverrideMiddleware() {
+  return async (c: Context<AppEnv>, next: Next) => {
+    const tenantId = c.req.query('tenant');
+    if (!tenantId || tenantId === c.get('tenant')?.id) {
+      return next();
+    }
+
+    if (!isPerUserTenancy(c.env)) {
+      return c.json({ error: 'Tenant selection requires TENANCY_MODE=per-user' }, 400);
+    }
+
+    if (!isTenantAdmin(c.env, c.get('accessUser'))) {
+      return c.json({
+        error: 'Forbidden',
+        hint: 'Only users listed in TENANT_ADMIN_EMAILS can act on other tenants',
+      }, 403);
+    }
+
+    const record = await getTenantRecord(c.env.MOLTBOT_BUCKET, tenantId);
+    if (!record) {
+      return c.json({ error: `Tenant not found: ${tenantId}` }, 404);
+    }
+
+    const tenant = await buildTenant(c.env, record.id, record.email);
+    c.set('tenant', tenant);
+    c.set('sandbox', getTenantSandbox(c.env, tenant));
+
+    return next();
+  };
+}
+
+/**
+ * Identify the caller of a route that is not behind the Access middleware
+ *
+ * @returns The user from a valid Access JWT (the dev user in DEV_MODE), or null
+ */
+export async function verifyRequestUser(c: Context<AppEnv>): Promise<AccessUser | null> {
+  if (isDevMode(c.env)) {
+    return { email: 'dev@localhost', name: 'Dev User' };
+  }
+
+  const jwt = extractJWT(c);
+  if (!jwt || !c.env.CF_ACCESS_TEAM_DOMAIN || !c.env.CF_ACCESS_AUD) return null;
+
+  try {
+    const payload = await verifyAccessJWT(jwt, c.env.CF_ACCESS_TEAM_DOMAIN, c.env.CF_ACCESS_AUD);
+    return { email: payload.email, name: payload.name, sub: payload.sub };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the tenant for a route that is not behind the Access middleware
+ *
+ * Verifies the Access JWT if one is present. Used by public routes such as
+ * /api/status that still need to know whose sandbox to look at.
+ *
+ * @returns The tenant, or null if per-user tenancy is on and the request is unauthenticated
+ */
+export async function resolveRequestTenant(c: Context<AppEnv>): Promise<Tenant | null> {
+  if (!isPerUserTenancy(c.env)) return SHARED_TENANT;
+
+  const user = await verifyRequestUser(c);
+  return user ? resolveTenant(c.env, user) : null;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getTenantRecord, listTenants, registerTenant, resetTenantRegistryCache } from './registry';
+import { createMockBucket } from '../test-utils';
+import type { Tenant } from '../types';
+
+const alice: Tenant = {
+  id: 'alice-example-com-1234abcd',
+  sandboxId: 'openclaw-alice-example-com-1234abcd',
+  r2Prefix: '/tenants/alice-example-com-1234abcd',
+  email: 'alice@example.com',
+};
+
+describe('tenant registry', () => {
+  beforeEach(() => {
+    resetTenantRegistryCache();
+  });
+
+  it('returns null for unknown tenants', async () => {
+    const { bucket } = createMockBucket();
+    expect(await getTenantRecord(bucket, 'nobody')).toBeNull();
+  });
+
+  it('registers a tenant with its user details', async () => {
+    const { bucket } = createMockBucket();
+    await registerTenant(bucket, alice, { email: 'alice@example.com', name: 'Alice' });
+
+    const record = await getTenantRecord(bucket, alice.id);
+    expect(record).toMatchObject({
+      id: alice.id,
+      email: 'alice@example.com',
+      name: 'Alice',
+      sandboxId: alice.sandboxId,
+      r2Prefix: alice.r2Prefix,
+    });
+    expect(record?.createdAt).toBe(record?.lastSeenAt);
+  });
+
+  it('keeps createdAt when refreshing an existing record', async () => {
+    const { bucket, objects } = createMockBucket();
+    await registerTenant(bucket, alice);
+    const key = [...objects.keys()][0];
+    objects.set(key, JSON.stringify({ ...JSON.parse(objects.get(key)!), createdAt: '2020-01-01T00:00:00.000Z' }));
+
+    resetTenantRegistryCache();
+    await registerTenant(bucket, alice);
+
+    const record = await getTenantRecord(bucket, alice.id);
+    expect(record?.createdAt).toBe('2020-01-01T00:00:00.000Z');
+  });
+
+  it('throttles repeated writes within an isolate', async () => {
+    const { bucket } = createMockBucket();
+    await registerTenant(bucket, alice);
+    await registerTenant(bucket, alice);
+    await registerTenant(bucket, alice);
+
+    expect(bucket.put).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists tenants most recently seen first', async () => {
+    const { bucket } = createMockBucket({
+      '_worker/tenants/old.json': JSON.stringify({ id: 'old', sandboxId: 'openclaw-old', createdAt: '2024-01-01', lastSeenAt: '2024-01-01' }),
+      '_worker/tenants/new.json': JSON.stringify({ id: 'new', sandboxId: 'openclaw-new', createdAt: '2024-01-01', lastSeenAt: '2025-06-01' }),
+      'tenants/new/openclaw/openclaw.json': '{}',
+    });
+
+    const tenants = await listTenants(bucket);
+    expect(tenants.map(t => t.id)).toEqual(['new', 'old']);
+  });
+});
@@ -0,0 +1,93 @@
+import type { AccessUser, Tenant } from '../types';
+import { WORKER_STATE_PREFIX } from '../config';
+
+const TENANT_KEY_PREFIX = `${WORKER_STATE_PREFIX}tenants/`;
+
+// Only refresh lastSeenAt this often, so busy tenants don't write to R2 on every request
+const LAST_SEEN_REFRESH_MS = 60 * 60 * 1000;
+
+/**
+ * Tenant record stored in R2 when a user first reaches their sandbox
+ */
+export interface TenantRecord {
+  id: string;
+  email?: string;
+  name?: string;
+  sandboxId: string;
+  r2Prefix?: string;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+// Per-isolate cache of when each tenant's record was last written
+const lastWrite = new Map<string, number>();
+
+function tenantKey(tenantId: string): string {
+  return `${TENANT_KEY_PREFIX}${tenantId}.json`;
+}
+
+/**
+ * Get a tenant record by id
+ *
+ * @returns The record, or null if the tenant has never been registered
+ */
+export async function getTenantRecord(bucket: R2Bucket, tenantId: string): Promise<TenantRecord | null> {
+  const object = await bucket.get(tenantKey(tenantId));
+  if (!object) return null;
+  return object.json<TenantRecord>();
+}
+
+/**
+ * Create or refresh the record for a tenant
+ *
+ * Writes are throttled per isolate, so this is cheap to call on every request.
+ */
+export async function registerTenant(bucket: R2Bucket, tenant: Tenant, user?: AccessUser): Promise<void> {
+  const now = Date.now();
+  const previousWrite = lastWrite.get(tenant.id);
+  if (previousWrite !== undefined && now - previousWrite < LAST_SEEN_REFRESH_MS) return;
+  lastWrite.set(tenant.id, now);
+
+  const existing = await getTenantRecord(bucket, tenant.id);
+  const record: TenantRecord = {
+    id: tenant.id,
+    email: user?.email ?? existing?.email ?? tenant.email,
+    name: user?.name ?? existing?.name,
+    sandboxId: tenant.sandboxId,
+    r2Prefix: tenant.r2Prefix,
+    createdAt: existing?.createdAt ?? new Date(now).toISOString(),
+    lastSeenAt: new Date(now).toISOString(),
+  };
+  await bucket.put(tenantKey(tenant.id), JSON.stringify(record), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+/**
+ * List all registered tenants, most recently seen first
+ */
+export async function listTenants(bucket: R2Bucket): Promise<TenantRecord[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix: TENANT_KEY_PREFIX, cursor });
+    keys.push(...page.objects.map(o => o.key));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  const records = await Promise.all(keys.map(async (key) => {
+    const object = await bucket.get(key);
+    return object ? object.json<TenantRecord>() : null;
+  }));
+
+  return records
+    .filter((r): r is TenantRecord => r !== null)
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+/**
+ * Reset the per-isolate write throttle (for tests)
+ */
+export function resetTenantRegistryCache(): void {
+  lastWrite.clear();
+}
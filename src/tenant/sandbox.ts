@@ -0,0 +1,10 @@
+import { getSandbox, type Sandbox } from '@cloudflare/sandbox';
+import type { OpenClawEnv, Tenant } from '../types';
+import { buildSandboxOptions } from './tenant';
+
+/**
+ * Get the sandbox that belongs to a tenant
+ */
+export function getTenantSandbox(env: OpenClawEnv, tenant: Tenant): Sandbox {
+  return getSandbox(env.Sandbox, tenant.sandboxId, buildSandboxOptions(env));
+}
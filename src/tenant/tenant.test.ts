@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SHARED_TENANT,
+  buildSandboxOptions,
+  deriveTenantGatewayToken,
+  deriveTenantId,
+  isPerUserTenancy,
+  isTenantAdmin,
+  resolveTenant,
+} from './tenant';
+import { createMockEnv } from '../test-utils';
+
+describe('isPerUserTenancy', () => {
+  it('returns false by default', () => {
+    expect(isPerUserTenancy(createMockEnv())).toBe(false);
+  });
+
+  it('returns true when TENANCY_MODE is "per-user"', () => {
+    expect(isPerUserTenancy(createMockEnv({ TENANCY_MODE: 'per-user' }))).toBe(true);
+  });
+});
+
+describe('deriveTenantId', () => {
+  it('is stable for the same identity', async () => {
+    expect(await deriveTenantId('alice@example.com')).toBe(await deriveTenantId('alice@example.com'));
+  });
+
+  it('normalizes case and whitespace', async () => {
+    expect(await deriveTenantId(' Alice@Example.com ')).toBe(await deriveTenantId('alice@example.com'));
+  });
+
+  it('produces a readable, sandbox-safe id', async () => {
+    const id = await deriveTenantId('alice@example.com');
+    expect(id).toMatch(/^alice-example-com-[0-9a-f]{8}$/);
+  });
+
+  it('keeps identities with the same slug apart', async () => {
+    expect(await deriveTenantId('a.b@example.com')).not.toBe(await deriveTenantId('a-b@example.com'));
+  });
+
+  it('falls back to the hash when the identity has no slug characters', async () => {
+    expect(await deriveTenantId('@@@')).toMatch(/^[0-9a-f]{8}$/);
+  });
+});
+
+describe('deriveTenantGatewayToken', () => {
+  it('returns undefined without MOLTBOT_GATEWAY_TOKEN', async () => {
+    expect(await deriveTenantGatewayToken(createMockEnv(), 'alice')).toBeUndefined();
+  });
+
+  it('derives different tokens per tenant', async () => {
+    const env = createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'master' });
+    const alice = await deriveTenantGatewayToken(env, 'alice');
+    const bob = await deriveTenantGatewayToken(env, 'bob');
+    expect(alice).toMatch(/^[0-9a-f]{64}$/);
+    expect(alice).not.toBe(bob);
+    expect(alice).not.toBe('master');
+  });
+
+  it('changes when the master token changes', async () => {
+    const a = await deriveTenantGatewayToken(createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'one' }), 'alice');
+    const b = await deriveTenantGatewayToken(createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'two' }), 'alice');
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('resolveTenant', () => {
+  it('returns the shared tenant in shared mode', async () => {
+    const tenant = await resolveTenant(createMockEnv(), { email: 'alice@example.com' });
+    expect(tenant).toBe(SHARED_TENANT);
+    expect(tenant.sandboxId).toBe('openclaw');
+  });
+
+  it('returns a per-user tenant keyed by email', async () => {
+    const env = createMockEnv({ TENANCY_MODE: 'per-user', MOLTBOT_GATEWAY_TOKEN: 'master' });
+    const tenant = await resolveTenant(env, { email: 'alice@example.com', sub: 'sub-1' });
+    const id = await deriveTenantId('alice@example.com');
+
+    expect(tenant.id).toBe(id);
+    expect(tenant.sandboxId).toBe(`openclaw-${id}`);
+    expect(tenant.r2Prefix).toBe(`/tenants/${id}`);
+    expect(tenant.gatewayToken).toBe(await deriveTenantGatewayToken(env, id));
+    expect(tenant.email).toBe('alice@example.com');
+  });
+
+  it('uses the sub claim when TENANT_ID_CLAIM is "sub"', async () => {
+    const env = createMockEnv({ TENANCY_MODE: 'per-user', TENANT_ID_CLAIM: 'sub' });
+    const tenant = await resolveTenant(env, { email: 'alice@example.com', sub: 'sub-1' });
+    expect(tenant.id).toBe(await deriveTenantId('sub-1'));
+  });
+
+  it('throws when the identity claim is missing', async () => {
+    const env = createMockEnv({ TENANCY_MODE: 'per-user', TENANT_ID_CLAIM: 'sub' });
+    await expect(resolveTenant(env, { email: 'alice@example.com' })).rejects.toThrow('"sub" claim');
+  });
+});
+
+describe('isTenantAdmin', () => {
+  it('returns true in dev mode', () => {
+    expect(isTenantAdmin(createMockEnv({ DEV_MODE: 'true' }))).toBe(true);
+  });
+
+  it('returns false when TENANT_ADMIN_EMAILS is unset', () => {
+    expect(isTenantAdmin(createMockEnv(), { email: 'alice@example.com' })).toBe(false);
+  });
+
+  it('matches listed emails case-insensitively', () => {
+    const env = createMockEnv({ TENANT_ADMIN_EMAILS: 'ops@example.com, Alice@Example.com' });
+    expect(isTenantAdmin(env, { email: 'alice@example.com' })).toBe(true);
+    expect(isTenantAdmin(env, { email: 'bob@example.com' })).toBe(false);
+  });
+});
+
+describe('buildSandboxOptions', () => {
+  it('keeps the container alive by default', () => {
+    expect(buildSandboxOptions(createMockEnv())).toEqual({ keepAlive: true });
+  });
+
+  it('uses SANDBOX_SLEEP_AFTER when set to a duration', () => {
+    expect(buildSandboxOptions(createMockEnv({ SANDBOX_SLEEP_AFTER: '10M' }))).toEqual({ sleepAfter: '10m' });
+  });
+});
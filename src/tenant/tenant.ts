@@ -0,0 +1,139 @@
+import type { SandboxOptions } from '@cloudflare/sandbox';
+import type { AccessUser, OpenClawEnv, Tenant } from '../types';
+import { SHARED_SANDBOX_ID } from '../config';
+
+/**
+ * Tenant used when TENANCY_MODE is not 'per-user': one sandbox for everyone,
+ * backed by the whole R2 bucket and MOLTBOT_GATEWAY_TOKEN.
+ */
+export const SHARED_TENANT: Tenant = {
+  id: 'shared',
+  sandboxId: SHARED_SANDBOX_ID,
+};
+
+/**
+ * Check if each Cloudflare Access user gets their own sandbox
+ */
+export function isPerUserTenancy(env: OpenClawEnv): boolean {
+  return env.TENANCY_MODE === 'per-user';
+}
+
+/**
+ * Check if a user may list tenants and act on tenants other than their own
+ */
+export function isTenantAdmin(env: OpenClawEnv, user?: AccessUser): boolean {
+  if (env.DEV_MODE === 'true') return true;
+  if (!user?.email) return false;
+
+  const admins = (env.TENANT_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(user.email.toLowerCase());
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Derive a stable, sandbox-safe tenant id from an Access identity.
+ *
+ * The readable slug makes ids recognisable in the admin UI; the hash suffix
+ * keeps identities that slugify the same way (e.g. `a.b@x` and `a-b@x`) apart.
+ *
+ * @param identity - Email address or `sub` claim
+ * @returns Lowercase id like `alice-example-com-1a2b3c4d`
+ */
+export async function deriveTenantId(identity: string): Promise<string> {
+  const normalized = identity.trim().toLowerCase();
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  const slug = normalized
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32)
+    .replace(/-+$/, '');
+  const hash = toHex(digest).slice(0, 8);
+  return slug ? `${slug}-${hash}` : hash;
+}
+
+/**
+ * Derive a tenant's gateway token from MOLTBOT_GATEWAY_TOKEN.
+ *
+ * Tokens are HMAC-SHA256(MOLTBOT_GATEWAY_TOKEN, tenantId), so they never need
+ * to be stored and rotating the master token rotates every tenant's token.
+ */
+export async function deriveTenantGatewayToken(env: OpenClawEnv, tenantId: string): Promise<string | undefined> {
+  if (!env.MOLTBOT_GATEWAY_TOKEN) return undefined;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(env.MOLTBOT_GATEWAY_TOKEN),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`tenant:${tenantId}`));
+  return toHex(signature);
+}
+
+/**
+ * Build the tenant for a known tenant id
+ *
+ * @param env - Worker environment bindings
+ * @param tenantId - Id from deriveTenantId() or the tenant registry
+ * @param email - Owner email, if known
+ */
+export async function buildTenant(env: OpenClawEnv, tenantId: string, email?: string): Promise<Tenant> {
+  return {
+    id: tenantId,
+    sandboxId: `${SHARED_SANDBOX_ID}-${tenantId}`,
+    r2Prefix: `/tenants/${tenantId}`,
+    gatewayToken: await deriveTenantGatewayToken(env, tenantId),
+    email,
+  };
+}
+
+/**
+ * Resolve the tenant for an authenticated Access user
+ *
+ * @param env - Worker environment bindings
+ * @param user - Authenticated Cloudflare Access user
+ * @returns SHARED_TENANT unless TENANCY_MODE is 'per-user'
+ * @throws Error if per-user tenancy is enabled and the user has no usable identity
+ */
+export async function resolveTenant(env: OpenClawEnv, user?: AccessUser): Promise<Tenant> {
+  if (!isPerUserTenancy(env)) return SHARED_TENANT;
+
+  const identity = env.TENANT_ID_CLAIM === 'sub' ? user?.sub : user?.email;
+  if (!identity) {
+    throw new Error(`Per-user tenancy requires the Access "${env.TENANT_ID_CLAIM === 'sub' ? 'sub' : 'email'}" claim`);
+  }
+
+  return buildTenant(env, await deriveTenantId(identity), user?.email);
+}
+
+/**
+ * Build sandbox options based on environment configuration.
+ *
+ * SANDBOX_SLEEP_AFTER controls how long the container stays alive after inactivity:
+ * - 'never' (default): Container stays alive indefinitely (recommended due to long cold starts)
+ * - Duration string: e.g., '10m', '1h', '30s' - container sleeps after this period of inactivity
+ *
+ * To reduce costs at the expense of cold start latency, set SANDBOX_SLEEP_AFTER to a duration:
+ *   npx wrangler secret put SANDBOX_SLEEP_AFTER
+ *   # Enter: 10m (or 1h, 30m, etc.)
+ */
+export function buildSandboxOptions(env: OpenClawEnv): SandboxOptions {
+  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
+
+  // 'never' means keep the container alive indefinitely
+  if (sleepAfter === 'never') {
+    return { keepAlive: true };
+  }
+
+  // Otherwise, use the specified duration
+  return { sleepAfter };
+}
@@ -11,6 +11,7 @@ import type { OpenClawEnv } from './types';
 export function createMockEnv(overrides: Partial<OpenClawEnv> = {}): OpenClawEnv {
   return {
     Sandbox: {} as any,
+    GATEWAY_COORDINATOR: {} as any,
     ASSETS: {} as any,
     MOLTBOT_BUCKET: {} as any,
     ...overrides,
@@ -81,6 +82,69 @@ export function createMockSandbox(options: {
   return { sandbox, mountBucketMock, startProcessMock, listProcessesMock, containerFetchMock };
 }
 
+/**
+ * Create an in-memory R2 bucket supporting get/put/head/delete/list
+ */
+export function createMockBucket(initial: Record<string, string> = {}): {
+  bucket: R2Bucket;
+  objects: Map<string, string>;
+} {
+  const objects = new Map<string, string>(Object.entries(initial));
+  const httpMetadata = new Map<string, Record<string, string>>();
+
+  const toObject = (key: string, value: string) => ({
+    key,
+    size: value.length,
+    uploaded: new Date(),
+    httpMetadata: httpMetadata.get(key) ?? {},
+    customMetadata: {},
+    get body() {
+      return new Response(value).body;
+    },
+    text: async () => value,
+    json: async () => JSON.parse(value),
+    arrayBuffer: async () => new TextEncoder().encode(value).buffer,
+  });
+
+  const bucket = {
+    get: vi.fn(async (key: string) => {
+      const value = objects.get(key);
+      return value === undefined ? null : toObject(key, value);
+    }),
+    head: vi.fn(async (key: string) => {
+      const value = objects.get(key);
+      return value === undefined ? null : toObject(key, value);
+    }),
+    put: vi.fn(async (key: string, value: string | ArrayBuffer | ArrayBufferView, options: R2PutOptions = {}) => {
+      const text = typeof value === 'string' ? value : new TextDecoder().decode(value);
+      objects.set(key, text);
+      httpMetadata.set(key, { ...(options.httpMetadata as Record<string, string> | undefined) });
+      return toObject(key, text);
+    }),
+    delete: vi.fn(async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) objects.delete(key);
+    }),
+    list: vi.fn(async (options: { prefix?: string; delimiter?: string } = {}) => {
+      const prefix = options.prefix || '';
+      const keys = [...objects.keys()].filter(k => k.startsWith(prefix)).sort();
+      const delimitedPrefixes = new Set<string>();
+      const direct: string[] = [];
+      for (const key of keys) {
+        const index = options.delimiter ? key.indexOf(options.delimiter, prefix.length) : -1;
+        if (index === -1) direct.push(key);
+        else delimitedPrefixes.add(key.slice(0, index + 1));
+      }
+      return {
+        objects: direct.map(k => toObject(k, objects.get(k)!)),
+        truncated: false,
+        delimitedPrefixes: [...delimitedPrefixes],
+      };
+    }),
+  } as unknown as R2Bucket;
+
+  return { bucket, objects };
+}
+
 /**
  * Suppress console output during tests
  */
@@ -89,3 +153,19 @@ export function suppressConsole() {
   vi.spyOn(console, 'error').mockImplementation(() => {});
   vi.spyOn(console, 'warn').mockImplementation(() => {});
 }
+
+/**
+ * Parse the JSON lines written by the logger (see src/logger) to the console
+ * spies set up by suppressConsole()
+ */
+export function getLogEntries(): Array<Record<string, unknown>> {
+  return [console.log, console.warn, console.error]
+    .flatMap(fn => vi.mocked(fn).mock.calls)
+    .flatMap(([line]) => {
+      try {
+        return [JSON.parse(String(line))];
+      } catch {
+        return [];
+      }
+    });
+}
@@ -1,10 +1,14 @@
 import type { Sandbox } from '@cloudflare/sandbox';
+import type { CdpGrant } from './cdp';
+import type { Logger } from './logger';
+import type { GatewayCoordinator } from './gateway/coordinator-object';
 
 /**
  * Environment bindings for the OpenClaw Worker
  */
 export interface OpenClawEnv {
   Sandbox: DurableObjectNamespace<Sandbox>;
+  GATEWAY_COORDINATOR: DurableObjectNamespace<GatewayCoordinator>; // Caches gateway state per sandbox
   ASSETS: Fetcher; // Assets binding for admin UI static files
   MOLTBOT_BUCKET: R2Bucket; // R2 bucket for persistent storage
   // AI Gateway configuration (preferred)
@@ -19,7 +23,9 @@ export interface OpenClawEnv {
   OPENCLAW_BIND_MODE?: string;
   DEV_MODE?: string; // Set to 'true' for local dev (skips CF Access auth + openclaw device pairing)
   DEBUG_ROUTES?: string; // Set to 'true' to enable /debug/* routes
+  LOG_LEVEL?: string; // 'debug', 'info' (default; 'debug' with DEV_MODE or DEBUG_ROUTES), 'warn' or 'error'
   SANDBOX_SLEEP_AFTER?: string; // How long before sandbox sleeps: 'never' (default), or duration like '10m', '1h'
+  WS_RESILIENT_PROXY?: string; // Set to 'true' to keep WebSocket clients connected while the gateway restarts
   TELEGRAM_BOT_TOKEN?: string;
   TELEGRAM_DM_POLICY?: string;
   DISCORD_BOT_TOKEN?: string;
@@ -33,10 +39,27 @@ export interface OpenClawEnv {
   R2_ACCESS_KEY_ID?: string;
   R2_SECRET_ACCESS_KEY?: string;
   CF_ACCOUNT_ID?: string; // Cloudflare account ID for R2 endpoint
+  SNAPSHOT_INTERVAL?: string; // How often the cron takes a snapshot: duration like '6h' (default), or 'off'
+  SNAPSHOT_RETENTION?: string; // Number of snapshots to keep (default 28)
   // Browser Rendering binding for CDP shim
   BROWSER?: Fetcher;
   CDP_SECRET?: string; // Shared secret for CDP endpoint authentication
   WORKER_URL?: string; // Public URL of the worker (for CDP endpoint)
+  CDP_ALLOWED_HOSTS?: string; // Comma-separated hostnames the browser may load (default: any)
+  CDP_BLOCKED_HOSTS?: string; // Comma-separated hostnames the browser may never load
+  CDP_ALLOWED_SCHEMES?: string; // Comma-separated URL schemes (default: http,https,about,data,blob)
+  CDP_ALLOW_PRIVATE_NETWORKS?: string; // 'true' to allow loopback/private/metadata addresses
+  CDP_POOL_IDLE_SECONDS?: string; // How long idle browser sessions are kept for reuse (default 60, 0 disables)
+  CDP_MAX_SESSION_SECONDS?: string; // Longest a CDP WebSocket session may stay open (default 3600, 0 disables)
+  CDP_IDLE_TIMEOUT_SECONDS?: string; // Close CDP sessions with no commands for this long (default 0 / off)
+  CDP_MAX_TARGETS?: string; // Most open pages per CDP session (default 10, 0 disables)
+  CDP_MAX_MESSAGE_BYTES?: string; // Largest CDP command accepted from a client (default 0 / off)
+  CDP_MAX_CONCURRENT_SESSIONS?: string; // Most CDP sessions with a browser at once (default 10, 0 disables)
+  CDP_MAX_SCREENSHOT_PIXELS?: string; // Largest screenshot clip or viewport, in device pixels (default 4096x4096, 0 disables)
+  // Multi-tenancy
+  TENANCY_MODE?: string; // 'shared' (default) or 'per-user' (one sandbox per Cloudflare Access user)
+  TENANT_ID_CLAIM?: string; // Access JWT claim used to identify tenants: 'email' (default) or 'sub'
+  TENANT_ADMIN_EMAILS?: string; // Comma-separated emails allowed to list and act on other tenants
 }
 
 /**
@@ -45,6 +68,18 @@ export interface OpenClawEnv {
 export interface AccessUser {
   email: string;
   name?: string;
+  sub?: string;
+}
+
+/**
+ * Tenant that owns a sandbox, its R2 backups and its gateway token
+ */
+export interface Tenant {
+  id: string;
+  sandboxId: string; // Durable Object id passed to getSandbox()
+  r2Prefix?: string; // Bucket prefix mounted at R2_MOUNT_PATH (unset = whole bucket)
+  gatewayToken?: string; // Per-tenant gateway token (unset = MOLTBOT_GATEWAY_TOKEN)
+  email?: string;
 }
 
 /**
@@ -54,7 +89,10 @@ export type AppEnv = {
   Bindings: OpenClawEnv;
   Variables: {
     sandbox: Sandbox;
+    tenant: Tenant;
     accessUser?: AccessUser;
+    cdpGrant?: CdpGrant; // Set by CDP auth on /cdp routes
+    logger: Logger; // Tagged with this request's id
   };
 };
 